@@ -0,0 +1,47 @@
+import { AppConfig } from '../types';
+
+// Keep a local .env file out of the tests
+jest.mock('dotenv', () => ({ config: jest.fn() }));
+
+const PROVIDER_VARIABLES = ['BLOCKCHAIN_PROVIDERS', 'BITCOIN_RPC_URL', 'ELECTRUM_URL'];
+
+function loadConfig(env: Record<string, string>): AppConfig {
+  for (const name of PROVIDER_VARIABLES) {
+    delete process.env[name];
+  }
+  Object.assign(process.env, env);
+
+  let config: AppConfig | undefined;
+  jest.isolateModules(() => {
+    config = jest.requireActual('../config').default;
+  });
+  return config as AppConfig;
+}
+
+describe('config', () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  it('uses the public explorers when no server of our own is set up', () => {
+    expect(loadConfig({}).blockchainProviders).toEqual(['mempool', 'blockstream', 'blockcypher']);
+  });
+
+  it('leaves the public explorers out when a Bitcoin Core node is set up', () => {
+    expect(loadConfig({ BITCOIN_RPC_URL: 'http://127.0.0.1:8332' }).blockchainProviders).toEqual(['bitcoincore']);
+  });
+
+  it('uses the Electrum server ahead of the node when both are set up', () => {
+    const config = loadConfig({ BITCOIN_RPC_URL: 'http://127.0.0.1:8332', ELECTRUM_URL: 'tcp://127.0.0.1:50001' });
+
+    expect(config.blockchainProviders).toEqual(['electrum', 'bitcoincore']);
+  });
+
+  it('uses public explorers next to a self-hosted server only when listed', () => {
+    const config = loadConfig({ ELECTRUM_URL: 'tcp://127.0.0.1:50001', BLOCKCHAIN_PROVIDERS: 'electrum, Mempool' });
+
+    expect(config.blockchainProviders).toEqual(['electrum', 'mempool']);
+  });
+});
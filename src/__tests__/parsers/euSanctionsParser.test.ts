@@ -0,0 +1,44 @@
+import { euSanctionsParser } from '../../parsers/euSanctionsParser';
+
+const EU_EXPORT = `<?xml version="1.0" encoding="UTF-8"?>
+<export xmlns="http://eu.europa.ec/fpi/fsd/export" generationDate="2024-03-01T10:00:00.000+01:00">
+  <sanctionEntity logicalId="13321" euReferenceNumber="EU.123.45">
+    <remark>Digital Currency Address - XBT bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4</remark>
+    <regulation programme="RUS" publicationDate="2022-03-15"/>
+    <regulation programme="RUS" publicationDate="2023-06-23"/>
+    <nameAlias wholeName="Garantex Europe OU"/>
+    <nameAlias wholeName="Garantex"/>
+    <identification identificationTypeCode="other" identificationTypeDescription="Digital currency address" number="1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa"/>
+  </sanctionEntity>
+  <sanctionEntity logicalId="13322">
+    <regulation programme="PRK" publicationDate="2017-08-05"/>
+    <nameAlias firstName="Kim" lastName="Example"/>
+  </sanctionEntity>
+  <sanctionEntity logicalId="13323">
+    <regulation programme="PRK" publicationDate="2017-08-05"/>
+  </sanctionEntity>
+</export>`;
+
+describe('EUSanctionsParser', () => {
+  it('parses sanction entities with their addresses, aliases and regimes', () => {
+    const [garantex, individual, ...rest] = euSanctionsParser.parse(EU_EXPORT);
+
+    expect(rest).toHaveLength(0);
+    expect(garantex).toEqual({
+      entityId: 'EU-13321',
+      name: 'Garantex Europe OU',
+      listSource: 'EU',
+      addresses: ['bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4', '1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa'],
+      aliases: ['Garantex'],
+      lastUpdated: '2023-06-23T00:00:00.000Z',
+      isActive: true,
+      regime: 'RUS',
+      designatedAt: '2022-03-15T00:00:00.000Z'
+    });
+    expect(individual).toMatchObject({ entityId: 'EU-13322', name: 'Kim Example', addresses: [], regime: 'PRK' });
+  });
+
+  it('rejects a file without the export root element', () => {
+    expect(() => euSanctionsParser.parse('<other/>')).toThrow(/missing <export> root element/);
+  });
+});
@@ -0,0 +1,57 @@
+import { ofsiSanctionsParser } from '../../parsers/ofsiSanctionsParser';
+
+const OFSI_CSV = [
+  'Last Updated,01/03/2024',
+  'Name 6,Name 1,Name 2,Name 3,Name 4,Name 5,Alias Type,Regime,Other Information,Listed On,Last Updated,Group ID',
+  'EXAMPLE EXCHANGE,,,,,,Primary name,Russia,"Digital Currency Address - XBT 1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa",20/04/2022,05/01/2023,15000',
+  'EXAMPLE EX,,,,,,AKA,Russia,"Digital Currency Address - ETH 0x098B716B8Aaf21512996dC57EB0615e2383E2f96",20/04/2022,10/02/2023,15000',
+  'SMITH,John,,,,,Primary name,Cyber,,01/02/2021,01/02/2021,15001'
+].join('\r\n');
+
+const OFSI_XML = `<?xml version="1.0" encoding="utf-8"?>
+<ArrayOfFinancialSanctionsTarget>
+  <FinancialSanctionsTarget>
+    <Name6>EXAMPLE EXCHANGE</Name6>
+    <AliasType>Primary name</AliasType>
+    <RegimeName>Russia</RegimeName>
+    <OtherInformation>Digital Currency Address - XBT 1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa</OtherInformation>
+    <DateListed>20/04/2022</DateListed>
+    <LastUpdated>05/01/2023</LastUpdated>
+    <GroupID>15000</GroupID>
+  </FinancialSanctionsTarget>
+</ArrayOfFinancialSanctionsTarget>`;
+
+describe('OFSISanctionsParser', () => {
+  it('groups CSV rows into one entity per OFSI group', () => {
+    const [exchange, individual, ...rest] = ofsiSanctionsParser.parse(OFSI_CSV);
+
+    expect(rest).toHaveLength(0);
+    expect(exchange).toEqual({
+      entityId: 'UK-15000',
+      name: 'EXAMPLE EXCHANGE',
+      listSource: 'UK_OFSI',
+      addresses: ['1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa', '0x098B716B8Aaf21512996dC57EB0615e2383E2f96'],
+      aliases: ['EXAMPLE EX'],
+      lastUpdated: '2023-02-10T00:00:00.000Z',
+      isActive: true,
+      regime: 'Russia',
+      designatedAt: '2022-04-20T00:00:00.000Z'
+    });
+    expect(individual).toMatchObject({ entityId: 'UK-15001', name: 'John SMITH', addresses: [], regime: 'Cyber' });
+  });
+
+  it('parses the XML export the same way', () => {
+    expect(ofsiSanctionsParser.parse(OFSI_XML)).toEqual([
+      expect.objectContaining({
+        entityId: 'UK-15000',
+        name: 'EXAMPLE EXCHANGE',
+        addresses: ['1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa'],
+        designatedAt: '2022-04-20T00:00:00.000Z'
+      })
+    ]);
+  });
+
+  it('rejects a CSV file without a header row', () => {
+    expect(() => ofsiSanctionsParser.parse('Last Updated,01/03/2024\nfoo,bar')).toThrow(/missing CSV header row/);
+  });
+});
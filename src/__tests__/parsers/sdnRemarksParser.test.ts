@@ -0,0 +1,53 @@
+import { parseSdnRemarks } from '../../parsers/sdnRemarksParser';
+
+describe('parseSdnRemarks', () => {
+  it('parses the identifying details of an individual', () => {
+    const remarks = 'DOB 25 Mar 1977; alt. DOB 1978; POB Moscow, Russia; nationality Russia; citizen Russia; ' +
+      'Gender Male; Email Address someone@example.com; Phone Number 79161234567; ' +
+      'Digital Currency Address - XBT 1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa; ' +
+      'Passport 1234567 (Russia) issued 01 Feb 2015 expires 01 Feb 2025.';
+
+    expect(parseSdnRemarks(remarks)).toEqual({
+      datesOfBirth: ['25 Mar 1977', '1978'],
+      placesOfBirth: ['Moscow, Russia'],
+      nationalities: ['Russia'],
+      citizenships: ['Russia'],
+      gender: 'Male',
+      emailAddresses: ['someone@example.com'],
+      phoneNumbers: ['79161234567'],
+      identifiers: [{
+        type: 'Passport',
+        number: '1234567',
+        country: 'Russia',
+        issuedAt: '2015-02-01T00:00:00.000Z',
+        expiresAt: '2025-02-01T00:00:00.000Z'
+      }]
+    });
+  });
+
+  it('parses the links, websites and registration numbers of an entity', () => {
+    const remarks = 'Website www.example.com; alt. Website example.net; ' +
+      'Secondary sanctions risk: Ukraine-/Russia-Related Sanctions Regulations, 31 CFR 589.201; ' +
+      'Linked To: EXAMPLE HOLDING LTD; Business Registration Number 1197746000000 (Russia); ' +
+      'Registration Number 5678 (Estonia)';
+
+    expect(parseSdnRemarks(remarks)).toEqual({
+      websites: ['www.example.com', 'example.net'],
+      secondarySanctionsRisks: ['Ukraine-/Russia-Related Sanctions Regulations, 31 CFR 589.201'],
+      linkedTo: ['EXAMPLE HOLDING LTD'],
+      identifiers: [
+        { type: 'Business Registration Number', number: '1197746000000', country: 'Russia' },
+        { type: 'Registration Number', number: '5678', country: 'Estonia' }
+      ]
+    });
+  });
+
+  it('drops repeated values', () => {
+    expect(parseSdnRemarks('nationality Iran; alt. nationality Iran')).toEqual({ nationalities: ['Iran'] });
+  });
+
+  it('returns null when no detail is recognized', () => {
+    expect(parseSdnRemarks(undefined)).toBeNull();
+    expect(parseSdnRemarks("a.k.a. 'EXAMPLE'; Digital Currency Address - ETH 0x098B716B8Aaf21512996dC57EB0615e2383E2f96")).toBeNull();
+  });
+});
@@ -0,0 +1,62 @@
+import { unSanctionsParser } from '../../parsers/unSanctionsParser';
+
+const UN_LIST = `<?xml version="1.0" encoding="UTF-8"?>
+<CONSOLIDATED_LIST dateGenerated="2024-03-01T00:00:00.000Z">
+  <INDIVIDUALS>
+    <INDIVIDUAL>
+      <DATAID>6908555</DATAID>
+      <FIRST_NAME>PARK</FIRST_NAME>
+      <SECOND_NAME>JIN HYOK</SECOND_NAME>
+      <UN_LIST_TYPE>DPRK</UN_LIST_TYPE>
+      <REFERENCE_NUMBER>KPi.077</REFERENCE_NUMBER>
+      <LISTED_ON>2018-09-06</LISTED_ON>
+      <COMMENTS1>Digital Currency Address - XBT 1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa</COMMENTS1>
+      <NAME_ORIGINAL_SCRIPT>박진혁</NAME_ORIGINAL_SCRIPT>
+      <LAST_DAY_UPDATED><VALUE>2020-01-15</VALUE><VALUE>2021-05-10</VALUE></LAST_DAY_UPDATED>
+      <INDIVIDUAL_ALIAS><QUALITY>Good</QUALITY><ALIAS_NAME>PAK JIN HEK</ALIAS_NAME></INDIVIDUAL_ALIAS>
+      <INDIVIDUAL_DOCUMENT>
+        <TYPE_OF_DOCUMENT>Virtual Currency Address</TYPE_OF_DOCUMENT>
+        <NUMBER>bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4</NUMBER>
+      </INDIVIDUAL_DOCUMENT>
+    </INDIVIDUAL>
+  </INDIVIDUALS>
+  <ENTITIES>
+    <ENTITY>
+      <DATAID>110406</DATAID>
+      <FIRST_NAME>KOREA MINING DEVELOPMENT TRADING CORPORATION</FIRST_NAME>
+      <UN_LIST_TYPE>DPRK</UN_LIST_TYPE>
+      <REFERENCE_NUMBER>KPe.001</REFERENCE_NUMBER>
+      <LISTED_ON>2009-04-24</LISTED_ON>
+      <ENTITY_ALIAS><ALIAS_NAME>KOMID</ALIAS_NAME></ENTITY_ALIAS>
+    </ENTITY>
+  </ENTITIES>
+</CONSOLIDATED_LIST>`;
+
+describe('UNSanctionsParser', () => {
+  it('parses individuals and entities with their addresses, aliases and list type', () => {
+    const [individual, entity, ...rest] = unSanctionsParser.parse(UN_LIST);
+
+    expect(rest).toHaveLength(0);
+    expect(individual).toEqual({
+      entityId: 'UN-KPi.077',
+      name: 'PARK JIN HYOK',
+      listSource: 'UN',
+      addresses: ['1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa', 'bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4'],
+      aliases: ['PAK JIN HEK', '박진혁'],
+      lastUpdated: '2021-05-10T00:00:00.000Z',
+      isActive: true,
+      regime: 'DPRK',
+      designatedAt: '2018-09-06T00:00:00.000Z'
+    });
+    expect(entity).toMatchObject({
+      entityId: 'UN-KPe.001',
+      name: 'KOREA MINING DEVELOPMENT TRADING CORPORATION',
+      aliases: ['KOMID'],
+      addresses: []
+    });
+  });
+
+  it('rejects a file without the consolidated list root element', () => {
+    expect(() => unSanctionsParser.parse('<export/>')).toThrow(/missing <CONSOLIDATED_LIST> root element/);
+  });
+});
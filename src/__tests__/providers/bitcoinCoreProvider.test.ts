@@ -0,0 +1,153 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { BitcoinCoreProvider } from '../../providers/bitcoinCoreProvider';
+import { ProviderRequestError } from '../../providers/blockchainProvider';
+
+type RpcHandler = (params: unknown[]) => { result?: unknown; error?: { code: number; message: string }; status?: number };
+
+const PREVIOUS_TXID = 'a'.repeat(64);
+const TXID = 'b'.repeat(64);
+const BLOCK_HASH = '0'.repeat(64);
+
+describe('BitcoinCoreProvider', () => {
+  let server: http.Server;
+  let handlers: Record<string, RpcHandler>;
+  let requests: Array<{ method: string; params: unknown[]; authorization: string | undefined }>;
+  let provider: BitcoinCoreProvider;
+
+  // Stub JSON-RPC server answering each method with its handler
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        const { id, method, params } = JSON.parse(body);
+        requests.push({ method, params, authorization: req.headers.authorization });
+        const handler = handlers[method];
+        const reply = handler ? handler(params) : { error: { code: -32601, message: 'Method not found' }, status: 404 };
+        res.writeHead(reply.status || (reply.error ? 500 : 200), { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ id, result: reply.result ?? null, error: reply.error || null }));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    handlers = {};
+    requests = [];
+    const { port } = server.address() as AddressInfo;
+    provider = new BitcoinCoreProvider({
+      url: `http://127.0.0.1:${port}`,
+      username: 'rpcuser',
+      password: 'rpcpass',
+      network: 'mainnet',
+      timeoutMs: 5000
+    }, null);
+  });
+
+  it('resolves spent outputs from previous transactions on nodes without prevout data', async () => {
+    handlers.getrawtransaction = ([txid]) => txid === TXID
+      ? {
+          result: {
+            txid: TXID,
+            size: 225,
+            vin: [{ txid: PREVIOUS_TXID, vout: 1 }],
+            vout: [{ value: 0.5, n: 0, scriptPubKey: { hex: '0014aa', address: 'bc1qrecipient' } }],
+            blockhash: BLOCK_HASH,
+            blocktime: 1700000000
+          }
+        }
+      : {
+          result: {
+            txid: PREVIOUS_TXID,
+            size: 200,
+            vin: [],
+            vout: [
+              { value: 1, n: 0, scriptPubKey: { hex: '0014bb', addresses: ['1Other'] } },
+              { value: 0.5001, n: 1, scriptPubKey: { hex: '0014cc', addresses: ['1Sender'] } }
+            ]
+          }
+        };
+    handlers.getblockheader = () => ({ result: { height: 800000 } });
+
+    const transaction = await provider.getTransaction(TXID, 'mainnet');
+
+    expect(transaction).toEqual({
+      txid: TXID,
+      blockHeight: 800000,
+      blockTime: 1700000000,
+      inputs: [{ txid: PREVIOUS_TXID, vout: 1, addresses: ['1Sender'], value: 50010000 }],
+      outputs: [{ addresses: ['bc1qrecipient'], value: 50000000, scriptPubKey: '0014aa' }],
+      fee: 10000,
+      size: 225
+    });
+    expect(requests[0]?.authorization).toBe(`Basic ${Buffer.from('rpcuser:rpcpass').toString('base64')}`);
+  });
+
+  it('uses the prevouts and fee reported by newer nodes and treats unconfirmed transactions as height 0', async () => {
+    handlers.getrawtransaction = () => ({
+      result: {
+        txid: TXID,
+        size: 140,
+        vin: [{ txid: PREVIOUS_TXID, vout: 0, prevout: { value: 0.002, scriptPubKey: { hex: '0014dd', address: 'bc1qsender' } } }],
+        vout: [{ value: 0.0019, n: 0, scriptPubKey: { hex: '0014ee', address: 'bc1qrecipient' } }],
+        fee: 0.0001
+      }
+    });
+
+    const transaction = await provider.getTransaction(TXID, 'mainnet');
+
+    expect(transaction.blockHeight).toBe(0);
+    expect(transaction.fee).toBe(10000);
+    expect(transaction.inputs[0]?.addresses).toEqual(['bc1qsender']);
+    expect(requests.map(request => request.method)).toEqual(['getrawtransaction']);
+  });
+
+  it('reports unknown transactions as rejected and other RPC errors as unavailable', async () => {
+    handlers.getrawtransaction = () => ({ error: { code: -5, message: 'No such mempool or blockchain transaction' } });
+    handlers.getblockcount = () => ({ error: { code: -28, message: 'Loading block index...' } });
+
+    await expect(provider.getTransaction(TXID, 'mainnet')).rejects.toMatchObject({
+      name: 'ProviderRequestError',
+      kind: 'REJECTED'
+    });
+    const error = await provider.getBlockHeight('mainnet').catch(caught => caught);
+    expect(error).toBeInstanceOf(ProviderRequestError);
+    expect(error).toMatchObject({ kind: 'UNAVAILABLE', message: expect.stringContaining('RPC error -28') });
+  });
+
+  it('finds address transactions by scanning the UTXO set when no indexer is configured', async () => {
+    handlers.scantxoutset = ([, descriptors]) => {
+      expect(descriptors).toEqual(['addr(bc1qaddress)']);
+      return {
+        result: {
+          success: true,
+          unspents: [
+            { txid: PREVIOUS_TXID, vout: 0, amount: 0.1, height: 100 },
+            { txid: TXID, vout: 0, amount: 0.2, height: 200 },
+            { txid: PREVIOUS_TXID, vout: 1, amount: 0.3, height: 100 }
+          ]
+        }
+      };
+    };
+
+    // Most recent first, each transaction once
+    await expect(provider.getAddressTransactionIds('bc1qaddress', 10, 'mainnet')).resolves.toEqual([TXID, PREVIOUS_TXID]);
+    await expect(provider.getAddressUtxos('bc1qaddress', 'mainnet')).resolves.toContainEqual({
+      txid: TXID,
+      vout: 0,
+      value: 20000000,
+      confirmed: true,
+      blockHeight: 200
+    });
+  });
+
+  it('refuses networks it is not configured for without calling the node', async () => {
+    await expect(provider.getBlockHeight('testnet')).rejects.toThrow('bitcoincore is not configured for testnet');
+    expect(requests).toEqual([]);
+  });
+});
@@ -0,0 +1,152 @@
+import net, { AddressInfo, Socket } from 'net';
+import { ElectrumProvider } from '../../providers/electrumProvider';
+import { ProviderRequestError } from '../../providers/blockchainProvider';
+
+// Returning null leaves the request unanswered
+type ElectrumHandler = (params: unknown[], socket: Socket) => { result?: unknown; error?: { code: number; message: string } } | null;
+
+const ADDRESS = '1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa';
+// Script hash of ADDRESS, as given in the Electrum protocol documentation
+const SCRIPT_HASH = '8b01df4e368ea28f8dc0423bcf7a4923e3a12d307c875e47a0cfbf90b5c39161';
+const CONFIRMED_TXID = 'a'.repeat(64);
+const RECENT_TXID = 'b'.repeat(64);
+const UNCONFIRMED_TXID = 'c'.repeat(64);
+
+describe('ElectrumProvider', () => {
+  let server: net.Server;
+  let sockets: Socket[];
+  let handlers: Record<string, ElectrumHandler>;
+  let requests: Array<{ method: string; params: unknown[] }>;
+  let fetchTransaction: jest.Mock;
+  let provider: ElectrumProvider;
+
+  // Stub Electrum server answering each newline-delimited request with its handler
+  beforeAll(async () => {
+    server = net.createServer(socket => {
+      sockets.push(socket);
+      let buffer = '';
+      socket.setEncoding('utf8');
+      socket.on('data', (chunk: string) => {
+        buffer += chunk;
+        let newline = buffer.indexOf('\n');
+        while (newline !== -1) {
+          const { id, method, params } = JSON.parse(buffer.slice(0, newline));
+          buffer = buffer.slice(newline + 1);
+          requests.push({ method, params });
+          const handler = handlers[method];
+          const reply = handler ? handler(params, socket) : { error: { code: -32601, message: `unknown method "${method}"` } };
+          if (reply) {
+            socket.write(`${JSON.stringify({ jsonrpc: '2.0', id, ...reply })}\n`);
+          }
+          newline = buffer.indexOf('\n');
+        }
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    sockets = [];
+    requests = [];
+    handlers = {
+      'server.version': () => ({ result: ['ElectrumX 1.16.0', '1.4'] }),
+      'blockchain.headers.subscribe': () => ({ result: { height: 900000, hex: '00' } }),
+      'blockchain.scripthash.subscribe': () => ({ result: 'status-1' }),
+      'blockchain.scripthash.get_history': () => ({
+        result: [
+          { tx_hash: CONFIRMED_TXID, height: 100 },
+          { tx_hash: UNCONFIRMED_TXID, height: 0 },
+          { tx_hash: RECENT_TXID, height: 200 }
+        ]
+      })
+    };
+    fetchTransaction = jest.fn();
+    const { port } = server.address() as AddressInfo;
+    provider = new ElectrumProvider({
+      url: `tcp://127.0.0.1:${port}`,
+      network: 'mainnet',
+      rejectUnauthorized: true,
+      timeoutMs: 5000
+    }, fetchTransaction);
+  });
+
+  afterEach(() => {
+    sockets.forEach(socket => socket.destroy());
+  });
+
+  it('lists the history of an address by script hash, unconfirmed and most recent first', async () => {
+    await expect(provider.getAddressTransactionIds(ADDRESS, 2, 'mainnet')).resolves.toEqual([UNCONFIRMED_TXID, RECENT_TXID]);
+
+    expect(requests).toEqual([
+      { method: 'server.version', params: ['sanction-detector', '1.4'] },
+      { method: 'blockchain.scripthash.subscribe', params: [SCRIPT_HASH] },
+      { method: 'blockchain.scripthash.get_history', params: [SCRIPT_HASH] }
+    ]);
+  });
+
+  it('reuses a subscribed history until the server reports that it changed', async () => {
+    await provider.getAddressTransactionIds(ADDRESS, 10, 'mainnet');
+    await provider.getAddressTransactionIds(ADDRESS, 10, 'mainnet');
+    expect(requests.filter(request => request.method === 'blockchain.scripthash.get_history')).toHaveLength(1);
+
+    sockets[0]?.write(`${JSON.stringify({ jsonrpc: '2.0', method: 'blockchain.scripthash.subscribe', params: [SCRIPT_HASH, 'status-2'] })}\n`);
+    // The answer to a later request arrives after the notification
+    await provider.getBlockHeight('mainnet');
+    await provider.getAddressTransactionIds(ADDRESS, 10, 'mainnet');
+
+    expect(requests.filter(request => request.method === 'blockchain.scripthash.get_history')).toHaveLength(2);
+  });
+
+  it('fetches the listed transactions through the other providers', async () => {
+    fetchTransaction.mockResolvedValueOnce({ txid: UNCONFIRMED_TXID }).mockRejectedValueOnce(new Error('HTTP 404'));
+
+    const error = await provider.getAddressTransactions(ADDRESS, 2, 'mainnet').catch(caught => caught);
+
+    expect(fetchTransaction).toHaveBeenCalledWith(UNCONFIRMED_TXID, 'mainnet');
+    expect(error).toBeInstanceOf(ProviderRequestError);
+    expect(error).toMatchObject({ kind: 'REJECTED', message: `Failed to fetch transaction ${RECENT_TXID}: HTTP 404` });
+  });
+
+  it('maps unspent outputs and the chain tip', async () => {
+    handlers['blockchain.scripthash.listunspent'] = () => ({
+      result: [
+        { tx_hash: CONFIRMED_TXID, tx_pos: 1, height: 100, value: 5000 },
+        { tx_hash: UNCONFIRMED_TXID, tx_pos: 0, height: 0, value: 1000 }
+      ]
+    });
+
+    await expect(provider.getAddressUtxos(ADDRESS, 'mainnet')).resolves.toEqual([
+      { txid: CONFIRMED_TXID, vout: 1, value: 5000, confirmed: true, blockHeight: 100 },
+      { txid: UNCONFIRMED_TXID, vout: 0, value: 1000, confirmed: false, blockHeight: 0 }
+    ]);
+    await expect(provider.getBlockHeight('mainnet')).resolves.toBe(900000);
+    expect(requests.filter(request => request.method === 'server.version')).toHaveLength(1);
+  });
+
+  it('reports server errors as rejected and a dropped connection as unavailable', async () => {
+    handlers['blockchain.scripthash.listunspent'] = () => ({ error: { code: 1, message: 'history too large' } });
+    await expect(provider.getAddressUtxos(ADDRESS, 'mainnet')).rejects.toMatchObject({
+      kind: 'REJECTED',
+      message: 'blockchain.scripthash.listunspent failed: history too large'
+    });
+
+    handlers['blockchain.headers.subscribe'] = (_params, socket) => {
+      socket.destroy();
+      return null;
+    };
+    await expect(provider.getBlockHeight('mainnet')).rejects.toMatchObject({
+      kind: 'UNAVAILABLE',
+      message: 'blockchain.headers.subscribe failed: Electrum connection closed'
+    });
+  });
+
+  it('rejects invalid addresses and unconfigured networks without calling the server', async () => {
+    await expect(provider.getAddressUtxos('not-an-address', 'mainnet')).rejects.toMatchObject({ kind: 'REJECTED' });
+    await expect(provider.getBlockHeight('testnet')).rejects.toThrow('electrum is not configured for testnet');
+    expect(requests).toEqual([]);
+  });
+});
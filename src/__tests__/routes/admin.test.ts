@@ -0,0 +1,67 @@
+import express from 'express';
+import request from 'supertest';
+import adminRouter from '../../routes/admin';
+import { sanctionsImportService } from '../../services/sanctionsImportService';
+
+jest.mock('../../config', () => ({
+  __esModule: true,
+  default: { logLevel: 'silent', adminApiKey: 'secret-key', sanctionsImportMaxSize: '1mb' }
+}));
+jest.mock('../../services/sanctionsImportService', () => ({
+  sanctionsImportService: { importSanctions: jest.fn() }
+}));
+
+const app = express();
+app.use((req, _res, next) => {
+  req.correlationId = 'test-correlation-id';
+  next();
+});
+app.use('/api/admin', adminRouter);
+
+describe('admin routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (sanctionsImportService.importSanctions as jest.Mock).mockResolvedValue({ dryRun: true, published: false });
+  });
+
+  describe('POST /sanctions/import', () => {
+    it('requires the admin key', async () => {
+      await request(app).post('/api/admin/sanctions/import').set('Content-Type', 'text/csv').send('csv').expect(401);
+      await request(app).post('/api/admin/sanctions/import')
+        .set('X-Admin-Key', 'wrong-key').set('Content-Type', 'text/csv').send('csv').expect(401);
+
+      expect(sanctionsImportService.importSanctions).not.toHaveBeenCalled();
+    });
+
+    it('runs a dry run unless confirmed, detecting the format from the content type', async () => {
+      const response = await request(app).post('/api/admin/sanctions/import')
+        .set('X-Admin-Key', 'secret-key').set('Content-Type', 'application/json').send('{"entities":[]}').expect(200);
+
+      expect(response.body.data).toEqual({ dryRun: true, published: false });
+      expect(sanctionsImportService.importSanctions).toHaveBeenCalledWith(
+        '{"entities":[]}',
+        { format: 'refined-json', confirm: false, allowInvalidAddresses: false },
+        'test-correlation-id'
+      );
+    });
+
+    it('passes the confirmation and an explicit format', async () => {
+      await request(app).post('/api/admin/sanctions/import')
+        .query({ format: 'csv', confirm: 'true', allowInvalidAddresses: 'true' })
+        .set('X-Admin-Key', 'secret-key').set('Content-Type', 'application/octet-stream').send('csv content').expect(200);
+
+      expect(sanctionsImportService.importSanctions).toHaveBeenCalledWith(
+        'csv content',
+        { format: 'csv', confirm: true, allowInvalidAddresses: true },
+        'test-correlation-id'
+      );
+    });
+
+    it('rejects an empty upload', async () => {
+      const response = await request(app).post('/api/admin/sanctions/import')
+        .set('X-Admin-Key', 'secret-key').set('Content-Type', 'text/csv').send('  ').expect(400);
+
+      expect(response.body.error.message).toBe('Request body must contain the sanctions file to import');
+    });
+  });
+});
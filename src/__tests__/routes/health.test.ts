@@ -0,0 +1,93 @@
+import express from 'express';
+import request from 'supertest';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import healthRouter from '../../routes/health';
+import config from '../../config';
+import { sanctionsInboxService } from '../../services/sanctionsInboxService';
+import { blockchainApiService } from '../../services/blockchainApiService';
+
+jest.mock('../../config', () => {
+  const os = jest.requireActual('os');
+  const path = jest.requireActual('path');
+  const root = path.join(os.tmpdir(), `health-route-test-${process.pid}`);
+  return {
+    __esModule: true,
+    default: {
+      logLevel: 'silent',
+      sanctionsDir: path.join(root, 'sanctions'),
+      riskAssessmentsDir: path.join(root, 'risk-assessments'),
+      auditLogsDir: path.join(root, 'audit-logs'),
+      configDir: path.join(root, 'config')
+    }
+  };
+});
+jest.mock('../../services/sanctionsInboxService', () => ({
+  sanctionsInboxService: {
+    hasUnresolvedFailure: jest.fn().mockReturnValue(false),
+    getStatus: jest.fn().mockReturnValue({ enabled: false })
+  }
+}));
+jest.mock('../../services/blockchainApiService', () => ({
+  blockchainApiService: {
+    hasAvailableProvider: jest.fn().mockReturnValue(true),
+    getProviderStatus: jest.fn().mockReturnValue([])
+  }
+}));
+jest.mock('../../services/transactionPathAnalysisService', () => ({
+  transactionPathAnalysisService: { getCacheStats: jest.fn().mockReturnValue({}) }
+}));
+
+const app = express();
+app.use((req, _res, next) => {
+  req.correlationId = 'test-correlation-id';
+  next();
+});
+app.use('/health', healthRouter);
+
+const dataRoot = path.dirname(config.sanctionsDir);
+
+describe('health routes', () => {
+  afterEach(async () => {
+    await fs.rm(dataRoot, { recursive: true, force: true });
+  });
+
+  it('reports healthy when the inbox is up to date and a blockchain provider is available', async () => {
+    const response = await request(app).get('/health').expect(200);
+
+    expect(response.body).toMatchObject({
+      success: true,
+      correlationId: 'test-correlation-id',
+      data: { status: 'healthy', services: { sanctionsInbox: { enabled: false } } }
+    });
+  });
+
+  it('reports degraded without failing when a sanctions refresh failed or no provider is available', async () => {
+    (sanctionsInboxService.hasUnresolvedFailure as jest.Mock).mockReturnValueOnce(true);
+    await request(app).get('/health').expect(200).expect(res => {
+      expect(res.body.data.status).toBe('degraded');
+    });
+
+    (blockchainApiService.hasAvailableProvider as jest.Mock).mockReturnValueOnce(false);
+    await request(app).get('/health').expect(200).expect(res => {
+      expect(res.body.data.status).toBe('degraded');
+    });
+  });
+
+  it('is not ready until every data directory exists', async () => {
+    await fs.mkdir(config.sanctionsDir, { recursive: true });
+
+    const notReady = await request(app).get('/health/ready').expect(503);
+    expect(notReady.body.error).toMatchObject({
+      code: 'NOT_READY',
+      details: { missingDirectories: [config.riskAssessmentsDir, config.auditLogsDir, config.configDir] }
+    });
+
+    for (const dir of [config.riskAssessmentsDir, config.auditLogsDir, config.configDir]) {
+      await fs.mkdir(dir, { recursive: true });
+    }
+    const ready = await request(app).get('/health/ready').expect(200);
+    expect(ready.body.data).toEqual({ status: 'ready' });
+  });
+});
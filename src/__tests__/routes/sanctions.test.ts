@@ -0,0 +1,91 @@
+import express from 'express';
+import request from 'supertest';
+import sanctionsRouter from '../../routes/sanctions';
+import { sanctionsDataService } from '../../services/sanctionsDataService';
+
+jest.mock('../../config', () => ({
+  __esModule: true,
+  default: { logLevel: 'silent' }
+}));
+jest.mock('../../services/sanctionsDataService', () => ({
+  sanctionsDataService: {
+    searchSanctionsByName: jest.fn(),
+    getEntityById: jest.fn(),
+    listEntities: jest.fn()
+  }
+}));
+jest.mock('../../services/sanctionsHistoryService', () => ({
+  sanctionsHistoryService: {}
+}));
+
+const app = express();
+app.use(express.json());
+app.use((req, _res, next) => {
+  req.correlationId = 'test-correlation-id';
+  next();
+});
+app.use('/api/sanctions', sanctionsRouter);
+
+describe('sanctions routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('GET /search', () => {
+    it('searches names with the default limit and minimum score', async () => {
+      const hit = { entityId: '2001', name: 'SEMENOV, Roman', matchedField: 'name', score: 100 };
+      (sanctionsDataService.searchSanctionsByName as jest.Mock).mockResolvedValue([hit]);
+
+      const response = await request(app).get('/api/sanctions/search').query({ q: ' Roman Semenov ' }).expect(200);
+
+      expect(response.body.data).toEqual({ query: 'Roman Semenov', total: 1, results: [hit] });
+      expect(sanctionsDataService.searchSanctionsByName).toHaveBeenCalledWith('Roman Semenov', 20, 70);
+    });
+
+    it.each([
+      [{}, /"q" is required/],
+      [{ q: 'R' }, /"q" length must be at least 2/],
+      [{ q: 'Roman', minScore: 101 }, /"minScore" must be less than or equal to 100/]
+    ])('rejects the query %j', async (query, message) => {
+      const response = await request(app).get('/api/sanctions/search').query(query).expect(400);
+
+      expect(response.body.error.message).toMatch(message);
+      expect(sanctionsDataService.searchSanctionsByName).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /entities', () => {
+    it('passes the filters with the default page', async () => {
+      const page = { items: [], pagination: { page: 1, pageSize: 50, total: 0, totalPages: 0 } };
+      (sanctionsDataService.listEntities as jest.Mock).mockResolvedValue(page);
+
+      const response = await request(app).get('/api/sanctions/entities').query({ program: 'CYBER2', active: 'true' }).expect(200);
+
+      expect(response.body.data).toEqual(page);
+      expect(sanctionsDataService.listEntities).toHaveBeenCalledWith({ program: 'CYBER2', active: true, page: 1, pageSize: 50 });
+    });
+
+    it('rejects a page size over the maximum', async () => {
+      await request(app).get('/api/sanctions/entities').query({ pageSize: 500 }).expect(400);
+      expect(sanctionsDataService.listEntities).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /entities/:entityId', () => {
+    it('returns the entity', async () => {
+      (sanctionsDataService.getEntityById as jest.Mock).mockResolvedValue({ entityId: '1001', name: 'Example Exchange' });
+
+      const response = await request(app).get('/api/sanctions/entities/1001').expect(200);
+
+      expect(response.body.data).toEqual({ entityId: '1001', name: 'Example Exchange' });
+    });
+
+    it('returns 404 for an unknown entity', async () => {
+      (sanctionsDataService.getEntityById as jest.Mock).mockResolvedValue(null);
+
+      const response = await request(app).get('/api/sanctions/entities/9999').expect(404);
+
+      expect(response.body.error.message).toBe('Sanctioned entity not found: 9999');
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import express from 'express';
+import request from 'supertest';
+import screeningRouter from '../../routes/screening';
+import { addressScreeningService } from '../../services/addressScreeningService';
+import { transactionScreeningService } from '../../services/transactionScreeningService';
+import { ExternalApiError } from '../../types';
+
+jest.mock('../../config', () => ({
+  __esModule: true,
+  default: { logLevel: 'silent', defaultMaxHops: 3 }
+}));
+jest.mock('../../services/addressScreeningService', () => ({
+  addressScreeningService: {
+    screenAddress: jest.fn(),
+    screenAddressesBatch: jest.fn()
+  }
+}));
+jest.mock('../../services/transactionScreeningService', () => ({
+  transactionScreeningService: {
+    screenTransaction: jest.fn(),
+    screenTransactionsBatch: jest.fn()
+  }
+}));
+
+const ADDRESS = '1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa';
+const TX_HASH = '4a5e1e4baab89f3a32518a88c31bc87f618f76673e2cc77ab2127b7afdeda33b';
+
+const app = express();
+app.use(express.json());
+app.use((req, _res, next) => {
+  req.correlationId = 'test-correlation-id';
+  next();
+});
+app.use('/api/screening', screeningRouter);
+
+describe('screening routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('POST /address', () => {
+    it('screens a valid address with the default number of hops', async () => {
+      (addressScreeningService.screenAddress as jest.Mock).mockResolvedValue({ address: ADDRESS, riskLevel: 'LOW' });
+
+      const response = await request(app).post('/api/screening/address').send({ address: ADDRESS }).expect(200);
+
+      expect(response.body).toMatchObject({
+        success: true,
+        data: { address: ADDRESS, riskLevel: 'LOW' },
+        correlationId: 'test-correlation-id'
+      });
+      expect(addressScreeningService.screenAddress).toHaveBeenCalledWith(
+        ADDRESS, false, 3, 'test-correlation-id', undefined, 'mainnet', undefined
+      );
+    });
+
+    it.each([
+      [{}, 'Address is required'],
+      [{ address: ADDRESS, asset: 'DOGE' }, 'Unsupported asset: DOGE'],
+      [{ address: ADDRESS, network: 'regtest' }, 'Unsupported network: regtest'],
+      [{ address: '0x098B716B8Aaf21512996dC57EB0615e2383E2f96', includeTransactionAnalysis: true },
+        'Transaction analysis is only available for Bitcoin addresses'],
+      [{ address: ADDRESS, maxHops: 11 }, 'maxHops must be between 1 and 10'],
+      [{ address: ADDRESS, asOf: 'not-a-date' }, 'asOf must be an ISO 8601 date']
+    ])('rejects %j', async (body, message) => {
+      const response = await request(app).post('/api/screening/address').send(body).expect(400);
+
+      expect(response.body.error).toMatchObject({ code: 'VALIDATION_ERROR', message });
+      expect(addressScreeningService.screenAddress).not.toHaveBeenCalled();
+    });
+
+    it('hides unexpected failures behind a generic error', async () => {
+      (addressScreeningService.screenAddress as jest.Mock).mockRejectedValue(new Error('disk full'));
+
+      const response = await request(app).post('/api/screening/address').send({ address: ADDRESS }).expect(500);
+
+      expect(response.body.error).toEqual({ code: 'SCREENING_FAILED', message: 'Address screening failed' });
+    });
+  });
+
+  describe('POST /transaction', () => {
+    it('rejects an invalid transaction hash', async () => {
+      const response = await request(app).post('/api/screening/transaction').send({ txHash: 'abc' }).expect(400);
+
+      expect(response.body.error.message).toBe('Invalid transaction hash format');
+    });
+
+    it('reports blockchain API failures as a bad gateway', async () => {
+      (transactionScreeningService.screenTransaction as jest.Mock)
+        .mockRejectedValue(new ExternalApiError('No blockchain provider available'));
+
+      const response = await request(app).post('/api/screening/transaction').send({ txHash: TX_HASH }).expect(502);
+
+      expect(response.body.error).toMatchObject({ code: 'EXTERNAL_API_ERROR', message: 'No blockchain provider available' });
+      expect(transactionScreeningService.screenTransaction).toHaveBeenCalledWith(
+        TX_HASH, 'both', false, 'test-correlation-id', 'mainnet', undefined
+      );
+    });
+  });
+
+  describe('POST /bulk', () => {
+    it('screens addresses and transactions and counts the high risk items', async () => {
+      (addressScreeningService.screenAddressesBatch as jest.Mock).mockResolvedValue([{ address: ADDRESS, riskLevel: 'CRITICAL' }]);
+      (transactionScreeningService.screenTransactionsBatch as jest.Mock).mockResolvedValue([{ txHash: TX_HASH, riskLevel: 'LOW' }]);
+
+      const response = await request(app)
+        .post('/api/screening/bulk')
+        .send({ addresses: [ADDRESS], transactions: [TX_HASH] })
+        .expect(200);
+
+      expect(response.body.data.summary).toEqual({
+        totalAddresses: 1,
+        totalTransactions: 1,
+        processedAddresses: 1,
+        processedTransactions: 1,
+        highRiskItems: 1
+      });
+    });
+
+    it('lists the invalid addresses of a bulk request', async () => {
+      const response = await request(app)
+        .post('/api/screening/bulk')
+        .send({ addresses: [ADDRESS, 'not-an-address'] })
+        .expect(400);
+
+      expect(response.body.error.details.invalidAddresses).toEqual(['not-an-address']);
+      expect(addressScreeningService.screenAddressesBatch).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { SDNCryptoExtractor } from '../../scripts/extractCryptoFromSDN';
+
+const XBT_ADDRESS = '1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa';
+const USDT_ADDRESS = '0x098B716B8Aaf21512996dC57EB0615e2383E2f96';
+
+const SDN_ADVANCED_XML = `<?xml version="1.0" encoding="utf-8"?>
+<Sanctions xmlns="https://sanctionslistservice.ofac.treas.gov/api/PublicationPreview/exports/ADVANCED_XML">
+  <DateOfIssue><Year>2024</Year><Month>3</Month><Day>1</Day></DateOfIssue>
+  <ReferenceValueSets>
+    <FeatureTypeValues>
+      <FeatureType ID="345">Digital Currency Address - XBT</FeatureType>
+      <FeatureType ID="887">Digital Currency Address - USDT</FeatureType>
+      <FeatureType ID="10">Nationality Country</FeatureType>
+    </FeatureTypeValues>
+    <SanctionsProgramValues>
+      <SanctionsProgram ID="1">CYBER2</SanctionsProgram>
+    </SanctionsProgramValues>
+    <NamePartTypeValues>
+      <NamePartType ID="1520">Last Name</NamePartType>
+      <NamePartType ID="1521">First Name</NamePartType>
+    </NamePartTypeValues>
+    <PartyTypeValues>
+      <PartyType ID="1">Individual</PartyType>
+    </PartyTypeValues>
+    <PartySubTypeValues>
+      <PartySubType ID="4" PartyTypeID="1">Unknown</PartySubType>
+    </PartySubTypeValues>
+  </ReferenceValueSets>
+  <DistinctParties>
+    <DistinctParty FixedRef="36216">
+      <Profile ID="36216" PartySubTypeID="4">
+        <Identity ID="1">
+          <Alias Primary="true">
+            <DocumentedName>
+              <DocumentedNamePart><NamePartValue NamePartGroupID="11">DOE</NamePartValue></DocumentedNamePart>
+              <DocumentedNamePart><NamePartValue NamePartGroupID="12">John</NamePartValue></DocumentedNamePart>
+            </DocumentedName>
+          </Alias>
+          <Alias Primary="false">
+            <DocumentedName>
+              <DocumentedNamePart><NamePartValue NamePartGroupID="12">Johnny</NamePartValue></DocumentedNamePart>
+            </DocumentedName>
+          </Alias>
+          <NamePartGroups>
+            <MasterNamePartGroup>
+              <NamePartGroup ID="11" NamePartTypeID="1520"/>
+              <NamePartGroup ID="12" NamePartTypeID="1521"/>
+            </MasterNamePartGroup>
+          </NamePartGroups>
+        </Identity>
+        <Feature ID="1" FeatureTypeID="345">
+          <FeatureVersion ID="1"><VersionDetail ID="1" DetailTypeID="1432">${XBT_ADDRESS}</VersionDetail></FeatureVersion>
+        </Feature>
+        <Feature ID="2" FeatureTypeID="887">
+          <FeatureVersion ID="2"><VersionDetail ID="2" DetailTypeID="1432">${USDT_ADDRESS}</VersionDetail></FeatureVersion>
+        </Feature>
+        <Feature ID="3" FeatureTypeID="10">
+          <FeatureVersion ID="3"><VersionDetail ID="3" DetailTypeID="1432">Russia</VersionDetail></FeatureVersion>
+        </Feature>
+      </Profile>
+    </DistinctParty>
+    <DistinctParty FixedRef="100">
+      <Profile ID="100" PartySubTypeID="4">
+        <Feature ID="4" FeatureTypeID="10">
+          <FeatureVersion ID="4"><VersionDetail ID="4" DetailTypeID="1432">Iran</VersionDetail></FeatureVersion>
+        </Feature>
+      </Profile>
+    </DistinctParty>
+  </DistinctParties>
+  <SanctionsEntries>
+    <SanctionsEntry ID="1" ProfileID="36216" ListID="1550">
+      <EntryEvent ID="1"><Date><Year>2018</Year><Month>11</Month><Day>28</Day></Date></EntryEvent>
+      <SanctionsMeasure ID="1"><Comment>CYBER2</Comment></SanctionsMeasure>
+      <SanctionsMeasure ID="2"><Comment>Block</Comment></SanctionsMeasure>
+    </SanctionsEntry>
+  </SanctionsEntries>
+</Sanctions>`;
+
+describe('SDNCryptoExtractor', () => {
+  describe('advanced XML', () => {
+    it('extracts one entry per listed address with names, programs and designation date', () => {
+      const extractor = new SDNCryptoExtractor('sdn_advanced.xml', os.tmpdir());
+      const data = extractor.processContent(SDN_ADVANCED_XML);
+
+      expect(data.metadata).toMatchObject({
+        source: 'OFAC SDN Advanced XML',
+        lastUpdated: '2024-03-01T00:00:00.000Z',
+        totalEntities: 2,
+        cryptocurrencies: { XBT: 1, USDT: 1 }
+      });
+      expect(data.entities.map(entry => [entry.cryptocurrency, entry.address])).toEqual([
+        ['XBT', XBT_ADDRESS],
+        ['USDT', USDT_ADDRESS]
+      ]);
+      expect(data.entities[0]).toMatchObject({
+        entityId: '36216',
+        entityName: 'DOE, John',
+        entityType: 'individual',
+        program: 'CYBER2',
+        programs: ['CYBER2'],
+        featureType: 'Digital Currency Address - XBT',
+        publishDate: '2018-11-28T00:00:00.000Z',
+        isActive: true
+      });
+      // Remarks are rebuilt in the SDN CSV style so aliases stay extractable
+      expect(data.entities[0]?.remarks).toContain(`Digital Currency Address - XBT ${XBT_ADDRESS}`);
+      expect(data.entities[0]?.remarks).toContain("a.k.a. 'Johnny'");
+    });
+
+    it('rejects a file without the Sanctions root element', () => {
+      const extractor = new SDNCryptoExtractor('sdn_advanced.xml', os.tmpdir());
+      expect(() => extractor.processContent('<Other/>')).toThrow(/missing <Sanctions> root element/);
+    });
+  });
+
+  describe('output', () => {
+    let workDir: string;
+
+    beforeEach(async () => {
+      workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sdn-extract-test-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(workDir, { recursive: true, force: true });
+    });
+
+    it('writes the refined data file loaded by the service, without leaving temporary files', async () => {
+      const inputFile = path.join(workDir, 'sdn_advanced.xml');
+      const outputDir = path.join(workDir, 'refined_data');
+      await fs.writeFile(inputFile, SDN_ADVANCED_XML, 'utf-8');
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+      await new SDNCryptoExtractor(inputFile, outputDir).extractCryptoData();
+
+      const files = await fs.readdir(outputDir);
+      expect(files).toEqual(expect.arrayContaining(['ofac-crypto-addresses.json', 'ofac-xbt.json', 'extraction-stats.json']));
+      expect(files.filter(file => file.endsWith('.tmp'))).toEqual([]);
+
+      const written = JSON.parse(await fs.readFile(path.join(outputDir, 'ofac-crypto-addresses.json'), 'utf-8'));
+      expect(written.entities).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,219 @@
+import { SanctionEntity } from '../../types';
+import { addressScreeningService } from '../../services/addressScreeningService';
+import { sanctionsDataService } from '../../services/sanctionsDataService';
+import { auditLogService } from '../../services/auditLogService';
+import { transactionPathAnalysisService } from '../../services/transactionPathAnalysisService';
+import { watchlistService } from '../../services/watchlistService';
+import { allowlistService } from '../../services/allowlistService';
+
+jest.mock('../../services/sanctionsDataService', () => ({
+  sanctionsDataService: {
+    findSanctionsByAddress: jest.fn(),
+    getDesignationPeriod: jest.fn().mockReturnValue(null)
+  }
+}));
+jest.mock('../../services/watchlistService', () => ({
+  watchlistService: { findSanctionsByAddress: jest.fn().mockResolvedValue([]) }
+}));
+jest.mock('../../services/allowlistService', () => ({
+  allowlistService: { findApplicableEntry: jest.fn().mockResolvedValue(null), toSuppression: jest.fn() }
+}));
+jest.mock('../../services/programRiskService', () => ({
+  programRiskService: { resolveRisk: jest.fn().mockResolvedValue({ weight: 15 }) }
+}));
+jest.mock('../../services/geographicRiskService', () => ({
+  geographicRiskService: { assess: jest.fn().mockResolvedValue({ score: 0, jurisdictions: [] }) }
+}));
+jest.mock('../../services/auditLogService', () => ({
+  auditLogService: { logAddressScreening: jest.fn().mockResolvedValue(undefined) }
+}));
+jest.mock('../../services/transactionPathAnalysisService', () => ({
+  transactionPathAnalysisService: { analyzeTransactionPath: jest.fn() }
+}));
+
+const USDT_ADDRESS = '0x098B716B8Aaf21512996dC57EB0615e2383E2f96';
+const XBT_ADDRESS = '1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa';
+
+const entity: SanctionEntity = {
+  entityId: 'OFAC-12345',
+  name: 'Example Exchange',
+  listSource: 'OFAC',
+  addresses: [USDT_ADDRESS, XBT_ADDRESS],
+  addressesByCurrency: {
+    USDT: [USDT_ADDRESS],
+    XBT: [XBT_ADDRESS]
+  },
+  aliases: [],
+  lastUpdated: '2024-01-01T00:00:00.000Z',
+  isActive: true
+};
+
+describe('AddressScreeningService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (sanctionsDataService.findSanctionsByAddress as jest.Mock).mockResolvedValue([entity]);
+  });
+
+  it('matches an address listed under a currency that is not a screened asset', async () => {
+    const result = await addressScreeningService.screenAddress(USDT_ADDRESS);
+
+    expect(result.assets).toEqual(expect.arrayContaining(['ETH', 'ETC']));
+    expect(result.sanctionMatches).toHaveLength(1);
+    expect(result.sanctionMatches[0]).toMatchObject({
+      entityId: 'OFAC-12345',
+      matchType: 'DIRECT',
+      listedCurrencies: ['USDT']
+    });
+    expect(result.sanctionMatches[0]?.asset).toBeUndefined();
+    expect(result.addressValidation).toBe('FORMAT_ONLY');
+    expect(result.riskLevel).not.toBe('LOW');
+  });
+
+  it('matches an address listed under another asset than the one requested', async () => {
+    const result = await addressScreeningService.screenAddress(USDT_ADDRESS, false, 5, undefined, 'ETC');
+
+    expect(result.sanctionMatches).toHaveLength(1);
+    expect(result.sanctionMatches[0]?.listedCurrencies).toEqual(['USDT']);
+  });
+
+  it('reports the asset an address is listed under', async () => {
+    const result = await addressScreeningService.screenAddress(XBT_ADDRESS);
+
+    expect(result.sanctionMatches).toHaveLength(1);
+    expect(result.sanctionMatches[0]?.asset).toBe('XBT');
+    expect(result.addressValidation).toBe('CHECKSUM');
+    expect(result.sanctionMatches[0]?.listedCurrencies).toBeUndefined();
+  });
+
+  it('reports the identifying details parsed from the remarks with each match', async () => {
+    const details = { nationalities: ['Russia'], websites: ['www.example.com'] };
+    (sanctionsDataService.findSanctionsByAddress as jest.Mock).mockResolvedValue([{ ...entity, details }]);
+
+    const result = await addressScreeningService.screenAddress(XBT_ADDRESS);
+
+    expect(result.sanctionMatches[0]?.entityDetails).toEqual(details);
+  });
+
+  it('marks a match whose designation date was estimated', async () => {
+    (sanctionsDataService.getDesignationPeriod as jest.Mock)
+      .mockReturnValueOnce({ designatedAt: '2025-06-30T00:00:00.000Z', estimated: true });
+
+    const result = await addressScreeningService.screenAddress(XBT_ADDRESS, false, 5, undefined, 'XBT', 'mainnet', '2020-01-01T00:00:00.000Z');
+
+    expect(sanctionsDataService.findSanctionsByAddress).toHaveBeenCalledWith(XBT_ADDRESS, '2020-01-01T00:00:00.000Z');
+    expect(result.sanctionMatches[0]).toMatchObject({ designatedAt: '2025-06-30T00:00:00.000Z', estimated: true });
+    expect(result.riskLevel).not.toBe('LOW');
+  });
+
+  it('suppresses a reviewed direct match and reports the suppression', async () => {
+    const euEntity: SanctionEntity = { ...entity, entityId: 'EU-1', listSource: 'EU' };
+    (sanctionsDataService.findSanctionsByAddress as jest.Mock).mockResolvedValue([euEntity]);
+    (allowlistService.findApplicableEntry as jest.Mock).mockResolvedValueOnce({ id: 'entry-1' });
+    (allowlistService.toSuppression as jest.Mock).mockReturnValueOnce({ allowlistEntryId: 'entry-1', action: 'SUPPRESSED' });
+
+    const result = await addressScreeningService.screenAddress(XBT_ADDRESS);
+
+    expect(allowlistService.findApplicableEntry).toHaveBeenCalledWith(XBT_ADDRESS, 'DIRECT', ['EU-1']);
+    expect(result.sanctionMatches).toEqual([]);
+    expect(result.suppressedMatches).toEqual([{ allowlistEntryId: 'entry-1', action: 'SUPPRESSED' }]);
+  });
+
+  it('never suppresses a direct OFAC match', async () => {
+    (allowlistService.findApplicableEntry as jest.Mock).mockResolvedValueOnce({ id: 'entry-1' });
+
+    const result = await addressScreeningService.screenAddress(XBT_ADDRESS);
+
+    expect(result.sanctionMatches.map(match => match.entityId)).toEqual(['OFAC-12345']);
+    expect(result.suppressedMatches).toBeUndefined();
+    expect(result.riskLevel).not.toBe('LOW');
+  });
+
+  it('keeps sanctions matches and flags the result when the watchlists cannot be read', async () => {
+    (watchlistService.findSanctionsByAddress as jest.Mock).mockRejectedValueOnce(new Error('EACCES'));
+
+    const result = await addressScreeningService.screenAddress(XBT_ADDRESS);
+
+    expect(result.sanctionMatches.map(match => match.entityId)).toEqual(['OFAC-12345']);
+    expect(result.degradedChecks).toEqual(['INTERNAL_WATCHLIST']);
+  });
+
+  it('never rates an address LOW when the watchlist check failed', async () => {
+    (sanctionsDataService.findSanctionsByAddress as jest.Mock).mockResolvedValue([]);
+    (watchlistService.findSanctionsByAddress as jest.Mock).mockRejectedValueOnce(new Error('EACCES'));
+
+    const result = await addressScreeningService.assessDirectRisk(XBT_ADDRESS);
+
+    expect(result.riskScore).toBe(0);
+    expect(result.riskLevel).toBe('MEDIUM');
+    expect(result.degradedChecks).toEqual(['INTERNAL_WATCHLIST']);
+  });
+
+  it('never rates an address LOW when part of the transaction path could not be fetched', async () => {
+    (sanctionsDataService.findSanctionsByAddress as jest.Mock).mockResolvedValue([]);
+    (transactionPathAnalysisService.analyzeTransactionPath as jest.Mock).mockResolvedValue({
+      targetAddress: XBT_ADDRESS,
+      network: 'mainnet',
+      maxHops: 5,
+      pathNodes: [],
+      totalNodesAnalyzed: 1,
+      sanctionedNodesFound: 0,
+      riskPropagation: 0,
+      complete: false,
+      skippedLookups: [{ hop: 1, address: XBT_ADDRESS, error: 'rate limited' }]
+    });
+
+    const result = await addressScreeningService.screenAddress(XBT_ADDRESS, true);
+
+    expect(result.riskScore).toBe(0);
+    expect(result.riskLevel).toBe('MEDIUM');
+    expect(result.degradedChecks).toEqual(['TRANSACTION_PATH']);
+  });
+
+  it('never rates an address LOW when the requested transaction analysis failed', async () => {
+    (sanctionsDataService.findSanctionsByAddress as jest.Mock).mockResolvedValue([]);
+    (transactionPathAnalysisService.analyzeTransactionPath as jest.Mock).mockRejectedValue(new Error('No blockchain provider'));
+
+    const result = await addressScreeningService.screenAddress(XBT_ADDRESS, true);
+
+    expect(result.riskLevel).toBe('MEDIUM');
+    expect(result.degradedChecks).toEqual(['TRANSACTION_PATH']);
+  });
+
+  it('rates an address LOW after a complete analysis finds nothing', async () => {
+    (sanctionsDataService.findSanctionsByAddress as jest.Mock).mockResolvedValue([]);
+    (transactionPathAnalysisService.analyzeTransactionPath as jest.Mock).mockResolvedValue({
+      targetAddress: XBT_ADDRESS,
+      network: 'mainnet',
+      maxHops: 5,
+      pathNodes: [],
+      totalNodesAnalyzed: 1,
+      sanctionedNodesFound: 0,
+      riskPropagation: 0,
+      complete: true
+    });
+
+    const result = await addressScreeningService.screenAddress(XBT_ADDRESS, true);
+
+    expect(result.riskLevel).toBe('LOW');
+    expect(result.degradedChecks).toBeUndefined();
+  });
+
+  it('fails the screening when the sanctions lists cannot be searched', async () => {
+    (sanctionsDataService.findSanctionsByAddress as jest.Mock).mockRejectedValue(new Error('Sanctions data unavailable'));
+
+    await expect(addressScreeningService.screenAddress(XBT_ADDRESS)).rejects.toThrow('Sanctions data unavailable');
+    expect(auditLogService.logAddressScreening).toHaveBeenCalledWith(
+      XBT_ADDRESS, expect.anything(), expect.any(Number), undefined, false, 'Sanctions data unavailable'
+    );
+  });
+
+  it('assesses direct risk without transaction analysis or an audit log entry', async () => {
+    const result = await addressScreeningService.assessDirectRisk(XBT_ADDRESS);
+
+    expect(result.sanctionMatches).toHaveLength(1);
+    expect(result.riskFactors?.directSanctionMatch).toBeGreaterThan(0);
+    expect(result.riskFactors?.indirectExposure).toBe(0);
+    expect(transactionPathAnalysisService.analyzeTransactionPath).not.toHaveBeenCalled();
+    expect(auditLogService.logAddressScreening).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,81 @@
+import { promises as fs } from 'fs';
+import config from '../../config';
+import { AllowlistService } from '../../services/allowlistService';
+import { auditLogService } from '../../services/auditLogService';
+import { AllowlistRequest, DataNotFoundError } from '../../types';
+
+jest.mock('../../config', () => {
+  const os = jest.requireActual('os');
+  const path = jest.requireActual('path');
+  return {
+    __esModule: true,
+    default: { configDir: path.join(os.tmpdir(), `allowlist-test-${process.pid}`) }
+  };
+});
+jest.mock('../../services/auditLogService', () => ({
+  auditLogService: { logListChange: jest.fn().mockResolvedValue(undefined) }
+}));
+
+const HOT_WALLET = 'bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4';
+
+function request(overrides: Partial<AllowlistRequest> = {}): AllowlistRequest {
+  return {
+    address: HOT_WALLET,
+    scope: 'INDIRECT',
+    justification: 'Dust received by our hot wallet',
+    reviewer: 'compliance@example.com',
+    expiresAt: '2099-01-01T00:00:00.000Z',
+    ...overrides
+  };
+}
+
+describe('AllowlistService', () => {
+  let service: AllowlistService;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await fs.rm(config.configDir, { recursive: true, force: true });
+    service = new AllowlistService();
+  });
+
+  afterAll(async () => {
+    await fs.rm(config.configDir, { recursive: true, force: true });
+  });
+
+  it('stores entries and writes every change to the audit log', async () => {
+    const entry = await service.createEntry(request(), 'correlation-1');
+
+    await expect(new AllowlistService().listEntries()).resolves.toEqual([entry]);
+    expect(auditLogService.logListChange).toHaveBeenCalledWith(
+      'ALLOWLIST_ENTRY_CREATED', HOT_WALLET, { entry }, 'correlation-1'
+    );
+
+    await service.deleteEntry(entry.id);
+    await expect(service.listEntries()).resolves.toEqual([]);
+    expect(auditLogService.logListChange).toHaveBeenCalledWith('ALLOWLIST_ENTRY_DELETED', HOT_WALLET, { entry }, undefined);
+  });
+
+  it('applies an entry only within its scope', async () => {
+    await service.createEntry(request());
+
+    await expect(service.findApplicableEntry(HOT_WALLET.toUpperCase(), 'INDIRECT', ['1001'])).resolves.toMatchObject({ address: HOT_WALLET });
+    await expect(service.findApplicableEntry(HOT_WALLET, 'DIRECT', ['1001'])).resolves.toBeNull();
+  });
+
+  it('applies a counterparty entry only to hits involving that counterparty', async () => {
+    await service.createEntry(request({ counterparty: '1001', scope: 'BOTH' }));
+
+    await expect(service.findApplicableEntry(HOT_WALLET, 'DIRECT', ['1001'])).resolves.not.toBeNull();
+    await expect(service.findApplicableEntry(HOT_WALLET, 'INDIRECT', ['1002'])).resolves.toBeNull();
+  });
+
+  it('ignores expired entries', async () => {
+    await service.createEntry(request({ expiresAt: '2020-01-01T00:00:00.000Z' }));
+
+    await expect(service.findApplicableEntry(HOT_WALLET, 'INDIRECT', [])).resolves.toBeNull();
+  });
+
+  it('rejects changes to unknown entries', async () => {
+    await expect(service.deleteEntry('missing')).rejects.toThrow(DataNotFoundError);
+  });
+});
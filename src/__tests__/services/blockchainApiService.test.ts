@@ -0,0 +1,194 @@
+import config from '../../config';
+import { BitcoinAddressInfo, BitcoinTransaction, ExternalApiError } from '../../types';
+import { ALL_OPERATIONS, BlockchainProvider, ProviderRequestError } from '../../providers/blockchainProvider';
+import { BlockchainApiService } from '../../services/blockchainApiService';
+import { blockchainCacheService } from '../../services/blockchainCacheService';
+
+const mockProviders: Record<string, BlockchainProvider> = {};
+
+jest.mock('../../config', () => ({
+  __esModule: true,
+  default: {
+    // Set per test, so the singleton created on import has no providers
+    blockchainProviders: [],
+    blockchainApis: {
+      mempool: 'https://mempool.space/api',
+      blockStream: 'https://blockstream.info/api',
+      blockCypher: 'https://api.blockcypher.com/v1/btc/main'
+    },
+    mempoolHostnames: { testnet: 'mempool.space', signet: 'mempool.space' },
+    blockchainApiTimeoutMs: 1000,
+    blockCypherToken: '',
+    addressHistoryCacheTtlSeconds: 60,
+    blockchainRateLimitPerMinute: 600,
+    blockchainRateLimits: {},
+    blockchainQueueMaxWaitMs: 1000,
+    bitcoinRpc: { url: '', network: 'mainnet' },
+    electrum: { url: '', network: 'mainnet' }
+  }
+}));
+jest.mock('../../providers/esploraProvider', () => ({
+  EsploraProvider: jest.fn().mockImplementation((name: string) => mockProviders[name])
+}));
+jest.mock('../../services/blockchainCacheService', () => ({
+  blockchainCacheService: {
+    getTransaction: jest.fn().mockResolvedValue(null),
+    storeTransaction: jest.fn().mockResolvedValue(undefined),
+    getAddressHistory: jest.fn().mockReturnValue(null),
+    storeAddressHistory: jest.fn(),
+    claimBlockHeightCheck: jest.fn().mockReturnValue(true),
+    recordBlockHeight: jest.fn()
+  }
+}));
+
+const TXID = 'f4184fc596403b9d638783cf57adfe4c75c605f6356fbc91338530e9831e9e16';
+const ADDRESS = '1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa';
+
+const transaction: BitcoinTransaction = {
+  txid: TXID,
+  blockHeight: 170,
+  blockTime: 1231731025,
+  fee: 0,
+  size: 275,
+  inputs: [],
+  outputs: []
+};
+
+const addressInfo: BitcoinAddressInfo = {
+  address: ADDRESS,
+  balance: 0,
+  totalReceived: 0,
+  totalSent: 0,
+  txCount: 0,
+  unconfirmedBalance: 0,
+  unconfirmedTxCount: 0
+};
+
+function fakeProvider(name: string): BlockchainProvider {
+  return {
+    name,
+    networks: ['mainnet'],
+    operations: ALL_OPERATIONS,
+    getTransaction: jest.fn().mockResolvedValue(transaction),
+    getAddressInfo: jest.fn().mockResolvedValue(addressInfo),
+    getAddressTransactions: jest.fn(),
+    getAddressTransactionIds: jest.fn(),
+    getAddressUtxos: jest.fn(),
+    getBlockHeight: jest.fn().mockResolvedValue(900000)
+  };
+}
+
+describe('BlockchainApiService', () => {
+  let service: BlockchainApiService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (blockchainCacheService.getTransaction as jest.Mock).mockResolvedValue(null);
+    mockProviders.mempool = fakeProvider('mempool');
+    mockProviders.blockstream = fakeProvider('blockstream');
+    config.blockchainProviders = ['mempool', 'blockstream'];
+    service = new BlockchainApiService();
+  });
+
+  it('records the chain tip before caching a confirmed transaction', async () => {
+    await service.getTransaction(TXID);
+
+    expect(blockchainCacheService.recordBlockHeight).toHaveBeenCalledWith('mainnet', 900000);
+    expect(blockchainCacheService.storeTransaction).toHaveBeenCalledWith(transaction, 'mainnet');
+    expect((blockchainCacheService.recordBlockHeight as jest.Mock).mock.invocationCallOrder[0])
+      .toBeLessThan((blockchainCacheService.storeTransaction as jest.Mock).mock.invocationCallOrder[0] as number);
+  });
+
+  it('does not offer an unconfirmed transaction to the cache', async () => {
+    (mockProviders.mempool?.getTransaction as jest.Mock).mockResolvedValue({ ...transaction, blockHeight: 0 });
+
+    await service.getTransaction(TXID);
+
+    expect(blockchainCacheService.storeTransaction).not.toHaveBeenCalled();
+  });
+
+  it('checks the health of every provider without the cache', async () => {
+    (blockchainCacheService.getTransaction as jest.Mock).mockResolvedValue(transaction);
+    (mockProviders.blockstream?.getBlockHeight as jest.Mock).mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+    const health = await service.healthCheck();
+
+    expect(health.status).toBe('healthy');
+    expect(health.providers).toEqual([
+      expect.objectContaining({ name: 'mempool', status: 'healthy' }),
+      expect.objectContaining({ name: 'blockstream', status: 'unhealthy', error: expect.stringContaining('ECONNREFUSED') })
+    ]);
+    expect(blockchainCacheService.getTransaction).not.toHaveBeenCalled();
+  });
+
+  it('reports unhealthy when no provider answers, even with cached data', async () => {
+    (blockchainCacheService.getTransaction as jest.Mock).mockResolvedValue(transaction);
+    (mockProviders.mempool?.getBlockHeight as jest.Mock).mockRejectedValue(new Error('timeout of 1000ms exceeded'));
+    (mockProviders.blockstream?.getBlockHeight as jest.Mock).mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+    const health = await service.healthCheck();
+
+    expect(health.status).toBe('unhealthy');
+    expect(health.error).toContain('mempool');
+    expect(health.error).toContain('blockstream');
+  });
+
+  describe('failover', () => {
+    it('fails over to the next provider when one fails', async () => {
+      (mockProviders.mempool?.getAddressInfo as jest.Mock).mockRejectedValue(new Error('socket hang up'));
+
+      await expect(service.getAddressInfo(ADDRESS)).resolves.toEqual(addressInfo);
+
+      expect(mockProviders.blockstream?.getAddressInfo).toHaveBeenCalledWith(ADDRESS, 'mainnet');
+      expect(service.getProviderStatus()[0]).toMatchObject({
+        name: 'mempool',
+        available: true,
+        consecutiveFailures: 1,
+        failureCount: 1,
+        lastFailure: expect.objectContaining({ error: 'socket hang up', rateLimited: false })
+      });
+    });
+
+    it('skips a provider failing three times in a row until its cooldown has passed', async () => {
+      const mempool = mockProviders.mempool?.getAddressInfo as jest.Mock;
+      mempool.mockRejectedValue(new Error('socket hang up'));
+
+      for (let i = 0; i < 3; i++) {
+        await service.getAddressInfo(ADDRESS);
+      }
+      await service.getAddressInfo(ADDRESS);
+
+      expect(mempool).toHaveBeenCalledTimes(3);
+      expect(mockProviders.blockstream?.getAddressInfo).toHaveBeenCalledTimes(4);
+      expect(service.getProviderStatus()[0]).toMatchObject({ available: false, cooldownUntil: expect.any(String) });
+      expect(service.hasAvailableProvider()).toBe(true);
+    });
+
+    it('does not count rejected requests against a provider', async () => {
+      (mockProviders.mempool?.getAddressInfo as jest.Mock).mockRejectedValue(new ProviderRequestError('HTTP 400: Invalid address', 'REJECTED'));
+
+      for (let i = 0; i < 3; i++) {
+        await service.getAddressInfo(ADDRESS);
+      }
+
+      expect(service.getProviderStatus()[0]).toMatchObject({ available: true, consecutiveFailures: 0, failureCount: 0 });
+    });
+
+    it('reports the error of every provider when all of them fail', async () => {
+      (mockProviders.mempool?.getAddressInfo as jest.Mock).mockRejectedValue(new Error('socket hang up'));
+      (mockProviders.blockstream?.getAddressInfo as jest.Mock).mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+      await expect(service.getAddressInfo(ADDRESS)).rejects.toThrow(
+        'Failed to fetch address info: mempool: socket hang up; blockstream: connect ECONNREFUSED'
+      );
+    });
+
+    it('fails when no provider serves the network', async () => {
+      const error = await service.getTransaction(TXID, 'signet').catch(caught => caught);
+
+      expect(error).toBeInstanceOf(ExternalApiError);
+      expect(error.message).toBe('Failed to fetch transaction: no blockchain provider serves transaction on signet');
+      expect(mockProviders.mempool?.getTransaction).not.toHaveBeenCalled();
+    });
+  });
+});
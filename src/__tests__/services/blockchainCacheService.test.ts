@@ -0,0 +1,80 @@
+import { promises as fs } from 'fs';
+import config from '../../config';
+import { BitcoinTransaction } from '../../types';
+import { BlockchainCacheService } from '../../services/blockchainCacheService';
+
+jest.mock('../../config', () => {
+  const os = jest.requireActual('os');
+  const path = jest.requireActual('path');
+  return {
+    __esModule: true,
+    default: {
+      dataDir: path.join(os.tmpdir(), `blockchain-cache-test-${process.pid}`),
+      addressHistoryCacheTtlSeconds: 60
+    }
+  };
+});
+
+const TXID = 'f4184fc596403b9d638783cf57adfe4c75c605f6356fbc91338530e9831e9e16';
+
+function transaction(blockHeight: number): BitcoinTransaction {
+  return {
+    txid: TXID,
+    blockHeight,
+    blockTime: 1231731025,
+    fee: 0,
+    size: 275,
+    inputs: [],
+    outputs: []
+  };
+}
+
+describe('BlockchainCacheService', () => {
+  let cache: BlockchainCacheService;
+
+  beforeEach(async () => {
+    await fs.rm(config.dataDir, { recursive: true, force: true });
+    cache = new BlockchainCacheService();
+  });
+
+  afterAll(async () => {
+    await fs.rm(config.dataDir, { recursive: true, force: true });
+  });
+
+  it('does not cache a transaction before the chain tip is known', async () => {
+    await cache.storeTransaction(transaction(170), 'mainnet');
+
+    expect(await cache.getTransaction(TXID, 'mainnet')).toBeNull();
+    expect(cache.getStats().transactions.writes).toBe(0);
+  });
+
+  it('caches a transaction only once it has six confirmations', async () => {
+    cache.recordBlockHeight('mainnet', 174);
+    await cache.storeTransaction(transaction(170), 'mainnet');
+    expect(await cache.getTransaction(TXID, 'mainnet')).toBeNull();
+
+    cache.recordBlockHeight('mainnet', 175);
+    await cache.storeTransaction(transaction(170), 'mainnet');
+    expect(await cache.getTransaction(TXID, 'mainnet')).toMatchObject({ txid: TXID, blockHeight: 170 });
+  });
+
+  it('never caches an unconfirmed transaction', async () => {
+    cache.recordBlockHeight('mainnet', 900000);
+    await cache.storeTransaction(transaction(0), 'mainnet');
+
+    expect(await cache.getTransaction(TXID, 'mainnet')).toBeNull();
+  });
+
+  it('drops cached address histories when a new block is found', () => {
+    cache.recordBlockHeight('mainnet', 100);
+    cache.storeAddressHistory('addr', 10, 'mainnet', [TXID]);
+    expect(cache.getAddressHistory('addr', 10, 'mainnet')).toEqual([TXID]);
+
+    cache.recordBlockHeight('mainnet', 100);
+    expect(cache.getAddressHistory('addr', 10, 'mainnet')).toEqual([TXID]);
+
+    cache.recordBlockHeight('mainnet', 101);
+    expect(cache.getAddressHistory('addr', 10, 'mainnet')).toBeNull();
+    expect(cache.getStats().addressHistories.invalidations).toBe(1);
+  });
+});
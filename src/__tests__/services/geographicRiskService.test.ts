@@ -0,0 +1,136 @@
+import path from 'path';
+import { promises as fs } from 'fs';
+import config from '../../config';
+import { GeographicRiskService } from '../../services/geographicRiskService';
+import { sanctionsDataService } from '../../services/sanctionsDataService';
+import { SanctionEntity, SanctionMatch, TransactionPathAnalysis, TransactionPathNode } from '../../types';
+
+jest.mock('../../config', () => {
+  const os = jest.requireActual('os');
+  const path = jest.requireActual('path');
+  return {
+    __esModule: true,
+    default: { configDir: path.join(os.tmpdir(), `geographic-risk-test-${process.pid}`) }
+  };
+});
+jest.mock('../../services/sanctionsDataService', () => ({
+  sanctionsDataService: { getEntityById: jest.fn() }
+}));
+
+function match(overrides: Partial<SanctionMatch>): SanctionMatch {
+  return {
+    listSource: 'OFAC',
+    jurisdiction: 'US',
+    entityName: 'Example Exchange',
+    entityId: '1001',
+    matchType: 'DIRECT',
+    confidence: 100,
+    ...overrides
+  };
+}
+
+function pathTo(nodes: Array<Partial<TransactionPathNode>>): TransactionPathAnalysis {
+  return {
+    targetAddress: '1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa',
+    network: 'mainnet',
+    maxHops: 3,
+    totalNodesAnalyzed: nodes.length,
+    sanctionedNodesFound: nodes.length,
+    pathNodes: nodes.map(node => ({ address: 'addr', txid: 'tx', hop: 1, value: 0, timestamp: 0, riskContribution: 50, ...node })),
+    riskPropagation: 50,
+    complete: true
+  };
+}
+
+describe('GeographicRiskService', () => {
+  let service: GeographicRiskService;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await fs.rm(config.configDir, { recursive: true, force: true });
+    service = new GeographicRiskService();
+  });
+
+  afterAll(async () => {
+    await fs.rm(config.configDir, { recursive: true, force: true });
+  });
+
+  it('links a direct match to the jurisdiction of its program', async () => {
+    const risk = await service.assess([match({ programs: ['CYBER2', 'DPRK3'] })]);
+
+    expect(risk.score).toBe(10);
+    expect(risk.jurisdictions).toEqual([
+      { country: 'KP', name: 'North Korea', entityId: '1001', matchType: 'DIRECT', basis: ['PROGRAM'], weight: 10 }
+    ]);
+  });
+
+  it('links an entity through its nationality, place of birth and documents', async () => {
+    const risk = await service.assess([match({
+      entityDetails: {
+        nationalities: ['Iran'],
+        placesOfBirth: ['Tehran, Iran'],
+        identifiers: [{ type: 'Passport', number: '123', country: 'Russia' }]
+      }
+    })]);
+
+    expect(risk.score).toBe(10);
+    expect(risk.jurisdictions.map(link => [link.country, link.basis])).toEqual([
+      ['IR', ['NATIONALITY', 'PLACE_OF_BIRTH']],
+      ['RU', ['IDENTIFIER']]
+    ]);
+  });
+
+  it('counts counterparties for half and ignores allowlisted ones', async () => {
+    const counterparty: SanctionEntity = {
+      entityId: '2001',
+      name: 'Example Mixer',
+      listSource: 'OFAC',
+      addresses: [],
+      aliases: [],
+      lastUpdated: '2025-01-01T00:00:00.000Z',
+      isActive: true,
+      programs: ['IRAN']
+    };
+    (sanctionsDataService.getEntityById as jest.Mock).mockResolvedValue(counterparty);
+
+    const risk = await service.assess([], pathTo([
+      { entityIds: ['2001'] },
+      {
+        entityIds: ['2002'],
+        allowlisted: {
+          allowlistEntryId: 'entry-1',
+          matchType: 'INDIRECT',
+          action: 'DOWN_WEIGHTED',
+          sanctionedAddress: 'addr',
+          entityIds: ['2002'],
+          justification: 'Dust received by our hot wallet',
+          reviewer: 'compliance@example.com',
+          expiresAt: '2099-01-01T00:00:00.000Z'
+        }
+      }
+    ]));
+
+    expect(sanctionsDataService.getEntityById).toHaveBeenCalledTimes(1);
+    expect(risk.score).toBe(5);
+    expect(risk.jurisdictions).toEqual([
+      { country: 'IR', name: 'Iran', entityId: '2001', matchType: 'INDIRECT', basis: ['PROGRAM'], weight: 5 }
+    ]);
+  });
+
+  it('scores nothing without a link to a high-risk jurisdiction', async () => {
+    await expect(service.assess([match({ programs: ['CYBER2'] })])).resolves.toEqual({ score: 0, jurisdictions: [] });
+  });
+
+  it('applies the configured jurisdictions over the built-in ones', async () => {
+    await fs.mkdir(config.configDir, { recursive: true });
+    await fs.writeFile(path.join(config.configDir, 'high-risk-jurisdictions.json'), JSON.stringify({
+      RU: { name: 'Russia', weight: 0 },
+      xx: { name: 'Examplestan', weight: 4, programs: ['EXAMPLE'] },
+      YY: { name: 'Invalid', weight: 50 }
+    }));
+
+    const risk = await service.assess([match({ programs: ['RUSSIA-EO14024', 'EXAMPLE'] })]);
+
+    expect(risk.jurisdictions.map(link => [link.country, link.weight])).toEqual([['XX', 4]]);
+  });
+});
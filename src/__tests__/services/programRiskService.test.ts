@@ -0,0 +1,63 @@
+import path from 'path';
+import { promises as fs } from 'fs';
+import config from '../../config';
+import { ProgramRiskService } from '../../services/programRiskService';
+
+jest.mock('../../config', () => {
+  const os = jest.requireActual('os');
+  const path = jest.requireActual('path');
+  return {
+    __esModule: true,
+    default: {
+      configDir: path.join(os.tmpdir(), `program-risk-test-${process.pid}`),
+      sanctionSourceWeights: { OFAC: 15, EU: 10, UN: 10, UK_OFSI: 10, INTERNAL: 15 }
+    }
+  };
+});
+
+async function writeProfiles(profiles: unknown): Promise<void> {
+  await fs.mkdir(config.configDir, { recursive: true });
+  await fs.writeFile(path.join(config.configDir, 'program-risk.json'), JSON.stringify(profiles));
+}
+
+describe('ProgramRiskService', () => {
+  beforeEach(async () => {
+    await fs.rm(config.configDir, { recursive: true, force: true });
+  });
+
+  afterAll(async () => {
+    await fs.rm(config.configDir, { recursive: true, force: true });
+  });
+
+  it('weighs a match by its highest-weighted program', async () => {
+    const risk = await new ProgramRiskService().resolveRisk({ listSource: 'OFAC', programs: ['SDNTK', 'DPRK3'] });
+
+    expect(risk).toEqual({ weight: 20, severity: 'SEVERE' });
+  });
+
+  it('falls back to the list source weight for programs without a profile', async () => {
+    const service = new ProgramRiskService();
+
+    await expect(service.resolveRisk({ listSource: 'EU', regime: 'Belarus' })).resolves.toEqual({ weight: 10 });
+    await expect(service.resolveRisk({ listSource: 'OFAC' })).resolves.toEqual({ weight: 15 });
+  });
+
+  it('applies configured profiles over the built-in ones and ignores invalid ones', async () => {
+    await writeProfiles({
+      SDNTK: { weight: 25, severity: 'SEVERE' },
+      'EU-RUSSIA': { weight: 18, severity: 'HIGH' },
+      CYBER2: { weight: 99, severity: 'HIGH' }
+    });
+    const service = new ProgramRiskService();
+
+    await expect(service.resolveRisk({ listSource: 'OFAC', programs: ['SDNTK'] })).resolves.toEqual({ weight: 25, severity: 'SEVERE' });
+    await expect(service.resolveRisk({ listSource: 'EU', regime: 'Ukraine; eu-russia' })).resolves.toEqual({ weight: 18, severity: 'HIGH' });
+    await expect(service.resolveRisk({ listSource: 'OFAC', programs: ['CYBER2'] })).resolves.toEqual({ weight: 15, severity: 'HIGH' });
+  });
+
+  it('falls back to the list source weight instead of failing on malformed program data', async () => {
+    const malformed = { listSource: 'OFAC' as const, programs: [42 as unknown as string] };
+
+    await expect(new ProgramRiskService().resolveRisk(malformed)).resolves.toEqual({ weight: 15 });
+  });
+});
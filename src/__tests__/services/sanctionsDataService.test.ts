@@ -0,0 +1,245 @@
+import path from 'path';
+import { promises as fs } from 'fs';
+import config from '../../config';
+import { SanctionsDataService } from '../../services/sanctionsDataService';
+import { OFACCryptoEntry, OFACCryptoFile } from '../../types';
+
+jest.mock('../../config', () => {
+  const os = jest.requireActual('os');
+  const path = jest.requireActual('path');
+  const sanctionsDir = path.join(os.tmpdir(), `sanctions-data-test-${process.pid}`);
+  return {
+    __esModule: true,
+    default: {
+      sanctionsDir,
+      sanctionsFiles: {
+        eu: path.join(sanctionsDir, 'eu', 'eu-consolidated.xml'),
+        un: path.join(sanctionsDir, 'un', 'un-consolidated.xml'),
+        ukOfsi: path.join(sanctionsDir, 'uk', 'ofsi-consolidated.csv')
+      }
+    }
+  };
+});
+jest.mock('../../services/auditLogService', () => ({
+  auditLogService: { logSanctionsReload: jest.fn().mockResolvedValue(undefined) }
+}));
+
+const LISTED_ADDRESS = '1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa';
+const DATED_ADDRESS = '3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLy';
+const BECH32_ADDRESS = 'bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4';
+
+function entry(overrides: Partial<OFACCryptoEntry>): OFACCryptoEntry {
+  return {
+    entityId: '1001',
+    entityName: 'Example Exchange',
+    entityType: 'entity',
+    program: 'CYBER2',
+    cryptocurrency: 'XBT',
+    address: LISTED_ADDRESS,
+    remarks: '',
+    isActive: true,
+    ...overrides
+  };
+}
+
+async function writeOFACFile(lastUpdated: string, entities: OFACCryptoEntry[]): Promise<void> {
+  const data: OFACCryptoFile = {
+    metadata: { source: 'OFAC', lastUpdated, version: '1.0', totalEntities: entities.length, cryptocurrencies: {} },
+    entities
+  };
+  const filePath = path.join(config.sanctionsDir, 'refined_data', 'ofac-crypto-addresses.json');
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, JSON.stringify(data));
+}
+
+describe('SanctionsDataService', () => {
+  let service: SanctionsDataService;
+
+  beforeEach(async () => {
+    await fs.rm(config.sanctionsDir, { recursive: true, force: true });
+    service = new SanctionsDataService();
+  });
+
+  afterAll(async () => {
+    await fs.rm(config.sanctionsDir, { recursive: true, force: true });
+  });
+
+  describe('address lookups', () => {
+    it('matches addresses regardless of case and surrounding whitespace', async () => {
+      await writeOFACFile('2025-01-01T00:00:00.000Z', [entry({ address: BECH32_ADDRESS })]);
+
+      const matches = await service.findSanctionsByAddress(` ${BECH32_ADDRESS.toUpperCase()} `);
+
+      expect(matches.map(entity => entity.entityId)).toEqual(['1001']);
+    });
+
+    it('finds every entity listing an address, but no delisted ones', async () => {
+      await writeOFACFile('2025-01-01T00:00:00.000Z', [
+        entry({}),
+        entry({ entityId: '1002', entityName: 'Example Mixer' }),
+        entry({ entityId: '1003', entityName: 'Closed Exchange', isActive: false })
+      ]);
+
+      const matches = await service.findSanctionsByAddress(LISTED_ADDRESS);
+
+      expect(matches.map(entity => entity.entityId).sort()).toEqual(['1001', '1002']);
+    });
+
+    it('looks up many addresses at once, keyed by the address as given', async () => {
+      await writeOFACFile('2025-01-01T00:00:00.000Z', [
+        entry({}),
+        entry({ address: BECH32_ADDRESS, cryptocurrency: 'XBT' })
+      ]);
+
+      const results = await service.findSanctionsByAddresses([LISTED_ADDRESS, BECH32_ADDRESS.toUpperCase(), DATED_ADDRESS]);
+
+      expect(results.get(LISTED_ADDRESS)?.map(entity => entity.entityId)).toEqual(['1001']);
+      expect(results.get(BECH32_ADDRESS.toUpperCase())?.map(entity => entity.entityId)).toEqual(['1001']);
+      expect(results.get(DATED_ADDRESS)).toEqual([]);
+    });
+  });
+
+  describe('entities', () => {
+    beforeEach(async () => {
+      await writeOFACFile('2025-01-01T00:00:00.000Z', [
+        entry({ program: 'CYBER2] [DPRK3' }),
+        entry({ address: BECH32_ADDRESS }),
+        entry({ cryptocurrency: 'ETH', address: '0x098B716B8Aaf21512996dC57EB0615e2383E2f96' }),
+        entry({ entityId: '1002', entityName: 'Example Mixer', program: 'SDGT' }),
+        entry({ entityId: '1003', entityName: 'Closed Exchange', isActive: false })
+      ]);
+    });
+
+    it('consolidates the addresses and programs of an entity', async () => {
+      const entity = await service.getEntityById('1001');
+
+      expect(entity).toMatchObject({
+        entityId: '1001',
+        name: 'Example Exchange',
+        entityType: 'entity',
+        programs: ['CYBER2', 'DPRK3'],
+        addressesByCurrency: {
+          XBT: [LISTED_ADDRESS, BECH32_ADDRESS],
+          ETH: ['0x098B716B8Aaf21512996dC57EB0615e2383E2f96']
+        }
+      });
+      expect(entity?.addresses).toHaveLength(3);
+    });
+
+    it('looks up delisted entities too', async () => {
+      await expect(service.getEntityById('1003')).resolves.toMatchObject({ isActive: false });
+      await expect(service.getEntityById('9999')).resolves.toBeNull();
+    });
+
+    it('filters the listing by program, currency and active status', async () => {
+      const byProgram = await service.listEntities({ program: 'dprk3', page: 1, pageSize: 50 });
+      const byCurrency = await service.listEntities({ currency: 'eth', page: 1, pageSize: 50 });
+      const delisted = await service.listEntities({ active: false, page: 1, pageSize: 50 });
+
+      expect(byProgram.items.map(entity => entity.entityId)).toEqual(['1001']);
+      expect(byCurrency.items.map(entity => entity.entityId)).toEqual(['1001']);
+      expect(delisted.items.map(entity => entity.entityId)).toEqual(['1003']);
+    });
+
+    it('pages through the listing', async () => {
+      const page = await service.listEntities({ page: 2, pageSize: 2 });
+
+      expect(page.items.map(entity => entity.entityId)).toEqual(['1003']);
+      expect(page.pagination).toEqual({ page: 2, pageSize: 2, total: 3, totalPages: 2 });
+    });
+  });
+
+  describe('name search', () => {
+    it('ranks names and aliases of active entities by score', async () => {
+      await writeOFACFile('2025-01-01T00:00:00.000Z', [
+        entry({ entityId: '2001', entityName: 'SEMENOV, Roman', entityType: 'individual' }),
+        entry({ entityId: '2002', entityName: 'Example Exchange', remarks: "a.k.a. 'Semenova Romana';" }),
+        entry({ entityId: '2003', entityName: 'SEMENOV, Roman Sergeevich', isActive: false })
+      ]);
+
+      const results = await service.searchSanctionsByName('Roman Semenov');
+
+      expect(results.map(result => result.entityId)).toEqual(['2001', '2002']);
+      expect(results[0]).toMatchObject({ matchedField: 'name', matchedValue: 'SEMENOV, Roman', score: 100, jurisdiction: 'US' });
+      expect(results[1]).toMatchObject({ matchedField: 'alias', matchedValue: 'Semenova Romana' });
+      expect(results[1]?.score).toBeLessThan(100);
+    });
+
+    it('leaves out hits below the minimum score', async () => {
+      await writeOFACFile('2025-01-01T00:00:00.000Z', [entry({ entityName: 'Garantex Europe' })]);
+
+      await expect(service.searchSanctionsByName('Roman Semenov')).resolves.toEqual([]);
+      await expect(service.searchSanctionsByName('Garantex', 20, 0)).resolves.toHaveLength(1);
+    });
+  });
+
+  describe('point-in-time lookups', () => {
+    it('treats an address without a designation date as listed before tracking began', async () => {
+      await writeOFACFile('2025-06-30T00:00:00.000Z', [entry({})]);
+
+      const matches = await service.findSanctionsByAddress(LISTED_ADDRESS, '2020-01-01T00:00:00.000Z');
+
+      expect(matches.map(entity => entity.entityId)).toEqual(['1001']);
+      expect(service.getDesignationPeriod(matches[0]!, LISTED_ADDRESS, '2020-01-01T00:00:00.000Z')).toEqual({
+        designatedAt: '2025-06-30T00:00:00.000Z',
+        estimated: true
+      });
+    });
+
+    it('excludes matches before a designation date published by the list', async () => {
+      await writeOFACFile('2025-06-30T00:00:00.000Z', [
+        entry({ entityId: '1002', address: DATED_ADDRESS, publishDate: '2022-08-08' })
+      ]);
+
+      await expect(service.findSanctionsByAddress(DATED_ADDRESS, '2020-01-01T00:00:00.000Z')).resolves.toEqual([]);
+      const matches = await service.findSanctionsByAddress(DATED_ADDRESS, '2023-01-01T00:00:00.000Z');
+      expect(service.getDesignationPeriod(matches[0]!, DATED_ADDRESS, '2023-01-01T00:00:00.000Z')).toEqual({
+        designatedAt: '2022-08-08T00:00:00.000Z'
+      });
+    });
+
+    it('reaches an estimated relisting back to the previous delisting only', async () => {
+      await writeOFACFile('2024-01-01T00:00:00.000Z', [entry({ publishDate: '2022-01-01' })]);
+      await service.loadAllSanctions();
+      await writeOFACFile('2024-06-01T00:00:00.000Z', [entry({ publishDate: '2022-01-01', isActive: false })]);
+      await service.reloadSanctions('TEST');
+      await writeOFACFile('2025-01-01T00:00:00.000Z', [entry({ publishDate: '2022-01-01' })]);
+      await service.reloadSanctions('TEST');
+
+      await expect(service.findSanctionsByAddress(LISTED_ADDRESS, '2024-03-01T00:00:00.000Z')).resolves.toHaveLength(1);
+      await expect(service.findSanctionsByAddress(LISTED_ADDRESS, '2024-08-01T00:00:00.000Z')).resolves.toHaveLength(1);
+      await expect(service.findSanctionsByAddress(LISTED_ADDRESS, '2021-01-01T00:00:00.000Z')).resolves.toEqual([]);
+    });
+  });
+
+  describe('reloading', () => {
+    it('swaps in the new data and notifies the reload listeners', async () => {
+      await writeOFACFile('2025-01-01T00:00:00.000Z', [entry({})]);
+      await service.loadAllSanctions();
+      const listener = jest.fn();
+      service.onReload(listener);
+
+      await writeOFACFile('2025-02-01T00:00:00.000Z', [entry({ entityId: '1002', address: DATED_ADDRESS })]);
+      await expect(service.reloadSanctions('FILE_CHANGE')).resolves.toBe(true);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      await expect(service.findSanctionsByAddress(LISTED_ADDRESS)).resolves.toEqual([]);
+      const matches = await service.findSanctionsByAddress(DATED_ADDRESS);
+      expect(matches.map(entity => entity.entityId)).toEqual(['1002']);
+    });
+
+    it('keeps serving the last good data when the new file is rejected', async () => {
+      await writeOFACFile('2025-01-01T00:00:00.000Z', [entry({})]);
+      await service.loadAllSanctions();
+      const listener = jest.fn();
+      service.onReload(listener);
+
+      await fs.writeFile(path.join(config.sanctionsDir, 'refined_data', 'ofac-crypto-addresses.json'), '{"entities":');
+      await expect(service.reloadSanctions('FILE_CHANGE')).resolves.toBe(false);
+
+      expect(listener).not.toHaveBeenCalled();
+      const matches = await service.findSanctionsByAddress(LISTED_ADDRESS);
+      expect(matches.map(entity => entity.entityId)).toEqual(['1001']);
+    });
+  });
+});
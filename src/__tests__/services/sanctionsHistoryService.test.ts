@@ -0,0 +1,94 @@
+import { promises as fs } from 'fs';
+import config from '../../config';
+import { sanctionsHistoryService } from '../../services/sanctionsHistoryService';
+import { DataNotFoundError, OFACCryptoEntry, OFACCryptoFile } from '../../types';
+
+jest.mock('../../config', () => {
+  const os = jest.requireActual('os');
+  const path = jest.requireActual('path');
+  return { __esModule: true, default: { sanctionsDir: path.join(os.tmpdir(), `sanctions-history-test-${process.pid}`) } };
+});
+
+function entry(overrides: Partial<OFACCryptoEntry>): OFACCryptoEntry {
+  return {
+    entityId: '1001',
+    entityName: 'Example Exchange',
+    entityType: 'entity',
+    program: 'CYBER2',
+    cryptocurrency: 'XBT',
+    address: '1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa',
+    remarks: '',
+    isActive: true,
+    ...overrides
+  };
+}
+
+function file(lastUpdated: string, entities: OFACCryptoEntry[]): OFACCryptoFile {
+  return {
+    metadata: { source: 'OFAC', lastUpdated, version: '1.0', totalEntities: entities.length, cryptocurrencies: {} },
+    entities
+  };
+}
+
+describe('SanctionsHistoryService', () => {
+  beforeEach(async () => {
+    await fs.rm(config.sanctionsDir, { recursive: true, force: true });
+  });
+
+  afterAll(async () => {
+    await fs.rm(config.sanctionsDir, { recursive: true, force: true });
+  });
+
+  it('diffs entities and addresses between two files', () => {
+    const from = file('2024-01-01T00:00:00.000Z', [
+      entry({}),
+      entry({ entityId: '1002', entityName: 'Mixer', address: 'bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4' }),
+      entry({ entityId: '1003', entityName: 'Removed Wallet', address: '3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLy' })
+    ]);
+    const to = file('2024-02-01T00:00:00.000Z', [
+      entry({ program: 'CYBER2; DPRK3' }),
+      entry({ entityId: '1002', entityName: 'Mixer', address: 'bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4', isActive: false }),
+      entry({ entityId: '1004', entityName: 'New Wallet', cryptocurrency: 'ETH', address: '0x098B716B8Aaf21512996dC57EB0615e2383E2f96' })
+    ]);
+
+    const diff = sanctionsHistoryService.diffFiles(from, to);
+
+    expect(diff.entities.added).toEqual([{ entityId: '1004', entityName: 'New Wallet' }]);
+    expect(diff.entities.removed).toEqual([{ entityId: '1003', entityName: 'Removed Wallet' }]);
+    expect(diff.entities.delisted).toEqual([{ entityId: '1002', entityName: 'Mixer' }]);
+    expect(diff.entities.modified).toEqual([{ entityId: '1001', entityName: 'Example Exchange', changedFields: ['program'] }]);
+    expect(diff.addresses.added.map(address => address.address)).toEqual(['0x098B716B8Aaf21512996dC57EB0615e2383E2f96']);
+    expect(diff.addresses.removed.map(address => address.address)).toEqual(['3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLy']);
+    expect(diff.addresses.delisted.map(address => address.entityId)).toEqual(['1002']);
+    expect(diff.summary).toMatchObject({ entitiesAdded: 1, entitiesRemoved: 1, addressesDelisted: 1, addressesRelisted: 0 });
+  });
+
+  it('records each distinct file content once and diffs recorded versions', async () => {
+    const first = JSON.stringify(file('2024-01-01T00:00:00.000Z', [entry({})]));
+    const second = JSON.stringify(file('2024-02-01T00:00:00.000Z', [entry({ isActive: false })]));
+
+    const from = await sanctionsHistoryService.recordSnapshot(first);
+    await sanctionsHistoryService.recordSnapshot(first);
+    const to = await sanctionsHistoryService.recordSnapshot(second);
+
+    expect(await sanctionsHistoryService.listSnapshots()).toHaveLength(2);
+
+    const diff = await sanctionsHistoryService.diffVersions(from.versionId, 'latest');
+    expect(diff.to.versionId).toBe(to.versionId);
+    expect(diff.entities.delisted).toEqual([{ entityId: '1001', entityName: 'Example Exchange' }]);
+  });
+
+  it('resolves a lastUpdated shared by several versions to the newest of them', async () => {
+    await sanctionsHistoryService.recordSnapshot(JSON.stringify(file('2024-01-01T00:00:00.000Z', [entry({})])));
+    const republished = await sanctionsHistoryService.recordSnapshot(
+      JSON.stringify(file('2024-01-01T00:00:00.000Z', [entry({ remarks: 'Corrected remarks.' })]))
+    );
+
+    const resolved = await sanctionsHistoryService.resolveSnapshot('2024-01-01T00:00:00.000Z');
+    expect(resolved.versionId).toBe(republished.versionId);
+  });
+
+  it('rejects unknown versions', async () => {
+    await expect(sanctionsHistoryService.resolveSnapshot('deadbeef')).rejects.toThrow(DataNotFoundError);
+  });
+});
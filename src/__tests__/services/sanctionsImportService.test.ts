@@ -0,0 +1,126 @@
+import { sanctionsImportService } from '../../services/sanctionsImportService';
+import { sanctionsDataService } from '../../services/sanctionsDataService';
+import { OFACCryptoEntry, OFACCryptoFile, ValidationError } from '../../types';
+
+jest.mock('../../config', () => ({
+  __esModule: true,
+  default: { sanctionsDir: '/nonexistent' }
+}));
+jest.mock('../../services/sanctionsDataService', () => ({
+  sanctionsDataService: {
+    parseOFACCryptoFile: jest.fn((content: string) => JSON.parse(content)),
+    readOFACCryptoFile: jest.fn(),
+    publishOFACCryptoFile: jest.fn()
+  }
+}));
+jest.mock('../../services/auditLogService', () => ({
+  auditLogService: { logSanctionsImport: jest.fn().mockResolvedValue(undefined) }
+}));
+
+const ADDRESSES = [
+  '1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa',
+  '3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLy',
+  'bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4',
+  'bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0'
+];
+
+function entry(address: string, overrides: Partial<OFACCryptoEntry> = {}): OFACCryptoEntry {
+  return {
+    entityId: address.slice(0, 8),
+    entityName: `Wallet ${address.slice(0, 8)}`,
+    entityType: 'entity',
+    program: 'CYBER2',
+    cryptocurrency: 'XBT',
+    address,
+    remarks: '',
+    isActive: true,
+    ...overrides
+  };
+}
+
+function file(entities: OFACCryptoEntry[]): OFACCryptoFile {
+  return {
+    metadata: { source: 'OFAC', lastUpdated: '2024-01-01T00:00:00.000Z', version: '1.0', totalEntities: entities.length, cryptocurrencies: {} },
+    entities
+  };
+}
+
+describe('SanctionsImportService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (sanctionsDataService.readOFACCryptoFile as jest.Mock).mockResolvedValue(file(ADDRESSES.map(address => entry(address))));
+    (sanctionsDataService.publishOFACCryptoFile as jest.Mock).mockResolvedValue({ versionId: 'new' });
+  });
+
+  it('validates and diffs the data without publishing it on a dry run', async () => {
+    const upload = JSON.stringify(file([
+      ...ADDRESSES.map(address => entry(address)),
+      entry('1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNb', { entityId: 'typo' }),
+      entry('TQn9Y2khEsLJW1ChVWFMSMeRDow5KcbLSE', { entityId: 'tron', cryptocurrency: 'TRX' })
+    ]));
+
+    const result = await sanctionsImportService.importSanctions(
+      upload, { format: 'refined-json', confirm: false, allowInvalidAddresses: false }
+    );
+
+    expect(result).toMatchObject({ dryRun: true, published: false, version: null });
+    expect(result.validation).toMatchObject({ totalAddresses: 6, validAddresses: 4, unverifiedAddresses: { TRX: 1 } });
+    expect(result.validation.invalidAddresses).toEqual([
+      expect.objectContaining({ entityId: 'typo', reason: expect.stringMatching(/checksum/i) })
+    ]);
+    expect(result.diff.addresses.added.map(added => added.entityId)).toEqual(['typo', 'tron']);
+    expect(sanctionsDataService.publishOFACCryptoFile).not.toHaveBeenCalled();
+  });
+
+  it('refuses to publish invalid addresses unless allowed', async () => {
+    const upload = JSON.stringify(file([...ADDRESSES.map(address => entry(address)), entry('0x1234', { cryptocurrency: 'ETH' })]));
+
+    await expect(sanctionsImportService.importSanctions(
+      upload, { format: 'refined-json', confirm: true, allowInvalidAddresses: false }
+    )).rejects.toThrow('1 addresses failed validation');
+    expect(sanctionsDataService.publishOFACCryptoFile).not.toHaveBeenCalled();
+
+    const result = await sanctionsImportService.importSanctions(
+      upload, { format: 'refined-json', confirm: true, allowInvalidAddresses: true }
+    );
+    expect(result).toMatchObject({ published: true, version: { versionId: 'new' } });
+    expect(sanctionsDataService.publishOFACCryptoFile).toHaveBeenCalledWith(upload, 'ADMIN_IMPORT');
+  });
+
+  it('rejects files without any cryptocurrency address', async () => {
+    await expect(sanctionsImportService.importSanctions(
+      JSON.stringify(file([])), { format: 'refined-json', confirm: false, allowInvalidAddresses: false }
+    )).rejects.toThrow(ValidationError);
+    await expect(sanctionsImportService.importSanctions(
+      'not json', { format: 'refined-json', confirm: false, allowInvalidAddresses: false }
+    )).rejects.toThrow('Invalid refined-json sanctions file');
+  });
+
+  it('refuses to publish data removing more than the allowed share of the current addresses', async () => {
+    const truncated = JSON.stringify(file([entry(ADDRESSES[0]!)]));
+
+    await expect(sanctionsImportService.importSanctions(
+      truncated, { format: 'refined-json', confirm: true, allowInvalidAddresses: false }, undefined, 'INBOX', 0.1
+    )).rejects.toThrow('removes or delists 3 of 4 current addresses');
+    expect(sanctionsDataService.publishOFACCryptoFile).not.toHaveBeenCalled();
+  });
+
+  it('counts delisted addresses as removed', async () => {
+    const delisted = JSON.stringify(file(ADDRESSES.map((address, index) => entry(address, { isActive: index > 1 }))));
+
+    await expect(sanctionsImportService.importSanctions(
+      delisted, { format: 'refined-json', confirm: true, allowInvalidAddresses: false }, undefined, 'INBOX', 0.25
+    )).rejects.toThrow('removes or delists 2 of 4 current addresses');
+  });
+
+  it('publishes data within the allowed share', async () => {
+    const updated = JSON.stringify(file(ADDRESSES.slice(1).map(address => entry(address))));
+
+    const result = await sanctionsImportService.importSanctions(
+      updated, { format: 'refined-json', confirm: true, allowInvalidAddresses: false }, undefined, 'INBOX', 0.25
+    );
+
+    expect(result.published).toBe(true);
+    expect(sanctionsDataService.publishOFACCryptoFile).toHaveBeenCalledWith(updated, 'INBOX');
+  });
+});
@@ -0,0 +1,107 @@
+import path from 'path';
+import { promises as fs } from 'fs';
+import config from '../../config';
+import { SanctionsInboxService } from '../../services/sanctionsInboxService';
+import { sanctionsImportService } from '../../services/sanctionsImportService';
+import { ValidationError } from '../../types';
+
+jest.mock('../../config', () => {
+  const os = jest.requireActual('os');
+  const path = jest.requireActual('path');
+  return {
+    __esModule: true,
+    default: {
+      sanctionsDir: path.join(os.tmpdir(), `sanctions-inbox-test-${process.pid}`),
+      sanctionsInboxPollSeconds: 0,
+      sanctionsInboxMaxRemovedShare: 0.1
+    }
+  };
+});
+jest.mock('../../services/sanctionsImportService', () => ({
+  sanctionsImportService: { importSanctions: jest.fn() }
+}));
+
+const inboxDir = path.join(config.sanctionsDir, 'inbox');
+
+// Drop a file that has not been modified for a minute, so it counts as completely written
+async function dropFile(name: string, content: string, ageMs: number = 60 * 1000): Promise<void> {
+  const filePath = path.join(inboxDir, name);
+  await fs.mkdir(inboxDir, { recursive: true });
+  await fs.writeFile(filePath, content);
+  const modifiedAt = new Date(Date.now() - ageMs);
+  await fs.utimes(filePath, modifiedAt, modifiedAt);
+}
+
+async function listDir(dir: string): Promise<string[]> {
+  return fs.readdir(path.join(inboxDir, dir)).catch(() => []);
+}
+
+describe('SanctionsInboxService', () => {
+  let service: SanctionsInboxService;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await fs.rm(config.sanctionsDir, { recursive: true, force: true });
+    service = new SanctionsInboxService();
+  });
+
+  afterAll(async () => {
+    await fs.rm(config.sanctionsDir, { recursive: true, force: true });
+  });
+
+  it('publishes a dropped file with the unattended import safeguards and archives it', async () => {
+    (sanctionsImportService.importSanctions as jest.Mock).mockResolvedValue({ version: { versionId: 'abc123' } });
+    await dropFile('sdn.csv', 'csv content');
+
+    await service.poll();
+
+    expect(sanctionsImportService.importSanctions).toHaveBeenCalledWith(
+      'csv content',
+      { format: 'csv', confirm: true, allowInvalidAddresses: false },
+      undefined,
+      'INBOX',
+      0.1
+    );
+    expect(await listDir('archive')).toEqual([expect.stringMatching(/-sdn\.csv$/)]);
+    expect(service.getStatus().lastImport).toMatchObject({ file: 'sdn.csv', versionId: 'abc123' });
+    expect(service.hasUnresolvedFailure()).toBe(false);
+  });
+
+  it('quarantines a rejected file and reports the failure until a later import succeeds', async () => {
+    (sanctionsImportService.importSanctions as jest.Mock)
+      .mockRejectedValueOnce(new ValidationError('The data removes or delists 900 of 1000 current addresses'));
+    await dropFile('sdn_advanced.xml', '<Sanctions/>');
+
+    await service.poll();
+
+    expect(await listDir('failed')).toEqual([expect.stringMatching(/-sdn_advanced\.xml$/)]);
+    expect(service.getStatus().lastFailure).toMatchObject({ file: 'sdn_advanced.xml', error: expect.stringContaining('removes') });
+    expect(service.hasUnresolvedFailure()).toBe(true);
+
+    (sanctionsImportService.importSanctions as jest.Mock).mockResolvedValueOnce({ version: null });
+    await dropFile('sdn.csv', 'csv content');
+    await service.poll();
+    expect(service.hasUnresolvedFailure()).toBe(false);
+  });
+
+  it('imports the XML of a drop holding both formats and archives the CSV unread', async () => {
+    (sanctionsImportService.importSanctions as jest.Mock).mockResolvedValue({ version: null });
+    await dropFile('sdn.csv', 'csv content');
+    await dropFile('sdn_advanced.xml', '<Sanctions/>');
+
+    await service.poll();
+
+    expect(sanctionsImportService.importSanctions).toHaveBeenCalledTimes(1);
+    expect((sanctionsImportService.importSanctions as jest.Mock).mock.calls[0][1]).toMatchObject({ format: 'advanced-xml' });
+    expect(await listDir('archive')).toHaveLength(2);
+  });
+
+  it('leaves files that are still being written for the next poll', async () => {
+    await dropFile('sdn.csv', 'partial', 0);
+
+    await service.poll();
+
+    expect(sanctionsImportService.importSanctions).not.toHaveBeenCalled();
+    expect(await listDir('')).toContain('sdn.csv');
+  });
+});
@@ -0,0 +1,120 @@
+import { TransactionPathAnalysisService } from '../../services/transactionPathAnalysisService';
+import { blockchainApiService } from '../../services/blockchainApiService';
+import { sanctionsDataService } from '../../services/sanctionsDataService';
+import { watchlistService } from '../../services/watchlistService';
+import { allowlistService } from '../../services/allowlistService';
+import { programRiskService } from '../../services/programRiskService';
+import { AllowlistEntry, BitcoinTransaction, SanctionEntity } from '../../types';
+
+jest.mock('../../config', () => ({
+  __esModule: true,
+  default: { allowlistIndirectRiskFactor: 0.2, sanctionSourceWeights: { OFAC: 15 } }
+}));
+jest.mock('../../services/blockchainApiService', () => ({
+  blockchainApiService: {
+    getAddressTransactionIds: jest.fn().mockResolvedValue([]),
+    getTransaction: jest.fn(),
+    extractAddressesFromTransaction: jest.fn()
+  }
+}));
+jest.mock('../../services/blockchainCacheService', () => ({
+  blockchainCacheService: { getStats: jest.fn().mockReturnValue({}) }
+}));
+jest.mock('../../services/sanctionsDataService', () => ({
+  sanctionsDataService: { onReload: jest.fn(), findSanctionsByAddresses: jest.fn() }
+}));
+jest.mock('../../services/watchlistService', () => ({
+  watchlistService: { findSanctionsByAddresses: jest.fn() }
+}));
+jest.mock('../../services/allowlistService', () => ({
+  allowlistService: { findApplicableEntry: jest.fn().mockResolvedValue(null), toSuppression: jest.fn() }
+}));
+jest.mock('../../services/programRiskService', () => ({
+  programRiskService: { resolveRisk: jest.fn() }
+}));
+
+const ADDRESS = '1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa';
+const SANCTIONED_ADDRESS = '3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLy';
+const TXID = 'f4184fc596403b9d638783cf57adfe4c75c605f6356fbc91338530e9831e9e16';
+
+const sanctionedEntity: SanctionEntity = {
+  entityId: '1001',
+  name: 'Example Mixer',
+  listSource: 'OFAC',
+  addresses: [SANCTIONED_ADDRESS],
+  aliases: [],
+  lastUpdated: '2025-01-01T00:00:00.000Z',
+  isActive: true
+};
+
+const allowlistEntry: AllowlistEntry = {
+  id: 'entry-1',
+  address: ADDRESS,
+  counterparty: '1001',
+  scope: 'INDIRECT',
+  justification: 'Dust received by our hot wallet',
+  reviewer: 'compliance@example.com',
+  expiresAt: '2099-01-01T00:00:00.000Z',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z'
+};
+
+// One transaction from the target address to a sanctioned address
+function mockSanctionedCounterparty(): void {
+  const transaction: BitcoinTransaction = {
+    txid: TXID,
+    blockHeight: 900000,
+    blockTime: Math.floor(Date.now() / 1000),
+    inputs: [],
+    outputs: [],
+    fee: 0,
+    size: 200
+  };
+  (blockchainApiService.getAddressTransactionIds as jest.Mock).mockResolvedValue([TXID]);
+  (blockchainApiService.getTransaction as jest.Mock).mockResolvedValue(transaction);
+  (blockchainApiService.extractAddressesFromTransaction as jest.Mock).mockReturnValue([ADDRESS, SANCTIONED_ADDRESS]);
+  (sanctionsDataService.findSanctionsByAddresses as jest.Mock).mockResolvedValue(new Map([[SANCTIONED_ADDRESS, [sanctionedEntity]]]));
+  (watchlistService.findSanctionsByAddresses as jest.Mock).mockResolvedValue(new Map());
+  (programRiskService.resolveRisk as jest.Mock).mockResolvedValue({ weight: 15 });
+}
+
+describe('TransactionPathAnalysisService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('drops cached analyses when the sanctions data is reloaded', async () => {
+    const service = new TransactionPathAnalysisService();
+    const onReload = (sanctionsDataService.onReload as jest.Mock).mock.calls[0]?.[0] as () => void;
+
+    await service.analyzeTransactionPath(ADDRESS);
+    expect(blockchainApiService.getAddressTransactionIds).toHaveBeenCalledTimes(1);
+    expect(service.getCacheStats().size).toBe(1);
+
+    onReload();
+
+    expect(service.getCacheStats().size).toBe(0);
+  });
+
+  it('down-weights and reports exposure covered by an allowlist entry, without changing the cached analysis', async () => {
+    mockSanctionedCounterparty();
+    const service = new TransactionPathAnalysisService();
+    const suppression = { allowlistEntryId: 'entry-1', matchType: 'INDIRECT', action: 'DOWN_WEIGHTED' };
+    (allowlistService.toSuppression as jest.Mock).mockReturnValue(suppression);
+    (allowlistService.findApplicableEntry as jest.Mock).mockResolvedValueOnce(allowlistEntry);
+
+    const allowlisted = await service.analyzeTransactionPath(ADDRESS, 1);
+    const unadjusted = await service.analyzeTransactionPath(ADDRESS, 1);
+
+    expect(allowlistService.findApplicableEntry).toHaveBeenCalledWith(ADDRESS, 'INDIRECT', [SANCTIONED_ADDRESS, '1001']);
+    const originalContribution = unadjusted.pathNodes[0]?.riskContribution as number;
+    expect(allowlisted.pathNodes[0]).toMatchObject({
+      address: SANCTIONED_ADDRESS,
+      riskContribution: Math.round(originalContribution * 0.2),
+      allowlisted: suppression
+    });
+    expect(allowlisted.riskPropagation).toBeLessThan(unadjusted.riskPropagation);
+    expect(unadjusted.pathNodes[0]?.allowlisted).toBeUndefined();
+    expect(blockchainApiService.getTransaction).toHaveBeenCalledTimes(1);
+  });
+});
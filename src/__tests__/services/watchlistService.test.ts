@@ -0,0 +1,82 @@
+import { promises as fs } from 'fs';
+import config from '../../config';
+import { WatchlistService } from '../../services/watchlistService';
+import { auditLogService } from '../../services/auditLogService';
+import { DataNotFoundError, ValidationError } from '../../types';
+
+jest.mock('../../config', () => {
+  const os = jest.requireActual('os');
+  const path = jest.requireActual('path');
+  return { __esModule: true, default: { configDir: path.join(os.tmpdir(), `watchlist-test-${process.pid}`) } };
+});
+jest.mock('../../services/auditLogService', () => ({
+  auditLogService: { logListChange: jest.fn().mockResolvedValue(undefined) }
+}));
+
+const ADDRESS = '1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa';
+const TESTNET_ADDRESS = 'tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx';
+
+describe('WatchlistService', () => {
+  let service: WatchlistService;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await fs.rm(config.configDir, { recursive: true, force: true });
+    service = new WatchlistService();
+  });
+
+  afterAll(async () => {
+    await fs.rm(config.configDir, { recursive: true, force: true });
+  });
+
+  it('matches watchlisted addresses without exposing the case details', async () => {
+    const watchlist = await service.createWatchlist({ name: 'Fraud investigations' });
+    const entry = await service.addEntry(watchlist.id, { address: ADDRESS, reason: 'Case 42: account takeover', owner: 'fraud-team' });
+
+    const matches = await service.findSanctionsByAddress(ADDRESS);
+
+    expect(matches).toEqual([expect.objectContaining({
+      entityId: `INTERNAL-${entry.id}`,
+      listSource: 'INTERNAL',
+      regime: 'INTERNAL_WATCHLIST'
+    })]);
+    expect(JSON.stringify(matches)).not.toMatch(/Case 42|fraud-team/);
+    expect(auditLogService.logListChange).toHaveBeenCalledWith('WATCHLIST_ENTRY_ADDED', ADDRESS, expect.anything(), undefined);
+  });
+
+  it('stops matching expired entries, and matches entries as of the dates they were in force', async () => {
+    const watchlist = await service.createWatchlist({ name: 'Expiring' });
+    const entry = await service.addEntry(watchlist.id, {
+      address: ADDRESS,
+      reason: 'Temporary hold',
+      owner: 'compliance',
+      expiresAt: '2999-01-01T00:00:00.000Z'
+    });
+    await expect(service.findSanctionsByAddress(ADDRESS)).resolves.toHaveLength(1);
+
+    await service.updateEntry(watchlist.id, entry.id, {
+      address: ADDRESS,
+      reason: 'Temporary hold',
+      owner: 'compliance',
+      expiresAt: '2000-01-01T00:00:00.000Z'
+    });
+    await expect(service.findSanctionsByAddress(ADDRESS)).resolves.toEqual([]);
+    await expect(service.findSanctionsByAddress(ADDRESS, 'mainnet', '1999-06-01T00:00:00.000Z')).resolves.toEqual([]);
+  });
+
+  it('keeps each watchlist to its own network', async () => {
+    const watchlist = await service.createWatchlist({ name: 'Testnet', network: 'testnet' });
+    await service.addEntry(watchlist.id, { address: TESTNET_ADDRESS, reason: 'QA', owner: 'qa' });
+
+    await expect(service.findSanctionsByAddress(TESTNET_ADDRESS, 'testnet')).resolves.toHaveLength(1);
+    await expect(service.findSanctionsByAddress(TESTNET_ADDRESS, 'mainnet')).resolves.toEqual([]);
+  });
+
+  it('rejects duplicate entries and unknown watchlists', async () => {
+    const watchlist = await service.createWatchlist({ name: 'Duplicates' });
+    await service.addEntry(watchlist.id, { address: ADDRESS, reason: 'First', owner: 'a' });
+
+    await expect(service.addEntry(watchlist.id, { address: ADDRESS, reason: 'Second', owner: 'b' })).rejects.toThrow(ValidationError);
+    await expect(service.getWatchlist('missing')).rejects.toThrow(DataNotFoundError);
+  });
+});
@@ -0,0 +1,59 @@
+import { addressToScriptPubKey, decodeBitcoinAddress } from '../../utils/bitcoinAddress';
+import { ValidationError } from '../../types';
+
+describe('decodeBitcoinAddress', () => {
+  it('decodes Base58Check P2PKH and P2SH addresses', () => {
+    expect(decodeBitcoinAddress('1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa')).toEqual({
+      address: '1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa',
+      scriptType: 'P2PKH',
+      encoding: 'base58'
+    });
+    expect(decodeBitcoinAddress('3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLy')).toMatchObject({ scriptType: 'P2SH' });
+  });
+
+  it('decodes bech32 witness v0 addresses and normalizes them to lowercase', () => {
+    expect(decodeBitcoinAddress('BC1QW508D6QEJXTDG4Y5R3ZARVARY0C5XW7KV8F3T4')).toEqual({
+      address: 'bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4',
+      scriptType: 'P2WPKH',
+      encoding: 'bech32',
+      witnessVersion: 0
+    });
+  });
+
+  it('decodes bech32m taproot addresses', () => {
+    expect(decodeBitcoinAddress('bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0')).toMatchObject({
+      scriptType: 'P2TR',
+      encoding: 'bech32m',
+      witnessVersion: 1
+    });
+  });
+
+  it('decodes test network addresses only on a test network', () => {
+    expect(decodeBitcoinAddress('tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx', 'testnet')).toMatchObject({
+      scriptType: 'P2WPKH'
+    });
+    expect(() => decodeBitcoinAddress('tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx')).toThrow(/prefix/);
+  });
+
+  it.each([
+    ['a Base58Check checksum mismatch', '1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNb', /checksum mismatch/],
+    ['a bech32 checksum mismatch', 'bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t5', /checksum mismatch/],
+    ['mixed case', 'bc1Qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4', /mixes upper and lower case/],
+    ['a witness v0 address with a bech32m checksum', 'bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kemeawh', /must use bech32/],
+    ['characters outside the Base58 alphabet', '1A1zP1eP5QGefi2DMPTfTL5SLmv7Div0Na', /Base58 alphabet/]
+  ])('rejects %s', (_description, address, message) => {
+    expect(() => decodeBitcoinAddress(address)).toThrow(ValidationError);
+    expect(() => decodeBitcoinAddress(address)).toThrow(message);
+  });
+});
+
+describe('addressToScriptPubKey', () => {
+  it('builds the output script of each address type', () => {
+    expect(addressToScriptPubKey('1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa').toString('hex'))
+      .toBe('76a91462e907b15cbf27d5425399ebf6f0fb50ebb88f1888ac');
+    expect(addressToScriptPubKey('bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4').toString('hex'))
+      .toBe('0014751e76e8199196d454941c45d1b3a323f1433bd6');
+    expect(addressToScriptPubKey('bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0').toString('hex'))
+      .toBe('512079be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798');
+  });
+});
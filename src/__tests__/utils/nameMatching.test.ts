@@ -0,0 +1,32 @@
+import { normalizeName, prepareName, scoreNameMatch } from '../../utils/nameMatching';
+
+function score(query: string, candidate: string): number {
+  return scoreNameMatch(prepareName(query), prepareName(candidate));
+}
+
+describe('nameMatching', () => {
+  it('folds diacritics, special letters and punctuation', () => {
+    expect(normalizeName('ŞAHİN, Ömer-Faruk')).toBe('sahin omer faruk');
+    expect(normalizeName('Łukasz Großmann')).toBe('lukasz grossmann');
+  });
+
+  it('ignores token order, as OFAC lists names as "LAST, First"', () => {
+    expect(score('Roman Semenov', 'SEMENOV, Roman')).toBe(100);
+  });
+
+  it('tolerates transliteration differences', () => {
+    expect(score('Muhammad Yusuf', 'Mohammed Youssef')).toBeGreaterThanOrEqual(90);
+  });
+
+  it('scores unrelated names low', () => {
+    expect(score('Roman Semenov', 'Garantex Europe')).toBeLessThan(70);
+    expect(score('', 'Garantex Europe')).toBe(0);
+  });
+
+  it('scores a missing middle name below an exact match but above the default threshold', () => {
+    const result = score('Alexey Pertsev', 'PERTSEV, Alexey Romanovich');
+
+    expect(result).toBeLessThan(100);
+    expect(result).toBeGreaterThanOrEqual(70);
+  });
+});
@@ -0,0 +1,78 @@
+import { RateLimiter } from '../../utils/rateLimiter';
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('serves every request at once without a limit', async () => {
+    const limiter = new RateLimiter(0);
+
+    await expect(limiter.acquire('bulk', 0)).resolves.toBe(0);
+    expect(limiter.estimateWaitMs('bulk')).toBe(0);
+    expect(limiter.getStatus()).toMatchObject({ requestsPerMinute: null, availableTokens: null });
+  });
+
+  it('serves up to the limit at once and queues requests over it', async () => {
+    const limiter = new RateLimiter(2);
+
+    await expect(limiter.acquire('interactive', 0)).resolves.toBe(0);
+    await expect(limiter.acquire('interactive', 0)).resolves.toBe(0);
+    await expect(limiter.acquire('interactive', 0)).resolves.toBeNull();
+
+    // One token every 30 seconds at 2 requests per minute
+    const queued = limiter.acquire('interactive', 60 * 1000);
+    expect(limiter.getStatus().queueDepth.interactive).toBe(1);
+    expect(limiter.estimateWaitMs('interactive')).toBeGreaterThan(0);
+
+    jest.advanceTimersByTime(30 * 1000);
+    await expect(queued).resolves.toBe(30 * 1000);
+    expect(limiter.getStatus().queueDepth.interactive).toBe(0);
+  });
+
+  it('gives up on a queued request after its maximum wait', async () => {
+    const limiter = new RateLimiter(1);
+    await limiter.acquire('bulk', 0);
+
+    const queued = limiter.acquire('bulk', 1000);
+    jest.advanceTimersByTime(1000);
+
+    await expect(queued).resolves.toBeNull();
+    expect(limiter.getStatus().waits.bulk.timedOut).toBe(1);
+    expect(limiter.getStatus().queueDepth.bulk).toBe(0);
+  });
+
+  it('serves interactive requests before bulk requests queued earlier', async () => {
+    const limiter = new RateLimiter(1);
+    await limiter.acquire('interactive', 0);
+
+    const served: string[] = [];
+    const bulk = limiter.acquire('bulk', 5 * 60 * 1000).then(() => served.push('bulk'));
+    const interactive = limiter.acquire('interactive', 5 * 60 * 1000).then(() => served.push('interactive'));
+
+    jest.advanceTimersByTime(60 * 1000);
+    await interactive;
+    expect(served).toEqual(['interactive']);
+
+    jest.advanceTimersByTime(60 * 1000);
+    await bulk;
+    expect(served).toEqual(['interactive', 'bulk']);
+  });
+
+  it('does not let a new request overtake a waiting request of the same priority', async () => {
+    const limiter = new RateLimiter(1);
+    await limiter.acquire('bulk', 0);
+    const queued = limiter.acquire('bulk', 5 * 60 * 1000);
+
+    // A token is due by now, but it belongs to the request already waiting
+    jest.setSystemTime(Date.now() + 60 * 1000);
+    await expect(limiter.acquire('bulk', 0)).resolves.toBeNull();
+
+    jest.advanceTimersByTime(60 * 1000);
+    await expect(queued).resolves.toBeGreaterThan(0);
+  });
+});
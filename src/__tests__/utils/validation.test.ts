@@ -0,0 +1,122 @@
+import {
+  describeInvalidAddress,
+  detectAddressAssets,
+  getAddressValidation,
+  isValidAddressForAsset,
+  isValidBitcoinAddress,
+  isValidBitcoinTxHash,
+  normalizeAsOf,
+  validateAddressScreeningRequest,
+  validateAllowlistRequest,
+  validateBulkScreeningRequest,
+  validateRiskIdentifier,
+  validateSanctionsImportRequest
+} from '../../utils/validation';
+import { ValidationError } from '../../types';
+
+const P2PKH_ADDRESS = '1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa';
+const P2SH_ADDRESS = '3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLy';
+const TESTNET_ADDRESS = 'tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx';
+const ETH_ADDRESS = '0x098B716B8Aaf21512996dC57EB0615e2383E2f96';
+const TX_HASH = '4a5e1e4baab89f3a32518a88c31bc87f618f76673e2cc77ab2127b7afdeda33b';
+
+describe('validation', () => {
+  describe('addresses', () => {
+    it('checks Bitcoin addresses against the network', () => {
+      expect(isValidBitcoinAddress(P2PKH_ADDRESS)).toBe(true);
+      expect(isValidBitcoinAddress(TESTNET_ADDRESS)).toBe(false);
+      expect(isValidBitcoinAddress(TESTNET_ADDRESS, 'testnet')).toBe(true);
+      expect(isValidBitcoinAddress('1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNb')).toBe(false);
+    });
+
+    it('detects every asset sharing an address format', () => {
+      expect(detectAddressAssets(ETH_ADDRESS)).toEqual(['ETH', 'ETC']);
+      expect(detectAddressAssets(P2SH_ADDRESS)).toEqual(['XBT', 'LTC']);
+      expect(detectAddressAssets('not-an-address')).toEqual([]);
+    });
+
+    it('only accepts Bitcoin addresses on test networks', () => {
+      expect(isValidAddressForAsset(ETH_ADDRESS, 'ETH')).toBe(true);
+      expect(isValidAddressForAsset(ETH_ADDRESS, 'ETH', 'testnet')).toBe(false);
+      expect(describeInvalidAddress(ETH_ADDRESS, 'ETH', 'testnet'))
+        .toBe('ETH is not supported on testnet; only Bitcoin addresses can be screened on test networks');
+    });
+
+    it('names the decoding problem of an invalid Bitcoin address', () => {
+      expect(describeInvalidAddress('1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNb')).toMatch(/checksum/i);
+      expect(describeInvalidAddress('0x1234', 'ETH')).toBe('Invalid ETH address format');
+    });
+
+    it('only checks the format of addresses other than Bitcoin', () => {
+      // Wrong EIP-55 capitalization of ETH_ADDRESS, which a checksum check would reject
+      expect(isValidAddressForAsset(ETH_ADDRESS.replace('B716B8A', 'b716b8a'), 'ETH')).toBe(true);
+      expect(getAddressValidation(['ETH', 'ETC'])).toBe('FORMAT_ONLY');
+      expect(getAddressValidation(['XBT', 'LTC'])).toBe('CHECKSUM');
+    });
+  });
+
+  it('checks transaction hash format', () => {
+    expect(isValidBitcoinTxHash(TX_HASH)).toBe(true);
+    expect(isValidBitcoinTxHash(TX_HASH.slice(1))).toBe(false);
+    expect(isValidBitcoinTxHash(`${TX_HASH.slice(1)}g`)).toBe(false);
+  });
+
+  describe('normalizeAsOf', () => {
+    it('normalizes dates to ISO timestamps', () => {
+      expect(normalizeAsOf(undefined)).toBeUndefined();
+      expect(normalizeAsOf('2022-08-08')).toBe('2022-08-08T00:00:00.000Z');
+    });
+
+    it('rejects invalid and future dates', () => {
+      expect(() => normalizeAsOf('yesterday')).toThrow(ValidationError);
+      const future = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+      expect(() => normalizeAsOf(future)).toThrow('asOf cannot be in the future');
+    });
+  });
+
+  describe('request schemas', () => {
+    it('applies address screening defaults and checks the address against the network', () => {
+      expect(validateAddressScreeningRequest({ address: P2PKH_ADDRESS })).toEqual({
+        address: P2PKH_ADDRESS,
+        network: 'mainnet',
+        includeTransactionAnalysis: false,
+        maxHops: 5
+      });
+      expect(validateAddressScreeningRequest({ address: TESTNET_ADDRESS, network: 'testnet' }).network).toBe('testnet');
+      expect(() => validateAddressScreeningRequest({ address: TESTNET_ADDRESS })).toThrow(ValidationError);
+      expect(() => validateAddressScreeningRequest({ address: P2PKH_ADDRESS, maxHops: 11 })).toThrow(ValidationError);
+    });
+
+    it('requires addresses or transactions in bulk requests', () => {
+      expect(() => validateBulkScreeningRequest({})).toThrow('Either addresses or transactions array must be provided');
+      expect(() => validateBulkScreeningRequest({ transactions: ['abc'] }))
+        .toThrow('Invalid Bitcoin transaction hash format in transactions array');
+      expect(validateBulkScreeningRequest({ addresses: [P2PKH_ADDRESS], transactions: [TX_HASH] }))
+        .toEqual({ addresses: [P2PKH_ADDRESS], transactions: [TX_HASH] });
+    });
+
+    it('requires allowlist entries to expire in the future', () => {
+      const entry = {
+        address: P2PKH_ADDRESS,
+        scope: 'DIRECT',
+        justification: 'Exchange hot wallet',
+        reviewer: 'compliance'
+      };
+      expect(() => validateAllowlistRequest({ ...entry, expiresAt: '2020-01-01T00:00:00Z' }))
+        .toThrow('expiresAt must be in the future');
+      expect(validateAllowlistRequest({ ...entry, expiresAt: '2999-01-01T00:00:00Z' }).scope).toBe('DIRECT');
+    });
+
+    it('requires a known sanctions import format', () => {
+      expect(validateSanctionsImportRequest({ format: 'csv' }))
+        .toEqual({ format: 'csv', confirm: false, allowInvalidAddresses: false });
+      expect(() => validateSanctionsImportRequest({ format: 'xlsx' })).toThrow(ValidationError);
+    });
+  });
+
+  it('tells addresses from transaction hashes in risk identifiers', () => {
+    expect(validateRiskIdentifier(P2PKH_ADDRESS)).toEqual({ type: 'address', value: P2PKH_ADDRESS });
+    expect(validateRiskIdentifier(TX_HASH)).toEqual({ type: 'transaction', value: TX_HASH });
+    expect(() => validateRiskIdentifier('neither')).toThrow(ValidationError);
+  });
+});
@@ -1,9 +1,15 @@
 import dotenv from 'dotenv';
-import { AppConfig } from './types';
+import { AppConfig, BitcoinNetwork } from './types';
 
 // Load environment variables
 dotenv.config();
 
+// Public block explorers only see customer addresses when listed explicitly, or when no node of our own is set up
+const defaultBlockchainProviders = [
+  process.env.ELECTRUM_URL && 'electrum',
+  process.env.BITCOIN_RPC_URL && 'bitcoincore'
+].filter(Boolean).join(',') || 'mempool,blockstream,blockcypher';
+
 const config: AppConfig = {
   port: parseInt(process.env.PORT || '3000', 10),
   logLevel: process.env.LOG_LEVEL || 'info',
@@ -20,11 +26,60 @@ const config: AppConfig = {
     blockCypher: process.env.BLOCKCYPHER_BASE_URL || 'https://api.blockcypher.com/v1/btc/main',
     blockStream: process.env.BLOCKSTREAM_BASE_URL || 'https://blockstream.info/api'
   },
+  mempoolHostnames: {
+    testnet: process.env.MEMPOOL_TESTNET_HOSTNAME || 'mempool.space',
+    signet: process.env.MEMPOOL_SIGNET_HOSTNAME || 'mempool.space'
+  },
+  blockchainProviders: (process.env.BLOCKCHAIN_PROVIDERS || defaultBlockchainProviders)
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(name => name.length > 0),
+  blockchainApiTimeoutMs: parseInt(process.env.BLOCKCHAIN_API_TIMEOUT_MS || '10000', 10),
+  blockCypherToken: process.env.BLOCKCYPHER_TOKEN || '',
+  addressHistoryCacheTtlSeconds: parseInt(process.env.ADDRESS_HISTORY_CACHE_TTL_SECONDS || '60', 10),
+  blockchainRateLimitPerMinute: parseInt(process.env.BLOCKCHAIN_RATE_LIMIT_PER_MINUTE || '60', 10),
+  // name:requestsPerMinute pairs, e.g. "blockcypher:1,bitcoincore:0"
+  blockchainRateLimits: Object.fromEntries((process.env.BLOCKCHAIN_RATE_LIMITS || '')
+    .split(',')
+    .map(entry => entry.split(':'))
+    .filter((parts): parts is [string, string] => parts.length === 2 && !isNaN(parseInt(parts[1] as string, 10)))
+    .map(([name, limit]) => [name.trim().toLowerCase(), parseInt(limit, 10)])),
+  blockchainQueueMaxWaitMs: parseInt(process.env.BLOCKCHAIN_QUEUE_MAX_WAIT_MS || '30000', 10),
+  electrum: {
+    url: process.env.ELECTRUM_URL || '',
+    network: (process.env.ELECTRUM_NETWORK || 'mainnet') as BitcoinNetwork,
+    rejectUnauthorized: process.env.ELECTRUM_TLS_REJECT_UNAUTHORIZED !== 'false'
+  },
+  bitcoinRpc: {
+    url: process.env.BITCOIN_RPC_URL || '',
+    username: process.env.BITCOIN_RPC_USER || '',
+    password: process.env.BITCOIN_RPC_PASSWORD || '',
+    network: (process.env.BITCOIN_RPC_NETWORK || 'mainnet') as BitcoinNetwork,
+    indexerUrl: process.env.BITCOIN_RPC_INDEXER_URL || ''
+  },
   sanctionsUrls: {
     ofac: process.env.OFAC_SDN_URL || 'https://www.treasury.gov/ofac/downloads/sdn.xml',
     eu: process.env.EU_SANCTIONS_URL || 'https://webgate.ec.europa.eu/fsd/fsf/public/files/xmlFullSanctionsList_1_1/content',
     un: process.env.UN_SANCTIONS_URL || 'https://scsanctions.un.org/resources/xml/en/consolidated.xml'
-  }
+  },
+  sanctionsFiles: {
+    eu: process.env.EU_SANCTIONS_FILE || './data/sanctions/raw_data/eu-sanctions.xml',
+    un: process.env.UN_SANCTIONS_FILE || './data/sanctions/raw_data/un-consolidated.xml',
+    ukOfsi: process.env.UK_OFSI_SANCTIONS_FILE || './data/sanctions/raw_data/ofsi-conlist.csv'
+  },
+  sanctionSourceWeights: {
+    OFAC: parseInt(process.env.OFAC_RISK_WEIGHT || '15', 10),
+    EU: parseInt(process.env.EU_RISK_WEIGHT || '10', 10),
+    UN: parseInt(process.env.UN_RISK_WEIGHT || '10', 10),
+    UK_OFSI: parseInt(process.env.UK_OFSI_RISK_WEIGHT || '10', 10),
+    INTERNAL: parseInt(process.env.INTERNAL_WATCHLIST_RISK_WEIGHT || '15', 10)
+  },
+  sanctionsHotReload: process.env.SANCTIONS_HOT_RELOAD !== 'false',
+  allowlistIndirectRiskFactor: parseFloat(process.env.ALLOWLIST_INDIRECT_RISK_FACTOR || '0.2'),
+  adminApiKey: process.env.ADMIN_API_KEY || '',
+  sanctionsImportMaxSize: process.env.SANCTIONS_IMPORT_MAX_SIZE || '200mb',
+  sanctionsInboxPollSeconds: parseInt(process.env.SANCTIONS_INBOX_POLL_SECONDS || '300', 10),
+  sanctionsInboxMaxRemovedShare: parseFloat(process.env.SANCTIONS_INBOX_MAX_REMOVED_SHARE || '0.1')
 };
 
 export default config;
@@ -98,9 +98,41 @@ const options = {
           properties: {
             address: {
               type: 'string',
-              description: 'The Bitcoin address that was screened',
+              description: 'The cryptocurrency address that was screened',
               example: '1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa',
             },
+            network: {
+              type: 'string',
+              enum: ['mainnet', 'testnet', 'signet'],
+              description: 'Network the address was screened on',
+              example: 'mainnet',
+            },
+            asOf: {
+              type: 'string',
+              format: 'date-time',
+              description: 'Set for point-in-time screening: matches reflect the lists as they stood at this time',
+            },
+            assets: {
+              type: 'array',
+              items: {
+                type: 'string',
+                enum: ['XBT', 'ETH', 'LTC', 'XMR', 'ZEC', 'DASH', 'BTG', 'ETC', 'XVG'],
+              },
+              description: 'Assets the address was screened for: the requested asset, or every asset its format is valid for',
+              example: ['XBT'],
+            },
+            addressValidation: {
+              type: 'string',
+              enum: ['CHECKSUM', 'FORMAT_ONLY'],
+              description: 'CHECKSUM when the address was decoded as a Bitcoin address and its checksum verified. FORMAT_ONLY for the other assets, whose addresses are only matched against their format (no EIP-55, base58check or bech32 checksum), so a mistyped address can pass',
+              example: 'CHECKSUM',
+            },
+            scriptType: {
+              type: 'string',
+              enum: ['P2PKH', 'P2SH', 'P2WPKH', 'P2WSH', 'P2TR'],
+              description: 'Output script type decoded from a Bitcoin address',
+              example: 'P2PKH',
+            },
             riskScore: {
               type: 'integer',
               minimum: 0,
@@ -119,6 +151,29 @@ const options = {
               },
               description: 'List of sanction matches found',
             },
+            suppressedMatches: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/AllowlistSuppression',
+              },
+              description: 'Hits suppressed or down-weighted by allowlist entries, kept for auditors',
+            },
+            riskFactors: {
+              $ref: '#/components/schemas/RiskFactors',
+            },
+            highRiskJurisdictions: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/JurisdictionLink',
+              },
+              description: 'High-risk jurisdictions linked to the matched entities and counterparties, behind the geographical risk factor',
+            },
+            degradedChecks: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Checks that failed or only partly ran, so matches they would have found may be missing; the risk level is at least MEDIUM. TRANSACTION_PATH means the requested transaction analysis failed or is incomplete',
+              example: ['INTERNAL_WATCHLIST'],
+            },
             timestamp: {
               type: 'string',
               format: 'date-time',
@@ -137,14 +192,77 @@ const options = {
           },
           required: ['address', 'riskScore', 'riskLevel', 'sanctionMatches', 'timestamp', 'confidence', 'processingTimeMs'],
         },
+        RiskFactors: {
+          type: 'object',
+          description: 'Points each factor contributed to the risk score',
+          properties: {
+            directSanctionMatch: { type: 'integer', minimum: 0, maximum: 80 },
+            indirectExposure: { type: 'integer', minimum: 0, maximum: 60 },
+            transactionPatterns: { type: 'integer', minimum: 0, maximum: 20, description: 'Not scored yet' },
+            geographicalRisk: {
+              type: 'integer',
+              minimum: 0,
+              maximum: 10,
+              description: 'Highest weight among the high-risk jurisdictions linked to the matched entities; counterparties count for half',
+            },
+            temporalFactors: { type: 'integer', minimum: 0, maximum: 5, description: 'Not scored yet' },
+          },
+          required: ['directSanctionMatch', 'indirectExposure', 'transactionPatterns', 'geographicalRisk', 'temporalFactors'],
+        },
+        JurisdictionLink: {
+          type: 'object',
+          properties: {
+            country: {
+              type: 'string',
+              description: 'ISO 3166-1 alpha-2 code of the jurisdiction',
+              example: 'KP',
+            },
+            name: {
+              type: 'string',
+              example: 'North Korea',
+            },
+            entityId: {
+              type: 'string',
+              description: 'Sanctioned entity linked to the jurisdiction',
+            },
+            matchType: {
+              type: 'string',
+              enum: ['DIRECT', 'INDIRECT'],
+              description: 'DIRECT for an entity listing the screened address, INDIRECT for a counterparty',
+            },
+            basis: {
+              type: 'array',
+              items: {
+                type: 'string',
+                enum: ['PROGRAM', 'NATIONALITY', 'CITIZENSHIP', 'PLACE_OF_BIRTH', 'IDENTIFIER'],
+              },
+              description: 'What links the entity to the jurisdiction',
+            },
+            weight: {
+              type: 'integer',
+              description: 'Points this link scores',
+            },
+          },
+          required: ['country', 'name', 'entityId', 'matchType', 'basis', 'weight'],
+        },
         SanctionMatch: {
           type: 'object',
           properties: {
             listSource: {
               type: 'string',
-              enum: ['OFAC'],
+              enum: ['OFAC', 'EU', 'UN', 'UK_OFSI', 'INTERNAL'],
               description: 'Source of the sanctions list',
             },
+            jurisdiction: {
+              type: 'string',
+              enum: ['US', 'EU', 'UN', 'UK', 'INTERNAL'],
+              description: 'Legal jurisdiction of the designating list',
+            },
+            regime: {
+              type: 'string',
+              description: 'Sanctions regime or programme named by the list (EU, UN and UK OFSI)',
+              example: 'Russia',
+            },
             entityName: {
               type: 'string',
               description: 'Name of the sanctioned entity',
@@ -170,8 +288,48 @@ const options = {
               type: 'string',
               description: 'The specific address that matched',
             },
+            asset: {
+              type: 'string',
+              enum: ['XBT', 'ETH', 'LTC', 'XMR', 'ZEC', 'DASH', 'BTG', 'ETC', 'XVG'],
+              description: 'Cryptocurrency the matched address is listed under',
+              example: 'XBT',
+            },
+            listedCurrencies: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Currency codes the list gives for the address when none of them is a screened asset, e.g. a USDT token address',
+              example: ['USDT'],
+            },
+            designatedAt: {
+              type: 'string',
+              format: 'date-time',
+              description: 'Start of the designation the match falls in; the first-seen date when the list gives none',
+            },
+            delistedAt: {
+              type: 'string',
+              format: 'date-time',
+              description: 'When the address was removed from the list, for point-in-time matches since delisted',
+            },
+            estimated: {
+              type: 'boolean',
+              description: 'The list gives no designation date, so designatedAt is when the address was first seen and it may have been listed earlier',
+            },
+            entityDetails: {
+              $ref: '#/components/schemas/EntityDetails',
+            },
+            programs: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Sanctions program codes the entity is designated under',
+              example: ['DPRK3', 'CYBER2'],
+            },
+            severity: {
+              type: 'string',
+              description: 'Severity label of the highest-weighted configured program or regime',
+              example: 'SEVERE',
+            },
           },
-          required: ['listSource', 'entityName', 'entityId', 'matchType', 'confidence'],
+          required: ['listSource', 'jurisdiction', 'entityName', 'entityId', 'matchType', 'confidence'],
         },
         HealthStatus: {
           type: 'object',
@@ -207,11 +365,544 @@ const options = {
                   type: 'object',
                   description: 'Status of required data directories',
                 },
+                sanctionsInbox: {
+                  type: 'object',
+                  description: 'Sanctions inbox polling and the outcome of the last import and failure',
+                  properties: {
+                    enabled: { type: 'boolean' },
+                    inboxDir: { type: 'string' },
+                    pollIntervalSeconds: { type: 'integer' },
+                    lastPollAt: { type: 'string', format: 'date-time', nullable: true },
+                    lastImport: {
+                      type: 'object',
+                      nullable: true,
+                      properties: {
+                        file: { type: 'string' },
+                        importedAt: { type: 'string', format: 'date-time' },
+                        versionId: { type: 'string', nullable: true },
+                      },
+                    },
+                    lastFailure: {
+                      type: 'object',
+                      nullable: true,
+                      properties: {
+                        file: { type: 'string' },
+                        failedAt: { type: 'string', format: 'date-time' },
+                        error: { type: 'string' },
+                      },
+                    },
+                  },
+                },
+                blockchainProviders: {
+                  type: 'array',
+                  description: 'Blockchain data providers in priority order, with their recent health',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      name: { type: 'string', enum: ['mempool', 'blockstream', 'blockcypher', 'bitcoincore', 'electrum'] },
+                      priority: { type: 'integer', description: '1 is tried first' },
+                      networks: { type: 'array', items: { type: 'string', enum: ['mainnet', 'testnet', 'signet'] } },
+                      operations: {
+                        type: 'array',
+                        description: 'Lookups the provider serves',
+                        items: { type: 'string', enum: ['transaction', 'addressInfo', 'addressTransactions', 'addressUtxos', 'blockHeight'] },
+                      },
+                      rateLimit: {
+                        type: 'object',
+                        description: 'Queue of requests waiting for capacity under the provider\'s rate limit',
+                        properties: {
+                          requestsPerMinute: { type: 'integer', nullable: true, description: 'Null when unlimited' },
+                          availableTokens: { type: 'integer', nullable: true },
+                          queueDepth: {
+                            type: 'object',
+                            properties: {
+                              interactive: { type: 'integer' },
+                              bulk: { type: 'integer' },
+                            },
+                          },
+                          waits: {
+                            type: 'object',
+                            description: 'Wait times per priority; interactive requests are served before bulk ones',
+                            additionalProperties: {
+                              type: 'object',
+                              properties: {
+                                served: { type: 'integer' },
+                                timedOut: { type: 'integer', description: 'Requests that gave up after the maximum wait' },
+                                averageWaitMs: { type: 'integer' },
+                                maxWaitMs: { type: 'integer' },
+                              },
+                            },
+                          },
+                        },
+                      },
+                      available: { type: 'boolean', description: 'False while the provider is skipped after repeated failures or a rate limit' },
+                      cooldownUntil: { type: 'string', format: 'date-time', nullable: true },
+                      consecutiveFailures: { type: 'integer' },
+                      requestCount: { type: 'integer' },
+                      failureCount: { type: 'integer' },
+                      lastSuccessAt: { type: 'string', format: 'date-time', nullable: true },
+                      lastFailure: {
+                        type: 'object',
+                        nullable: true,
+                        properties: {
+                          failedAt: { type: 'string', format: 'date-time' },
+                          error: { type: 'string' },
+                          rateLimited: { type: 'boolean' },
+                        },
+                      },
+                    },
+                  },
+                },
+                cache: {
+                  type: 'object',
+                  description: 'Path analysis cache and the blockchain data cache behind it',
+                  properties: {
+                    size: { type: 'integer', description: 'Cached path analyses' },
+                    maxSize: { type: 'integer' },
+                    blockchain: {
+                      type: 'object',
+                      properties: {
+                        transactions: {
+                          type: 'object',
+                          description: 'Confirmed transactions cached on disk',
+                          properties: {
+                            hits: { type: 'integer' },
+                            misses: { type: 'integer' },
+                            writes: { type: 'integer' },
+                          },
+                        },
+                        addressHistories: {
+                          type: 'object',
+                          description: 'Address transaction IDs cached in memory until their TTL passes or a new block is found',
+                          properties: {
+                            entries: { type: 'integer' },
+                            hits: { type: 'integer' },
+                            misses: { type: 'integer' },
+                            invalidations: { type: 'integer', description: 'Histories dropped because a new block was found' },
+                            ttlSeconds: { type: 'integer' },
+                          },
+                        },
+                        blockHeights: {
+                          type: 'object',
+                          description: 'Latest block height seen per network',
+                          additionalProperties: { type: 'integer' },
+                        },
+                      },
+                    },
+                  },
+                },
               },
             },
           },
           required: ['status', 'timestamp', 'uptime', 'version', 'environment'],
         },
+        SanctionEntity: {
+          type: 'object',
+          properties: {
+            entityId: {
+              type: 'string',
+              description: 'Sanctioned entity identifier',
+              example: '12345',
+            },
+            name: {
+              type: 'string',
+              description: 'Primary name of the entity',
+            },
+            listSource: {
+              type: 'string',
+              enum: ['OFAC', 'EU', 'UN', 'UK_OFSI'],
+              description: 'Source sanctions list',
+            },
+            addresses: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'All cryptocurrency addresses listed for the entity',
+            },
+            addressesByCurrency: {
+              type: 'object',
+              additionalProperties: {
+                type: 'array',
+                items: { type: 'string' },
+              },
+              description: 'Addresses grouped by cryptocurrency code, when the list provides it',
+              example: { XBT: ['1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa'] },
+            },
+            aliases: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Known aliases of the entity',
+            },
+            entityType: {
+              type: 'string',
+              description: 'Entity type (e.g. individual, entity)',
+            },
+            programs: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Sanctions programs the entity is designated under',
+            },
+            regime: {
+              type: 'string',
+              description: 'Sanctions regime or programme named by the list, when provided',
+            },
+            remarks: {
+              type: 'string',
+              description: 'Remarks published with the designation',
+            },
+            details: {
+              $ref: '#/components/schemas/EntityDetails',
+            },
+            lastUpdated: {
+              type: 'string',
+              format: 'date-time',
+              description: 'Last update of the entity on the source list',
+            },
+            isActive: {
+              type: 'boolean',
+              description: 'Whether the entity is currently designated',
+            },
+          },
+          required: ['entityId', 'name', 'listSource', 'addresses', 'aliases', 'lastUpdated', 'isActive'],
+        },
+        EntityDetails: {
+          type: 'object',
+          description: 'Identifying details parsed from the SDN remarks (OFAC entities only); fields are omitted when not listed',
+          properties: {
+            datesOfBirth: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Dates of birth as written on the list',
+              example: ['25 Mar 1977'],
+            },
+            placesOfBirth: { type: 'array', items: { type: 'string' }, example: ['Wuhan City, Hubei, China'] },
+            nationalities: { type: 'array', items: { type: 'string' }, example: ['China'] },
+            citizenships: { type: 'array', items: { type: 'string' } },
+            gender: { type: 'string', example: 'Male' },
+            websites: { type: 'array', items: { type: 'string' }, example: ['suex.io'] },
+            emailAddresses: { type: 'array', items: { type: 'string' } },
+            phoneNumbers: { type: 'array', items: { type: 'string' } },
+            linkedTo: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Names of other listed parties the entity is linked to',
+            },
+            secondarySanctionsRisks: {
+              type: 'array',
+              items: { type: 'string' },
+              example: ['Ukraine-/Russia-Related Sanctions Regulations, 31 CFR 589.201'],
+            },
+            identifiers: {
+              type: 'array',
+              description: 'Identity documents and registration numbers',
+              items: {
+                type: 'object',
+                properties: {
+                  type: { type: 'string', example: 'Passport' },
+                  number: { type: 'string', example: 'T14553558' },
+                  country: { type: 'string', example: 'Iran' },
+                  issuedAt: { type: 'string', format: 'date-time' },
+                  expiresAt: { type: 'string', format: 'date-time' },
+                },
+                required: ['type', 'number'],
+              },
+            },
+          },
+        },
+        SanctionNameMatch: {
+          type: 'object',
+          properties: {
+            entityId: {
+              type: 'string',
+              description: 'Sanctioned entity identifier',
+            },
+            name: {
+              type: 'string',
+              description: 'Primary name of the entity',
+            },
+            listSource: {
+              type: 'string',
+              enum: ['OFAC', 'EU', 'UN', 'UK_OFSI'],
+              description: 'Source sanctions list',
+            },
+            jurisdiction: {
+              type: 'string',
+              enum: ['US', 'EU', 'UN', 'UK'],
+              description: 'Jurisdiction of the source list',
+            },
+            regime: {
+              type: 'string',
+              description: 'Sanctions regime or programme, when provided by the list',
+            },
+            aliases: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Known aliases of the entity',
+            },
+            matchedField: {
+              type: 'string',
+              enum: ['name', 'alias'],
+              description: 'Whether the primary name or an alias matched',
+            },
+            matchedValue: {
+              type: 'string',
+              description: 'The name or alias that matched',
+            },
+            score: {
+              type: 'integer',
+              minimum: 0,
+              maximum: 100,
+              description: 'Similarity score',
+            },
+          },
+          required: ['entityId', 'name', 'listSource', 'jurisdiction', 'aliases', 'matchedField', 'matchedValue', 'score'],
+        },
+        WatchlistRequest: {
+          type: 'object',
+          properties: {
+            name: {
+              type: 'string',
+              maxLength: 100,
+              example: 'Fraud cases',
+            },
+            description: {
+              type: 'string',
+              maxLength: 500,
+            },
+            network: {
+              type: 'string',
+              enum: ['mainnet', 'testnet', 'signet'],
+              default: 'mainnet',
+              description: 'Bitcoin network whose screenings the watchlist applies to; set at creation only',
+            },
+          },
+          required: ['name'],
+        },
+        WatchlistEntryRequest: {
+          type: 'object',
+          properties: {
+            address: {
+              type: 'string',
+              description: 'Bitcoin address to block',
+              example: '1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa',
+            },
+            reason: {
+              type: 'string',
+              maxLength: 500,
+              description: 'Why the address is listed',
+              example: 'Law-enforcement request LE-2025-041',
+            },
+            owner: {
+              type: 'string',
+              maxLength: 100,
+              description: 'Person or team responsible for the entry',
+              example: 'compliance-team',
+            },
+            expiresAt: {
+              type: 'string',
+              format: 'date-time',
+              description: 'Optional expiry; expired entries are kept but no longer matched',
+            },
+          },
+          required: ['address', 'reason', 'owner'],
+        },
+        WatchlistEntry: {
+          allOf: [
+            { $ref: '#/components/schemas/WatchlistEntryRequest' },
+            {
+              type: 'object',
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                createdAt: { type: 'string', format: 'date-time' },
+                updatedAt: { type: 'string', format: 'date-time' },
+              },
+              required: ['id', 'createdAt', 'updatedAt'],
+            },
+          ],
+        },
+        Watchlist: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            name: { type: 'string' },
+            description: { type: 'string' },
+            network: { type: 'string', enum: ['mainnet', 'testnet', 'signet'] },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' },
+            entries: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/WatchlistEntry' },
+            },
+          },
+          required: ['id', 'name', 'network', 'createdAt', 'updatedAt', 'entries'],
+        },
+        AllowlistRequest: {
+          type: 'object',
+          properties: {
+            address: {
+              type: 'string',
+              description: 'Screened address the entry applies to',
+              example: 'bc1qxy2kgdygjrsqtzq2n0yrf2493p83kkfjhx0wlh',
+            },
+            counterparty: {
+              type: 'string',
+              description: 'Sanctioned entity ID or address; the entry covers every counterparty when omitted',
+            },
+            scope: {
+              type: 'string',
+              enum: ['DIRECT', 'INDIRECT', 'BOTH'],
+              description: 'Which hits the entry covers',
+            },
+            justification: {
+              type: 'string',
+              maxLength: 1000,
+              example: 'Own hot wallet; received unsolicited dust from a sanctioned address',
+            },
+            reviewer: {
+              type: 'string',
+              maxLength: 100,
+              description: 'Person who signed off the entry',
+            },
+            expiresAt: {
+              type: 'string',
+              format: 'date-time',
+              description: 'Expiry date; must be in the future',
+            },
+          },
+          required: ['address', 'scope', 'justification', 'reviewer', 'expiresAt'],
+        },
+        AllowlistEntry: {
+          allOf: [
+            { $ref: '#/components/schemas/AllowlistRequest' },
+            {
+              type: 'object',
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                createdAt: { type: 'string', format: 'date-time' },
+                updatedAt: { type: 'string', format: 'date-time' },
+              },
+              required: ['id', 'createdAt', 'updatedAt'],
+            },
+          ],
+        },
+        AllowlistSuppression: {
+          type: 'object',
+          properties: {
+            allowlistEntryId: { type: 'string', format: 'uuid' },
+            matchType: { type: 'string', enum: ['DIRECT', 'INDIRECT'] },
+            action: { type: 'string', enum: ['SUPPRESSED', 'DOWN_WEIGHTED'] },
+            sanctionedAddress: { type: 'string' },
+            entityIds: { type: 'array', items: { type: 'string' } },
+            originalRiskContribution: {
+              type: 'number',
+              description: 'Risk contribution of the path node before down-weighting (indirect only)',
+            },
+            justification: { type: 'string' },
+            reviewer: { type: 'string' },
+            expiresAt: { type: 'string', format: 'date-time' },
+          },
+          required: ['allowlistEntryId', 'matchType', 'action', 'sanctionedAddress', 'entityIds', 'justification', 'reviewer', 'expiresAt'],
+        },
+        SanctionsSnapshot: {
+          type: 'object',
+          properties: {
+            versionId: {
+              type: 'string',
+              description: 'Short version identifier (content hash prefix)',
+              example: '3f2a9c41d0b7',
+            },
+            contentHash: {
+              type: 'string',
+              description: 'SHA-256 hash of the sanctions data file',
+            },
+            lastUpdated: {
+              type: 'string',
+              format: 'date-time',
+              description: 'metadata.lastUpdated of the sanctions data file',
+            },
+            recordedAt: {
+              type: 'string',
+              format: 'date-time',
+              description: 'When the snapshot was recorded',
+            },
+            totalEntries: {
+              type: 'integer',
+              description: 'Number of address entries in the snapshot',
+            },
+            fileName: {
+              type: 'string',
+              description: 'Snapshot file name in the history directory',
+            },
+          },
+          required: ['versionId', 'contentHash', 'lastUpdated', 'recordedAt', 'totalEntries', 'fileName'],
+        },
+        SanctionsImportResult: {
+          type: 'object',
+          properties: {
+            format: {
+              type: 'string',
+              enum: ['csv', 'advanced-xml', 'refined-json'],
+              description: 'Format the upload was read as',
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'True when the import was only validated and diffed',
+            },
+            published: {
+              type: 'boolean',
+              description: 'Whether the data was published and reloaded',
+            },
+            version: {
+              type: 'object',
+              nullable: true,
+              description: 'Version of the sanctions data served after publishing',
+              properties: {
+                versionId: { type: 'string' },
+                contentHash: { type: 'string' },
+                lastUpdated: { type: 'string', format: 'date-time' },
+              },
+            },
+            metadata: {
+              type: 'object',
+              description: 'Metadata of the imported OFAC crypto data file',
+            },
+            validation: {
+              type: 'object',
+              properties: {
+                totalAddresses: { type: 'integer' },
+                validAddresses: { type: 'integer' },
+                invalidAddresses: {
+                  type: 'array',
+                  description: 'Addresses that do not match the format of their cryptocurrency',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      entityId: { type: 'string' },
+                      entityName: { type: 'string' },
+                      cryptocurrency: { type: 'string' },
+                      address: { type: 'string' },
+                      reason: { type: 'string' },
+                    },
+                  },
+                },
+                unverifiedAddresses: {
+                  type: 'object',
+                  description: 'Addresses per cryptocurrency without a known address format, which could not be checked',
+                  additionalProperties: { type: 'integer' },
+                },
+              },
+            },
+            diff: {
+              type: 'object',
+              description: 'Changes against the data currently on disk, as returned by /api/sanctions/diff',
+              properties: {
+                summary: { type: 'object', additionalProperties: { type: 'integer' } },
+                entities: { type: 'object' },
+                addresses: { type: 'object' },
+              },
+            },
+          },
+          required: ['format', 'dryRun', 'published', 'version', 'metadata', 'validation', 'diff'],
+        },
       },
       parameters: {
         CorrelationId: {
@@ -307,6 +998,22 @@ const options = {
         name: 'Risk',
         description: 'Risk assessment and management endpoints',
       },
+      {
+        name: 'Sanctions',
+        description: 'Sanctions data search and versioning endpoints',
+      },
+      {
+        name: 'Watchlists',
+        description: 'Internal watchlists of non-public blocklisted addresses, protected by the admin API key',
+      },
+      {
+        name: 'Allowlist',
+        description: 'Reviewed false positives suppressed or down-weighted during screening',
+      },
+      {
+        name: 'Admin',
+        description: 'Administrative endpoints, protected by the admin API key',
+      },
     ],
   },
   apis: ['./src/routes/*.ts'], // Path to the API files
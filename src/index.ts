@@ -1,4 +1,4 @@
-import express from 'express';
+import express, { RequestHandler } from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import compression from 'compression';
@@ -8,11 +8,20 @@ import logger from './utils/logger';
 import { ensureDirectoryExists } from './utils/fileUtils';
 import { ApiResponse, SanctionDetectorError } from './types';
 import { setupSwagger } from './docs/swagger';
+import { sanctionsDataService } from './services/sanctionsDataService';
+import { sanctionsInboxService } from './services/sanctionsInboxService';
 
 // Import route handlers
 import screeningRoutes from './routes/screening';
 import riskRoutes from './routes/risk';
 import healthRoutes from './routes/health';
+import sanctionsRoutes from './routes/sanctions';
+import watchlistRoutes from './routes/watchlists';
+import allowlistRoutes from './routes/allowlist';
+import adminRoutes from './routes/admin';
+
+// Sanctions file uploads are read by the admin route itself, under their own size limit
+const SANCTIONS_IMPORT_PATH = '/api/admin/sanctions/import';
 
 class SanctionDetectorApp {
   private app: express.Application;
@@ -54,9 +63,11 @@ class SanctionDetectorApp {
     // Compression
     this.app.use(compression());
 
-    // Body parsing
-    this.app.use(express.json({ limit: '10mb' }));
-    this.app.use(express.urlencoded({ extended: true, limit: '10mb' }));
+    // Body parsing; sanctions imports read the raw file themselves, up to SANCTIONS_IMPORT_MAX_SIZE
+    const skipSanctionsImport = (parser: RequestHandler): RequestHandler => (req, res, next) =>
+      req.path.replace(/\/+$/, '').toLowerCase() === SANCTIONS_IMPORT_PATH ? next() : parser(req, res, next);
+    this.app.use(skipSanctionsImport(express.json({ limit: '10mb' })));
+    this.app.use(skipSanctionsImport(express.urlencoded({ extended: true, limit: '10mb' })));
 
     // Request correlation ID
     this.app.use((req, res, next) => {
@@ -92,6 +103,10 @@ class SanctionDetectorApp {
     this.app.use('/api/screening', screeningRoutes);
     this.app.use('/api/risk', riskRoutes);
     this.app.use('/api/health', healthRoutes);
+    this.app.use('/api/sanctions', sanctionsRoutes);
+    this.app.use('/api/watchlists', watchlistRoutes);
+    this.app.use('/api/allowlist', allowlistRoutes);
+    this.app.use('/api/admin', adminRoutes);
 
     // Root endpoint
     this.app.get('/', (req, res) => {
@@ -167,6 +182,11 @@ class SanctionDetectorApp {
   public async start(): Promise<void> {
     try {
       await this.initializeDirectories();
+
+      if (config.sanctionsHotReload) {
+        await sanctionsDataService.startWatching();
+      }
+      sanctionsInboxService.start();
       
       this.app.listen(config.port, () => {
         logger.info(`Bitcoin Sanction Detection Service started`, {
@@ -201,11 +221,15 @@ const app = new SanctionDetectorApp();
 // Graceful shutdown
 process.on('SIGTERM', () => {
   logger.info('SIGTERM received, shutting down gracefully');
+  sanctionsDataService.stopWatching();
+  sanctionsInboxService.stop();
   process.exit(0);
 });
 
 process.on('SIGINT', () => {
   logger.info('SIGINT received, shutting down gracefully');
+  sanctionsDataService.stopWatching();
+  sanctionsInboxService.stop();
   process.exit(0);
 });
 
@@ -0,0 +1,164 @@
+import { SanctionEntity } from '../types';
+import {
+  createSanctionsXmlParser,
+  extractDigitalCurrencyAddresses,
+  SanctionsListParser,
+  textValue,
+  toArray,
+  uniqueValues
+} from './parserUtils';
+
+interface EUNameAlias {
+  wholeName?: string;
+  firstName?: string;
+  middleName?: string;
+  lastName?: string;
+}
+
+interface EUIdentification {
+  number?: string;
+  identificationTypeCode?: string;
+  identificationTypeDescription?: string;
+  remark?: unknown;
+}
+
+interface EURegulation {
+  programme?: string;
+  publicationDate?: string;
+}
+
+interface EUSanctionEntity {
+  logicalId?: string;
+  euReferenceNumber?: string;
+  remark?: unknown[];
+  regulation?: EURegulation[];
+  nameAlias?: EUNameAlias[];
+  identification?: EUIdentification[];
+}
+
+/**
+ * Parser for the EU Financial Sanctions Files (FSF) consolidated XML export
+ */
+export class EUSanctionsParser implements SanctionsListParser {
+  private readonly xmlParser = createSanctionsXmlParser([
+    'sanctionEntity',
+    'nameAlias',
+    'identification',
+    'regulation',
+    'remark'
+  ]);
+
+  /**
+   * Parse the FSF XML content into sanction entities
+   */
+  public parse(xmlContent: string): SanctionEntity[] {
+    const document = this.xmlParser.parse(xmlContent);
+    const exportNode = document?.export;
+
+    if (!exportNode) {
+      throw new Error('Invalid EU sanctions file: missing <export> root element');
+    }
+
+    const generationDate: string = exportNode.generationDate && !isNaN(Date.parse(exportNode.generationDate))
+      ? exportNode.generationDate
+      : new Date().toISOString();
+    const entities: SanctionEntity[] = [];
+
+    for (const rawEntity of toArray<EUSanctionEntity>(exportNode.sanctionEntity)) {
+      const entity = this.transformEntity(rawEntity, generationDate);
+      if (entity) {
+        entities.push(entity);
+      }
+    }
+
+    return entities;
+  }
+
+  /**
+   * Transform a single <sanctionEntity> element
+   */
+  private transformEntity(rawEntity: EUSanctionEntity, generationDate: string): SanctionEntity | null {
+    const names = uniqueValues(toArray(rawEntity.nameAlias).map(alias => this.buildName(alias)));
+    const [name, ...aliases] = names;
+
+    if (!name || !rawEntity.logicalId) {
+      return null;
+    }
+
+    const regime = uniqueValues(toArray(rawEntity.regulation).map(regulation => regulation.programme || '')).join('; ');
+
+    return {
+      entityId: `EU-${rawEntity.logicalId}`,
+      name,
+      listSource: 'EU',
+      addresses: this.extractAddresses(rawEntity),
+      aliases,
+      lastUpdated: this.getLastUpdated(rawEntity, generationDate),
+      isActive: true,
+      ...(regime && { regime }),
+      ...this.getDesignatedAt(rawEntity)
+    };
+  }
+
+  /**
+   * Build a display name from a <nameAlias> element
+   */
+  private buildName(alias: EUNameAlias): string {
+    if (alias.wholeName) {
+      return alias.wholeName;
+    }
+    return [alias.firstName, alias.middleName, alias.lastName]
+      .filter(part => part && part.trim())
+      .join(' ');
+  }
+
+  /**
+   * Collect digital currency addresses from remarks and identification documents
+   */
+  private extractAddresses(rawEntity: EUSanctionEntity): string[] {
+    const addresses: string[] = [];
+
+    const remarks = toArray(rawEntity.remark).map(remark => textValue(remark));
+    for (const remark of remarks) {
+      addresses.push(...extractDigitalCurrencyAddresses(remark).map(found => found.address));
+    }
+
+    for (const identification of toArray(rawEntity.identification)) {
+      const description = `${identification.identificationTypeCode || ''} ${identification.identificationTypeDescription || ''}`;
+      if (/digital currency|crypto|virtual currency/i.test(description) && identification.number) {
+        addresses.push(identification.number);
+      }
+      addresses.push(...extractDigitalCurrencyAddresses(textValue(identification.remark)).map(found => found.address));
+    }
+
+    return uniqueValues(addresses);
+  }
+
+  /**
+   * Use the most recent regulation publication date, falling back to the export date
+   */
+  private getLastUpdated(rawEntity: EUSanctionEntity, generationDate: string): string {
+    const publicationDates = toArray(rawEntity.regulation)
+      .map(regulation => regulation.publicationDate)
+      .filter((date): date is string => !!date && !isNaN(Date.parse(date)))
+      .sort();
+
+    const latest = publicationDates[publicationDates.length - 1];
+    return new Date(latest || generationDate).toISOString();
+  }
+
+  /**
+   * Use the publication date of the earliest regulation as the designation date
+   */
+  private getDesignatedAt(rawEntity: EUSanctionEntity): { designatedAt?: string } {
+    const earliest = toArray(rawEntity.regulation)
+      .map(regulation => regulation.publicationDate)
+      .filter((date): date is string => !!date && !isNaN(Date.parse(date)))
+      .sort()[0];
+
+    return earliest ? { designatedAt: new Date(earliest).toISOString() } : {};
+  }
+}
+
+// Export singleton instance
+export const euSanctionsParser = new EUSanctionsParser();
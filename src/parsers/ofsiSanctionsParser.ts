@@ -0,0 +1,168 @@
+import { SanctionEntity } from '../types';
+import {
+  createSanctionsXmlParser,
+  extractDigitalCurrencyAddresses,
+  parseCsv,
+  parseDayMonthYear,
+  SanctionsListParser,
+  textValue,
+  toArray,
+  uniqueValues
+} from './parserUtils';
+
+/**
+ * One row of the OFSI consolidated list (a name or alias of a designated group)
+ */
+interface OFSIRecord {
+  groupId: string;
+  names: string[]; // Name 1 to Name 6, Name 6 being the surname or entity name
+  aliasType: string;
+  regime: string;
+  otherInformation: string;
+  listedOn: string;
+  lastUpdated: string;
+}
+
+/**
+ * Parser for the HM Treasury OFSI consolidated list (CSV or XML export)
+ */
+export class OFSISanctionsParser implements SanctionsListParser {
+  private readonly xmlParser = createSanctionsXmlParser(['FinancialSanctionsTarget']);
+
+  /**
+   * Parse the OFSI export content, detecting CSV or XML from the content itself
+   */
+  public parse(content: string): SanctionEntity[] {
+    const trimmed = content.replace(/^\uFEFF/, '').trim();
+    const records = trimmed.startsWith('<') ? this.parseXmlRecords(trimmed) : this.parseCsvRecords(trimmed);
+    return this.groupRecords(records);
+  }
+
+  /**
+   * Read records from the ConList.csv export
+   */
+  private parseCsvRecords(content: string): OFSIRecord[] {
+    const rows = parseCsv(content);
+
+    // The export starts with a "Last Updated,<date>" line before the header row
+    const headerIndex = rows.findIndex(row => row.includes('Group ID'));
+    if (headerIndex === -1) {
+      throw new Error('Invalid OFSI sanctions file: missing CSV header row');
+    }
+
+    const header = rows[headerIndex]!;
+    const column = (row: string[], name: string): string => {
+      const index = header.indexOf(name);
+      return index === -1 ? '' : (row[index] || '');
+    };
+
+    return rows.slice(headerIndex + 1).map(row => ({
+      groupId: column(row, 'Group ID'),
+      names: ['Name 1', 'Name 2', 'Name 3', 'Name 4', 'Name 5', 'Name 6'].map(name => column(row, name)),
+      aliasType: column(row, 'Alias Type'),
+      regime: column(row, 'Regime'),
+      otherInformation: column(row, 'Other Information'),
+      listedOn: column(row, 'Listed On'),
+      lastUpdated: column(row, 'Last Updated')
+    }));
+  }
+
+  /**
+   * Read records from the ConList.xml export
+   */
+  private parseXmlRecords(content: string): OFSIRecord[] {
+    const document = this.xmlParser.parse(content);
+    const targets = document?.ArrayOfFinancialSanctionsTarget?.FinancialSanctionsTarget;
+
+    if (!document?.ArrayOfFinancialSanctionsTarget) {
+      throw new Error('Invalid OFSI sanctions file: missing <ArrayOfFinancialSanctionsTarget> root element');
+    }
+
+    return toArray<Record<string, unknown>>(targets).map(target => ({
+      groupId: textValue(target.GroupID),
+      names: ['Name1', 'Name2', 'Name3', 'Name4', 'Name5', 'Name6'].map(name => textValue(target[name])),
+      aliasType: textValue(target.AliasType),
+      regime: textValue(target.RegimeName),
+      otherInformation: textValue(target.OtherInformation),
+      listedOn: textValue(target.DateListed),
+      lastUpdated: textValue(target.LastUpdated)
+    }));
+  }
+
+  /**
+   * Consolidate name and alias rows into one entity per OFSI group
+   */
+  private groupRecords(records: OFSIRecord[]): SanctionEntity[] {
+    const groups = new Map<string, OFSIRecord[]>();
+
+    for (const record of records) {
+      if (!record.groupId) continue;
+      const group = groups.get(record.groupId) || [];
+      group.push(record);
+      groups.set(record.groupId, group);
+    }
+
+    const entities: SanctionEntity[] = [];
+    for (const [groupId, group] of groups) {
+      const primary = group.find(record => /^primary name$/i.test(record.aliasType)) || group[0]!;
+      const name = this.buildName(primary);
+      if (!name) continue;
+
+      const aliases = uniqueValues(group.filter(record => record !== primary).map(record => this.buildName(record)))
+        .filter(alias => alias !== name);
+      const addresses = uniqueValues(
+        group.flatMap(record => extractDigitalCurrencyAddresses(record.otherInformation).map(found => found.address))
+      );
+      const regime = uniqueValues(group.map(record => record.regime)).join('; ');
+
+      entities.push({
+        entityId: `UK-${groupId}`,
+        name,
+        listSource: 'UK_OFSI',
+        addresses,
+        aliases,
+        lastUpdated: this.getLastUpdated(group),
+        isActive: true,
+        ...(regime && { regime }),
+        ...this.getDesignatedAt(group)
+      });
+    }
+
+    return entities;
+  }
+
+  /**
+   * Build a display name: given names followed by the surname (Name 6)
+   */
+  private buildName(record: OFSIRecord): string {
+    return record.names.filter(part => part.length > 0).join(' ');
+  }
+
+  /**
+   * Use the most recent update or listing date across the group
+   */
+  private getLastUpdated(group: OFSIRecord[]): string {
+    const dates = group
+      .flatMap(record => [record.lastUpdated, record.listedOn])
+      .map(date => parseDayMonthYear(date))
+      .filter((date): date is string => date !== null)
+      .sort();
+
+    return dates[dates.length - 1] || new Date().toISOString();
+  }
+
+  /**
+   * Use the earliest listing date across the group as the designation date
+   */
+  private getDesignatedAt(group: OFSIRecord[]): { designatedAt?: string } {
+    const earliest = group
+      .map(record => parseDayMonthYear(record.listedOn))
+      .filter((date): date is string => date !== null)
+      .sort()[0];
+
+    return earliest ? { designatedAt: earliest } : {};
+  }
+}
+
+// Export singleton instance
+export const ofsiSanctionsParser = new OFSISanctionsParser();
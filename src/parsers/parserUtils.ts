@@ -0,0 +1,146 @@
+import { XMLParser } from 'fast-xml-parser';
+import { SanctionEntity } from '../types';
+
+/**
+ * Common interface for parsers of locally dropped sanctions list files
+ */
+export interface SanctionsListParser {
+  parse(content: string): SanctionEntity[];
+}
+
+/**
+ * A digital currency address found in a sanctions list record
+ */
+export interface DigitalCurrencyAddress {
+  currency: string;
+  address: string;
+}
+
+// Matches the "Digital Currency Address - XBT <address>" convention used by OFAC, the EU and the UN
+const DIGITAL_CURRENCY_PATTERN = /Digital Currency Address\s*-\s*([A-Z0-9]{2,6})\s*:?\s*([A-Za-z0-9]{20,120})/g;
+
+/**
+ * Create an XML parser configured for sanctions list exports
+ */
+export function createSanctionsXmlParser(arrayTags: string[] = []): XMLParser {
+  const arrayTagSet = new Set(arrayTags);
+
+  return new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '',
+    removeNSPrefix: true,
+    parseTagValue: false,
+    parseAttributeValue: false,
+    trimValues: true,
+    isArray: (tagName: string) => arrayTagSet.has(tagName)
+  });
+}
+
+/**
+ * Normalize an optional XML node (single value or list) to an array
+ */
+export function toArray<T>(value: T | T[] | undefined | null): T[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Read the text content of an XML node, whether it carries attributes or not
+ */
+export function textValue(node: unknown): string {
+  if (node === undefined || node === null) {
+    return '';
+  }
+  if (typeof node === 'object') {
+    const text = (node as Record<string, unknown>)['#text'];
+    return text === undefined || text === null ? '' : String(text).trim();
+  }
+  return String(node).trim();
+}
+
+/**
+ * Extract digital currency addresses from free text (remarks, comments)
+ */
+export function extractDigitalCurrencyAddresses(text: string): DigitalCurrencyAddress[] {
+  const addresses: DigitalCurrencyAddress[] = [];
+  DIGITAL_CURRENCY_PATTERN.lastIndex = 0;
+
+  let match;
+  while ((match = DIGITAL_CURRENCY_PATTERN.exec(text)) !== null) {
+    if (match[1] && match[2]) {
+      addresses.push({ currency: match[1], address: match[2] });
+    }
+  }
+
+  return addresses;
+}
+
+/**
+ * Remove duplicates and empty values while keeping the original order
+ */
+export function uniqueValues(values: string[]): string[] {
+  return Array.from(new Set(values.map(value => value.trim()).filter(value => value.length > 0)));
+}
+
+/**
+ * Parse CSV content into rows of fields (handles quoted fields, escaped quotes and embedded newlines)
+ */
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(current.trim());
+      current = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') {
+        i++;
+      }
+      row.push(current.trim());
+      if (row.some(field => field.length > 0)) {
+        rows.push(row);
+      }
+      row = [];
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  row.push(current.trim());
+  if (row.some(field => field.length > 0)) {
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Convert a DD/MM/YYYY date (as used by HM Treasury) to an ISO timestamp
+ */
+export function parseDayMonthYear(value: string): string | null {
+  const match = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(value.trim());
+  if (!match) {
+    return isNaN(Date.parse(value)) ? null : new Date(value).toISOString();
+  }
+  const [, day, month, year] = match;
+  return new Date(Date.UTC(Number(year), Number(month) - 1, Number(day))).toISOString();
+}
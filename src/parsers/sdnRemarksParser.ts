@@ -0,0 +1,126 @@
+import { EntityDetails, EntityIdentifier } from '../types';
+import { uniqueValues } from './parserUtils';
+
+// Remark labels that introduce an identity document or registration number, longest first
+// so that "Business Registration Number" is not read as "Registration Number"
+const IDENTIFIER_TYPES = [
+  'Unified Social Credit Code (USCC)',
+  'Business Registration Number',
+  'Birth Certificate Number',
+  "Citizen's Card Number",
+  'Identification Number',
+  'Registration Number',
+  "Driver's License No.",
+  'Company Number',
+  'National ID No.',
+  'Tax ID No.',
+  'Passport',
+  'C.U.R.P.'
+];
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// "<number> (<country>) issued <date> expires <date>", every part after the number optional
+const IDENTIFIER_PATTERN = /^(.+?)(?:\s+\(([^)]+)\))?(?:\s+issued\s+(\d{1,2} [A-Z][a-z]{2} \d{4}))?(?:\s+expires\s+(\d{1,2} [A-Z][a-z]{2} \d{4}))?$/;
+
+// Single-valued labels are collected as lists too, since OFAC repeats them with "alt."
+type ListField = Exclude<keyof EntityDetails, 'gender' | 'identifiers'>;
+
+const LIST_FIELDS: Array<{ prefix: string; field: ListField }> = [
+  { prefix: 'DOB ', field: 'datesOfBirth' },
+  { prefix: 'POB ', field: 'placesOfBirth' },
+  { prefix: 'nationality ', field: 'nationalities' },
+  { prefix: 'citizen ', field: 'citizenships' },
+  { prefix: 'Website ', field: 'websites' },
+  { prefix: 'Email Address ', field: 'emailAddresses' },
+  { prefix: 'Phone Number ', field: 'phoneNumbers' },
+  { prefix: 'Linked To: ', field: 'linkedTo' },
+  { prefix: 'Secondary sanctions risk: ', field: 'secondarySanctionsRisks' },
+  { prefix: 'Additional Sanctions Information - ', field: 'secondarySanctionsRisks' }
+];
+
+/**
+ * Parse the identifying details out of the free-text remarks of an OFAC SDN entry.
+ * Remarks are "; "-separated "<label> <value>" segments, with "alt. " marking additional values.
+ * Digital currency addresses and aliases are extracted elsewhere; unrecognized segments are ignored.
+ * Returns null when the remarks contain none of the recognized details.
+ */
+export function parseSdnRemarks(remarks: string | undefined): EntityDetails | null {
+  if (!remarks) {
+    return null;
+  }
+
+  const lists = new Map<ListField, string[]>();
+  const identifiers: EntityIdentifier[] = [];
+  let gender: string | undefined;
+
+  for (const rawSegment of remarks.split(';')) {
+    const segment = rawSegment.trim().replace(/^alt\.\s+/, '').replace(/\.$/, '').trim();
+
+    const listField = LIST_FIELDS.find(({ prefix }) => segment.startsWith(prefix));
+    if (listField) {
+      lists.set(listField.field, [...(lists.get(listField.field) || []), segment.slice(listField.prefix.length)]);
+      continue;
+    }
+
+    if (segment.startsWith('Gender ')) {
+      gender = segment.slice('Gender '.length).trim();
+      continue;
+    }
+
+    const identifierType = IDENTIFIER_TYPES.find(type => segment.startsWith(`${type} `));
+    if (identifierType) {
+      const identifier = parseIdentifier(identifierType, segment.slice(identifierType.length + 1));
+      if (identifier) {
+        identifiers.push(identifier);
+      }
+    }
+  }
+
+  const details: EntityDetails = {};
+  for (const [field, values] of lists) {
+    const unique = uniqueValues(values);
+    if (unique.length > 0) {
+      details[field] = unique;
+    }
+  }
+  if (gender) {
+    details.gender = gender;
+  }
+  if (identifiers.length > 0) {
+    details.identifiers = identifiers;
+  }
+
+  return Object.keys(details).length > 0 ? details : null;
+}
+
+function parseIdentifier(type: string, value: string): EntityIdentifier | null {
+  const match = IDENTIFIER_PATTERN.exec(value.trim());
+  if (!match || !match[1]) {
+    return null;
+  }
+
+  const [, number, country, issued, expires] = match;
+  const issuedAt = issued ? parseSdnDate(issued) : null;
+  const expiresAt = expires ? parseSdnDate(expires) : null;
+
+  return {
+    type,
+    number: number.trim(),
+    ...(country && { country }),
+    ...(issuedAt && { issuedAt }),
+    ...(expiresAt && { expiresAt })
+  };
+}
+
+/**
+ * Convert an SDN "DD Mon YYYY" date to an ISO timestamp
+ */
+function parseSdnDate(value: string): string | null {
+  const [day, month, year] = value.split(' ');
+  const monthIndex = MONTHS.indexOf(month || '');
+  if (monthIndex === -1) {
+    return null;
+  }
+  return new Date(Date.UTC(Number(year), monthIndex, Number(day))).toISOString();
+}
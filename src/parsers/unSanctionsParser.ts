@@ -0,0 +1,162 @@
+import { SanctionEntity } from '../types';
+import {
+  createSanctionsXmlParser,
+  extractDigitalCurrencyAddresses,
+  SanctionsListParser,
+  textValue,
+  toArray,
+  uniqueValues
+} from './parserUtils';
+
+interface UNAlias {
+  QUALITY?: string;
+  ALIAS_NAME?: string;
+}
+
+interface UNDocument {
+  TYPE_OF_DOCUMENT?: string;
+  TYPE_OF_DOCUMENT2?: string;
+  NUMBER?: string;
+  NOTE?: string;
+}
+
+interface UNRecord {
+  DATAID?: string;
+  FIRST_NAME?: string;
+  SECOND_NAME?: string;
+  THIRD_NAME?: string;
+  FOURTH_NAME?: string;
+  NAME_ORIGINAL_SCRIPT?: string;
+  REFERENCE_NUMBER?: string;
+  UN_LIST_TYPE?: string;
+  LISTED_ON?: string;
+  COMMENTS1?: string;
+  LAST_DAY_UPDATED?: Array<{ VALUE?: string[] }>;
+  INDIVIDUAL_ALIAS?: UNAlias[];
+  ENTITY_ALIAS?: UNAlias[];
+  INDIVIDUAL_DOCUMENT?: UNDocument[];
+}
+
+/**
+ * Parser for the UN Security Council consolidated sanctions list XML
+ */
+export class UNSanctionsParser implements SanctionsListParser {
+  private readonly xmlParser = createSanctionsXmlParser([
+    'INDIVIDUAL',
+    'ENTITY',
+    'INDIVIDUAL_ALIAS',
+    'ENTITY_ALIAS',
+    'INDIVIDUAL_DOCUMENT',
+    'LAST_DAY_UPDATED',
+    'VALUE'
+  ]);
+
+  /**
+   * Parse the consolidated list XML content into sanction entities
+   */
+  public parse(xmlContent: string): SanctionEntity[] {
+    const document = this.xmlParser.parse(xmlContent);
+    const consolidatedList = document?.CONSOLIDATED_LIST;
+
+    if (!consolidatedList) {
+      throw new Error('Invalid UN sanctions file: missing <CONSOLIDATED_LIST> root element');
+    }
+
+    const dateGenerated: string = consolidatedList.dateGenerated && !isNaN(Date.parse(consolidatedList.dateGenerated))
+      ? consolidatedList.dateGenerated
+      : new Date().toISOString();
+
+    const records = [
+      ...toArray<UNRecord>(consolidatedList.INDIVIDUALS?.INDIVIDUAL),
+      ...toArray<UNRecord>(consolidatedList.ENTITIES?.ENTITY)
+    ];
+
+    const entities: SanctionEntity[] = [];
+    for (const record of records) {
+      const entity = this.transformRecord(record, dateGenerated);
+      if (entity) {
+        entities.push(entity);
+      }
+    }
+
+    return entities;
+  }
+
+  /**
+   * Transform a single <INDIVIDUAL> or <ENTITY> element
+   */
+  private transformRecord(record: UNRecord, dateGenerated: string): SanctionEntity | null {
+    const name = [record.FIRST_NAME, record.SECOND_NAME, record.THIRD_NAME, record.FOURTH_NAME]
+      .map(part => textValue(part))
+      .filter(part => part.length > 0)
+      .join(' ');
+    const identifier = textValue(record.REFERENCE_NUMBER) || textValue(record.DATAID);
+
+    if (!name || !identifier) {
+      return null;
+    }
+
+    const aliases = uniqueValues([
+      ...toArray(record.INDIVIDUAL_ALIAS).map(alias => textValue(alias.ALIAS_NAME)),
+      ...toArray(record.ENTITY_ALIAS).map(alias => textValue(alias.ALIAS_NAME)),
+      textValue(record.NAME_ORIGINAL_SCRIPT)
+    ]).filter(alias => alias !== name);
+
+    const regime = textValue(record.UN_LIST_TYPE);
+
+    return {
+      entityId: `UN-${identifier}`,
+      name,
+      listSource: 'UN',
+      addresses: this.extractAddresses(record),
+      aliases,
+      lastUpdated: this.getLastUpdated(record, dateGenerated),
+      isActive: true,
+      ...(regime && { regime }),
+      ...this.getDesignatedAt(record)
+    };
+  }
+
+  /**
+   * Collect digital currency identifiers from comments and identity documents
+   */
+  private extractAddresses(record: UNRecord): string[] {
+    const addresses = extractDigitalCurrencyAddresses(textValue(record.COMMENTS1)).map(found => found.address);
+
+    for (const document of toArray(record.INDIVIDUAL_DOCUMENT)) {
+      const documentType = `${textValue(document.TYPE_OF_DOCUMENT)} ${textValue(document.TYPE_OF_DOCUMENT2)}`;
+      if (/digital currency|crypto|virtual currency/i.test(documentType) && document.NUMBER) {
+        addresses.push(textValue(document.NUMBER));
+      }
+      addresses.push(...extractDigitalCurrencyAddresses(textValue(document.NOTE)).map(found => found.address));
+    }
+
+    return uniqueValues(addresses);
+  }
+
+  /**
+   * Use the most recent update date, falling back to the listing date and then the export date
+   */
+  private getLastUpdated(record: UNRecord, dateGenerated: string): string {
+    const dates = [
+      ...toArray(record.LAST_DAY_UPDATED).flatMap(update => toArray(update.VALUE).map(value => textValue(value))),
+      textValue(record.LISTED_ON)
+    ]
+      .filter(date => date.length > 0 && !isNaN(Date.parse(date)))
+      .sort();
+
+    const latest = dates[dates.length - 1];
+    return new Date(latest || dateGenerated).toISOString();
+  }
+
+  /**
+   * Use the listing date as the designation date
+   */
+  private getDesignatedAt(record: UNRecord): { designatedAt?: string } {
+    const listedOn = textValue(record.LISTED_ON);
+    return listedOn && !isNaN(Date.parse(listedOn)) ? { designatedAt: new Date(listedOn).toISOString() } : {};
+  }
+}
+
+// Export singleton instance
+export const unSanctionsParser = new UNSanctionsParser();
@@ -0,0 +1,276 @@
+import axios, { AxiosInstance } from 'axios';
+import {
+  BitcoinAddressInfo,
+  BitcoinNetwork,
+  BitcoinTransaction,
+  BitcoinUtxo,
+  BlockchainOperation,
+  TransactionInput,
+  TransactionOutput
+} from '../types';
+import { ALL_OPERATIONS, BlockchainProvider, ProviderRequestError } from './blockchainProvider';
+
+// Scanning the UTXO set takes minutes on mainnet
+const SCAN_TIMEOUT_MS = 5 * 60 * 1000;
+// RPC_INVALID_ADDRESS_OR_KEY (unknown transaction) and RPC_INVALID_PARAMETER: the node is fine, the request is not
+const REJECTED_RPC_CODES = new Set([-5, -8]);
+
+interface RpcResponse<T> {
+  result: T;
+  error: { code: number; message: string } | null;
+}
+
+interface RpcScriptPubKey {
+  hex: string;
+  address?: string; // Bitcoin Core 22+
+  addresses?: string[]; // Earlier versions
+}
+
+interface RpcVin {
+  txid?: string;
+  vout?: number;
+  coinbase?: string;
+  prevout?: { value: number; scriptPubKey: RpcScriptPubKey }; // getrawtransaction verbosity 2, Bitcoin Core 25+
+}
+
+interface RpcVout {
+  value: number; // BTC
+  n: number;
+  scriptPubKey: RpcScriptPubKey;
+}
+
+interface RpcTransaction {
+  txid: string;
+  size: number;
+  vin: RpcVin[];
+  vout: RpcVout[];
+  fee?: number; // BTC, with verbosity 2
+  blockhash?: string; // Unset while unconfirmed
+  blocktime?: number;
+}
+
+interface RpcScanResult {
+  success: boolean;
+  unspents: Array<{ txid: string; vout: number; amount: number; height: number }>;
+}
+
+export interface BitcoinCoreRpcOptions {
+  url: string;
+  username: string;
+  password: string;
+  network: BitcoinNetwork;
+  timeoutMs: number;
+}
+
+/**
+ * Adapter for a self-hosted Bitcoin Core node over JSON-RPC, so no address or transaction leaves our
+ * infrastructure. Transactions need the node to run with -txindex. Address lookups go to the companion
+ * indexer (an Esplora API such as electrs) when one is configured; otherwise unspent outputs are found
+ * with scantxoutset, and only the transactions funding them are visible.
+ */
+export class BitcoinCoreProvider implements BlockchainProvider {
+  public readonly name = 'bitcoincore';
+  public readonly networks: BitcoinNetwork[];
+  public readonly operations: BlockchainOperation[] = ALL_OPERATIONS;
+  private readonly client: AxiosInstance;
+  private scanQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    options: BitcoinCoreRpcOptions,
+    private readonly indexer: BlockchainProvider | null
+  ) {
+    this.networks = [options.network];
+    this.client = axios.create({
+      baseURL: options.url,
+      timeout: options.timeoutMs,
+      auth: { username: options.username, password: options.password }
+    });
+  }
+
+  async getTransaction(txid: string, network: BitcoinNetwork): Promise<BitcoinTransaction> {
+    this.checkNetwork(network);
+    const tx = await this.call<RpcTransaction>('getrawtransaction', [txid, 2]);
+    const blockHeight = tx.blockhash
+      ? (await this.call<{ height: number }>('getblockheader', [tx.blockhash])).height
+      : 0;
+    const prevouts = await this.resolvePrevouts(tx);
+
+    const inputs = tx.vin.map((vin, index): TransactionInput => {
+      const prevout = prevouts[index];
+      return {
+        // Coinbase inputs spend no previous output
+        txid: vin.txid || '',
+        vout: vin.vout ?? -1,
+        addresses: prevout ? this.scriptAddresses(prevout.scriptPubKey) : [],
+        value: prevout ? this.toSatoshis(prevout.value) : 0
+      };
+    });
+    const outputs = tx.vout.map((vout): TransactionOutput => ({
+      addresses: this.scriptAddresses(vout.scriptPubKey),
+      value: this.toSatoshis(vout.value),
+      scriptPubKey: vout.scriptPubKey.hex || ''
+    }));
+
+    const isCoinbase = tx.vin.some(vin => vin.coinbase !== undefined);
+    const fee = tx.fee !== undefined
+      ? this.toSatoshis(tx.fee)
+      : isCoinbase ? 0 : this.sum(inputs) - this.sum(outputs);
+
+    return {
+      txid: tx.txid,
+      blockHeight,
+      blockTime: tx.blocktime || 0,
+      inputs,
+      outputs,
+      fee,
+      size: tx.size
+    };
+  }
+
+  async getAddressInfo(address: string, network: BitcoinNetwork): Promise<BitcoinAddressInfo> {
+    this.checkNetwork(network);
+    if (!this.indexer) {
+      throw new ProviderRequestError('Address totals require an address indexer (BITCOIN_RPC_INDEXER_URL)', 'REJECTED');
+    }
+    return this.indexer.getAddressInfo(address, network);
+  }
+
+  async getAddressTransactions(address: string, limit: number, network: BitcoinNetwork): Promise<BitcoinTransaction[]> {
+    this.checkNetwork(network);
+    if (this.indexer) {
+      return this.indexer.getAddressTransactions(address, limit, network);
+    }
+
+    const transactions: BitcoinTransaction[] = [];
+    for (const txid of await this.getAddressTransactionIds(address, limit, network)) {
+      transactions.push(await this.getTransaction(txid, network));
+    }
+    return transactions;
+  }
+
+  async getAddressTransactionIds(address: string, limit: number, network: BitcoinNetwork): Promise<string[]> {
+    this.checkNetwork(network);
+    if (this.indexer) {
+      return this.indexer.getAddressTransactionIds(address, limit, network);
+    }
+
+    // Most recent first, like the explorer APIs
+    const { unspents } = await this.scan(address);
+    return Array.from(new Set(
+      [...unspents].sort((a, b) => b.height - a.height).map(unspent => unspent.txid)
+    )).slice(0, limit);
+  }
+
+  async getAddressUtxos(address: string, network: BitcoinNetwork): Promise<BitcoinUtxo[]> {
+    this.checkNetwork(network);
+    if (this.indexer) {
+      return this.indexer.getAddressUtxos(address, network);
+    }
+
+    // The UTXO set only holds confirmed outputs
+    const { unspents } = await this.scan(address);
+    return unspents.map(unspent => ({
+      txid: unspent.txid,
+      vout: unspent.vout,
+      value: this.toSatoshis(unspent.amount),
+      confirmed: true,
+      blockHeight: unspent.height
+    }));
+  }
+
+  async getBlockHeight(network: BitcoinNetwork): Promise<number> {
+    this.checkNetwork(network);
+    return this.call<number>('getblockcount', []);
+  }
+
+  /**
+   * Find the output spent by each input. Bitcoin Core 25+ includes it with verbosity 2;
+   * older nodes need the previous transactions to be fetched.
+   */
+  private async resolvePrevouts(tx: RpcTransaction): Promise<Array<RpcVin['prevout'] | null>> {
+    const previousTransactions = new Map<string, RpcTransaction>();
+    const prevouts: Array<RpcVin['prevout'] | null> = [];
+
+    for (const vin of tx.vin) {
+      if (vin.prevout || !vin.txid || vin.vout === undefined) {
+        prevouts.push(vin.prevout || null);
+        continue;
+      }
+
+      let previous = previousTransactions.get(vin.txid);
+      if (!previous) {
+        previous = await this.call<RpcTransaction>('getrawtransaction', [vin.txid, 1]);
+        previousTransactions.set(vin.txid, previous);
+      }
+      const spent = previous.vout.find(vout => vout.n === vin.vout);
+      prevouts.push(spent ? { value: spent.value, scriptPubKey: spent.scriptPubKey } : null);
+    }
+
+    return prevouts;
+  }
+
+  /**
+   * Scan the UTXO set for an address. Bitcoin Core runs one scan at a time, so scans are queued.
+   */
+  private scan(address: string): Promise<RpcScanResult> {
+    const run = this.scanQueue.then(async () => {
+      const result = await this.call<RpcScanResult>('scantxoutset', ['start', [`addr(${address})`]], SCAN_TIMEOUT_MS);
+      if (!result.success) {
+        throw new ProviderRequestError(`UTXO set scan for ${address} was aborted`, 'UNAVAILABLE');
+      }
+      return result;
+    });
+    this.scanQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Call a JSON-RPC method, turning RPC errors into provider errors
+   */
+  private async call<T>(method: string, params: unknown[], timeout?: number): Promise<T> {
+    try {
+      const { data } = await this.client.post<RpcResponse<T>>('', { jsonrpc: '1.0', id: method, method, params }, {
+        ...(timeout !== undefined && { timeout })
+      });
+      if (data.error) {
+        throw this.toProviderError(method, data.error);
+      }
+      return data.result;
+    } catch (error) {
+      // Bitcoin Core reports RPC errors with an HTTP error status
+      const rpcError = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+      if (rpcError && typeof rpcError.code === 'number') {
+        throw this.toProviderError(method, rpcError);
+      }
+      throw error;
+    }
+  }
+
+  private toProviderError(method: string, error: { code: number; message: string }): ProviderRequestError {
+    return new ProviderRequestError(
+      `${method} failed: ${error.message} (RPC error ${error.code})`,
+      REJECTED_RPC_CODES.has(error.code) ? 'REJECTED' : 'UNAVAILABLE'
+    );
+  }
+
+  private checkNetwork(network: BitcoinNetwork): void {
+    if (!this.networks.includes(network)) {
+      throw new Error(`${this.name} is not configured for ${network}`);
+    }
+  }
+
+  private scriptAddresses(scriptPubKey: RpcScriptPubKey): string[] {
+    if (scriptPubKey.address) {
+      return [scriptPubKey.address];
+    }
+    return scriptPubKey.addresses || [];
+  }
+
+  private toSatoshis(btc: number): number {
+    return Math.round(btc * 1e8);
+  }
+
+  private sum(entries: Array<{ value: number }>): number {
+    return entries.reduce((total, entry) => total + entry.value, 0);
+  }
+}
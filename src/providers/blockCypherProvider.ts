@@ -0,0 +1,204 @@
+import axios, { AxiosInstance } from 'axios';
+import {
+  BitcoinAddressInfo,
+  BitcoinNetwork,
+  BitcoinTransaction,
+  BitcoinUtxo,
+  BlockchainOperation
+} from '../types';
+import { ALL_OPERATIONS, BlockchainProvider } from './blockchainProvider';
+
+// Largest page of inputs/outputs BlockCypher returns per transaction, and of transactions per address
+const IO_PAGE_SIZE = 100;
+const MAX_ADDRESS_TXS = 50;
+
+interface BlockCypherInput {
+  prev_hash?: string; // Absent on coinbase inputs
+  output_index: number;
+  output_value?: number;
+  addresses?: string[] | null;
+}
+
+interface BlockCypherOutput {
+  value: number;
+  script?: string;
+  addresses?: string[] | null;
+}
+
+interface BlockCypherTransaction {
+  hash: string;
+  block_height: number; // -1 while unconfirmed
+  confirmed?: string;
+  fees: number;
+  size: number;
+  vin_sz: number;
+  vout_sz: number;
+  inputs: BlockCypherInput[];
+  outputs: BlockCypherOutput[];
+}
+
+interface BlockCypherBalance {
+  address: string;
+  total_received: number;
+  total_sent: number;
+  balance: number;
+  unconfirmed_balance: number;
+  n_tx: number;
+  unconfirmed_n_tx: number;
+}
+
+interface BlockCypherTxRef {
+  tx_hash: string;
+  tx_output_n: number;
+  value: number;
+  block_height: number;
+}
+
+interface BlockCypherAddress {
+  txrefs?: BlockCypherTxRef[];
+  unconfirmed_txrefs?: BlockCypherTxRef[];
+}
+
+/**
+ * Adapter for the BlockCypher REST API. Large transactions are returned in pages of inputs and
+ * outputs, which are fetched in full so screening never sees a partial transaction.
+ */
+export class BlockCypherProvider implements BlockchainProvider {
+  public readonly name = 'blockcypher';
+  public readonly networks: BitcoinNetwork[];
+  public readonly operations: BlockchainOperation[] = ALL_OPERATIONS;
+  private readonly clients = new Map<BitcoinNetwork, AxiosInstance>();
+
+  constructor(
+    baseUrls: Partial<Record<BitcoinNetwork, string>>,
+    timeoutMs: number,
+    token: string
+  ) {
+    for (const [network, baseURL] of Object.entries(baseUrls) as Array<[BitcoinNetwork, string | undefined]>) {
+      if (baseURL) {
+        this.clients.set(network, axios.create({
+          baseURL,
+          timeout: timeoutMs,
+          ...(token && { params: { token } })
+        }));
+      }
+    }
+    this.networks = Array.from(this.clients.keys());
+  }
+
+  async getTransaction(txid: string, network: BitcoinNetwork): Promise<BitcoinTransaction> {
+    const client = this.getClient(network);
+    const { data } = await client.get<BlockCypherTransaction>(`/txs/${txid}`, { params: { limit: IO_PAGE_SIZE } });
+    return this.toBitcoinTransaction(await this.completeTransaction(client, data));
+  }
+
+  async getAddressInfo(address: string, network: BitcoinNetwork): Promise<BitcoinAddressInfo> {
+    const { data } = await this.getClient(network).get<BlockCypherBalance>(`/addrs/${address}/balance`);
+    return {
+      address: data.address,
+      txCount: data.n_tx,
+      unconfirmedTxCount: data.unconfirmed_n_tx,
+      totalReceived: data.total_received,
+      totalSent: data.total_sent,
+      balance: data.balance,
+      unconfirmedBalance: data.unconfirmed_balance
+    };
+  }
+
+  async getAddressTransactions(address: string, limit: number, network: BitcoinNetwork): Promise<BitcoinTransaction[]> {
+    const client = this.getClient(network);
+    const { data } = await client.get<{ txs?: BlockCypherTransaction[] }>(`/addrs/${address}/full`, {
+      params: { limit: Math.min(limit, MAX_ADDRESS_TXS), txlimit: IO_PAGE_SIZE }
+    });
+
+    const transactions: BitcoinTransaction[] = [];
+    for (const tx of (data.txs || []).slice(0, limit)) {
+      transactions.push(this.toBitcoinTransaction(await this.completeTransaction(client, tx)));
+    }
+    return transactions;
+  }
+
+  async getAddressTransactionIds(address: string, limit: number, network: BitcoinNetwork): Promise<string[]> {
+    // Transaction references list one entry per input and output touching the address
+    const { data } = await this.getClient(network).get<BlockCypherAddress>(`/addrs/${address}`, {
+      params: { limit: Math.min(limit, MAX_ADDRESS_TXS) }
+    });
+    const refs = [...(data.unconfirmed_txrefs || []), ...(data.txrefs || [])];
+    return Array.from(new Set(refs.map(ref => ref.tx_hash))).slice(0, limit);
+  }
+
+  async getAddressUtxos(address: string, network: BitcoinNetwork): Promise<BitcoinUtxo[]> {
+    const { data } = await this.getClient(network).get<BlockCypherAddress>(`/addrs/${address}`, {
+      params: { unspentOnly: true, includeScript: false }
+    });
+
+    const toUtxo = (ref: BlockCypherTxRef): BitcoinUtxo => ({
+      txid: ref.tx_hash,
+      vout: ref.tx_output_n,
+      value: ref.value,
+      confirmed: ref.block_height > 0,
+      blockHeight: Math.max(ref.block_height, 0)
+    });
+    return [...(data.unconfirmed_txrefs || []).map(toUtxo), ...(data.txrefs || []).map(toUtxo)];
+  }
+
+  async getBlockHeight(network: BitcoinNetwork): Promise<number> {
+    const { data } = await this.getClient(network).get<{ height: number }>('');
+    return data.height;
+  }
+
+  private getClient(network: BitcoinNetwork): AxiosInstance {
+    const client = this.clients.get(network);
+    if (!client) {
+      throw new Error(`${this.name} is not configured for ${network}`);
+    }
+    return client;
+  }
+
+  /**
+   * Fetch the remaining pages of inputs and outputs of a transaction
+   */
+  private async completeTransaction(client: AxiosInstance, tx: BlockCypherTransaction): Promise<BlockCypherTransaction> {
+    const inputs = [...tx.inputs];
+    const outputs = [...tx.outputs];
+
+    while (inputs.length < tx.vin_sz || outputs.length < tx.vout_sz) {
+      const { data } = await client.get<BlockCypherTransaction>(`/txs/${tx.hash}`, {
+        params: { limit: IO_PAGE_SIZE, instart: inputs.length, outstart: outputs.length }
+      });
+      if (inputs.length < tx.vin_sz) {
+        inputs.push(...data.inputs);
+      }
+      if (outputs.length < tx.vout_sz) {
+        outputs.push(...data.outputs);
+      }
+      if (data.inputs.length === 0 && data.outputs.length === 0) {
+        throw new Error(`Incomplete transaction ${tx.hash} returned by ${this.name}`);
+      }
+    }
+
+    return { ...tx, inputs, outputs };
+  }
+
+  private toBitcoinTransaction(tx: BlockCypherTransaction): BitcoinTransaction {
+    const confirmedAt = tx.confirmed ? Date.parse(tx.confirmed) : NaN;
+    return {
+      txid: tx.hash,
+      blockHeight: Math.max(tx.block_height, 0),
+      blockTime: tx.block_height > 0 && !isNaN(confirmedAt) ? Math.floor(confirmedAt / 1000) : 0,
+      inputs: tx.inputs.map(input => ({
+        txid: input.prev_hash || '',
+        vout: input.output_index,
+        addresses: input.addresses || [],
+        value: input.output_value || 0
+      })),
+      outputs: tx.outputs.map(output => ({
+        addresses: output.addresses || [],
+        value: output.value || 0,
+        scriptPubKey: output.script || ''
+      })),
+      fee: tx.fees,
+      size: tx.size
+    };
+  }
+}
@@ -0,0 +1,84 @@
+import axios from 'axios';
+import {
+  BitcoinAddressInfo,
+  BitcoinNetwork,
+  BlockchainOperation,
+  BitcoinTransaction,
+  BitcoinUtxo
+} from '../types';
+
+export const ALL_OPERATIONS: BlockchainOperation[] = ['transaction', 'addressInfo', 'addressTransactions', 'addressUtxos', 'blockHeight'];
+
+/**
+ * Common interface for blockchain data backends. Every adapter normalizes its responses
+ * into the service's own types so providers can be swapped or failed over transparently.
+ * Methods for operations a provider does not list are never called.
+ */
+export interface BlockchainProvider {
+  readonly name: string;
+  readonly networks: BitcoinNetwork[];
+  readonly operations: BlockchainOperation[];
+  getTransaction(txid: string, network: BitcoinNetwork): Promise<BitcoinTransaction>;
+  getAddressInfo(address: string, network: BitcoinNetwork): Promise<BitcoinAddressInfo>;
+  getAddressTransactions(address: string, limit: number, network: BitcoinNetwork): Promise<BitcoinTransaction[]>;
+  // Most recent first, like getAddressTransactions, without fetching the transactions themselves
+  getAddressTransactionIds(address: string, limit: number, network: BitcoinNetwork): Promise<string[]>;
+  getAddressUtxos(address: string, network: BitcoinNetwork): Promise<BitcoinUtxo[]>;
+  getBlockHeight(network: BitcoinNetwork): Promise<number>;
+}
+
+/**
+ * How a provider request failed:
+ * RATE_LIMITED - the provider asked us to slow down
+ * UNAVAILABLE - timeout, connection error, server error or rejected credentials; counts against the provider's health
+ * REJECTED - the provider answered but refused the request (e.g. unknown transaction)
+ */
+export type ProviderFailureKind = 'RATE_LIMITED' | 'UNAVAILABLE' | 'REJECTED';
+
+export interface ProviderFailure {
+  kind: ProviderFailureKind;
+  message: string;
+  retryAfterMs?: number; // From the Retry-After header of a rate-limited response
+}
+
+/**
+ * Error raised by an adapter that knows how its request failed, e.g. from an RPC error code
+ */
+export class ProviderRequestError extends Error {
+  constructor(message: string, public readonly kind: ProviderFailureKind) {
+    super(message);
+    this.name = 'ProviderRequestError';
+  }
+}
+
+/**
+ * Classify an error thrown by a provider request
+ */
+export function describeProviderFailure(error: unknown): ProviderFailure {
+  if (error instanceof ProviderRequestError) {
+    return { kind: error.kind, message: error.message };
+  }
+  if (!axios.isAxiosError(error)) {
+    return { kind: 'UNAVAILABLE', message: error instanceof Error ? error.message : 'Unknown error' };
+  }
+
+  const status = error.response?.status;
+  if (status === undefined) {
+    return { kind: 'UNAVAILABLE', message: error.message };
+  }
+
+  const body = typeof error.response?.data === 'string' ? error.response.data.trim().slice(0, 200) : '';
+  const message = body ? `HTTP ${status}: ${body}` : `HTTP ${status}`;
+
+  if (status === 429) {
+    const retryAfter = parseInt(String(error.response?.headers?.['retry-after'] ?? ''), 10);
+    return {
+      kind: 'RATE_LIMITED',
+      message,
+      ...(retryAfter > 0 && { retryAfterMs: retryAfter * 1000 })
+    };
+  }
+  // Rejected credentials are a provider misconfiguration, not a problem with the request
+  const unavailable = status >= 500 || status === 401 || status === 403;
+  return { kind: unavailable ? 'UNAVAILABLE' : 'REJECTED', message };
+}
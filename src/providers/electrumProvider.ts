@@ -0,0 +1,338 @@
+import net, { Socket } from 'net';
+import tls from 'tls';
+import { createHash } from 'crypto';
+import {
+  BitcoinAddressInfo,
+  BitcoinNetwork,
+  BitcoinTransaction,
+  BitcoinUtxo,
+  BlockchainOperation
+} from '../types';
+import { BlockchainProvider, ProviderRequestError } from './blockchainProvider';
+import { addressToScriptPubKey } from '../utils/bitcoinAddress';
+import logger from '../utils/logger';
+
+const CLIENT_NAME = 'sanction-detector';
+const PROTOCOL_VERSION = '1.4';
+// Subscribed histories kept in memory; the oldest are dropped beyond this
+const MAX_SUBSCRIPTIONS = 1000;
+
+interface ElectrumHistoryItem {
+  tx_hash: string;
+  height: number; // 0 or -1 while unconfirmed
+}
+
+interface ElectrumUnspent {
+  tx_hash: string;
+  tx_pos: number;
+  height: number;
+  value: number;
+}
+
+interface ElectrumMessage {
+  id?: number;
+  result?: unknown;
+  error?: { code?: number; message?: string } | string | null;
+  method?: string;
+  params?: unknown[];
+}
+
+interface PendingRequest {
+  method: string;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+export interface ElectrumOptions {
+  url: string; // tcp://host:port or ssl://host:port
+  network: BitcoinNetwork;
+  rejectUnauthorized: boolean;
+  timeoutMs: number;
+}
+
+/**
+ * Newline-delimited JSON-RPC connection to an Electrum server, opened on first use and
+ * reopened after it drops
+ */
+class ElectrumConnection {
+  private socket: Socket | null = null;
+  private connecting: Promise<Socket> | null = null;
+  private buffer = '';
+  private nextId = 1;
+  private readonly pending = new Map<number, PendingRequest>();
+
+  constructor(
+    private readonly options: ElectrumOptions,
+    private readonly onNotification: (method: string, params: unknown[]) => void,
+    private readonly onClose: () => void
+  ) {}
+
+  async request<T>(method: string, params: unknown[]): Promise<T> {
+    const socket = await this.connect();
+    return this.send<T>(socket, method, params);
+  }
+
+  private send<T>(socket: Socket, method: string, params: unknown[]): Promise<T> {
+    const id = this.nextId++;
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new ProviderRequestError(`${method} timed out after ${this.options.timeoutMs}ms`, 'UNAVAILABLE'));
+      }, this.options.timeoutMs);
+
+      this.pending.set(id, { method, resolve: result => resolve(result as T), reject, timer });
+      socket.write(`${JSON.stringify({ jsonrpc: '2.0', id, method, params })}\n`);
+    });
+  }
+
+  private connect(): Promise<Socket> {
+    if (this.socket) {
+      return Promise.resolve(this.socket);
+    }
+    if (!this.connecting) {
+      this.connecting = this.open().finally(() => {
+        this.connecting = null;
+      });
+    }
+    return this.connecting;
+  }
+
+  private async open(): Promise<Socket> {
+    const url = new URL(this.options.url);
+    const secure = url.protocol === 'ssl:' || url.protocol === 'tls:';
+    const host = url.hostname;
+    const port = parseInt(url.port, 10) || (secure ? 50002 : 50001);
+
+    const socket = await new Promise<Socket>((resolve, reject) => {
+      const onConnect = () => {
+        connection.setTimeout(0);
+        connection.off('error', reject);
+        resolve(connection);
+      };
+      const connection: Socket = secure
+        ? tls.connect({
+          host,
+          port,
+          rejectUnauthorized: this.options.rejectUnauthorized,
+          ...(net.isIP(host) === 0 && { servername: host })
+        }, onConnect)
+        : net.connect({ host, port }, onConnect);
+
+      connection.setTimeout(this.options.timeoutMs, () => {
+        connection.destroy(new Error(`Connection to ${host}:${port} timed out after ${this.options.timeoutMs}ms`));
+      });
+      connection.once('error', reject);
+    });
+
+    socket.setEncoding('utf8');
+    socket.setKeepAlive(true);
+    // An idle connection must not keep the process alive; pending requests hold their own timers
+    socket.unref();
+    socket.on('data', (chunk: string) => this.receive(chunk));
+    socket.on('error', error => logger.debug(`Electrum connection error: ${error.message}`));
+    socket.on('close', () => this.handleClose(socket));
+
+    try {
+      await this.send(socket, 'server.version', [CLIENT_NAME, PROTOCOL_VERSION]);
+    } catch (error) {
+      socket.destroy();
+      throw error;
+    }
+
+    logger.info(`Connected to Electrum server ${host}:${port}`);
+    this.socket = socket;
+    return socket;
+  }
+
+  private receive(chunk: string): void {
+    this.buffer += chunk;
+    let newline = this.buffer.indexOf('\n');
+    while (newline !== -1) {
+      const line = this.buffer.slice(0, newline).trim();
+      this.buffer = this.buffer.slice(newline + 1);
+      if (line) {
+        this.handleMessage(line);
+      }
+      newline = this.buffer.indexOf('\n');
+    }
+  }
+
+  private handleMessage(line: string): void {
+    let message: ElectrumMessage;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      logger.warn('Ignoring malformed message from Electrum server', { line: line.slice(0, 200) });
+      return;
+    }
+
+    if (message.id !== undefined) {
+      const request = this.pending.get(message.id);
+      if (!request) {
+        return;
+      }
+      this.pending.delete(message.id);
+      clearTimeout(request.timer);
+
+      if (message.error) {
+        // The server answered, so the request rather than the server is at fault
+        const reason = typeof message.error === 'string' ? message.error : message.error.message || 'Unknown error';
+        request.reject(new ProviderRequestError(`${request.method} failed: ${reason}`, 'REJECTED'));
+      } else {
+        request.resolve(message.result);
+      }
+    } else if (message.method) {
+      this.onNotification(message.method, message.params || []);
+    }
+  }
+
+  private handleClose(socket: Socket): void {
+    if (this.socket === socket) {
+      this.socket = null;
+    }
+    this.buffer = '';
+
+    for (const [id, request] of this.pending) {
+      clearTimeout(request.timer);
+      request.reject(new ProviderRequestError(`${request.method} failed: Electrum connection closed`, 'UNAVAILABLE'));
+      this.pending.delete(id);
+    }
+    this.onClose();
+  }
+}
+
+/**
+ * Adapter for an Electrum server (electrs, Fulcrum) serving address histories and unspent outputs.
+ * Addresses are converted to script hashes locally. Histories are subscribed to, so a cached history
+ * is reused until the server reports that it changed. Transactions themselves are fetched through
+ * the other providers, so they are normalized like any other transaction.
+ */
+export class ElectrumProvider implements BlockchainProvider {
+  public readonly name = 'electrum';
+  public readonly networks: BitcoinNetwork[];
+  public readonly operations: BlockchainOperation[] = ['addressTransactions', 'addressUtxos', 'blockHeight'];
+  private readonly connection: ElectrumConnection;
+  private readonly histories = new Map<string, { status: string | null; history: ElectrumHistoryItem[] }>();
+
+  constructor(
+    options: ElectrumOptions,
+    private readonly fetchTransaction: (txid: string, network: BitcoinNetwork) => Promise<BitcoinTransaction>
+  ) {
+    this.networks = [options.network];
+    this.connection = new ElectrumConnection(
+      options,
+      (method, params) => this.handleNotification(method, params),
+      // Notifications may have been missed while disconnected
+      () => this.histories.clear()
+    );
+  }
+
+  async getTransaction(): Promise<BitcoinTransaction> {
+    throw new ProviderRequestError(`${this.name} does not serve transactions`, 'REJECTED');
+  }
+
+  async getAddressInfo(): Promise<BitcoinAddressInfo> {
+    throw new ProviderRequestError(`${this.name} does not serve address totals`, 'REJECTED');
+  }
+
+  async getAddressTransactions(address: string, limit: number, network: BitcoinNetwork): Promise<BitcoinTransaction[]> {
+    const txids = await this.getAddressTransactionIds(address, limit, network);
+
+    const transactions: BitcoinTransaction[] = [];
+    for (const txid of txids) {
+      try {
+        transactions.push(await this.fetchTransaction(txid, network));
+      } catch (error) {
+        // Not this server's fault: let the next provider serve the whole listing
+        throw new ProviderRequestError(`Failed to fetch transaction ${txid}: ${(error as Error).message}`, 'REJECTED');
+      }
+    }
+    return transactions;
+  }
+
+  async getAddressTransactionIds(address: string, limit: number, network: BitcoinNetwork): Promise<string[]> {
+    const history = await this.getHistory(this.toScriptHash(address, network));
+
+    // Unconfirmed first, then most recent first, like the explorer APIs
+    const rank = (item: ElectrumHistoryItem) => item.height > 0 ? item.height : Number.MAX_SAFE_INTEGER;
+    return [...history]
+      .sort((a, b) => rank(b) - rank(a))
+      .slice(0, limit)
+      .map(item => item.tx_hash);
+  }
+
+  async getAddressUtxos(address: string, network: BitcoinNetwork): Promise<BitcoinUtxo[]> {
+    const unspents = await this.connection.request<ElectrumUnspent[]>(
+      'blockchain.scripthash.listunspent',
+      [this.toScriptHash(address, network)]
+    );
+    return unspents.map(unspent => ({
+      txid: unspent.tx_hash,
+      vout: unspent.tx_pos,
+      value: unspent.value,
+      confirmed: unspent.height > 0,
+      blockHeight: Math.max(unspent.height, 0)
+    }));
+  }
+
+  async getBlockHeight(network: BitcoinNetwork): Promise<number> {
+    this.checkNetwork(network);
+    const header = await this.connection.request<{ height: number }>('blockchain.headers.subscribe', []);
+    return header.height;
+  }
+
+  /**
+   * Get the history of a script hash, subscribing to it so later changes invalidate the cached copy
+   */
+  private async getHistory(scriptHash: string): Promise<ElectrumHistoryItem[]> {
+    const cached = this.histories.get(scriptHash);
+    if (cached) {
+      return cached.history;
+    }
+
+    const status = await this.connection.request<string | null>('blockchain.scripthash.subscribe', [scriptHash]);
+    const history = await this.connection.request<ElectrumHistoryItem[]>('blockchain.scripthash.get_history', [scriptHash]);
+
+    this.histories.set(scriptHash, { status, history });
+    if (this.histories.size > MAX_SUBSCRIPTIONS) {
+      const oldest = this.histories.keys().next().value as string;
+      this.histories.delete(oldest);
+      // Not every server supports unsubscribing; a stale subscription only costs a notification
+      this.connection.request('blockchain.scripthash.unsubscribe', [oldest]).catch(() => undefined);
+    }
+    return history;
+  }
+
+  private handleNotification(method: string, params: unknown[]): void {
+    if (method !== 'blockchain.scripthash.subscribe') {
+      return;
+    }
+    const [scriptHash, status] = params as [string, string | null];
+    const cached = this.histories.get(scriptHash);
+    if (cached && cached.status !== status) {
+      this.histories.delete(scriptHash);
+    }
+  }
+
+  /**
+   * Electrum script hash: SHA-256 of the output script, byte-reversed, in hex
+   */
+  private toScriptHash(address: string, network: BitcoinNetwork): string {
+    this.checkNetwork(network);
+
+    let script: Buffer;
+    try {
+      script = addressToScriptPubKey(address, network);
+    } catch (error) {
+      throw new ProviderRequestError((error as Error).message, 'REJECTED');
+    }
+    return createHash('sha256').update(script).digest().reverse().toString('hex');
+  }
+
+  private checkNetwork(network: BitcoinNetwork): void {
+    if (!this.networks.includes(network)) {
+      throw new Error(`${this.name} is not configured for ${network}`);
+    }
+  }
+}
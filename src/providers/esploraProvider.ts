@@ -0,0 +1,122 @@
+import axios, { AxiosInstance } from 'axios';
+import {
+  BitcoinAddressInfo,
+  BitcoinNetwork,
+  BitcoinTransaction,
+  BitcoinUtxo,
+  BlockchainOperation,
+  MempoolAddressInfo,
+  MempoolAddressTransaction,
+  MempoolTransaction,
+  TransactionInput,
+  TransactionOutput
+} from '../types';
+import { ALL_OPERATIONS, BlockchainProvider } from './blockchainProvider';
+
+interface EsploraUtxo {
+  txid: string;
+  vout: number;
+  value: number;
+  status: {
+    confirmed: boolean;
+    block_height?: number;
+  };
+}
+
+/**
+ * Adapter for Esplora REST APIs, as served by Mempool.space and Blockstream.info
+ */
+export class EsploraProvider implements BlockchainProvider {
+  public readonly networks: BitcoinNetwork[];
+  public readonly operations: BlockchainOperation[] = ALL_OPERATIONS;
+  private readonly clients = new Map<BitcoinNetwork, AxiosInstance>();
+
+  constructor(
+    public readonly name: string,
+    baseUrls: Partial<Record<BitcoinNetwork, string>>,
+    timeoutMs: number
+  ) {
+    for (const [network, baseURL] of Object.entries(baseUrls) as Array<[BitcoinNetwork, string | undefined]>) {
+      if (baseURL) {
+        this.clients.set(network, axios.create({ baseURL, timeout: timeoutMs }));
+      }
+    }
+    this.networks = Array.from(this.clients.keys());
+  }
+
+  async getTransaction(txid: string, network: BitcoinNetwork): Promise<BitcoinTransaction> {
+    const { data } = await this.getClient(network).get<MempoolTransaction>(`/tx/${txid}`);
+    return this.toBitcoinTransaction(data);
+  }
+
+  async getAddressInfo(address: string, network: BitcoinNetwork): Promise<BitcoinAddressInfo> {
+    const { data } = await this.getClient(network).get<MempoolAddressInfo>(`/address/${address}`);
+    return {
+      address: data.address,
+      txCount: data.chain_stats.tx_count,
+      unconfirmedTxCount: data.mempool_stats.tx_count,
+      totalReceived: data.chain_stats.funded_txo_sum,
+      totalSent: data.chain_stats.spent_txo_sum,
+      balance: data.chain_stats.funded_txo_sum - data.chain_stats.spent_txo_sum,
+      unconfirmedBalance: data.mempool_stats.funded_txo_sum - data.mempool_stats.spent_txo_sum
+    };
+  }
+
+  async getAddressTransactions(address: string, limit: number, network: BitcoinNetwork): Promise<BitcoinTransaction[]> {
+    // The first page holds the unconfirmed and the 25 most recent confirmed transactions
+    const { data } = await this.getClient(network).get<MempoolAddressTransaction[]>(`/address/${address}/txs`);
+    return data.slice(0, limit).map(tx => this.toBitcoinTransaction(tx));
+  }
+
+  async getAddressTransactionIds(address: string, limit: number, network: BitcoinNetwork): Promise<string[]> {
+    // The same request: Esplora has no lighter listing
+    const transactions = await this.getAddressTransactions(address, limit, network);
+    return transactions.map(tx => tx.txid);
+  }
+
+  async getAddressUtxos(address: string, network: BitcoinNetwork): Promise<BitcoinUtxo[]> {
+    const { data } = await this.getClient(network).get<EsploraUtxo[]>(`/address/${address}/utxo`);
+    return data.map(utxo => ({
+      txid: utxo.txid,
+      vout: utxo.vout,
+      value: utxo.value,
+      confirmed: utxo.status.confirmed,
+      blockHeight: utxo.status.block_height || 0
+    }));
+  }
+
+  async getBlockHeight(network: BitcoinNetwork): Promise<number> {
+    const { data } = await this.getClient(network).get<number | string>('/blocks/tip/height');
+    return Number(data);
+  }
+
+  private getClient(network: BitcoinNetwork): AxiosInstance {
+    const client = this.clients.get(network);
+    if (!client) {
+      throw new Error(`${this.name} is not configured for ${network}`);
+    }
+    return client;
+  }
+
+  private toBitcoinTransaction(tx: MempoolTransaction | MempoolAddressTransaction): BitcoinTransaction {
+    return {
+      txid: tx.txid,
+      blockHeight: tx.status.block_height || 0,
+      blockTime: tx.status.block_time || 0,
+      // Coinbase inputs have no previous output
+      inputs: tx.vin.map((vin): TransactionInput => ({
+        txid: vin.txid,
+        vout: vin.vout,
+        addresses: (vin.prevout && vin.prevout.scriptpubkey_address) ? [vin.prevout.scriptpubkey_address] : [],
+        value: (vin.prevout && vin.prevout.value) ? vin.prevout.value : 0
+      })),
+      outputs: tx.vout.map((vout): TransactionOutput => ({
+        addresses: vout.scriptpubkey_address ? [vout.scriptpubkey_address] : [],
+        value: vout.value || 0,
+        scriptPubKey: vout.scriptpubkey || ''
+      })),
+      fee: tx.fee,
+      size: tx.size
+    };
+  }
+}
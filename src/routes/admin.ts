@@ -0,0 +1,139 @@
+import express, { Router, Request, Response, NextFunction } from 'express';
+import config from '../config';
+import { sanctionsImportService } from '../services/sanctionsImportService';
+import { validateSanctionsImportRequest } from '../utils/validation';
+import { sendData, sendError } from '../utils/apiResponse';
+import { requireAdminKey } from '../utils/adminAuth';
+import { SanctionsImportFormat, ValidationError } from '../types';
+
+const router = Router();
+
+/**
+ * Read the uploaded file as text, whatever its content type, up to the configured import size.
+ * The global body parsers skip this route, so JSON uploads are read here too.
+ */
+const importBodyParser = express.text({ type: () => true, limit: config.sanctionsImportMaxSize });
+
+function readImportBody(req: Request, res: Response, next: NextFunction): void {
+  importBodyParser(req, res, (error?: any) => {
+    if (error) {
+      sendError(req, res, new ValidationError(`Could not read the uploaded file: ${error.message}`, {
+        limit: config.sanctionsImportMaxSize
+      }), 'Failed to import sanctions data');
+      return;
+    }
+    next();
+  });
+}
+
+/**
+ * Infer the upload format from the content type when it is not given explicitly
+ */
+function detectImportFormat(req: Request): SanctionsImportFormat | undefined {
+  if (req.is('json')) {
+    return 'refined-json';
+  }
+  if (req.is('xml') || req.is('+xml')) {
+    return 'advanced-xml';
+  }
+  if (req.is('csv') || req.is('text/plain')) {
+    return 'csv';
+  }
+  return undefined;
+}
+
+router.use(requireAdminKey);
+
+/**
+ * @swagger
+ * /api/admin/sanctions/import:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Import OFAC sanctions data
+ *     description: |
+ *       Uploads an OFAC SDN CSV (`SDN Data.csv`), SDN advanced XML (`sdn_advanced.xml`) or refined JSON
+ *       (`ofac-crypto-addresses.json`) as the raw request body. CSV and XML files are run through the
+ *       SDN crypto extractor in-process. Every address is checked against the format of its
+ *       cryptocurrency, and the result is diffed against the data currently on disk.
+ *
+ *       By default this is a dry run and nothing is changed. With `confirm=true` the new data is
+ *       published atomically and the sanctions data is reloaded; if any addresses failed validation,
+ *       publishing also requires `allowInvalidAddresses=true`. Every import is written to the audit log.
+ *
+ *       Requires the `X-Admin-Key` header to match `ADMIN_API_KEY`.
+ *     parameters:
+ *       - $ref: '#/components/parameters/CorrelationId'
+ *       - in: header
+ *         name: X-Admin-Key
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, advanced-xml, refined-json]
+ *         description: Format of the upload; inferred from the Content-Type (text/csv, application/xml, application/json) when omitted
+ *       - in: query
+ *         name: confirm
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Publish the imported data instead of only reporting the changes
+ *       - in: query
+ *         name: allowInvalidAddresses
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Publish even if some addresses failed format validation
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         text/csv:
+ *           schema:
+ *             type: string
+ *         application/xml:
+ *           schema:
+ *             type: string
+ *         application/json:
+ *           schema:
+ *             type: object
+ *     responses:
+ *       200:
+ *         description: Import validated, and published if confirmed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/SanctionsImportResult'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         description: Admin API disabled, or missing or invalid admin key
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post('/sanctions/import', readImportBody, async (req: Request, res: Response) => {
+  try {
+    const request = validateSanctionsImportRequest({
+      ...req.query,
+      format: req.query.format || detectImportFormat(req)
+    });
+
+    const content = typeof req.body === 'string' ? req.body : '';
+    if (!content.trim()) {
+      throw new ValidationError('Request body must contain the sanctions file to import');
+    }
+
+    const result = await sanctionsImportService.importSanctions(content, request, req.correlationId);
+    return sendData(req, res, result);
+  } catch (error) {
+    return sendError(req, res, error, 'Failed to import sanctions data');
+  }
+});
+
+export default router;
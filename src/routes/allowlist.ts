@@ -0,0 +1,180 @@
+import { Router, Request, Response } from 'express';
+import { allowlistService } from '../services/allowlistService';
+import { validateAllowlistRequest } from '../utils/validation';
+import { sendData, sendError } from '../utils/apiResponse';
+import { requireAdminKey } from '../utils/adminAuth';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/allowlist:
+ *   get:
+ *     tags: [Allowlist]
+ *     summary: List allowlist entries
+ *     description: Lists all reviewed false positives, including expired entries.
+ *     parameters:
+ *       - $ref: '#/components/parameters/CorrelationId'
+ *     responses:
+ *       200:
+ *         description: Entries retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/AllowlistEntry'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *   post:
+ *     tags: [Allowlist]
+ *     summary: Create an allowlist entry
+ *     description: |
+ *       Records a reviewed false positive for an address, optionally limited to one sanctioned
+ *       counterparty (entity ID or address). While the entry is unexpired, direct matches in scope
+ *       are suppressed and indirect exposure is down-weighted; both are reported in
+ *       `suppressedMatches` of the screening result. Direct OFAC matches are never suppressed.
+ *       Requires the `X-Admin-Key` header.
+ *     parameters:
+ *       - $ref: '#/components/parameters/CorrelationId'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/AllowlistRequest'
+ *     responses:
+ *       201:
+ *         description: Entry created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/AllowlistEntry'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         description: Admin API disabled, or missing or invalid admin key
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    return sendData(req, res, await allowlistService.listEntries());
+  } catch (error) {
+    return sendError(req, res, error, 'Failed to list allowlist entries');
+  }
+});
+
+router.post('/', requireAdminKey, async (req: Request, res: Response) => {
+  try {
+    const request = validateAllowlistRequest(req.body);
+    const entry = await allowlistService.createEntry(request, req.correlationId);
+    return sendData(req, res, entry, 201);
+  } catch (error) {
+    return sendError(req, res, error, 'Failed to create allowlist entry');
+  }
+});
+
+/**
+ * @swagger
+ * /api/allowlist/{entryId}:
+ *   parameters:
+ *     - $ref: '#/components/parameters/CorrelationId'
+ *     - name: entryId
+ *       in: path
+ *       required: true
+ *       schema:
+ *         type: string
+ *         format: uuid
+ *   get:
+ *     tags: [Allowlist]
+ *     summary: Get an allowlist entry
+ *     responses:
+ *       200:
+ *         description: Entry retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/AllowlistEntry'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *   put:
+ *     tags: [Allowlist]
+ *     summary: Replace an allowlist entry (e.g. extend its expiry after a new review)
+ *     description: Requires the `X-Admin-Key` header.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/AllowlistRequest'
+ *     responses:
+ *       200:
+ *         description: Entry updated
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         description: Admin API disabled, or missing or invalid admin key
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *   delete:
+ *     tags: [Allowlist]
+ *     summary: Delete an allowlist entry
+ *     description: Requires the `X-Admin-Key` header.
+ *     responses:
+ *       200:
+ *         description: Entry deleted
+ *       401:
+ *         description: Admin API disabled, or missing or invalid admin key
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get('/:entryId', async (req: Request, res: Response) => {
+  try {
+    return sendData(req, res, await allowlistService.getEntry(req.params.entryId!));
+  } catch (error) {
+    return sendError(req, res, error, 'Failed to retrieve allowlist entry');
+  }
+});
+
+router.put('/:entryId', requireAdminKey, async (req: Request, res: Response) => {
+  try {
+    const request = validateAllowlistRequest(req.body);
+    const entry = await allowlistService.updateEntry(req.params.entryId!, request, req.correlationId);
+    return sendData(req, res, entry);
+  } catch (error) {
+    return sendError(req, res, error, 'Failed to update allowlist entry');
+  }
+});
+
+router.delete('/:entryId', requireAdminKey, async (req: Request, res: Response) => {
+  try {
+    await allowlistService.deleteEntry(req.params.entryId!, req.correlationId);
+    return sendData(req, res, { deleted: true });
+  } catch (error) {
+    return sendError(req, res, error, 'Failed to delete allowlist entry');
+  }
+});
+
+export default router;
@@ -3,6 +3,9 @@ import { ApiResponse } from '../types';
 import logger from '../utils/logger';
 import { existsSync } from 'fs';
 import config from '../config';
+import { sanctionsInboxService } from '../services/sanctionsInboxService';
+import { blockchainApiService } from '../services/blockchainApiService';
+import { transactionPathAnalysisService } from '../services/transactionPathAnalysisService';
 
 const router = Router();
 
@@ -15,6 +18,9 @@ const router = Router();
  *     description: |
  *       Returns the current health status of the Bitcoin Sanction Detection Service.
  *       Includes system information, uptime, and service availability.
+ *       The status is `degraded` while the last sanctions inbox refresh has failed and no file has
+ *       been imported since; details are in `services.sanctionsInbox.lastFailure`. It is also `degraded`
+ *       while every mainnet provider of blockchain transactions is being skipped after failures or rate limits.
  *     parameters:
  *       - $ref: '#/components/parameters/CorrelationId'
  *     responses:
@@ -48,6 +54,93 @@ const router = Router();
  *                         riskAssessmentsDir: true
  *                         auditLogsDir: true
  *                         configDir: true
+ *                       sanctionsInbox:
+ *                         enabled: true
+ *                         inboxDir: "./data/sanctions/inbox"
+ *                         pollIntervalSeconds: 300
+ *                         lastPollAt: "2025-06-30T19:10:00.000Z"
+ *                         lastImport:
+ *                           file: "sdn_advanced.xml"
+ *                           importedAt: "2025-06-30T08:05:12.431Z"
+ *                           versionId: "3f2a9c41d0b7"
+ *                           invalidAddresses: 0
+ *                         lastFailure: null
+ *                       blockchainProviders:
+ *                         - name: "mempool"
+ *                           priority: 1
+ *                           networks: ["mainnet", "testnet", "signet"]
+ *                           operations: ["transaction", "addressInfo", "addressTransactions", "addressUtxos", "blockHeight"]
+ *                           rateLimit:
+ *                             requestsPerMinute: 60
+ *                             availableTokens: 0
+ *                             queueDepth:
+ *                               interactive: 1
+ *                               bulk: 14
+ *                             waits:
+ *                               interactive:
+ *                                 served: 182
+ *                                 timedOut: 0
+ *                                 averageWaitMs: 140
+ *                                 maxWaitMs: 1980
+ *                               bulk:
+ *                                 served: 431
+ *                                 timedOut: 3
+ *                                 averageWaitMs: 8210
+ *                                 maxWaitMs: 30000
+ *                           available: false
+ *                           cooldownUntil: "2025-06-30T19:13:02.114Z"
+ *                           consecutiveFailures: 3
+ *                           requestCount: 214
+ *                           failureCount: 3
+ *                           lastSuccessAt: "2025-06-30T19:11:40.020Z"
+ *                           lastFailure:
+ *                             failedAt: "2025-06-30T19:12:02.114Z"
+ *                             error: "HTTP 503"
+ *                             rateLimited: false
+ *                         - name: "blockstream"
+ *                           priority: 2
+ *                           networks: ["mainnet", "testnet"]
+ *                           operations: ["transaction", "addressInfo", "addressTransactions", "addressUtxos", "blockHeight"]
+ *                           rateLimit:
+ *                             requestsPerMinute: 60
+ *                             availableTokens: 48
+ *                             queueDepth:
+ *                               interactive: 0
+ *                               bulk: 0
+ *                             waits:
+ *                               interactive:
+ *                                 served: 12
+ *                                 timedOut: 0
+ *                                 averageWaitMs: 0
+ *                                 maxWaitMs: 0
+ *                               bulk:
+ *                                 served: 0
+ *                                 timedOut: 0
+ *                                 averageWaitMs: 0
+ *                                 maxWaitMs: 0
+ *                           available: true
+ *                           cooldownUntil: null
+ *                           consecutiveFailures: 0
+ *                           requestCount: 12
+ *                           failureCount: 0
+ *                           lastSuccessAt: "2025-06-30T19:12:05.871Z"
+ *                           lastFailure: null
+ *                       cache:
+ *                         size: 4
+ *                         maxSize: 100
+ *                         blockchain:
+ *                           transactions:
+ *                             hits: 1873
+ *                             misses: 226
+ *                             writes: 219
+ *                           addressHistories:
+ *                             entries: 38
+ *                             hits: 95
+ *                             misses: 41
+ *                             invalidations: 12
+ *                             ttlSeconds: 60
+ *                           blockHeights:
+ *                             mainnet: 903112
  *                   timestamp: "2025-06-30T19:12:07.852Z"
  *                   correlationId: "c17cea5c-2517-43ba-9cb7-2d0f6f2a78f9"
  *       503:
@@ -61,8 +154,11 @@ const router = Router();
 // Health check endpoint
 router.get('/', (req: Request, res: Response) => {
   try {
+    // A failed inbox refresh leaves the service running on the previous sanctions data; without
+    // a blockchain provider, transaction screening and path analysis fail
+    const degraded = sanctionsInboxService.hasUnresolvedFailure() || !blockchainApiService.hasAvailableProvider();
     const healthData = {
-      status: 'healthy',
+      status: degraded ? 'degraded' : 'healthy',
       timestamp: new Date().toISOString(),
       uptime: process.uptime(),
       version: '1.0.0',
@@ -73,7 +169,10 @@ router.get('/', (req: Request, res: Response) => {
           riskAssessmentsDir: existsSync(config.riskAssessmentsDir),
           auditLogsDir: existsSync(config.auditLogsDir),
           configDir: existsSync(config.configDir)
-        }
+        },
+        sanctionsInbox: sanctionsInboxService.getStatus(),
+        blockchainProviders: blockchainApiService.getProviderStatus(),
+        cache: transactionPathAnalysisService.getCacheStats()
       }
     };
 
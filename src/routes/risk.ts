@@ -1,10 +1,70 @@
 import { Router, Request, Response } from 'express';
-import { ApiResponse, ValidationError } from '../types';
+import { ApiResponse, JurisdictionLink, RiskFactors, RiskLevel, ScreeningResult, ValidationError } from '../types';
 import { isValidBitcoinAddress, isValidBitcoinTxHash } from '../utils/validation';
+import { addressScreeningService } from '../services/addressScreeningService';
+import { transactionScreeningService } from '../services/transactionScreeningService';
 import logger from '../utils/logger';
 
 const router = Router();
 
+const NO_RISK_FACTORS: RiskFactors = {
+  directSanctionMatch: 0,
+  indirectExposure: 0,
+  transactionPatterns: 0,
+  geographicalRisk: 0,
+  temporalFactors: 0
+};
+
+interface RiskBreakdown {
+  identifier: string;
+  type: 'address' | 'transaction';
+  riskScore: number;
+  riskLevel: RiskLevel;
+  lastAssessment: string;
+  riskFactors: RiskFactors;
+  highRiskJurisdictions: JurisdictionLink[];
+  confidence: number;
+}
+
+function toRiskBreakdown(identifier: string, type: RiskBreakdown['type'], result: ScreeningResult): RiskBreakdown {
+  return {
+    identifier,
+    type,
+    riskScore: result.riskScore,
+    riskLevel: result.riskLevel,
+    lastAssessment: result.timestamp,
+    riskFactors: result.riskFactors || NO_RISK_FACTORS,
+    highRiskJurisdictions: result.highRiskJurisdictions || [],
+    confidence: result.confidence
+  };
+}
+
+/**
+ * Break down the risk of a transaction: each factor is the highest among its input and output addresses
+ */
+async function assessTransaction(txHash: string, correlationId?: string): Promise<RiskBreakdown> {
+  const screening = await transactionScreeningService.assessDirectRisk(txHash, correlationId);
+  const addressResults = [...screening.inputAddresses, ...screening.outputAddresses];
+
+  const riskFactors = { ...NO_RISK_FACTORS };
+  for (const result of addressResults) {
+    for (const factor of Object.keys(riskFactors) as Array<keyof RiskFactors>) {
+      riskFactors[factor] = Math.max(riskFactors[factor], result.riskFactors?.[factor] || 0);
+    }
+  }
+
+  return {
+    identifier: txHash,
+    type: 'transaction',
+    riskScore: screening.overallRiskScore,
+    riskLevel: screening.overallRiskLevel,
+    lastAssessment: screening.timestamp,
+    riskFactors,
+    highRiskJurisdictions: addressResults.flatMap(result => result.highRiskJurisdictions || []),
+    confidence: screening.confidence
+  };
+}
+
 /**
  * @swagger
  * /api/risk/{identifier}:
@@ -12,8 +72,11 @@ const router = Router();
  *     tags: [Risk]
  *     summary: Get risk assessment for an address or transaction
  *     description: |
- *       Retrieve detailed risk assessment for a Bitcoin address or transaction.
- *       Includes risk scoring, factors analysis, and historical assessment data.
+ *       Retrieve the risk breakdown of a Bitcoin address or transaction from direct sanctions matches.
+ *       This is a read-only lookup: no transaction path analysis is run and nothing is written to the
+ *       audit log, so `indirectExposure` is always 0; screen the address for counterparty exposure.
+ *       For a transaction, each factor is the highest among its input and output addresses, matched
+ *       against the lists as of its block time.
  *     parameters:
  *       - $ref: '#/components/parameters/CorrelationId'
  *       - name: identifier
@@ -61,18 +124,11 @@ const router = Router();
  *                           type: string
  *                           format: date-time
  *                         riskFactors:
- *                           type: object
- *                           properties:
- *                             directSanctionMatch:
- *                               type: integer
- *                             indirectExposure:
- *                               type: integer
- *                             transactionPatterns:
- *                               type: integer
- *                             geographicalRisk:
- *                               type: integer
- *                             temporalFactors:
- *                               type: integer
+ *                           $ref: '#/components/schemas/RiskFactors'
+ *                         highRiskJurisdictions:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/JurisdictionLink'
  *                         confidence:
  *                           type: integer
  *                           minimum: 0
@@ -85,16 +141,17 @@ const router = Router();
  *                   data:
  *                     identifier: '1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa'
  *                     type: 'address'
- *                     riskScore: 15
+ *                     riskScore: 0
  *                     riskLevel: 'LOW'
  *                     lastAssessment: '2025-06-30T19:12:07.852Z'
  *                     riskFactors:
  *                       directSanctionMatch: 0
- *                       indirectExposure: 15
- *                       transactionPatterns: 5
- *                       geographicalRisk: 10
+ *                       indirectExposure: 0
+ *                       transactionPatterns: 0
+ *                       geographicalRisk: 0
  *                       temporalFactors: 0
- *                     confidence: 85
+ *                     highRiskJurisdictions: []
+ *                     confidence: 30
  *                   timestamp: '2025-06-30T19:12:07.852Z'
  *                   correlationId: 'c17cea5c-2517-43ba-9cb7-2d0f6f2a78f9'
  *       400:
@@ -130,24 +187,15 @@ router.get('/:identifier', async (req: Request, res: Response) => {
       ip: req.ip
     });
 
-    // TODO: Implement risk assessment service
-    // For now, return a placeholder response
-    const result = {
-      identifier,
-      type: isAddress ? 'address' : 'transaction',
-      riskScore: 0,
-      riskLevel: 'LOW' as const,
-      lastAssessment: new Date().toISOString(),
-      riskFactors: {
-        directSanctionMatch: 0,
-        indirectExposure: 0,
-        transactionPatterns: 0,
-        geographicalRisk: 0,
-        temporalFactors: 0
-      },
-      confidence: 50,
-      cacheStatus: 'miss' as const
-    };
+    const result = isAddress
+      ? toRiskBreakdown(identifier, 'address', await addressScreeningService.assessDirectRisk(
+        identifier,
+        undefined,
+        'mainnet',
+        undefined,
+        req.correlationId
+      ))
+      : await assessTransaction(identifier, req.correlationId);
 
     const response: ApiResponse<typeof result> = {
       success: true,
@@ -0,0 +1,370 @@
+import { Router, Request, Response } from 'express';
+import { ValidationError, DataNotFoundError } from '../types';
+import { sanctionsDataService } from '../services/sanctionsDataService';
+import { sanctionsHistoryService } from '../services/sanctionsHistoryService';
+import { validateNameSearchRequest, validateEntityListRequest } from '../utils/validation';
+import { sendData, sendError } from '../utils/apiResponse';
+import logger from '../utils/logger';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/sanctions/search:
+ *   get:
+ *     tags: [Sanctions]
+ *     summary: Search sanctioned entities by name
+ *     description: |
+ *       Fuzzy search over the names and aliases of all active sanctioned entities.
+ *       Matching ignores token order (OFAC lists names as "LAST, First"), folds diacritics
+ *       and tolerates common transliteration differences (e.g. Mohammed / Muhammad).
+ *       Each entity appears once, with its best-matching name or alias and a 0-100 score.
+ *     parameters:
+ *       - $ref: '#/components/parameters/CorrelationId'
+ *       - name: q
+ *         in: query
+ *         required: true
+ *         description: Name to search for
+ *         schema:
+ *           type: string
+ *           minLength: 2
+ *           maxLength: 200
+ *         example: 'Ali Khalil'
+ *       - name: limit
+ *         in: query
+ *         required: false
+ *         description: Maximum number of results
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - name: minScore
+ *         in: query
+ *         required: false
+ *         description: Minimum similarity score for a result
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 100
+ *           default: 70
+ *     responses:
+ *       200:
+ *         description: Search completed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     success:
+ *                       enum: [true]
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         query:
+ *                           type: string
+ *                         total:
+ *                           type: integer
+ *                         results:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/SanctionNameMatch'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get('/search', async (req: Request, res: Response) => {
+  try {
+    const { q, limit, minScore } = validateNameSearchRequest(req.query);
+
+    logger.info(`Sanctions name search request received`, {
+      limit,
+      minScore,
+      correlationId: req.correlationId,
+      ip: req.ip
+    });
+
+    const results = await sanctionsDataService.searchSanctionsByName(q, limit, minScore);
+    return sendData(req, res, { query: q, total: results.length, results });
+  } catch (error) {
+    return sendError(req, res, error, 'Sanctions name search failed');
+  }
+});
+
+/**
+ * @swagger
+ * /api/sanctions/entities:
+ *   get:
+ *     tags: [Sanctions]
+ *     summary: List sanctioned entities
+ *     description: |
+ *       Paginated list of consolidated sanctioned entities from all loaded lists,
+ *       including delisted entities unless filtered by `active`.
+ *     parameters:
+ *       - $ref: '#/components/parameters/CorrelationId'
+ *       - name: program
+ *         in: query
+ *         required: false
+ *         description: Sanctions program or regime (case-insensitive exact match)
+ *         schema:
+ *           type: string
+ *         example: 'CYBER2'
+ *       - name: currency
+ *         in: query
+ *         required: false
+ *         description: Only entities with addresses in this cryptocurrency
+ *         schema:
+ *           type: string
+ *         example: 'XBT'
+ *       - name: active
+ *         in: query
+ *         required: false
+ *         description: Filter by designation status
+ *         schema:
+ *           type: boolean
+ *       - name: page
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - name: pageSize
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 200
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: Entities retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     success:
+ *                       enum: [true]
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         items:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/SanctionEntity'
+ *                         pagination:
+ *                           type: object
+ *                           properties:
+ *                             page:
+ *                               type: integer
+ *                             pageSize:
+ *                               type: integer
+ *                             total:
+ *                               type: integer
+ *                             totalPages:
+ *                               type: integer
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get('/entities', async (req: Request, res: Response) => {
+  try {
+    const filters = validateEntityListRequest(req.query);
+    return sendData(req, res, await sanctionsDataService.listEntities(filters));
+  } catch (error) {
+    return sendError(req, res, error, 'Sanctions entity listing failed');
+  }
+});
+
+/**
+ * @swagger
+ * /api/sanctions/entities/{entityId}:
+ *   get:
+ *     tags: [Sanctions]
+ *     summary: Get a sanctioned entity
+ *     description: |
+ *       Everything known about an entity referenced by a `SanctionMatch`: addresses grouped by
+ *       cryptocurrency, programs, entity type, remarks and aliases. For OFAC entities, `details` holds
+ *       the dates of birth, nationalities, websites, contact details, linked parties, secondary
+ *       sanctions risks and identity documents parsed from the remarks.
+ *     parameters:
+ *       - $ref: '#/components/parameters/CorrelationId'
+ *       - name: entityId
+ *         in: path
+ *         required: true
+ *         description: Entity identifier as returned in `SanctionMatch.entityId`
+ *         schema:
+ *           type: string
+ *         example: '12345'
+ *     responses:
+ *       200:
+ *         description: Entity retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     success:
+ *                       enum: [true]
+ *                     data:
+ *                       $ref: '#/components/schemas/SanctionEntity'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get('/entities/:entityId', async (req: Request, res: Response) => {
+  try {
+    const { entityId } = req.params;
+    const entity = entityId ? await sanctionsDataService.getEntityById(entityId) : null;
+
+    if (!entity) {
+      throw new DataNotFoundError(`Sanctioned entity not found: ${entityId}`, { entityId });
+    }
+
+    return sendData(req, res, entity);
+  } catch (error) {
+    return sendError(req, res, error, 'Sanctions entity lookup failed');
+  }
+});
+
+/**
+ * @swagger
+ * /api/sanctions/versions:
+ *   get:
+ *     tags: [Sanctions]
+ *     summary: List recorded sanctions data versions
+ *     description: |
+ *       Lists every recorded snapshot of the OFAC crypto sanctions data, oldest first.
+ *       A snapshot is recorded whenever the data is loaded or reloaded with new content, keyed by content hash
+ *       and `metadata.lastUpdated`.
+ *     parameters:
+ *       - $ref: '#/components/parameters/CorrelationId'
+ *     responses:
+ *       200:
+ *         description: Versions retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     success:
+ *                       enum: [true]
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         versions:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/SanctionsSnapshot'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get('/versions', async (req: Request, res: Response) => {
+  try {
+    const versions = await sanctionsHistoryService.listSnapshots();
+    return sendData(req, res, { versions });
+  } catch (error) {
+    return sendError(req, res, error, 'Failed to list sanctions versions');
+  }
+});
+
+/**
+ * @swagger
+ * /api/sanctions/diff:
+ *   get:
+ *     tags: [Sanctions]
+ *     summary: Diff two versions of the sanctions data
+ *     description: |
+ *       Lists entities and addresses that were added, removed, delisted (`isActive` flipped to false),
+ *       relisted or modified between two recorded versions. Versions are referenced by version ID
+ *       (content hash prefix, at least 7 characters), by `metadata.lastUpdated` (the newest version
+ *       with that timestamp), or by `latest`. Versions are recorded when the data is loaded.
+ *     parameters:
+ *       - $ref: '#/components/parameters/CorrelationId'
+ *       - name: from
+ *         in: query
+ *         required: true
+ *         description: Base version
+ *         schema:
+ *           type: string
+ *         example: '3f2a9c41d0b7'
+ *       - name: to
+ *         in: query
+ *         required: false
+ *         description: Target version (defaults to the latest recorded version)
+ *         schema:
+ *           type: string
+ *           default: latest
+ *     responses:
+ *       200:
+ *         description: Diff computed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     success:
+ *                       enum: [true]
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         from:
+ *                           $ref: '#/components/schemas/SanctionsSnapshot'
+ *                         to:
+ *                           $ref: '#/components/schemas/SanctionsSnapshot'
+ *                         summary:
+ *                           type: object
+ *                           additionalProperties:
+ *                             type: integer
+ *                         entities:
+ *                           type: object
+ *                         addresses:
+ *                           type: object
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get('/diff', async (req: Request, res: Response) => {
+  try {
+    const { from, to = 'latest' } = req.query;
+
+    if (!from || typeof from !== 'string') {
+      throw new ValidationError('from query parameter is required');
+    }
+
+    if (typeof to !== 'string') {
+      throw new ValidationError('to query parameter must be a single version');
+    }
+
+    logger.info(`Sanctions diff request received`, {
+      from,
+      to,
+      correlationId: req.correlationId,
+      ip: req.ip
+    });
+
+    return sendData(req, res, await sanctionsHistoryService.diffVersions(from, to));
+  } catch (error) {
+    return sendError(req, res, error, 'Sanctions diff failed');
+  }
+});
+
+export default router;
@@ -2,7 +2,16 @@ import { Router, Request, Response } from 'express';
 import { ApiResponse, ScreeningRequest, TransactionScreeningRequest, BulkScreeningRequest, ValidationError, ExternalApiError, ScreeningResult } from '../types';
 import { addressScreeningService } from '../services/addressScreeningService';
 import { transactionScreeningService } from '../services/transactionScreeningService';
-import { isValidBitcoinAddress, isValidBitcoinTxHash } from '../utils/validation';
+import {
+  describeInvalidAddress,
+  isValidAddressForAsset,
+  isValidBitcoinAddress,
+  isValidBitcoinTxHash,
+  isValidCryptoAddress,
+  normalizeAsOf,
+  SUPPORTED_ASSETS,
+  SUPPORTED_NETWORKS
+} from '../utils/validation';
 import config from '../config';
 import logger from '../utils/logger';
 
@@ -13,9 +22,15 @@ const router = Router();
  * /api/screening/address:
  *   post:
  *     tags: [Screening]
- *     summary: Screen a single Bitcoin address
+ *     summary: Screen a single cryptocurrency address
  *     description: |
- *       Screen a Bitcoin address against OFAC cryptocurrency sanctions.
+ *       Screen a cryptocurrency address against OFAC cryptocurrency sanctions.
+ *       Supports every asset extracted from the SDN list (XBT, ETH, LTC, XMR, ZEC, DASH, BTG, ETC, XVG).
+ *       Without `asset`, the address is screened for every asset its format is valid for
+ *       (e.g. an 0x address is screened as both ETH and ETC); matches report the asset they were listed under.
+ *       Only Bitcoin addresses are validated with their checksum; other addresses are only checked against
+ *       their format, reported as `addressValidation: FORMAT_ONLY`.
+ *       Transaction analysis is only available for Bitcoin addresses.
  *       Returns risk assessment, sanction matches, and processing details.
  *     parameters:
  *       - $ref: '#/components/parameters/CorrelationId'
@@ -30,12 +45,29 @@ const router = Router();
  *             properties:
  *               address:
  *                 type: string
- *                 description: Bitcoin address to screen
- *                 pattern: '^[13][a-km-zA-HJ-NP-Z1-9]{25,34}$|^3[a-km-zA-HJ-NP-Z1-9]{33}$|^bc1[a-z0-9]{39,59}$'
+ *                 description: Cryptocurrency address to screen
  *                 example: '1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa'
+ *               asset:
+ *                 type: string
+ *                 enum: [XBT, ETH, LTC, XMR, ZEC, DASH, BTG, ETC, XVG]
+ *                 description: Asset to screen the address for; auto-detected from the address format when omitted
+ *               network:
+ *                 type: string
+ *                 enum: [mainnet, testnet, signet]
+ *                 description: |
+ *                   Bitcoin network of the address. Testnet and signet addresses are screened against
+ *                   watchlists of the same network only, never against mainnet sanctions data.
+ *                 default: mainnet
+ *               asOf:
+ *                 type: string
+ *                 format: date-time
+ *                 description: |
+ *                   Screen against the sanctions lists and watchlists as they stood at this time,
+ *                   e.g. to re-examine a past payment. Matches report when the address was designated
+ *                   and, if since removed, delisted. Defaults to now.
  *               includeTransactionAnalysis:
  *                 type: boolean
- *                 description: Whether to include transaction graph analysis
+ *                 description: Whether to include transaction graph analysis (Bitcoin only)
  *                 default: false
  *               maxHops:
  *                 type: integer
@@ -54,6 +86,21 @@ const router = Router();
  *                 address: '1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa'
  *                 includeTransactionAnalysis: true
  *                 maxHops: 3
+ *             ethereum_screening:
+ *               summary: Ethereum address screening
+ *               value:
+ *                 address: '0x098B716B8Aaf21512996dC57EB0615e2383E2f96'
+ *                 asset: 'ETH'
+ *             testnet_screening:
+ *               summary: Testnet address screening
+ *               value:
+ *                 address: 'tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx'
+ *                 network: 'testnet'
+ *             point_in_time_screening:
+ *               summary: Screening against the lists as of a past date
+ *               value:
+ *                 address: '12QtD5BFwRsdNsAZY76UVE1xyCGNTojH9h'
+ *                 asOf: '2019-06-01T00:00:00Z'
  *     responses:
  *       200:
  *         description: Screening completed successfully
@@ -75,6 +122,8 @@ const router = Router();
  *                   success: true
  *                   data:
  *                     address: '1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa'
+ *                     assets: ['XBT']
+ *                     addressValidation: 'CHECKSUM'
  *                     riskScore: 0
  *                     riskLevel: 'LOW'
  *                     sanctionMatches: []
@@ -89,15 +138,27 @@ const router = Router();
  *                   success: true
  *                   data:
  *                     address: '12QtD5BFwRsdNsAZY76UVE1xyCGNTojH9h'
- *                     riskScore: 75
+ *                     assets: ['XBT']
+ *                     addressValidation: 'CHECKSUM'
+ *                     riskScore: 70
  *                     riskLevel: 'HIGH'
  *                     sanctionMatches:
  *                       - listSource: 'OFAC'
+ *                         jurisdiction: 'US'
  *                         entityName: 'YAN, Xiaobing'
  *                         entityId: '25308'
  *                         matchType: 'DIRECT'
  *                         confidence: 100
  *                         matchedAddress: '12QtD5BFwRsdNsAZY76UVE1xyCGNTojH9h'
+ *                         asset: 'XBT'
+ *                         programs: ['SDNTK']
+ *                         severity: 'MODERATE'
+ *                     riskFactors:
+ *                       directSanctionMatch: 70
+ *                       indirectExposure: 0
+ *                       transactionPatterns: 0
+ *                       geographicalRisk: 0
+ *                       temporalFactors: 0
  *                     timestamp: '2025-06-30T18:45:04.130Z'
  *                     confidence: 80
  *                     processingTimeMs: 3
@@ -110,15 +171,34 @@ const router = Router();
  */
 router.post('/address', async (req: Request, res: Response) => {
   try {
-    const { address, includeTransactionAnalysis = false, maxHops = config.defaultMaxHops }: ScreeningRequest = req.body;
+    const {
+      address,
+      asset,
+      network = 'mainnet',
+      includeTransactionAnalysis = false,
+      maxHops = config.defaultMaxHops
+    }: ScreeningRequest = req.body;
+    const asOf = normalizeAsOf(req.body.asOf);
 
     // Validate input
     if (!address) {
       throw new ValidationError('Address is required');
     }
 
-    if (!isValidBitcoinAddress(address)) {
-      throw new ValidationError('Invalid Bitcoin address format');
+    if (asset !== undefined && !SUPPORTED_ASSETS.includes(asset)) {
+      throw new ValidationError(`Unsupported asset: ${asset}`, { supportedAssets: SUPPORTED_ASSETS });
+    }
+
+    if (!SUPPORTED_NETWORKS.includes(network)) {
+      throw new ValidationError(`Unsupported network: ${network}`, { supportedNetworks: SUPPORTED_NETWORKS });
+    }
+
+    if (asset ? !isValidAddressForAsset(address, asset, network) : !isValidCryptoAddress(address, network)) {
+      throw new ValidationError(describeInvalidAddress(address, asset, network), { address, network });
+    }
+
+    if (includeTransactionAnalysis && (asset ? asset !== 'XBT' : !isValidBitcoinAddress(address, network))) {
+      throw new ValidationError('Transaction analysis is only available for Bitcoin addresses');
     }
 
     if (maxHops && (maxHops < 1 || maxHops > 10)) {
@@ -127,6 +207,9 @@ router.post('/address', async (req: Request, res: Response) => {
 
     logger.info(`Address screening request received`, {
       address,
+      asset,
+      network,
+      asOf,
       includeTransactionAnalysis,
       maxHops,
       correlationId: req.correlationId,
@@ -138,7 +221,10 @@ router.post('/address', async (req: Request, res: Response) => {
       address,
       includeTransactionAnalysis,
       maxHops,
-      req.correlationId
+      req.correlationId,
+      asset,
+      network,
+      asOf
     );
 
     const response: ApiResponse<typeof result> = {
@@ -214,6 +300,17 @@ router.post('/address', async (req: Request, res: Response) => {
  *                 enum: [inputs, outputs, both]
  *                 description: Which addresses to analyze
  *                 default: both
+ *               network:
+ *                 type: string
+ *                 enum: [mainnet, testnet, signet]
+ *                 description: Bitcoin network the transaction was made on
+ *                 default: mainnet
+ *               asOf:
+ *                 type: string
+ *                 format: date-time
+ *                 description: |
+ *                   Screen the addresses against the lists as they stood at this time.
+ *                   Defaults to the block time of the transaction, or now if it is unconfirmed.
  *               includeMetadata:
  *                 type: boolean
  *                 description: Include transaction metadata
@@ -246,6 +343,10 @@ router.post('/address', async (req: Request, res: Response) => {
  *                       properties:
  *                         txHash:
  *                           type: string
+ *                         asOf:
+ *                           type: string
+ *                           format: date-time
+ *                           description: Time the addresses were screened as of
  *                         inputAddresses:
  *                           type: array
  *                           items:
@@ -268,7 +369,13 @@ router.post('/address', async (req: Request, res: Response) => {
  */
 router.post('/transaction', async (req: Request, res: Response) => {
   try {
-    const { txHash, direction = 'both', includeMetadata = false }: TransactionScreeningRequest & { includeMetadata?: boolean } = req.body;
+    const {
+      txHash,
+      direction = 'both',
+      network = 'mainnet',
+      includeMetadata = false
+    }: TransactionScreeningRequest & { includeMetadata?: boolean } = req.body;
+    const asOf = normalizeAsOf(req.body.asOf);
 
     // Validate input
     if (!txHash) {
@@ -283,9 +390,15 @@ router.post('/transaction', async (req: Request, res: Response) => {
       throw new ValidationError('direction must be one of: incoming, outgoing, both');
     }
 
+    if (!SUPPORTED_NETWORKS.includes(network)) {
+      throw new ValidationError(`Unsupported network: ${network}`, { supportedNetworks: SUPPORTED_NETWORKS });
+    }
+
     logger.info(`Transaction screening request received`, {
       txHash,
       direction,
+      network,
+      asOf,
       includeMetadata,
       correlationId: req.correlationId,
       ip: req.ip
@@ -296,7 +409,9 @@ router.post('/transaction', async (req: Request, res: Response) => {
       txHash,
       direction,
       includeMetadata,
-      req.correlationId
+      req.correlationId,
+      network,
+      asOf
     );
 
     const response: ApiResponse<typeof result> = {
@@ -363,7 +478,7 @@ router.post('/transaction', async (req: Request, res: Response) => {
  *     tags: [Screening]
  *     summary: Bulk screening for multiple addresses and transactions
  *     description: |
- *       Screen multiple Bitcoin addresses and/or transactions in a single request.
+ *       Screen multiple cryptocurrency addresses and/or Bitcoin transactions in a single request.
  *       Optimized for batch processing with configurable limits and parallel processing.
  *     parameters:
  *       - $ref: '#/components/parameters/CorrelationId'
@@ -378,8 +493,7 @@ router.post('/transaction', async (req: Request, res: Response) => {
  *                 type: array
  *                 items:
  *                   type: string
- *                   pattern: '^[13][a-km-zA-HJ-NP-Z1-9]{25,34}$|^3[a-km-zA-HJ-NP-Z1-9]{33}$|^bc1[a-z0-9]{39,59}$'
- *                 description: Array of Bitcoin addresses to screen
+ *                 description: Array of cryptocurrency addresses to screen (assets are auto-detected)
  *                 maxItems: 100
  *                 example: ['1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa', '1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN2']
  *               transactions:
@@ -471,10 +585,11 @@ router.post('/bulk', async (req: Request, res: Response) => {
     }
 
     // Validate addresses
-    const invalidAddresses = addresses.filter(addr => !isValidBitcoinAddress(addr));
+    const invalidAddresses = addresses.filter(addr => !isValidCryptoAddress(addr));
     if (invalidAddresses.length > 0) {
-      throw new ValidationError('Invalid Bitcoin addresses found', {
-        invalidAddresses: invalidAddresses.slice(0, 5) // Show first 5 invalid addresses
+      throw new ValidationError('Invalid or unsupported cryptocurrency addresses found', {
+        invalidAddresses: invalidAddresses.slice(0, 5), // Show first 5 invalid addresses
+        reasons: invalidAddresses.slice(0, 5).map(address => describeInvalidAddress(address))
       });
     }
 
@@ -0,0 +1,308 @@
+import { Router, Request, Response } from 'express';
+import { watchlistService } from '../services/watchlistService';
+import { validateWatchlistRequest, validateWatchlistEntryRequest } from '../utils/validation';
+import { sendData, sendError } from '../utils/apiResponse';
+import { requireAdminKey } from '../utils/adminAuth';
+
+const router = Router();
+
+// Watchlist entries hold case information (reasons, owners), so every route needs the admin key
+router.use(requireAdminKey);
+
+/**
+ * @swagger
+ * /api/watchlists:
+ *   get:
+ *     tags: [Watchlists]
+ *     summary: List internal watchlists
+ *     parameters:
+ *       - $ref: '#/components/parameters/CorrelationId'
+ *     responses:
+ *       200:
+ *         description: Watchlists retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Watchlist'
+ *       401:
+ *         description: Admin API disabled, or missing or invalid admin key
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *   post:
+ *     tags: [Watchlists]
+ *     summary: Create an internal watchlist
+ *     description: |
+ *       Internal watchlists hold non-public blocklisted addresses (fraud cases, law-enforcement
+ *       requests). Their entries are matched during screening like sanctions hits, with the
+ *       `INTERNAL` list source. Every change is written to the audit log.
+ *     parameters:
+ *       - $ref: '#/components/parameters/CorrelationId'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/WatchlistRequest'
+ *     responses:
+ *       201:
+ *         description: Watchlist created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/Watchlist'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         description: Admin API disabled, or missing or invalid admin key
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    return sendData(req, res, await watchlistService.listWatchlists());
+  } catch (error) {
+    return sendError(req, res, error, 'Failed to list watchlists');
+  }
+});
+
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const request = validateWatchlistRequest(req.body);
+    const watchlist = await watchlistService.createWatchlist(request, req.correlationId);
+    return sendData(req, res, watchlist, 201);
+  } catch (error) {
+    return sendError(req, res, error, 'Failed to create watchlist');
+  }
+});
+
+/**
+ * @swagger
+ * /api/watchlists/{watchlistId}:
+ *   parameters:
+ *     - $ref: '#/components/parameters/CorrelationId'
+ *     - name: watchlistId
+ *       in: path
+ *       required: true
+ *       schema:
+ *         type: string
+ *         format: uuid
+ *   get:
+ *     tags: [Watchlists]
+ *     summary: Get a watchlist with its entries
+ *     responses:
+ *       200:
+ *         description: Watchlist retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/Watchlist'
+ *       401:
+ *         description: Admin API disabled, or missing or invalid admin key
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *   put:
+ *     tags: [Watchlists]
+ *     summary: Rename a watchlist or change its description
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/WatchlistRequest'
+ *     responses:
+ *       200:
+ *         description: Watchlist updated
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         description: Admin API disabled, or missing or invalid admin key
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *   delete:
+ *     tags: [Watchlists]
+ *     summary: Delete a watchlist and all its entries
+ *     responses:
+ *       200:
+ *         description: Watchlist deleted
+ *       401:
+ *         description: Admin API disabled, or missing or invalid admin key
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get('/:watchlistId', async (req: Request, res: Response) => {
+  try {
+    return sendData(req, res, await watchlistService.getWatchlist(req.params.watchlistId!));
+  } catch (error) {
+    return sendError(req, res, error, 'Failed to retrieve watchlist');
+  }
+});
+
+router.put('/:watchlistId', async (req: Request, res: Response) => {
+  try {
+    const request = validateWatchlistRequest(req.body);
+    const watchlist = await watchlistService.updateWatchlist(req.params.watchlistId!, request, req.correlationId);
+    return sendData(req, res, watchlist);
+  } catch (error) {
+    return sendError(req, res, error, 'Failed to update watchlist');
+  }
+});
+
+router.delete('/:watchlistId', async (req: Request, res: Response) => {
+  try {
+    await watchlistService.deleteWatchlist(req.params.watchlistId!, req.correlationId);
+    return sendData(req, res, { deleted: true });
+  } catch (error) {
+    return sendError(req, res, error, 'Failed to delete watchlist');
+  }
+});
+
+/**
+ * @swagger
+ * /api/watchlists/{watchlistId}/entries:
+ *   post:
+ *     tags: [Watchlists]
+ *     summary: Add an address to a watchlist
+ *     parameters:
+ *       - $ref: '#/components/parameters/CorrelationId'
+ *       - name: watchlistId
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/WatchlistEntryRequest'
+ *     responses:
+ *       201:
+ *         description: Entry added
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/WatchlistEntry'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         description: Admin API disabled, or missing or invalid admin key
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post('/:watchlistId/entries', async (req: Request, res: Response) => {
+  try {
+    const request = validateWatchlistEntryRequest(req.body);
+    const entry = await watchlistService.addEntry(req.params.watchlistId!, request, req.correlationId);
+    return sendData(req, res, entry, 201);
+  } catch (error) {
+    return sendError(req, res, error, 'Failed to add watchlist entry');
+  }
+});
+
+/**
+ * @swagger
+ * /api/watchlists/{watchlistId}/entries/{entryId}:
+ *   parameters:
+ *     - $ref: '#/components/parameters/CorrelationId'
+ *     - name: watchlistId
+ *       in: path
+ *       required: true
+ *       schema:
+ *         type: string
+ *         format: uuid
+ *     - name: entryId
+ *       in: path
+ *       required: true
+ *       schema:
+ *         type: string
+ *         format: uuid
+ *   put:
+ *     tags: [Watchlists]
+ *     summary: Update the reason, owner or expiry of a watchlist entry
+ *     description: The address itself cannot be changed; remove the entry and add a new one instead.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/WatchlistEntryRequest'
+ *     responses:
+ *       200:
+ *         description: Entry updated
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         description: Admin API disabled, or missing or invalid admin key
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *   delete:
+ *     tags: [Watchlists]
+ *     summary: Remove an address from a watchlist
+ *     responses:
+ *       200:
+ *         description: Entry removed
+ *       401:
+ *         description: Admin API disabled, or missing or invalid admin key
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.put('/:watchlistId/entries/:entryId', async (req: Request, res: Response) => {
+  try {
+    const request = validateWatchlistEntryRequest(req.body);
+    const entry = await watchlistService.updateEntry(
+      req.params.watchlistId!,
+      req.params.entryId!,
+      request,
+      req.correlationId
+    );
+    return sendData(req, res, entry);
+  } catch (error) {
+    return sendError(req, res, error, 'Failed to update watchlist entry');
+  }
+});
+
+router.delete('/:watchlistId/entries/:entryId', async (req: Request, res: Response) => {
+  try {
+    await watchlistService.removeEntry(req.params.watchlistId!, req.params.entryId!, req.correlationId);
+    return sendData(req, res, { deleted: true });
+  } catch (error) {
+    return sendError(req, res, error, 'Failed to remove watchlist entry');
+  }
+});
+
+export default router;
@@ -2,9 +2,12 @@
 
 import fs from 'fs';
 import path from 'path';
-import { writeJsonFile, ensureDirectoryExists } from '../utils/fileUtils';
+import { writeFileAtomic, ensureDirectoryExists } from '../utils/fileUtils';
+import { createSanctionsXmlParser, textValue, toArray, uniqueValues } from '../parsers/parserUtils';
 import logger from '../utils/logger';
 
+type SDNInputFormat = 'csv' | 'advanced-xml';
+
 interface CryptoEntry {
   entityId: string;
   entityName: string;
@@ -14,6 +17,75 @@ interface CryptoEntry {
   address: string;
   remarks: string;
   isActive: boolean;
+  featureType?: string; // SDN Advanced feature type, e.g. "Digital Currency Address - XBT"
+  programs?: string[];
+  publishDate?: string; // ISO date of the entity's designation
+}
+
+// Nodes of sdn_advanced.xml read by the extractor; the tags listed for the XML parser are always arrays
+interface SDNXmlDate {
+  Year?: unknown;
+  Month?: unknown;
+  Day?: unknown;
+}
+
+interface SDNXmlReferenceValue {
+  ID?: string;
+  PartyTypeID?: string; // PartySubType only
+}
+
+interface SDNXmlSanctionsEntry {
+  ProfileID?: string;
+  SanctionsMeasure?: Array<{ Comment?: unknown }>;
+  EntryEvent?: Array<{ Date?: SDNXmlDate }>;
+}
+
+interface SDNXmlFeature {
+  FeatureTypeID?: string;
+  FeatureVersion?: Array<{ VersionDetail?: unknown[] }>;
+}
+
+interface SDNXmlNamePartValue {
+  NamePartGroupID?: string;
+}
+
+interface SDNXmlAlias {
+  Primary?: string;
+  DocumentedName?: Array<{ DocumentedNamePart?: Array<{ NamePartValue?: SDNXmlNamePartValue[] }> }>;
+}
+
+interface SDNXmlIdentity {
+  NamePartGroups?: {
+    MasterNamePartGroup?: Array<{ NamePartGroup?: Array<{ ID?: string; NamePartTypeID?: string }> }>;
+  };
+  Alias?: SDNXmlAlias[];
+}
+
+interface SDNXmlProfile {
+  ID?: string;
+  PartySubTypeID?: string;
+  Feature?: SDNXmlFeature[];
+  Identity?: SDNXmlIdentity[];
+}
+
+interface SDNXmlDistinctParty {
+  FixedRef?: string;
+  Profile?: SDNXmlProfile[];
+}
+
+interface SDNXmlDocument {
+  Sanctions?: {
+    DateOfIssue?: SDNXmlDate;
+    ReferenceValueSets?: {
+      FeatureTypeValues?: { FeatureType?: SDNXmlReferenceValue[] };
+      SanctionsProgramValues?: { SanctionsProgram?: SDNXmlReferenceValue[] };
+      NamePartTypeValues?: { NamePartType?: SDNXmlReferenceValue[] };
+      PartyTypeValues?: { PartyType?: SDNXmlReferenceValue[] };
+      PartySubTypeValues?: { PartySubType?: SDNXmlReferenceValue[] };
+    };
+    SanctionsEntries?: { SanctionsEntry?: SDNXmlSanctionsEntry[] };
+    DistinctParties?: { DistinctParty?: SDNXmlDistinctParty[] };
+  };
 }
 
 interface ProcessedSanctionsData {
@@ -32,11 +104,36 @@ interface ProcessedSanctionsData {
 class SDNCryptoExtractor {
   private inputFile: string;
   private outputDir: string;
+  private format: SDNInputFormat;
   private cryptoAddressPatterns: Record<string, RegExp[]>;
-
-  constructor(inputFile: string, outputDir: string) {
+  private readonly xmlParser = createSanctionsXmlParser([
+    'FeatureType',
+    'SanctionsProgram',
+    'NamePartType',
+    'PartyType',
+    'PartySubType',
+    'DistinctParty',
+    'Profile',
+    'Identity',
+    'Alias',
+    'DocumentedName',
+    'DocumentedNamePart',
+    'NamePartValue',
+    'MasterNamePartGroup',
+    'NamePartGroup',
+    'Feature',
+    'FeatureVersion',
+    'VersionDetail',
+    'SanctionsEntry',
+    'EntryEvent',
+    'SanctionsMeasure'
+  ]);
+
+  constructor(inputFile: string, outputDir: string, format?: SDNInputFormat) {
     this.inputFile = inputFile;
     this.outputDir = outputDir;
+    // sdn_advanced.xml carries addresses as structured features; anything else is treated as the SDN CSV
+    this.format = format || (inputFile.toLowerCase().endsWith('.xml') ? 'advanced-xml' : 'csv');
     
     // Define cryptocurrency address patterns
     this.cryptoAddressPatterns = {
@@ -76,81 +173,254 @@ class SDNCryptoExtractor {
     try {
       logger.info('Starting SDN cryptocurrency extraction', {
         inputFile: this.inputFile,
-        outputDir: this.outputDir
+        outputDir: this.outputDir,
+        format: this.format
       });
 
       // Ensure output directory exists
       await ensureDirectoryExists(this.outputDir);
 
-      // Read and process SDN CSV
-      const csvContent = fs.readFileSync(this.inputFile, 'utf-8');
-      const lines = csvContent.split('\n'); // Fixed: was \\n instead of \n
+      const content = fs.readFileSync(this.inputFile, 'utf-8');
+      const processedData = this.processContent(content);
 
-      console.log(`📊 Processing ${lines.length} SDN entries...`);
+      console.log(`\\n✅ Extraction complete! Found ${processedData.entities.length} cryptocurrency addresses`);
+      console.log('\\n📈 Cryptocurrency breakdown:');
+      Object.entries(processedData.metadata.cryptocurrencies).forEach(([currency, count]) => {
+        console.log(`   ${currency}: ${count} addresses`);
+      });
+
+      // Save data in different formats
+      await this.saveResults(processedData);
 
-      const cryptoEntries: CryptoEntry[] = [];
-      const cryptoStats: Record<string, number> = {};
+    } catch (error) {
+      logger.error('Failed to extract crypto data from SDN:', error);
+      throw error;
+    }
+  }
 
-      for (let i = 0; i < lines.length; i++) {
-        const line = lines[i]?.trim();
-        if (!line) continue;
+  /**
+   * Extract the crypto entries from SDN file content into the refined data structure, without writing anything.
+   * Used by the CLI and by the admin import endpoint.
+   */
+  public processContent(content: string): ProcessedSanctionsData {
+    const { entries: cryptoEntries, issueDate } = this.format === 'advanced-xml'
+      ? this.extractFromAdvancedXml(content)
+      : { entries: this.extractFromCsv(content), issueDate: undefined };
+
+    const cryptoStats: Record<string, number> = {};
+    for (const entry of cryptoEntries) {
+      cryptoStats[entry.cryptocurrency] = (cryptoStats[entry.cryptocurrency] || 0) + 1;
+    }
 
-        // Parse CSV line (basic parsing for SDN format)
-        const fields = this.parseSDNLine(line);
-        if (!fields || fields.length < 12) continue;
+    return {
+      metadata: {
+        source: this.format === 'advanced-xml' ? 'OFAC SDN Advanced XML' : 'OFAC SDN List',
+        lastUpdated: issueDate || new Date().toISOString(),
+        version: '1.0.0',
+        totalEntities: cryptoEntries.length,
+        cryptocurrencies: cryptoStats
+      },
+      entities: cryptoEntries
+    };
+  }
 
-        const [entityId, entityName, entityType, program, , , , , , , , remarks] = fields;
+  /**
+   * Extract crypto entries from the SDN CSV, scanning the remarks column
+   */
+  private extractFromCsv(csvContent: string): CryptoEntry[] {
+    const lines = csvContent.split('\n'); // Fixed: was \\n instead of \n
 
-        // Look for cryptocurrency addresses in remarks field
-        const cryptoAddresses = this.extractCryptoAddresses(remarks || '');
-        
-        for (const { currency, address } of cryptoAddresses) {
-          cryptoEntries.push({
-            entityId: entityId || `SDN-${i}`,
-            entityName: this.cleanText(entityName || 'Unknown'),
-            entityType: this.cleanText(entityType || 'Unknown'),
-            program: this.cleanText(program || 'Unknown'),
-            cryptocurrency: currency,
-            address: address,
-            remarks: this.cleanText(remarks || ''),
-            isActive: true
-          });
-
-          // Update statistics
-          cryptoStats[currency] = (cryptoStats[currency] || 0) + 1;
+    logger.info(`Processing ${lines.length} SDN entries`);
+
+    const cryptoEntries: CryptoEntry[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i]?.trim();
+      if (!line) continue;
+
+      // Parse CSV line (basic parsing for SDN format)
+      const fields = this.parseSDNLine(line);
+      if (!fields || fields.length < 12) continue;
+
+      const [entityId, entityName, entityType, program, , , , , , , , remarks] = fields;
+
+      // Look for cryptocurrency addresses in remarks field
+      const cryptoAddresses = this.extractCryptoAddresses(remarks || '');
+      
+      for (const { currency, address } of cryptoAddresses) {
+        cryptoEntries.push({
+          entityId: entityId || `SDN-${i}`,
+          entityName: this.cleanText(entityName || 'Unknown'),
+          entityType: this.cleanText(entityType || 'Unknown'),
+          program: this.cleanText(program || 'Unknown'),
+          cryptocurrency: currency,
+          address: address,
+          remarks: this.cleanText(remarks || ''),
+          isActive: true
+        });
+      }
+
+      // Progress indicator
+      if (i % 1000 === 0) {
+        logger.debug(`Processed ${i}/${lines.length} SDN entries`);
+      }
+    }
+
+    return cryptoEntries;
+  }
+
+  /**
+   * Extract crypto entries from sdn_advanced.xml, where addresses are structured features
+   */
+  private extractFromAdvancedXml(xmlContent: string): { entries: CryptoEntry[]; issueDate?: string } {
+    const document: SDNXmlDocument | undefined = this.xmlParser.parse(xmlContent);
+    const sanctions = document?.Sanctions;
+
+    if (!sanctions) {
+      throw new Error('Invalid SDN advanced file: missing <Sanctions> root element');
+    }
+
+    const referenceValues = sanctions.ReferenceValueSets || {};
+    const featureTypes = this.buildReferenceMap(referenceValues.FeatureTypeValues?.FeatureType);
+    const programNames = this.buildReferenceMap(referenceValues.SanctionsProgramValues?.SanctionsProgram);
+    const namePartTypes = this.buildReferenceMap(referenceValues.NamePartTypeValues?.NamePartType);
+    const partyTypes = this.buildReferenceMap(referenceValues.PartyTypeValues?.PartyType);
+    const partySubTypeToType = new Map<string, string>(
+      toArray(referenceValues.PartySubTypeValues?.PartySubType).map(subType => [String(subType.ID), String(subType.PartyTypeID)])
+    );
+    const knownPrograms = new Set(programNames.values());
+
+    // Programs and designation date are carried by the sanctions entries, keyed by profile
+    const entryDetails = new Map<string, { programs: string[]; publishDate?: string }>();
+    for (const entry of toArray(sanctions.SanctionsEntries?.SanctionsEntry)) {
+      const programs = toArray(entry.SanctionsMeasure)
+        .map(measure => textValue(measure.Comment))
+        .filter(comment => comment && (knownPrograms.size === 0 || knownPrograms.has(comment)));
+      const eventDates = toArray(entry.EntryEvent)
+        .map(event => this.parseXmlDate(event.Date))
+        .filter((date): date is string => !!date)
+        .sort();
+
+      const details = entryDetails.get(String(entry.ProfileID)) || { programs: [] };
+      details.programs = uniqueValues([...details.programs, ...programs]);
+      if (eventDates[0] && (!details.publishDate || eventDates[0] < details.publishDate)) {
+        details.publishDate = eventDates[0];
+      }
+      entryDetails.set(String(entry.ProfileID), details);
+    }
+
+    logger.info(`Processing ${toArray(sanctions.DistinctParties?.DistinctParty).length} SDN distinct parties`);
+
+    const cryptoEntries: CryptoEntry[] = [];
+
+    for (const party of toArray(sanctions.DistinctParties?.DistinctParty)) {
+      for (const profile of toArray(party.Profile)) {
+        const features = toArray(profile.Feature)
+          .map(feature => ({
+            featureType: featureTypes.get(String(feature.FeatureTypeID)) || '',
+            values: toArray(feature.FeatureVersion).flatMap(version =>
+              toArray(version.VersionDetail).map(detail => textValue(detail))
+            ).filter(value => value.length > 0)
+          }));
+
+        const cryptoFeatures = features.filter(feature => /^Digital Currency Address - /i.test(feature.featureType));
+        if (cryptoFeatures.length === 0) continue;
+
+        const profileId = String(profile.ID);
+        const details = entryDetails.get(profileId) || { programs: [] };
+        const { name, aliases } = this.extractAdvancedNames(profile, namePartTypes);
+        const partyType = partyTypes.get(partySubTypeToType.get(String(profile.PartySubTypeID)) || '') || 'Unknown';
+
+        // Rebuild a remarks string in the SDN CSV style so aliases stay extractable downstream
+        const remarks = [
+          ...features.flatMap(feature => feature.values.map(value => `${feature.featureType} ${value}`)),
+          ...aliases.map(alias => `a.k.a. '${alias}'`)
+        ].join('; ');
+
+        for (const feature of cryptoFeatures) {
+          const currency = feature.featureType.replace(/^Digital Currency Address - /i, '').trim();
+
+          for (const address of feature.values) {
+            cryptoEntries.push({
+              entityId: String(party.FixedRef || profileId),
+              entityName: name || 'Unknown',
+              entityType: partyType.toLowerCase(),
+              program: details.programs.join('; ') || 'Unknown',
+              cryptocurrency: currency,
+              address,
+              remarks: remarks ? `${remarks}.` : '',
+              isActive: true,
+              featureType: feature.featureType,
+              programs: details.programs,
+              ...(details.publishDate && { publishDate: details.publishDate })
+            });
+          }
         }
+      }
+    }
+
+    const issueDate = this.parseXmlDate(sanctions.DateOfIssue);
+    return { entries: cryptoEntries, ...(issueDate && { issueDate }) };
+  }
 
-        // Progress indicator
-        if (i % 1000 === 0) {
-          console.log(`   Processed ${i}/${lines.length} entries...`);
+  /**
+   * Build the primary name ("LAST, First" for individuals) and aliases of a profile
+   */
+  private extractAdvancedNames(profile: SDNXmlProfile, namePartTypes: Map<string, string>): { name: string; aliases: string[] } {
+    const names: Array<{ primary: boolean; value: string }> = [];
+
+    for (const identity of toArray(profile.Identity)) {
+      // Map each name part group to its type (Last Name, First Name, Entity Name, ...)
+      const groupTypes = new Map<string, string>();
+      for (const master of toArray(identity.NamePartGroups?.MasterNamePartGroup)) {
+        for (const group of toArray(master.NamePartGroup)) {
+          groupTypes.set(String(group.ID), namePartTypes.get(String(group.NamePartTypeID)) || '');
         }
       }
 
-      console.log(`\\n✅ Extraction complete! Found ${cryptoEntries.length} cryptocurrency addresses`);
-      console.log('\\n📈 Cryptocurrency breakdown:');
-      Object.entries(cryptoStats).forEach(([currency, count]) => {
-        console.log(`   ${currency}: ${count} addresses`);
-      });
+      for (const alias of toArray(identity.Alias)) {
+        for (const documentedName of toArray(alias.DocumentedName)) {
+          const parts = toArray(documentedName.DocumentedNamePart)
+            .flatMap(part => toArray(part.NamePartValue))
+            .map(value => ({ type: groupTypes.get(String(value.NamePartGroupID)) || '', text: textValue(value) }))
+            .filter(part => part.text.length > 0);
+
+          const lastNames = parts.filter(part => /last name/i.test(part.type)).map(part => part.text);
+          const otherNames = parts.filter(part => !/last name/i.test(part.type)).map(part => part.text);
+          const value = lastNames.length > 0 && otherNames.length > 0
+            ? `${lastNames.join(' ')}, ${otherNames.join(' ')}`
+            : [...lastNames, ...otherNames].join(' ');
+
+          if (value) {
+            names.push({ primary: String(alias.Primary) === 'true', value });
+          }
+        }
+      }
+    }
 
-      // Generate processed data structure
-      const processedData: ProcessedSanctionsData = {
-        metadata: {
-          source: 'OFAC SDN List',
-          lastUpdated: new Date().toISOString(),
-          version: '1.0.0',
-          totalEntities: cryptoEntries.length,
-          cryptocurrencies: cryptoStats
-        },
-        entities: cryptoEntries
-      };
+    const name = (names.find(entry => entry.primary) || names[0])?.value || '';
+    const aliases = uniqueValues(names.map(entry => entry.value)).filter(alias => alias !== name);
+    return { name, aliases };
+  }
 
-      // Save data in different formats
-      await this.saveResults(processedData);
+  /**
+   * Build an ID -> value map from a reference value set
+   */
+  private buildReferenceMap(values: SDNXmlReferenceValue[] | undefined): Map<string, string> {
+    return new Map(toArray(values).map(value => [String(value.ID), textValue(value)]));
+  }
 
-    } catch (error) {
-      logger.error('Failed to extract crypto data from SDN:', error);
-      throw error;
+  /**
+   * Convert a <Date><Year/><Month/><Day/></Date> element to an ISO timestamp
+   */
+  private parseXmlDate(dateNode: SDNXmlDate | undefined): string | undefined {
+    const year = Number(textValue(dateNode?.Year));
+    if (!year) {
+      return undefined;
     }
+    const month = Number(textValue(dateNode?.Month)) || 1;
+    const day = Number(textValue(dateNode?.Day)) || 1;
+    return new Date(Date.UTC(year, month - 1, day)).toISOString();
   }
 
   private parseSDNLine(line: string): string[] | null {
@@ -215,9 +485,9 @@ class SDNCryptoExtractor {
 
   private async saveResults(data: ProcessedSanctionsData): Promise<void> {
     try {
-      // 1. Save complete JSON file
-      const jsonPath = path.join(this.outputDir, 'ofac-crypto-complete.json');
-      await writeJsonFile(jsonPath, data);
+      // 1. Save complete JSON file (the file loaded by SanctionsDataService)
+      const jsonPath = path.join(this.outputDir, 'ofac-crypto-addresses.json');
+      await writeFileAtomic(jsonPath, JSON.stringify(data, null, 2));
       console.log(`💾 Saved complete data: ${jsonPath}`);
 
       // 2. Save cryptocurrency-specific JSON files
@@ -234,7 +504,7 @@ class SDNCryptoExtractor {
         };
         
         const cryptoPath = path.join(this.outputDir, `ofac-${crypto.toLowerCase()}.json`);
-        await writeJsonFile(cryptoPath, cryptoData);
+        await writeFileAtomic(cryptoPath, JSON.stringify(cryptoData, null, 2));
         console.log(`💾 Saved ${crypto} data: ${cryptoPath} (${entries.length} addresses)`);
       }
 
@@ -252,7 +522,7 @@ class SDNCryptoExtractor {
         topEntities: this.getTopEntities(data.entities),
         programBreakdown: this.getProgramBreakdown(data.entities)
       };
-      await writeJsonFile(statsPath, stats);
+      await writeFileAtomic(statsPath, JSON.stringify(stats, null, 2));
       console.log(`📊 Saved statistics: ${statsPath}`);
 
     } catch (error) {
@@ -326,8 +596,11 @@ class SDNCryptoExtractor {
 // Main execution
 async function main() {
   try {
-    const inputFile = path.join(__dirname, '../../data/sanctions/raw_data/SDN Data.csv');
-    const outputDir = path.join(__dirname, '../../data/sanctions');
+    // Usage: extract-sdn-crypto [input file]; pass sdn_advanced.xml to use the structured XML parser
+    const inputFile = process.argv[2]
+      ? path.resolve(process.argv[2])
+      : path.join(__dirname, '../../data/sanctions/raw_data/SDN Data.csv');
+    const outputDir = path.join(__dirname, '../../data/sanctions/refined_data');
 
     console.log('🚀 OFAC SDN Cryptocurrency Extractor');
     console.log('=====================================');
@@ -340,7 +613,7 @@ async function main() {
 
     console.log('\\n🎉 Extraction completed successfully!');
     console.log('\\n📄 Generated files:');
-    console.log('   • ofac-crypto-complete.json - Complete dataset');
+    console.log('   • ofac-crypto-addresses.json - Complete dataset');
     console.log('   • ofac-xbt.json - Bitcoin addresses only');
     console.log('   • ofac-eth.json - Ethereum addresses only');
     console.log('   • ofac-crypto-addresses.csv - CSV format for analysis');
@@ -356,4 +629,4 @@ if (require.main === module) {
   main();
 }
 
-export { SDNCryptoExtractor, CryptoEntry, ProcessedSanctionsData };
+export { SDNCryptoExtractor, CryptoEntry, ProcessedSanctionsData, SDNInputFormat };
@@ -1,59 +1,106 @@
-import { SanctionMatch, SanctionEntity, MatchType, RiskLevel, ScreeningResult, TransactionPathAnalysis } from '../types';
+import {
+  SanctionMatch,
+  SanctionEntity,
+  MatchType,
+  RiskLevel,
+  ScreeningResult,
+  TransactionPathAnalysis,
+  AllowlistSuppression,
+  CryptoAsset,
+  BitcoinNetwork,
+  BlockchainRequestPriority,
+  ValidationError,
+  SANCTION_SOURCE_JURISDICTIONS
+} from '../types';
 import { sanctionsDataService } from './sanctionsDataService';
+import { watchlistService } from './watchlistService';
+import { allowlistService } from './allowlistService';
 import { transactionPathAnalysisService } from './transactionPathAnalysisService';
+import { programRiskService } from './programRiskService';
+import { geographicRiskService, GeographicalRisk } from './geographicRiskService';
 // import { riskAssessmentService } from './riskAssessmentService'; // TODO: Create this service
 import { auditLogService } from './auditLogService';
-import { isValidBitcoinAddress } from '../utils/validation';
+import { describeInvalidAddress, detectAddressAssets, getAddressValidation, isValidAddressForAsset, isValidCryptoAddress } from '../utils/validation';
+import { decodeBitcoinAddress } from '../utils/bitcoinAddress';
 import { getCurrentTimestamp, calculateProcessingTime } from '../utils/fileUtils';
 import logger from '../utils/logger';
 
 /**
- * Service for screening Bitcoin addresses against sanctions lists
+ * Service for screening cryptocurrency addresses against sanctions lists
  */
 export class AddressScreeningService {
   
   /**
-   * Screen a single Bitcoin address against all sanctions lists
+   * Screen a single address against all sanctions lists.
+   * Without an explicit asset, the address is screened for every asset its format is valid for.
+   * Testnet and signet addresses are screened against the watchlists of their network only.
+   * With asOf, the address is screened against the lists as they stood at that time.
+   * The priority decides the order in which transaction analyses get blockchain API capacity.
    */
   public async screenAddress(
     address: string,
     includeTransactionAnalysis: boolean = false,
     maxHops: number = 5,
-    correlationId?: string
+    correlationId?: string,
+    asset?: CryptoAsset,
+    network: BitcoinNetwork = 'mainnet',
+    asOf?: string,
+    priority: BlockchainRequestPriority = 'interactive'
   ): Promise<ScreeningResult> {
     const startTime = Date.now();
     
     try {
-      // Validate Bitcoin address
-      if (!isValidBitcoinAddress(address)) {
-        throw new Error(`Invalid Bitcoin address: ${address}`);
+      const assets = this.resolveAssets(address, asset, network);
+
+      // Screen Bitcoin addresses in their canonical form (lowercase for bech32)
+      const decoded = assets.includes('XBT') ? decodeBitcoinAddress(address, network) : undefined;
+      if (decoded) {
+        address = decoded.address;
       }
 
       logger.info(`Starting address screening for ${address}`, {
         address,
+        assets,
+        network,
+        asOf,
         includeTransactionAnalysis,
         maxHops,
         correlationId
       });
 
-      // Find direct sanction matches
-      const sanctionMatches = await this.findDirectSanctionMatches(address);
+      // Find direct sanction matches, minus reviewed false positives
+      const { matches: directMatches, degradedChecks } = await this.findDirectSanctionMatches(address, assets, network, asOf);
+      const { sanctionMatches, suppressedMatches } = await this.applyAllowlist(address, directMatches, correlationId);
       
       // Calculate base risk score from direct matches
-      let riskScore = this.calculateDirectMatchRiskScore(sanctionMatches);
+      const directRiskScore = await this.calculateDirectMatchRiskScore(sanctionMatches);
+      let riskScore = directRiskScore;
+      let indirectRiskScore = 0;
       
       // Perform transaction path analysis if requested
       let transactionAnalysis: TransactionPathAnalysis | undefined;
-      if (includeTransactionAnalysis) {
+      if (includeTransactionAnalysis && !assets.includes('XBT')) {
+        logger.info(`Skipping transaction analysis for ${address}: only available for Bitcoin`, {
+          assets,
+          correlationId
+        });
+      } else if (includeTransactionAnalysis) {
         try {
           transactionAnalysis = await transactionPathAnalysisService.analyzeTransactionPath(
             address, 
             maxHops, 
-            correlationId
+            correlationId,
+            network,
+            asOf,
+            priority
           );
           // Add indirect risk from transaction analysis (weighted at 60% of direct matches)
-          const indirectRiskScore = (transactionAnalysis.riskPropagation * 0.6);
+          indirectRiskScore = (transactionAnalysis.riskPropagation * 0.6);
           riskScore += indirectRiskScore;
+          if (!transactionAnalysis.complete) {
+            // Part of the path could not be fetched, so sanctioned counterparties may be missing
+            degradedChecks.push('TRANSACTION_PATH');
+          }
           
           logger.debug(`Transaction analysis completed for ${address}`, {
             totalNodesAnalyzed: transactionAnalysis.totalNodesAnalyzed,
@@ -65,14 +112,19 @@ export class AddressScreeningService {
         } catch (error) {
           logger.warn(`Transaction analysis failed for ${address}:`, error, { correlationId });
           // Continue without transaction analysis
+          degradedChecks.push('TRANSACTION_PATH');
         }
       }
 
+      // Add geographical risk from the jurisdictions linked to the matched entities and counterparties
+      const geographicalRisk = await this.assessGeographicalRisk(sanctionMatches, transactionAnalysis, correlationId);
+      riskScore += geographicalRisk.score;
+
       // Cap risk score at 100
       riskScore = Math.min(riskScore, 100);
       
       // Determine risk level
-      const riskLevel = this.determineRiskLevel(riskScore);
+      const riskLevel = this.determineRiskLevel(riskScore, degradedChecks.length === 0);
       
       // Calculate confidence score
       const confidence = this.calculateConfidenceScore(sanctionMatches, transactionAnalysis);
@@ -81,9 +133,23 @@ export class AddressScreeningService {
       
       const result: ScreeningResult = {
         address,
+        network,
+        ...(asOf && { asOf }),
+        assets,
+        ...(decoded && { scriptType: decoded.scriptType }),
+        addressValidation: getAddressValidation(assets),
         riskScore,
         riskLevel,
         sanctionMatches,
+        riskFactors: {
+          directSanctionMatch: directRiskScore,
+          indirectExposure: Math.round(indirectRiskScore),
+          transactionPatterns: 0,
+          geographicalRisk: geographicalRisk.score,
+          temporalFactors: 0
+        },
+        ...(geographicalRisk.jurisdictions.length > 0 && { highRiskJurisdictions: geographicalRisk.jurisdictions }),
+        ...(degradedChecks.length > 0 && { degradedChecks }),
         timestamp: getCurrentTimestamp(),
         confidence,
         processingTimeMs: processingTime
@@ -92,12 +158,34 @@ export class AddressScreeningService {
       // Add transaction analysis if it exists
       if (transactionAnalysis) {
         result.transactionAnalysis = transactionAnalysis;
+        suppressedMatches.push(
+          ...transactionAnalysis.pathNodes.flatMap(node => node.allowlisted ? [node.allowlisted] : [])
+        );
+      }
+
+      // Keep allowlisted hits visible to auditors
+      if (suppressedMatches.length > 0) {
+        result.suppressedMatches = suppressedMatches;
       }
 
       // Log the screening action
       await auditLogService.logAddressScreening(
         address,
-        { riskScore, riskLevel, sanctionMatchCount: sanctionMatches.length },
+        {
+          network,
+          ...(asOf && { asOf }),
+          riskScore,
+          riskLevel,
+          ...(degradedChecks.length > 0 && { degradedChecks }),
+          sanctionMatchCount: sanctionMatches.length,
+          geographicalRisk: geographicalRisk.score,
+          suppressedMatches: suppressedMatches.map(suppression => ({
+            allowlistEntryId: suppression.allowlistEntryId,
+            matchType: suppression.matchType,
+            sanctionedAddress: suppression.sanctionedAddress,
+            entityIds: suppression.entityIds
+          }))
+        },
         processingTime,
         correlationId,
         true
@@ -131,6 +219,57 @@ export class AddressScreeningService {
     }
   }
 
+  /**
+   * Assess an address from its direct matches only. Unlike screenAddress, this makes no blockchain
+   * API calls and writes no audit log entry, so it can back read-only risk lookups.
+   */
+  public async assessDirectRisk(
+    address: string,
+    asset?: CryptoAsset,
+    network: BitcoinNetwork = 'mainnet',
+    asOf?: string,
+    correlationId?: string
+  ): Promise<ScreeningResult> {
+    const startTime = Date.now();
+    const assets = this.resolveAssets(address, asset, network);
+
+    const decoded = assets.includes('XBT') ? decodeBitcoinAddress(address, network) : undefined;
+    if (decoded) {
+      address = decoded.address;
+    }
+
+    const { matches: directMatches, degradedChecks } = await this.findDirectSanctionMatches(address, assets, network, asOf);
+    const { sanctionMatches, suppressedMatches } = await this.applyAllowlist(address, directMatches, correlationId);
+    const directRiskScore = await this.calculateDirectMatchRiskScore(sanctionMatches);
+    const geographicalRisk = await this.assessGeographicalRisk(sanctionMatches, undefined, correlationId);
+    const riskScore = Math.min(directRiskScore + geographicalRisk.score, 100);
+
+    return {
+      address,
+      network,
+      ...(asOf && { asOf }),
+      assets,
+      ...(decoded && { scriptType: decoded.scriptType }),
+      addressValidation: getAddressValidation(assets),
+      riskScore,
+      riskLevel: this.determineRiskLevel(riskScore, degradedChecks.length === 0),
+      sanctionMatches,
+      riskFactors: {
+        directSanctionMatch: directRiskScore,
+        indirectExposure: 0,
+        transactionPatterns: 0,
+        geographicalRisk: geographicalRisk.score,
+        temporalFactors: 0
+      },
+      ...(geographicalRisk.jurisdictions.length > 0 && { highRiskJurisdictions: geographicalRisk.jurisdictions }),
+      ...(suppressedMatches.length > 0 && { suppressedMatches }),
+      ...(degradedChecks.length > 0 && { degradedChecks }),
+      timestamp: getCurrentTimestamp(),
+      confidence: this.calculateConfidenceScore(sanctionMatches),
+      processingTimeMs: calculateProcessingTime(startTime)
+    };
+  }
+
   /**
    * Screen multiple addresses in batch
    */
@@ -151,8 +290,8 @@ export class AddressScreeningService {
       });
 
       // Validate all addresses first
-      const validAddresses = addresses.filter(addr => isValidBitcoinAddress(addr));
-      const invalidAddresses = addresses.filter(addr => !isValidBitcoinAddress(addr));
+      const validAddresses = addresses.filter(addr => isValidCryptoAddress(addr));
+      const invalidAddresses = addresses.filter(addr => !isValidCryptoAddress(addr));
 
       if (invalidAddresses.length > 0) {
         logger.warn(`Found ${invalidAddresses.length} invalid addresses in batch`, {
@@ -168,7 +307,7 @@ export class AddressScreeningService {
       for (let i = 0; i < validAddresses.length; i += batchSize) {
         const batch = validAddresses.slice(i, i + batchSize);
         const batchPromises = batch.map(address => 
-          this.screenAddress(address, includeTransactionAnalysis, maxHops, correlationId)
+          this.screenAddress(address, includeTransactionAnalysis, maxHops, correlationId, undefined, 'mainnet', undefined, 'bulk')
             .catch(error => {
               logger.error(`Failed to screen address ${address} in batch:`, error);
               // Return a failed result instead of throwing
@@ -236,30 +375,152 @@ export class AddressScreeningService {
   }
 
   /**
-   * Find direct sanction matches for an address
+   * Determine which assets to screen an address for
    */
-  private async findDirectSanctionMatches(address: string): Promise<SanctionMatch[]> {
+  private resolveAssets(address: string, asset: CryptoAsset | undefined, network: BitcoinNetwork): CryptoAsset[] {
+    if (asset) {
+      if (!isValidAddressForAsset(address, asset, network)) {
+        throw new ValidationError(describeInvalidAddress(address, asset, network), { address, asset, network });
+      }
+      return [asset];
+    }
+
+    const assets = detectAddressAssets(address, network);
+    if (assets.length === 0) {
+      throw new ValidationError(describeInvalidAddress(address, undefined, network), { address, network });
+    }
+    return assets;
+  }
+
+  /**
+   * Find direct sanction matches for an address among the given assets.
+   * Sanctions lists designate mainnet addresses, so test networks only use their own watchlists.
+   * Each match carries the designation period it falls in. A failed sanctions list lookup fails the
+   * screening; a failed watchlist lookup is reported in degradedChecks so the result is not taken as clean.
+   */
+  private async findDirectSanctionMatches(
+    address: string,
+    assets: CryptoAsset[],
+    network: BitcoinNetwork,
+    asOf?: string
+  ): Promise<{ matches: SanctionMatch[]; degradedChecks: string[] }> {
+    const sanctionEntities = [
+      ...(network === 'mainnet' ? await sanctionsDataService.findSanctionsByAddress(address, asOf) : [])
+    ];
+
+    const degradedChecks: string[] = [];
     try {
-      const sanctionEntities = await sanctionsDataService.findSanctionsByAddress(address);
-      
-      return sanctionEntities.map((entity: SanctionEntity) => ({
+      sanctionEntities.push(...await watchlistService.findSanctionsByAddress(address, network, asOf));
+    } catch (error) {
+      logger.error(`Failed to check the internal watchlists for ${address}:`, error);
+      degradedChecks.push('INTERNAL_WATCHLIST');
+    }
+
+    const matches: SanctionMatch[] = [];
+    for (const entity of sanctionEntities) {
+      const { asset: matchedAsset, listedCurrencies } = this.findMatchedAsset(entity, address, assets);
+
+      const period = sanctionsDataService.getDesignationPeriod(entity, address, asOf);
+      const { severity } = await programRiskService.resolveRisk(entity);
+      matches.push({
         listSource: entity.listSource,
+        jurisdiction: SANCTION_SOURCE_JURISDICTIONS[entity.listSource],
+        ...(entity.regime && { regime: entity.regime }),
         entityName: entity.name,
         entityId: entity.entityId,
         matchType: 'DIRECT' as MatchType,
         confidence: 100, // Direct matches have 100% confidence
-        matchedAddress: address
-      }));
-    } catch (error) {
-      logger.error(`Failed to find direct sanction matches for ${address}:`, error);
-      return [];
+        matchedAddress: address,
+        ...(matchedAsset && { asset: matchedAsset }),
+        ...(listedCurrencies && { listedCurrencies }),
+        ...(period && { designatedAt: period.designatedAt }),
+        ...(period?.delistedAt && { delistedAt: period.delistedAt }),
+        ...(period?.estimated && { estimated: true }),
+        ...(entity.details && { entityDetails: entity.details }),
+        ...(entity.programs && entity.programs.length > 0 && { programs: entity.programs }),
+        ...(severity && { severity })
+      });
     }
+
+    return { matches, degradedChecks };
+  }
+
+  /**
+   * Find the asset an entity lists the address under. A listed address always matches: when the
+   * list files it under currencies that were not screened (e.g. a USDT token address, detected as
+   * ETH and ETC), those currency codes are reported instead.
+   * The asset is left out when the entity carries no per-currency data (EU, UN, UK OFSI and
+   * internal lists) and the address could belong to more than one asset, or when the address was
+   * listed in the past and has since been removed from the entity's current addresses.
+   */
+  private findMatchedAsset(
+    entity: SanctionEntity,
+    address: string,
+    assets: CryptoAsset[]
+  ): { asset?: CryptoAsset; listedCurrencies?: string[] } {
+    const normalizedAddress = address.trim().toLowerCase();
+    const currentlyListed = entity.addresses.some(listed => listed.trim().toLowerCase() === normalizedAddress);
+    const onlyAsset = assets.length === 1 ? assets[0] : undefined;
+    if (!entity.addressesByCurrency || !currentlyListed) {
+      return { ...(onlyAsset && { asset: onlyAsset }) };
+    }
+
+    const listedCurrencies = Object.entries(entity.addressesByCurrency)
+      .filter(([, listed]) => listed.some(entry => entry.trim().toLowerCase() === normalizedAddress))
+      .map(([currency]) => currency);
+    const matchedAsset = assets.find(asset => listedCurrencies.includes(asset));
+    if (matchedAsset) {
+      return { asset: matchedAsset };
+    }
+    return listedCurrencies.length > 0 ? { listedCurrencies } : { ...(onlyAsset && { asset: onlyAsset }) };
+  }
+
+  /**
+   * Suppress direct matches covered by an unexpired allowlist entry.
+   * Direct OFAC matches are never suppressed.
+   */
+  private async applyAllowlist(
+    address: string,
+    matches: SanctionMatch[],
+    correlationId?: string
+  ): Promise<{ sanctionMatches: SanctionMatch[]; suppressedMatches: AllowlistSuppression[] }> {
+    const sanctionMatches: SanctionMatch[] = [];
+    const suppressedMatches: AllowlistSuppression[] = [];
+
+    for (const match of matches) {
+      let entry = null;
+      try {
+        entry = await allowlistService.findApplicableEntry(address, 'DIRECT', [match.entityId]);
+      } catch (error) {
+        // Report the hit rather than silently dropping it
+        logger.error(`Failed to check allowlist for ${address}:`, error, { correlationId });
+      }
+
+      if (!entry) {
+        sanctionMatches.push(match);
+        continue;
+      }
+
+      if (match.listSource === 'OFAC') {
+        logger.warn(`Allowlist entry ${entry.id} ignored: direct OFAC matches cannot be suppressed`, {
+          address,
+          entityId: match.entityId,
+          correlationId
+        });
+        sanctionMatches.push(match);
+        continue;
+      }
+
+      suppressedMatches.push(allowlistService.toSuppression(entry, 'DIRECT', address, [match.entityId]));
+    }
+
+    return { sanctionMatches, suppressedMatches };
   }
 
   /**
    * Calculate risk score from direct sanction matches
    */
-  private calculateDirectMatchRiskScore(sanctionMatches: SanctionMatch[]): number {
+  private async calculateDirectMatchRiskScore(sanctionMatches: SanctionMatch[]): Promise<number> {
     if (sanctionMatches.length === 0) {
       return 0;
     }
@@ -272,22 +533,37 @@ export class AddressScreeningService {
       score += Math.min(sanctionMatches.length * 5, 20); // Max 20 additional points
     }
     
-    // Additional points for high-priority lists (OFAC gets higher score)
-    const hasOFAC = sanctionMatches.some(match => match.listSource === 'OFAC');
-    if (hasOFAC) {
-      score += 15;
-    }
+    // Additional points for the highest-weighted program (or list, when no program is configured) among the matches
+    const risks = await Promise.all(sanctionMatches.map(match => programRiskService.resolveRisk(match)));
+    score += Math.max(...risks.map(risk => risk.weight));
     
     return Math.min(score, 80); // Max 80 points from direct matches
   }
 
   /**
-   * Determine risk level based on score
+   * Score the geographical risk factor; screening continues without it if it cannot be assessed
+   */
+  private async assessGeographicalRisk(
+    sanctionMatches: SanctionMatch[],
+    transactionAnalysis: TransactionPathAnalysis | undefined,
+    correlationId?: string
+  ): Promise<GeographicalRisk> {
+    try {
+      return await geographicRiskService.assess(sanctionMatches, transactionAnalysis);
+    } catch (error) {
+      logger.warn('Geographical risk assessment failed:', error, { correlationId });
+      return { score: 0, jurisdictions: [] };
+    }
+  }
+
+  /**
+   * Determine risk level based on score. A screening that could not run every check needs a review,
+   * so it is never rated LOW.
    */
-  private determineRiskLevel(riskScore: number): RiskLevel {
+  private determineRiskLevel(riskScore: number, complete: boolean = true): RiskLevel {
     if (riskScore >= 76) return 'CRITICAL';
     if (riskScore >= 51) return 'HIGH';
-    if (riskScore >= 26) return 'MEDIUM';
+    if (riskScore >= 26 || !complete) return 'MEDIUM';
     return 'LOW';
   }
 
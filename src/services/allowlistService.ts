@@ -0,0 +1,202 @@
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  AllowlistEntry,
+  AllowlistRequest,
+  AllowlistSuppression,
+  DataNotFoundError
+} from '../types';
+import { readJsonFile, writeJsonFile, ensureDirectoryExists, getCurrentTimestamp, isExpired } from '../utils/fileUtils';
+import { auditLogService } from './auditLogService';
+import config from '../config';
+import logger from '../utils/logger';
+
+/**
+ * Service managing reviewed false positives (stored in config.configDir/allowlist.json).
+ * Entries suppress direct hits or down-weight indirect exposure for an address; the screening
+ * services report every suppression in their results.
+ */
+export class AllowlistService {
+  private readonly allowlistFilePath: string;
+  private entries: AllowlistEntry[] | null = null;
+  private changeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor() {
+    this.allowlistFilePath = path.join(config.configDir, 'allowlist.json');
+  }
+
+  /**
+   * List all allowlist entries, including expired ones
+   */
+  public async listEntries(): Promise<AllowlistEntry[]> {
+    return this.loadEntries();
+  }
+
+  /**
+   * Get an allowlist entry by ID
+   */
+  public async getEntry(entryId: string): Promise<AllowlistEntry> {
+    const entries = await this.loadEntries();
+    const entry = entries.find(candidate => candidate.id === entryId);
+    if (!entry) {
+      throw new DataNotFoundError(`Allowlist entry not found: ${entryId}`, { entryId });
+    }
+    return entry;
+  }
+
+  /**
+   * Create an allowlist entry
+   */
+  public createEntry(request: AllowlistRequest, correlationId?: string): Promise<AllowlistEntry> {
+    return this.applyChange(async () => {
+      const entries = await this.loadEntries();
+      const now = getCurrentTimestamp();
+      const entry: AllowlistEntry = {
+        id: uuidv4(),
+        ...this.fromRequest(request),
+        createdAt: now,
+        updatedAt: now
+      };
+
+      await this.saveEntries([...entries, entry]);
+      await auditLogService.logListChange('ALLOWLIST_ENTRY_CREATED', entry.address, { entry }, correlationId);
+
+      return entry;
+    });
+  }
+
+  /**
+   * Replace an allowlist entry, e.g. to extend its expiry after a new review
+   */
+  public updateEntry(entryId: string, request: AllowlistRequest, correlationId?: string): Promise<AllowlistEntry> {
+    return this.applyChange(async () => {
+      const existing = await this.getEntry(entryId);
+      const entry: AllowlistEntry = {
+        id: existing.id,
+        ...this.fromRequest(request),
+        createdAt: existing.createdAt,
+        updatedAt: getCurrentTimestamp()
+      };
+
+      const entries = await this.loadEntries();
+      await this.saveEntries(entries.map(candidate => candidate.id === entryId ? entry : candidate));
+      await auditLogService.logListChange('ALLOWLIST_ENTRY_UPDATED', entry.address, {
+        previous: existing,
+        current: entry
+      }, correlationId);
+
+      return entry;
+    });
+  }
+
+  /**
+   * Delete an allowlist entry
+   */
+  public deleteEntry(entryId: string, correlationId?: string): Promise<void> {
+    return this.applyChange(async () => {
+      const entry = await this.getEntry(entryId);
+
+      const entries = await this.loadEntries();
+      await this.saveEntries(entries.filter(candidate => candidate.id !== entryId));
+      await auditLogService.logListChange('ALLOWLIST_ENTRY_DELETED', entry.address, { entry }, correlationId);
+    });
+  }
+
+  /**
+   * Find the unexpired entry covering a hit for an address.
+   * Counterparties are the sanctioned entity IDs and address involved in the hit.
+   */
+  public async findApplicableEntry(
+    address: string,
+    matchType: 'DIRECT' | 'INDIRECT',
+    counterparties: string[]
+  ): Promise<AllowlistEntry | null> {
+    const entries = await this.loadEntries();
+    const normalizedAddress = this.normalize(address);
+    const normalizedCounterparties = counterparties.map(counterparty => this.normalize(counterparty));
+
+    return entries.find(entry =>
+      this.normalize(entry.address) === normalizedAddress &&
+      (entry.scope === 'BOTH' || entry.scope === matchType) &&
+      !isExpired(entry.expiresAt) &&
+      (!entry.counterparty || normalizedCounterparties.includes(this.normalize(entry.counterparty)))
+    ) || null;
+  }
+
+  /**
+   * Describe how an entry affected a hit, for screening results and audit logs
+   */
+  public toSuppression(
+    entry: AllowlistEntry,
+    matchType: 'DIRECT' | 'INDIRECT',
+    sanctionedAddress: string,
+    entityIds: string[],
+    originalRiskContribution?: number
+  ): AllowlistSuppression {
+    return {
+      allowlistEntryId: entry.id,
+      matchType,
+      action: matchType === 'DIRECT' ? 'SUPPRESSED' : 'DOWN_WEIGHTED',
+      sanctionedAddress,
+      entityIds,
+      ...(originalRiskContribution !== undefined && { originalRiskContribution }),
+      justification: entry.justification,
+      reviewer: entry.reviewer,
+      expiresAt: entry.expiresAt
+    };
+  }
+
+  private fromRequest(request: AllowlistRequest): Omit<AllowlistEntry, 'id' | 'createdAt' | 'updatedAt'> {
+    return {
+      address: request.address,
+      ...(request.counterparty && { counterparty: request.counterparty }),
+      scope: request.scope,
+      justification: request.justification,
+      reviewer: request.reviewer,
+      expiresAt: request.expiresAt
+    };
+  }
+
+  /**
+   * Load the allowlist from disk on first use
+   */
+  private async loadEntries(): Promise<AllowlistEntry[]> {
+    if (this.entries) {
+      return this.entries;
+    }
+
+    try {
+      this.entries = await readJsonFile<AllowlistEntry[]>(this.allowlistFilePath);
+      logger.info(`Loaded ${this.entries.length} allowlist entries`);
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+      this.entries = [];
+    }
+
+    return this.entries;
+  }
+
+  /**
+   * Run changes one at a time so concurrent requests cannot overwrite each other
+   */
+  private applyChange<T>(change: () => Promise<T>): Promise<T> {
+    const run = this.changeQueue.then(change);
+    this.changeQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async saveEntries(entries: AllowlistEntry[]): Promise<void> {
+    await ensureDirectoryExists(config.configDir);
+    await writeJsonFile(this.allowlistFilePath, entries);
+    this.entries = entries;
+  }
+
+  private normalize(value: string): string {
+    return value.trim().toLowerCase();
+  }
+}
+
+// Export singleton instance
+export const allowlistService = new AllowlistService();
@@ -143,6 +143,61 @@ export class AuditLogService {
     );
   }
 
+  /**
+   * Log a reload of the in-memory sanctions data
+   */
+  public async logSanctionsReload(
+    result: Record<string, unknown>,
+    processingTimeMs: number,
+    success: boolean = true,
+    errorMessage?: string
+  ): Promise<void> {
+    await this.logScreeningAction(
+      'SANCTIONS_RELOAD',
+      'sanctions_data',
+      result,
+      processingTimeMs,
+      undefined,
+      undefined,
+      success,
+      errorMessage
+    );
+  }
+
+  /**
+   * Log an admin import of sanctions data, whether a dry run or a publish
+   */
+  public async logSanctionsImport(
+    result: Record<string, unknown>,
+    processingTimeMs: number,
+    correlationId?: string,
+    success: boolean = true,
+    errorMessage?: string
+  ): Promise<void> {
+    await this.logScreeningAction(
+      'SANCTIONS_IMPORT',
+      'sanctions_data',
+      result,
+      processingTimeMs,
+      correlationId,
+      undefined,
+      success,
+      errorMessage
+    );
+  }
+
+  /**
+   * Log a change to an internal watchlist or the allowlist
+   */
+  public async logListChange(
+    action: string,
+    subject: string,
+    result: Record<string, unknown>,
+    correlationId?: string
+  ): Promise<void> {
+    await this.logScreeningAction(action, subject, result, 0, correlationId);
+  }
+
   /**
    * Write audit log to file
    */
@@ -1,188 +1,406 @@
-import mempoolJS from '@mempool/mempool.js';
-import { 
-  MempoolTransaction, 
-  MempoolAddressInfo, 
-  MempoolAddressTransaction,
+import {
   BitcoinTransaction,
-  TransactionInput,
-  TransactionOutput,
-  ExternalApiError 
+  BitcoinAddressInfo,
+  BitcoinUtxo,
+  BitcoinNetwork,
+  BlockchainOperation,
+  BlockchainProviderStatus,
+  BlockchainRequestPriority,
+  ExternalApiError
 } from '../types';
+import { BlockchainProvider, ProviderFailure, describeProviderFailure } from '../providers/blockchainProvider';
+import { EsploraProvider } from '../providers/esploraProvider';
+import { BlockCypherProvider } from '../providers/blockCypherProvider';
+import { BitcoinCoreProvider } from '../providers/bitcoinCoreProvider';
+import { ElectrumProvider } from '../providers/electrumProvider';
+import { blockchainCacheService } from './blockchainCacheService';
+import { SUPPORTED_NETWORKS } from '../utils/validation';
+import { RateLimiter } from '../utils/rateLimiter';
 import logger from '../utils/logger';
 import config from '../config';
 
+// Consecutive failures after which a provider is skipped for a while
+const FAILURE_THRESHOLD = 3;
+const FAILURE_COOLDOWN_MS = 60 * 1000;
+// Used when a rate-limited response does not say when to retry
+const RATE_LIMIT_COOLDOWN_MS = 60 * 1000;
+
+const OPERATION_LABELS: Record<BlockchainOperation, string> = {
+  transaction: 'transaction',
+  addressInfo: 'address info',
+  addressTransactions: 'address transactions',
+  addressUtxos: 'address UTXOs',
+  blockHeight: 'block height'
+};
+
+interface ProviderState {
+  provider: BlockchainProvider;
+  priority: number;
+  limiter: RateLimiter;
+  cooldownUntil: number;
+  consecutiveFailures: number;
+  requestCount: number;
+  failureCount: number;
+  lastSuccessAt: string | null;
+  lastFailure: BlockchainProviderStatus['lastFailure'];
+}
+
+/**
+ * Create the adapter for a configured provider name, or null if the name is unknown or the provider is not set up.
+ * Providers serving address histories only fetch the transactions themselves with fetchTransaction.
+ */
+function createProvider(
+  name: string,
+  fetchTransaction: (txid: string, network: BitcoinNetwork) => Promise<BitcoinTransaction>
+): BlockchainProvider | null {
+  const { mempool, blockStream, blockCypher } = config.blockchainApis;
+  const { bitcoinRpc, electrum } = config;
+
+  switch (name) {
+    case 'mempool':
+      return new EsploraProvider('mempool', {
+        mainnet: mempool,
+        testnet: `https://${config.mempoolHostnames.testnet}/testnet/api`,
+        signet: `https://${config.mempoolHostnames.signet}/signet/api`
+      }, config.blockchainApiTimeoutMs);
+    case 'blockstream':
+      // Blockstream.info serves testnet under /testnet/api and has no signet
+      return new EsploraProvider('blockstream', {
+        mainnet: blockStream,
+        ...(/\/api\/?$/.test(blockStream) && { testnet: blockStream.replace(/\/api\/?$/, '/testnet/api') })
+      }, config.blockchainApiTimeoutMs);
+    case 'blockcypher':
+      return new BlockCypherProvider({
+        mainnet: blockCypher,
+        ...(/\/btc\/main\/?$/.test(blockCypher) && { testnet: blockCypher.replace(/\/btc\/main\/?$/, '/btc/test3') })
+      }, config.blockchainApiTimeoutMs, config.blockCypherToken);
+    case 'bitcoincore':
+      if (!bitcoinRpc.url || !SUPPORTED_NETWORKS.includes(bitcoinRpc.network)) {
+        logger.warn('Ignoring blockchain provider bitcoincore: set BITCOIN_RPC_URL and a valid BITCOIN_RPC_NETWORK');
+        return null;
+      }
+      return new BitcoinCoreProvider(
+        { ...bitcoinRpc, timeoutMs: config.blockchainApiTimeoutMs },
+        bitcoinRpc.indexerUrl
+          ? new EsploraProvider('bitcoincore-indexer', { [bitcoinRpc.network]: bitcoinRpc.indexerUrl }, config.blockchainApiTimeoutMs)
+          : null
+      );
+    case 'electrum':
+      if (!electrum.url || !SUPPORTED_NETWORKS.includes(electrum.network)) {
+        logger.warn('Ignoring blockchain provider electrum: set ELECTRUM_URL and a valid ELECTRUM_NETWORK');
+        return null;
+      }
+      return new ElectrumProvider({ ...electrum, timeoutMs: config.blockchainApiTimeoutMs }, fetchTransaction);
+    default:
+      logger.warn(`Ignoring unknown blockchain provider ${name}`);
+      return null;
+  }
+}
+
 /**
- * Service for interacting with blockchain APIs (primarily Mempool.space)
+ * Service for fetching blockchain data from the providers listed in config.blockchainProviders.
+ * Providers are tried in priority order; when one fails or is rate limited the next one is used,
+ * and a provider that keeps failing is skipped until its cooldown has passed. Requests over a
+ * provider's own rate limit wait for capacity, interactive requests ahead of bulk ones.
  */
 export class BlockchainApiService {
-  private mempool: any;
-  private requestCount: number = 0;
-  private lastResetTime: number = Date.now();
-  private readonly maxRequestsPerMinute: number = 60; // Conservative rate limit
+  private readonly providers: ProviderState[];
 
   constructor() {
-    const { bitcoin: { addresses, blocks, fees, mempool, transactions } } = mempoolJS({
-      hostname: 'mempool.space'
-    });
+    this.providers = [];
+    for (const name of config.blockchainProviders) {
+      const provider = createProvider(name, (txid, network) => this.getTransaction(txid, network));
+      if (!provider) {
+        continue;
+      }
+      this.providers.push(this.createState(provider, this.providers.length + 1));
+    }
 
-    this.mempool = {
-      addresses,
-      blocks,
-      fees,
-      mempool,
-      transactions
-    };
+    if (this.providers.length === 0) {
+      logger.warn('No blockchain providers configured; transaction analysis is unavailable');
+    }
   }
 
   /**
-   * Check and enforce rate limiting
+   * Get transaction details. Transactions buried deep enough to be safe from a reorganization are
+   * served from the cache once fetched.
    */
-  private checkRateLimit(): void {
-    const now = Date.now();
-    const timeWindow = 60 * 1000; // 1 minute
-
-    // Reset counter if a minute has passed
-    if (now - this.lastResetTime > timeWindow) {
-      this.requestCount = 0;
-      this.lastResetTime = now;
+  async getTransaction(
+    txid: string,
+    network: BitcoinNetwork = 'mainnet',
+    priority: BlockchainRequestPriority = 'interactive'
+  ): Promise<BitcoinTransaction> {
+    const cached = await blockchainCacheService.getTransaction(txid, network);
+    if (cached) {
+      logger.debug(`Serving cached transaction: ${txid}`);
+      return cached;
     }
 
-    if (this.requestCount >= this.maxRequestsPerMinute) {
-      throw new ExternalApiError('Rate limit exceeded for Mempool API', {
-        requestCount: this.requestCount,
-        limit: this.maxRequestsPerMinute
-      });
+    const transaction = await this.request(
+      'transaction',
+      network,
+      priority,
+      { txid },
+      provider => provider.getTransaction(txid, network)
+    );
+    if (transaction.blockHeight > 0) {
+      // The cache needs the chain tip to tell whether the transaction is deep enough to keep
+      await this.checkBlockHeight(network, priority);
+      await blockchainCacheService.storeTransaction(transaction, network);
     }
 
-    this.requestCount++;
+    logger.debug(`Successfully fetched transaction: ${txid}`, {
+      inputCount: transaction.inputs.length,
+      outputCount: transaction.outputs.length,
+      fee: transaction.fee
+    });
+
+    return transaction;
   }
 
   /**
-   * Get transaction details from Mempool.space
+   * Get address balance and transaction counts
    */
-  async getTransaction(txid: string): Promise<BitcoinTransaction> {
-    try {
-      this.checkRateLimit();
-      
-      logger.debug(`Fetching transaction from Mempool.space: ${txid}`);
-      const mempoolTx: MempoolTransaction = await this.mempool.transactions.getTx({ txid });
-      
-      // Transform Mempool response to our standard format
-      const transaction: BitcoinTransaction = {
-        txid: mempoolTx.txid,
-        blockHeight: mempoolTx.status.block_height || 0,
-        blockTime: mempoolTx.status.block_time || 0,
-        inputs: mempoolTx.vin.map((vin): TransactionInput => ({
-          txid: vin.txid,
-          vout: vin.vout,
-          addresses: (vin.prevout && vin.prevout.scriptpubkey_address) ? [vin.prevout.scriptpubkey_address] : [],
-          value: (vin.prevout && vin.prevout.value) ? vin.prevout.value : 0
-        })),
-        outputs: mempoolTx.vout.map((vout): TransactionOutput => ({
-          addresses: vout.scriptpubkey_address ? [vout.scriptpubkey_address] : [],
-          value: vout.value || 0,
-          scriptPubKey: vout.scriptpubkey || ''
-        })),
-        fee: mempoolTx.fee,
-        size: mempoolTx.size
-      };
-
-      logger.debug(`Successfully fetched transaction: ${txid}`, {
-        inputCount: transaction.inputs.length,
-        outputCount: transaction.outputs.length,
-        fee: transaction.fee
-      });
+  async getAddressInfo(
+    address: string,
+    network: BitcoinNetwork = 'mainnet',
+    priority: BlockchainRequestPriority = 'interactive'
+  ): Promise<BitcoinAddressInfo> {
+    const addressInfo = await this.request(
+      'addressInfo',
+      network,
+      priority,
+      { address },
+      provider => provider.getAddressInfo(address, network)
+    );
 
-      return transaction;
-    } catch (error) {
-      logger.error(`Failed to fetch transaction ${txid}:`, error);
-      throw new ExternalApiError(`Failed to fetch transaction: ${error instanceof Error ? error.message : 'Unknown error'}`, {
-        txid,
-        service: 'mempool.space'
-      });
+    logger.debug(`Successfully fetched address info: ${address}`, {
+      txCount: addressInfo.txCount,
+      balance: addressInfo.balance
+    });
+
+    return addressInfo;
+  }
+
+  /**
+   * Get the most recent transactions of an address
+   */
+  async getAddressTransactions(
+    address: string,
+    limit: number = 50,
+    network: BitcoinNetwork = 'mainnet',
+    priority: BlockchainRequestPriority = 'interactive'
+  ): Promise<BitcoinTransaction[]> {
+    const transactions = await this.request(
+      'addressTransactions',
+      network,
+      priority,
+      { address, limit },
+      provider => provider.getAddressTransactions(address, limit, network)
+    );
+
+    logger.debug(`Successfully fetched address transactions: ${address}`, {
+      returned: transactions.length
+    });
+
+    return transactions;
+  }
+
+  /**
+   * Get the IDs of the most recent transactions of an address, without fetching the transactions.
+   * Histories are cached briefly, until a new block is found.
+   */
+  async getAddressTransactionIds(
+    address: string,
+    limit: number = 50,
+    network: BitcoinNetwork = 'mainnet',
+    priority: BlockchainRequestPriority = 'interactive'
+  ): Promise<string[]> {
+    if (config.addressHistoryCacheTtlSeconds > 0) {
+      await this.checkBlockHeight(network, priority);
+      const cached = blockchainCacheService.getAddressHistory(address, limit, network);
+      if (cached) {
+        logger.debug(`Serving cached address transaction IDs: ${address}`);
+        return cached;
+      }
     }
+
+    const txids = await this.request(
+      'addressTransactions',
+      network,
+      priority,
+      { address, limit },
+      provider => provider.getAddressTransactionIds(address, limit, network)
+    );
+    blockchainCacheService.storeAddressHistory(address, limit, network, txids);
+
+    logger.debug(`Successfully fetched address transaction IDs: ${address}`, {
+      returned: txids.length
+    });
+
+    return txids;
   }
 
   /**
-   * Get address information from Mempool.space
+   * Get UTXO (Unspent Transaction Outputs) for an address
    */
-  async getAddressInfo(address: string): Promise<MempoolAddressInfo> {
-    try {
-      this.checkRateLimit();
-      
-      logger.debug(`Fetching address info from Mempool.space: ${address}`);
-      const addressInfo: MempoolAddressInfo = await this.mempool.addresses.getAddress({ address });
-      
-      logger.debug(`Successfully fetched address info: ${address}`, {
-        txCount: addressInfo.chain_stats.tx_count,
-        balance: addressInfo.chain_stats.funded_txo_sum - addressInfo.chain_stats.spent_txo_sum
-      });
+  async getAddressUtxos(
+    address: string,
+    network: BitcoinNetwork = 'mainnet',
+    priority: BlockchainRequestPriority = 'interactive'
+  ): Promise<BitcoinUtxo[]> {
+    const utxos = await this.request(
+      'addressUtxos',
+      network,
+      priority,
+      { address },
+      provider => provider.getAddressUtxos(address, network)
+    );
+
+    logger.debug(`Successfully fetched address UTXOs: ${address}`, {
+      utxoCount: utxos.length
+    });
+
+    return utxos;
+  }
+
+  /**
+   * Check the chain tip when it is due, so cached address histories are dropped once a new block is found.
+   * If no provider reports it, histories are only bounded by their TTL.
+   */
+  private async checkBlockHeight(network: BitcoinNetwork, priority: BlockchainRequestPriority): Promise<void> {
+    if (!blockchainCacheService.claimBlockHeightCheck(network)) {
+      return;
+    }
 
-      return addressInfo;
+    try {
+      const height = await this.request('blockHeight', network, priority, {}, provider => provider.getBlockHeight(network));
+      blockchainCacheService.recordBlockHeight(network, height);
     } catch (error) {
-      logger.error(`Failed to fetch address info ${address}:`, error);
-      throw new ExternalApiError(`Failed to fetch address info: ${error instanceof Error ? error.message : 'Unknown error'}`, {
-        address,
-        service: 'mempool.space'
-      });
+      logger.debug(`Could not check the ${network} block height: ${(error as Error).message}`);
     }
   }
 
   /**
-   * Get transactions for an address from Mempool.space
+   * Run a request against the providers serving the operation on the network until one succeeds.
+   * Providers with rate limit capacity soonest are tried first, in priority order among equals, so a
+   * provider with a full queue fails over to one that has capacity. Providers cooling down are only
+   * tried once every available one has failed. The request waits up to config.blockchainQueueMaxWaitMs
+   * in total for capacity; once that time has passed, the remaining providers are only tried if they
+   * have capacity right away.
    */
-  async getAddressTransactions(address: string, limit: number = 50): Promise<MempoolAddressTransaction[]> {
-    try {
-      this.checkRateLimit();
-      
-      logger.debug(`Fetching address transactions from Mempool.space: ${address} (limit: ${limit})`);
-      const transactions: MempoolAddressTransaction[] = await this.mempool.addresses.getAddressTxs({ 
-        address,
-        // Note: Mempool API doesn't have a direct limit parameter, we'll slice the results
-      });
-      
-      // Limit the results to avoid too much data
-      const limitedTransactions = transactions.slice(0, limit);
-      
-      logger.debug(`Successfully fetched address transactions: ${address}`, {
-        totalFound: transactions.length,
-        returned: limitedTransactions.length
-      });
+  private async request<T>(
+    operation: BlockchainOperation,
+    network: BitcoinNetwork,
+    priority: BlockchainRequestPriority,
+    details: Record<string, unknown>,
+    fetch: (provider: BlockchainProvider) => Promise<T>
+  ): Promise<T> {
+    const resource = OPERATION_LABELS[operation];
+    const now = Date.now();
+    const waits = new Map(this.providers.map(state => [state, state.limiter.estimateWaitMs(priority)]));
+    const candidates = this.providers
+      .filter(state => state.provider.networks.includes(network) && state.provider.operations.includes(operation))
+      .sort((a, b) =>
+        Number(a.cooldownUntil > now) - Number(b.cooldownUntil > now) ||
+        (waits.get(a) as number) - (waits.get(b) as number) ||
+        a.priority - b.priority
+      );
 
-      return limitedTransactions;
-    } catch (error) {
-      logger.error(`Failed to fetch address transactions ${address}:`, error);
-      throw new ExternalApiError(`Failed to fetch address transactions: ${error instanceof Error ? error.message : 'Unknown error'}`, {
-        address,
-        service: 'mempool.space'
+    if (candidates.length === 0) {
+      throw new ExternalApiError(`Failed to fetch ${resource}: no blockchain provider serves ${resource} on ${network}`, {
+        ...details,
+        network
       });
     }
+
+    const deadline = now + config.blockchainQueueMaxWaitMs;
+    const attempts: Array<{ provider: string; error: string }> = [];
+    for (const state of candidates) {
+      const { name } = state.provider;
+      const waitedMs = await state.limiter.acquire(priority, deadline - Date.now());
+      if (waitedMs === null) {
+        const message = `no rate limit capacity within ${config.blockchainQueueMaxWaitMs}ms`;
+        attempts.push({ provider: name, error: message });
+        logger.warn(`Skipping ${name} for ${network} ${resource}: ${message}`, { ...details, priority });
+        continue;
+      }
+      if (waitedMs > 0) {
+        logger.debug(`Waited ${waitedMs}ms for ${name} rate limit capacity`, { ...details, priority });
+      }
+
+      state.requestCount++;
+      try {
+        logger.debug(`Fetching ${network} ${resource} from ${name}`, details);
+        const result = await fetch(state.provider);
+        this.recordSuccess(state);
+        return result;
+      } catch (error) {
+        const failure = describeProviderFailure(error);
+        this.recordFailure(state, failure);
+        attempts.push({ provider: name, error: failure.message });
+        logger.warn(`Failed to fetch ${network} ${resource} from ${name}: ${failure.message}`, { ...details, kind: failure.kind });
+      }
+    }
+
+    logger.error(`Failed to fetch ${network} ${resource} from every provider`, { ...details, attempts });
+    throw new ExternalApiError(`Failed to fetch ${resource}: ${attempts.map(attempt => `${attempt.provider}: ${attempt.error}`).join('; ')}`, {
+      ...details,
+      network,
+      attempts
+    });
+  }
+
+  private recordSuccess(state: ProviderState): void {
+    state.consecutiveFailures = 0;
+    state.cooldownUntil = 0;
+    state.lastSuccessAt = new Date().toISOString();
   }
 
   /**
-   * Get UTXO (Unspent Transaction Outputs) for an address
+   * Update a provider's health after a failed request. Rejections (e.g. an unknown transaction) say
+   * nothing about the provider's health and are not counted.
    */
-  async getAddressUtxos(address: string): Promise<any[]> {
-    try {
-      this.checkRateLimit();
-      
-      logger.debug(`Fetching address UTXOs from Mempool.space: ${address}`);
-      const utxos = await this.mempool.addresses.getAddressUtxo({ address });
-      
-      logger.debug(`Successfully fetched address UTXOs: ${address}`, {
-        utxoCount: utxos.length
-      });
+  private recordFailure(state: ProviderState, failure: ProviderFailure): void {
+    if (failure.kind === 'REJECTED') {
+      return;
+    }
 
-      return utxos;
-    } catch (error) {
-      logger.error(`Failed to fetch address UTXOs ${address}:`, error);
-      throw new ExternalApiError(`Failed to fetch address UTXOs: ${error instanceof Error ? error.message : 'Unknown error'}`, {
-        address,
-        service: 'mempool.space'
-      });
+    const now = Date.now();
+    state.failureCount++;
+    state.lastFailure = {
+      failedAt: new Date(now).toISOString(),
+      error: failure.message,
+      rateLimited: failure.kind === 'RATE_LIMITED'
+    };
+
+    if (failure.kind === 'RATE_LIMITED') {
+      state.cooldownUntil = now + (failure.retryAfterMs || RATE_LIMIT_COOLDOWN_MS);
+      logger.warn(`Blockchain provider ${state.provider.name} is rate limiting requests, skipping it until ${new Date(state.cooldownUntil).toISOString()}`);
+      return;
+    }
+
+    state.consecutiveFailures++;
+    if (state.consecutiveFailures >= FAILURE_THRESHOLD) {
+      state.cooldownUntil = now + FAILURE_COOLDOWN_MS;
+      logger.warn(`Blockchain provider ${state.provider.name} failed ${state.consecutiveFailures} times in a row, skipping it until ${new Date(state.cooldownUntil).toISOString()}`);
     }
   }
 
+  private createState(provider: BlockchainProvider, priority: number): ProviderState {
+    return {
+      provider,
+      priority,
+      limiter: new RateLimiter(config.blockchainRateLimits[provider.name] ?? config.blockchainRateLimitPerMinute),
+      cooldownUntil: 0,
+      consecutiveFailures: 0,
+      requestCount: 0,
+      failureCount: 0,
+      lastSuccessAt: null,
+      lastFailure: null
+    };
+  }
+
   /**
    * Extract all unique addresses from a transaction
    */
@@ -203,40 +421,70 @@ export class BlockchainApiService {
   }
 
   /**
-   * Get current rate limit status
+   * Health and rate limit queue of each configured provider, in priority order
    */
-  getRateLimitStatus(): { requestCount: number; limit: number; resetTime: number } {
-    return {
-      requestCount: this.requestCount,
-      limit: this.maxRequestsPerMinute,
-      resetTime: this.lastResetTime + (60 * 1000)
-    };
+  getProviderStatus(): BlockchainProviderStatus[] {
+    const now = Date.now();
+    return this.providers.map(state => ({
+      name: state.provider.name,
+      priority: state.priority,
+      networks: state.provider.networks,
+      operations: state.provider.operations,
+      rateLimit: state.limiter.getStatus(),
+      available: state.cooldownUntil <= now,
+      cooldownUntil: state.cooldownUntil > now ? new Date(state.cooldownUntil).toISOString() : null,
+      consecutiveFailures: state.consecutiveFailures,
+      requestCount: state.requestCount,
+      failureCount: state.failureCount,
+      lastSuccessAt: state.lastSuccessAt,
+      lastFailure: state.lastFailure
+    }));
   }
 
   /**
-   * Health check for the blockchain API service
+   * Whether at least one provider serving transactions on the network is not cooling down
    */
-  async healthCheck(): Promise<{ status: string; latency?: number; error?: string }> {
-    try {
-      const startTime = Date.now();
-      
-      // Try to fetch a well-known transaction (Genesis block coinbase)
-      const genesisTxid = '4a5e1e4baab89f3a32518a88c31bc87f618f76673e2cc77ab2127b7afdeda33b';
-      await this.getTransaction(genesisTxid);
-      
-      const latency = Date.now() - startTime;
-      
-      return {
-        status: 'healthy',
-        latency
-      };
-    } catch (error) {
-      logger.error('Blockchain API health check failed:', error);
-      return {
-        status: 'unhealthy',
-        error: error instanceof Error ? error.message : 'Unknown error'
-      };
+  hasAvailableProvider(network: BitcoinNetwork = 'mainnet'): boolean {
+    const now = Date.now();
+    return this.providers.some(state =>
+      state.provider.networks.includes(network) &&
+      state.provider.operations.includes('transaction') &&
+      state.cooldownUntil <= now
+    );
+  }
+
+  /**
+   * Health check for the blockchain API service. Asks every provider for the mainnet chain tip directly,
+   * bypassing the cache and the failover, so it reflects whether the providers can be reached right now.
+   */
+  async healthCheck(): Promise<{
+    status: string;
+    latency?: number;
+    error?: string;
+    providers: Array<{ name: string; status: string; latency?: number; error?: string }>;
+  }> {
+    const providers = await Promise.all(this.providers
+      .filter(state => state.provider.networks.includes('mainnet') && state.provider.operations.includes('blockHeight'))
+      .map(async state => {
+        const startTime = Date.now();
+        try {
+          await state.provider.getBlockHeight('mainnet');
+          return { name: state.provider.name, status: 'healthy', latency: Date.now() - startTime };
+        } catch (error) {
+          return { name: state.provider.name, status: 'unhealthy', error: describeProviderFailure(error).message };
+        }
+      }));
+
+    const healthy = providers.filter(provider => provider.status === 'healthy');
+    if (healthy.length > 0) {
+      return { status: 'healthy', latency: Math.min(...healthy.map(provider => provider.latency as number)), providers };
     }
+
+    const error = providers.length > 0
+      ? providers.map(provider => `${provider.name}: ${provider.error}`).join('; ')
+      : 'No blockchain provider reports the mainnet block height';
+    logger.error('Blockchain API health check failed:', { error });
+    return { status: 'unhealthy', error, providers };
   }
 }
 
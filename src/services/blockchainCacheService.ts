@@ -0,0 +1,196 @@
+import path from 'path';
+import { BitcoinNetwork, BitcoinTransaction, BlockchainCacheStats } from '../types';
+import { readJsonFile, writeFileAtomic } from '../utils/fileUtils';
+import { SUPPORTED_NETWORKS } from '../utils/validation';
+import config from '../config';
+import logger from '../utils/logger';
+
+const TXID_PATTERN = /^[0-9a-f]{64}$/;
+// How often the chain tip is checked while address histories are served from the cache
+const BLOCK_HEIGHT_CHECK_INTERVAL_MS = 30 * 1000;
+// Address histories kept in memory; the oldest are dropped beyond this
+const MAX_ADDRESS_HISTORIES = 5000;
+// Confirmations a transaction needs before it is cached; a reorganization this deep is not expected
+const MIN_CACHED_CONFIRMATIONS = 6;
+
+interface CachedAddressHistory {
+  txids: string[];
+  limit: number; // Limit the history was fetched with
+  cachedAt: number;
+}
+
+/**
+ * Cache for blockchain data. Transactions with enough confirmations no longer change, so they are stored
+ * on disk under dataDir, one file per transaction ID, and survive restarts. Address histories change with every new
+ * transaction, so they are kept in memory for a short time and dropped as soon as a new block is seen.
+ */
+export class BlockchainCacheService {
+  private readonly transactionsDir: string;
+  private readonly histories = new Map<string, CachedAddressHistory>();
+  private readonly blockHeights = new Map<BitcoinNetwork, { height: number | null; checkedAt: number }>();
+  private readonly stats = {
+    transactionHits: 0,
+    transactionMisses: 0,
+    transactionWrites: 0,
+    historyHits: 0,
+    historyMisses: 0,
+    historyInvalidations: 0
+  };
+
+  constructor() {
+    this.transactionsDir = path.join(config.dataDir, 'tx-cache');
+  }
+
+  /**
+   * Get a cached transaction, or null if it has not been cached
+   */
+  async getTransaction(txid: string, network: BitcoinNetwork): Promise<BitcoinTransaction | null> {
+    const filePath = this.getTransactionPath(txid, network);
+    if (!filePath) {
+      return null;
+    }
+
+    try {
+      const transaction = await readJsonFile<BitcoinTransaction>(filePath);
+      if (transaction.txid.toLowerCase() === txid.toLowerCase()) {
+        this.stats.transactionHits++;
+        return transaction;
+      }
+      logger.warn(`Ignoring cached transaction ${txid}: the file holds ${transaction.txid}`);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn(`Ignoring unreadable cached transaction ${txid}: ${(error as Error).message}`);
+      }
+    }
+
+    this.stats.transactionMisses++;
+    return null;
+  }
+
+  /**
+   * Cache a transaction once it has MIN_CACHED_CONFIRMATIONS confirmations, counted from the last recorded
+   * chain tip; without a known tip nothing is cached. Failing to write the cache does not fail the request.
+   */
+  async storeTransaction(transaction: BitcoinTransaction, network: BitcoinNetwork): Promise<void> {
+    const filePath = this.getTransactionPath(transaction.txid, network);
+    const tip = this.blockHeights.get(network)?.height;
+    if (!filePath || transaction.blockHeight <= 0 || !tip || tip - transaction.blockHeight + 1 < MIN_CACHED_CONFIRMATIONS) {
+      return;
+    }
+
+    try {
+      await writeFileAtomic(filePath, JSON.stringify(transaction));
+      this.stats.transactionWrites++;
+    } catch (error) {
+      logger.warn(`Failed to cache transaction ${transaction.txid}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Get the cached transaction IDs of an address, or null if none are cached for at least the limit
+   */
+  getAddressHistory(address: string, limit: number, network: BitcoinNetwork): string[] | null {
+    const key = `${network}:${address}`;
+    const cached = this.histories.get(key);
+
+    if (cached && Date.now() - cached.cachedAt >= config.addressHistoryCacheTtlSeconds * 1000) {
+      this.histories.delete(key);
+    } else if (cached && (cached.limit >= limit || cached.txids.length < cached.limit)) {
+      // A history shorter than its limit is complete, so it serves any limit
+      this.stats.historyHits++;
+      return cached.txids.slice(0, limit);
+    }
+
+    this.stats.historyMisses++;
+    return null;
+  }
+
+  storeAddressHistory(address: string, limit: number, network: BitcoinNetwork, txids: string[]): void {
+    if (config.addressHistoryCacheTtlSeconds <= 0) {
+      return;
+    }
+
+    const key = `${network}:${address}`;
+    this.histories.delete(key);
+    this.histories.set(key, { txids, limit, cachedAt: Date.now() });
+    if (this.histories.size > MAX_ADDRESS_HISTORIES) {
+      this.histories.delete(this.histories.keys().next().value as string);
+    }
+  }
+
+  /**
+   * Whether the chain tip of the network is due to be checked. Returns true to one caller per
+   * interval, so concurrent lookups do not all check it.
+   */
+  claimBlockHeightCheck(network: BitcoinNetwork): boolean {
+    const now = Date.now();
+    const known = this.blockHeights.get(network);
+    if (known && now - known.checkedAt < BLOCK_HEIGHT_CHECK_INTERVAL_MS) {
+      return false;
+    }
+    this.blockHeights.set(network, { height: known ? known.height : null, checkedAt: now });
+    return true;
+  }
+
+  /**
+   * Record the chain tip of a network, dropping its cached address histories when a new block was found
+   */
+  recordBlockHeight(network: BitcoinNetwork, height: number): void {
+    const known = this.blockHeights.get(network);
+    this.blockHeights.set(network, { height, checkedAt: known ? known.checkedAt : Date.now() });
+    if (!known || known.height === null || known.height === height) {
+      return;
+    }
+
+    const prefix = `${network}:`;
+    let dropped = 0;
+    for (const key of this.histories.keys()) {
+      if (key.startsWith(prefix)) {
+        this.histories.delete(key);
+        dropped++;
+      }
+    }
+    this.stats.historyInvalidations += dropped;
+    logger.debug(`New ${network} block at height ${height}, dropped ${dropped} cached address histories`);
+  }
+
+  getStats(): BlockchainCacheStats {
+    const blockHeights: BlockchainCacheStats['blockHeights'] = {};
+    for (const [network, known] of this.blockHeights) {
+      if (known.height !== null) {
+        blockHeights[network] = known.height;
+      }
+    }
+
+    return {
+      transactions: {
+        hits: this.stats.transactionHits,
+        misses: this.stats.transactionMisses,
+        writes: this.stats.transactionWrites
+      },
+      addressHistories: {
+        entries: this.histories.size,
+        hits: this.stats.historyHits,
+        misses: this.stats.historyMisses,
+        invalidations: this.stats.historyInvalidations,
+        ttlSeconds: config.addressHistoryCacheTtlSeconds
+      },
+      blockHeights
+    };
+  }
+
+  /**
+   * File caching a transaction, sharded by the first byte of its ID, or null if the ID is not a
+   * transaction ID and must not be used in a path
+   */
+  private getTransactionPath(txid: string, network: BitcoinNetwork): string | null {
+    const normalized = txid.toLowerCase();
+    if (!TXID_PATTERN.test(normalized) || !SUPPORTED_NETWORKS.includes(network)) {
+      return null;
+    }
+    return path.join(this.transactionsDir, network, normalized.slice(0, 2), `${normalized}.json`);
+  }
+}
+
+// Export singleton instance
+export const blockchainCacheService = new BlockchainCacheService();
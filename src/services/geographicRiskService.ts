@@ -0,0 +1,257 @@
+import path from 'path';
+import {
+  HighRiskJurisdiction,
+  JurisdictionLink,
+  JurisdictionLinkBasis,
+  MatchType,
+  SanctionEntity,
+  SanctionMatch,
+  TransactionPathAnalysis
+} from '../types';
+import { readJsonFile } from '../utils/fileUtils';
+import { sanctionsDataService } from './sanctionsDataService';
+import config from '../config';
+import logger from '../utils/logger';
+
+/**
+ * Built-in high-risk jurisdictions: comprehensively sanctioned countries score the most,
+ * countries under broad sectoral or regime sanctions less
+ */
+const DEFAULT_JURISDICTIONS: Record<string, HighRiskJurisdiction> = {
+  KP: {
+    name: 'North Korea',
+    weight: 10,
+    aliases: ['Korea, North', "Democratic People's Republic of Korea", 'DPRK'],
+    programs: ['DPRK', 'DPRK2', 'DPRK3', 'DPRK4', 'DPRK-NKSPEA', 'PRK']
+  },
+  IR: {
+    name: 'Iran',
+    weight: 10,
+    aliases: ['Iran, Islamic Republic of'],
+    programs: ['IRAN', 'IRAN-TRA', 'IRAN-HR', 'IRAN-EO13846', 'IRAN-EO13871', 'IRAN-EO13902', 'IFSR', 'IRGC', 'IRN']
+  },
+  SY: {
+    name: 'Syria',
+    weight: 8,
+    aliases: ['Syrian Arab Republic'],
+    programs: ['SYRIA', 'SYRIA-EO13894', 'SYR']
+  },
+  CU: {
+    name: 'Cuba',
+    weight: 8,
+    programs: ['CUBA']
+  },
+  RU: {
+    name: 'Russia',
+    weight: 6,
+    aliases: ['Russian Federation'],
+    programs: ['RUSSIA-EO14024', 'CAATSA - RUSSIA', 'UKRAINE-EO13660', 'UKRAINE-EO13661', 'UKRAINE-EO13662', 'UKRAINE-EO13685', 'RUS']
+  },
+  BY: {
+    name: 'Belarus',
+    weight: 6,
+    programs: ['BELARUS', 'BELARUS-EO14038', 'BLR']
+  },
+  VE: {
+    name: 'Venezuela',
+    weight: 6,
+    programs: ['VENEZUELA', 'VENEZUELA-EO13850', 'VENEZUELA-EO13884', 'VEN']
+  },
+  MM: {
+    name: 'Burma',
+    weight: 6,
+    aliases: ['Myanmar'],
+    programs: ['BURMA-EO14014', 'MMR']
+  }
+};
+
+const MAX_GEOGRAPHICAL_RISK = 10;
+const COUNTERPARTY_FACTOR = 0.5;
+
+interface LoadedJurisdiction {
+  country: string;
+  jurisdiction: HighRiskJurisdiction;
+  names: string[]; // Normalized name and aliases
+  programs: Set<string>;
+}
+
+type GeographicProfile = Pick<SanctionEntity, 'entityId' | 'programs' | 'regime' | 'details'>;
+
+export interface GeographicalRisk {
+  score: number; // 0-10 points
+  jurisdictions: JurisdictionLink[];
+}
+
+/**
+ * Service scoring the geographical risk factor from the jurisdictions linked to the sanctioned entities behind
+ * an address and its counterparties: country-based programs and regimes, nationality, citizenship, place of
+ * birth and identity document countries.
+ * Jurisdictions in config.configDir/high-risk-jurisdictions.json override or extend the built-in ones; the file is read once.
+ */
+export class GeographicRiskService {
+  private readonly jurisdictionsFilePath: string;
+  private jurisdictions: LoadedJurisdiction[] | null = null;
+
+  constructor() {
+    this.jurisdictionsFilePath = path.join(config.configDir, 'high-risk-jurisdictions.json');
+  }
+
+  /**
+   * Score the geographical risk of an address from its direct matches and the sanctioned counterparties
+   * found by transaction analysis. Counterparties count for half, and allowlisted ones are ignored.
+   */
+  public async assess(
+    sanctionMatches: SanctionMatch[],
+    transactionAnalysis?: TransactionPathAnalysis
+  ): Promise<GeographicalRisk> {
+    const jurisdictions = await this.loadJurisdictions();
+
+    const directIds = new Set(sanctionMatches.map(match => match.entityId));
+    const links = sanctionMatches.flatMap(match => this.linkEntity({
+      entityId: match.entityId,
+      ...(match.programs && { programs: match.programs }),
+      ...(match.regime && { regime: match.regime }),
+      ...(match.entityDetails && { details: match.entityDetails })
+    }, 'DIRECT', jurisdictions));
+
+    const counterpartyIds = new Set(
+      (transactionAnalysis?.pathNodes || [])
+        .filter(node => !node.allowlisted)
+        .flatMap(node => node.entityIds || [])
+        .filter(entityId => !directIds.has(entityId))
+    );
+    for (const entityId of counterpartyIds) {
+      // Internal watchlist entities carry no geographic data and are not indexed here
+      const entity = await sanctionsDataService.getEntityById(entityId);
+      if (entity) {
+        links.push(...this.linkEntity(entity, 'INDIRECT', jurisdictions));
+      }
+    }
+
+    return {
+      score: Math.min(Math.max(0, ...links.map(link => link.weight)), MAX_GEOGRAPHICAL_RISK),
+      jurisdictions: links.sort((a, b) => b.weight - a.weight)
+    };
+  }
+
+  /**
+   * Find the high-risk jurisdictions an entity is linked to, one link per jurisdiction
+   */
+  private linkEntity(
+    entity: GeographicProfile,
+    matchType: MatchType,
+    jurisdictions: LoadedJurisdiction[]
+  ): JurisdictionLink[] {
+    const details = entity.details || {};
+    const locations: Array<{ basis: JurisdictionLinkBasis; values: string[] }> = [
+      { basis: 'NATIONALITY', values: details.nationalities || [] },
+      { basis: 'CITIZENSHIP', values: details.citizenships || [] },
+      { basis: 'PLACE_OF_BIRTH', values: details.placesOfBirth || [] },
+      { basis: 'IDENTIFIER', values: (details.identifiers || []).flatMap(identifier => identifier.country ? [identifier.country] : []) }
+    ];
+    const programs = (entity.programs || []).map(program => program.trim().toUpperCase());
+    const regimes = entity.regime ? entity.regime.split('; ') : [];
+
+    const links: JurisdictionLink[] = [];
+    for (const loaded of jurisdictions) {
+      const basis: JurisdictionLinkBasis[] = [];
+
+      if (
+        programs.some(program => loaded.programs.has(program)) ||
+        regimes.some(regime => loaded.programs.has(regime.trim().toUpperCase()) || this.mentionsJurisdiction(regime, loaded))
+      ) {
+        basis.push('PROGRAM');
+      }
+      for (const location of locations) {
+        if (location.values.some(value => this.locatedIn(value, loaded))) {
+          basis.push(location.basis);
+        }
+      }
+
+      if (basis.length > 0) {
+        const factor = matchType === 'DIRECT' ? 1 : COUNTERPARTY_FACTOR;
+        links.push({
+          country: loaded.country,
+          name: loaded.jurisdiction.name,
+          entityId: entity.entityId,
+          matchType,
+          basis,
+          weight: Math.round(loaded.jurisdiction.weight * factor)
+        });
+      }
+    }
+
+    return links;
+  }
+
+  /**
+   * Whether a location ("Tehran, Iran", "Korea, North") names the jurisdiction, as a whole or as its last part
+   */
+  private locatedIn(location: string, loaded: LoadedJurisdiction): boolean {
+    const normalized = this.normalize(location);
+    return loaded.names.some(name => normalized === name || normalized.endsWith(` ${name}`));
+  }
+
+  /**
+   * Whether a regime name ("Iran (Nuclear)", "Russia") mentions the jurisdiction
+   */
+  private mentionsJurisdiction(regime: string, loaded: LoadedJurisdiction): boolean {
+    const normalized = ` ${this.normalize(regime)} `;
+    return loaded.names.some(name => normalized.includes(` ${name} `));
+  }
+
+  private normalize(value: string): string {
+    return value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+  }
+
+  private async loadJurisdictions(): Promise<LoadedJurisdiction[]> {
+    if (this.jurisdictions) {
+      return this.jurisdictions;
+    }
+
+    const merged: Record<string, HighRiskJurisdiction> = { ...DEFAULT_JURISDICTIONS };
+    try {
+      const configured = await readJsonFile<Record<string, unknown>>(this.jurisdictionsFilePath);
+      for (const [country, jurisdiction] of Object.entries(configured)) {
+        if (this.isValidJurisdiction(jurisdiction)) {
+          merged[country.trim().toUpperCase()] = jurisdiction;
+        } else {
+          logger.warn(`Ignoring invalid high-risk jurisdiction ${country}`, { jurisdiction });
+        }
+      }
+      logger.info(`Loaded ${Object.keys(configured).length} high-risk jurisdictions`);
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        // Score with the built-in table rather than failing screening; retried on next use
+        logger.error('Failed to load high-risk jurisdictions:', error);
+        return this.toLoadedJurisdictions(merged);
+      }
+    }
+
+    this.jurisdictions = this.toLoadedJurisdictions(merged);
+    return this.jurisdictions;
+  }
+
+  private toLoadedJurisdictions(jurisdictions: Record<string, HighRiskJurisdiction>): LoadedJurisdiction[] {
+    return Object.entries(jurisdictions)
+      .filter(([, jurisdiction]) => jurisdiction.weight > 0)
+      .map(([country, jurisdiction]) => ({
+        country,
+        jurisdiction,
+        names: [jurisdiction.name, ...(jurisdiction.aliases || [])].map(name => this.normalize(name)).filter(name => name.length > 0),
+        programs: new Set((jurisdiction.programs || []).map(program => program.trim().toUpperCase()))
+      }));
+  }
+
+  private isValidJurisdiction(jurisdiction: unknown): jurisdiction is HighRiskJurisdiction {
+    const candidate = jurisdiction as HighRiskJurisdiction;
+    return typeof candidate === 'object' && candidate !== null &&
+      typeof candidate.name === 'string' && candidate.name.trim().length > 0 &&
+      typeof candidate.weight === 'number' && candidate.weight >= 0 && candidate.weight <= MAX_GEOGRAPHICAL_RISK &&
+      (candidate.aliases === undefined || (Array.isArray(candidate.aliases) && candidate.aliases.every(alias => typeof alias === 'string'))) &&
+      (candidate.programs === undefined || (Array.isArray(candidate.programs) && candidate.programs.every(program => typeof program === 'string')));
+  }
+}
+
+// Export singleton instance
+export const geographicRiskService = new GeographicRiskService();
@@ -0,0 +1,119 @@
+import path from 'path';
+import { ProgramRiskProfile, SanctionEntity } from '../types';
+import { readJsonFile } from '../utils/fileUtils';
+import config from '../config';
+import logger from '../utils/logger';
+
+/**
+ * Built-in program profiles. Weights are relative to the OFAC source weight (15 by default):
+ * proliferation, terrorism and North Korea programs weigh more, narcotics programs less.
+ */
+const DEFAULT_PROGRAM_PROFILES: Record<string, ProgramRiskProfile> = {
+  DPRK3: { weight: 20, severity: 'SEVERE', description: 'North Korea, including state-sponsored cyber heists' },
+  DPRK4: { weight: 20, severity: 'SEVERE', description: 'North Korea' },
+  NPWMD: { weight: 20, severity: 'SEVERE', description: 'Weapons of mass destruction proliferators' },
+  SDGT: { weight: 20, severity: 'SEVERE', description: 'Specially designated global terrorists' },
+  IRGC: { weight: 20, severity: 'SEVERE', description: "Iran's Islamic Revolutionary Guard Corps" },
+  IFSR: { weight: 15, severity: 'HIGH', description: 'Iranian financial sanctions' },
+  CYBER2: { weight: 15, severity: 'HIGH', description: 'Malicious cyber-enabled activities' },
+  CYBER3: { weight: 15, severity: 'HIGH', description: 'Malicious cyber-enabled activities' },
+  'RUSSIA-EO14024': { weight: 15, severity: 'HIGH', description: 'Russian harmful foreign activities' },
+  'UKRAINE-EO13661': { weight: 15, severity: 'HIGH', description: 'Ukraine-related' },
+  'ELECTION-EO13848': { weight: 10, severity: 'MODERATE', description: 'Election interference' },
+  SDNTK: { weight: 10, severity: 'MODERATE', description: 'Narcotics kingpins' },
+  'ILLICIT-DRUGS-EO14059': { weight: 10, severity: 'MODERATE', description: 'Illicit drug trade' }
+};
+
+export interface ProgramRisk {
+  weight: number;
+  severity?: string;
+}
+
+/**
+ * Service resolving the risk weight and severity label of sanctions matches by program.
+ * Profiles in config.configDir/program-risk.json override or extend the built-in ones; the file is read once.
+ */
+export class ProgramRiskService {
+  private readonly profilesFilePath: string;
+  private profiles: Map<string, ProgramRiskProfile> | null = null;
+
+  constructor() {
+    this.profilesFilePath = path.join(config.configDir, 'program-risk.json');
+  }
+
+  /**
+   * Resolve the risk weight of a match against an entity: the highest weight among its configured
+   * programs (OFAC) or regimes (EU, UN, UK OFSI), or the list source weight when none is configured.
+   * Never throws: a match whose programs cannot be weighed falls back to the list source weight
+   * rather than failing or clearing the screening.
+   */
+  public async resolveRisk(entity: Pick<SanctionEntity, 'listSource' | 'programs' | 'regime'>): Promise<ProgramRisk> {
+    try {
+      const strongest = await this.findStrongestProfile(entity);
+      if (strongest) {
+        return { weight: strongest.weight, severity: strongest.severity };
+      }
+    } catch (error) {
+      logger.error(`Failed to weigh the programs of a ${entity.listSource} match, using the list weight:`, error);
+    }
+    return { weight: config.sanctionSourceWeights[entity.listSource] || 0 };
+  }
+
+  private async findStrongestProfile(
+    entity: Pick<SanctionEntity, 'programs' | 'regime'>
+  ): Promise<ProgramRiskProfile | undefined> {
+    const profiles = await this.loadProfiles();
+    const programs = [...(entity.programs || []), ...(entity.regime ? entity.regime.split('; ') : [])];
+
+    let strongest: ProgramRiskProfile | undefined;
+    for (const program of programs) {
+      const profile = profiles.get(program.trim().toUpperCase());
+      if (profile && (!strongest || profile.weight > strongest.weight)) {
+        strongest = profile;
+      }
+    }
+    return strongest;
+  }
+
+  private async loadProfiles(): Promise<Map<string, ProgramRiskProfile>> {
+    if (this.profiles) {
+      return this.profiles;
+    }
+
+    const merged: Record<string, ProgramRiskProfile> = { ...DEFAULT_PROGRAM_PROFILES };
+    try {
+      const configured = await readJsonFile<Record<string, unknown>>(this.profilesFilePath);
+      for (const [program, profile] of Object.entries(configured)) {
+        if (this.isValidProfile(profile)) {
+          merged[program] = profile;
+        } else {
+          logger.warn(`Ignoring invalid risk profile for sanctions program ${program}`, { profile });
+        }
+      }
+      logger.info(`Loaded ${Object.keys(configured).length} sanctions program risk profiles`);
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        // Score with the built-in profiles rather than failing screening; retried on next use
+        logger.error('Failed to load sanctions program risk profiles:', error);
+        return this.toProfileMap(merged);
+      }
+    }
+
+    this.profiles = this.toProfileMap(merged);
+    return this.profiles;
+  }
+
+  private toProfileMap(profiles: Record<string, ProgramRiskProfile>): Map<string, ProgramRiskProfile> {
+    return new Map(Object.entries(profiles).map(([program, profile]) => [program.trim().toUpperCase(), profile]));
+  }
+
+  private isValidProfile(profile: unknown): profile is ProgramRiskProfile {
+    const candidate = profile as ProgramRiskProfile;
+    return typeof candidate === 'object' && candidate !== null &&
+      typeof candidate.weight === 'number' && candidate.weight >= 0 && candidate.weight <= 40 &&
+      typeof candidate.severity === 'string' && candidate.severity.trim().length > 0;
+  }
+}
+
+// Export singleton instance
+export const programRiskService = new ProgramRiskService();
@@ -1,40 +1,85 @@
-import { readJsonFile, writeJsonFile, ensureDirectoryExists, fileExists } from '../utils/fileUtils';
-import { SanctionsFile, SanctionEntity, SanctionSource } from '../types';
+import { readJsonFile, writeJsonFile, ensureDirectoryExists, fileExists, writeFileAtomic } from '../utils/fileUtils';
+import {
+  SanctionsFile,
+  SanctionEntity,
+  SanctionSource,
+  OFACCryptoFile,
+  SanctionsSnapshotInfo,
+  SanctionsDataVersion,
+  SanctionNameMatch,
+  EntityListRequest,
+  PaginatedResult,
+  AddressDesignation,
+  DesignationPeriod,
+  SANCTION_SOURCE_JURISDICTIONS
+} from '../types';
 import config from '../config';
 import logger from '../utils/logger';
+import { SanctionsListParser } from '../parsers/parserUtils';
+import { euSanctionsParser } from '../parsers/euSanctionsParser';
+import { unSanctionsParser } from '../parsers/unSanctionsParser';
+import { ofsiSanctionsParser } from '../parsers/ofsiSanctionsParser';
+import { parseSdnRemarks } from '../parsers/sdnRemarksParser';
+import { PreparedName, prepareName, scoreNameMatch } from '../utils/nameMatching';
+import { sanctionsHistoryService } from './sanctionsHistoryService';
+import { auditLogService } from './auditLogService';
 import path from 'path';
-import { promises as fs } from 'fs';
-
-// Interface for OFAC crypto data format
-interface OFACCryptoEntry {
-  entityId: string;
-  entityName: string;
-  entityType: string;
-  program: string;
-  cryptocurrency: string;
-  address: string;
-  remarks: string;
-  isActive: boolean;
+import { createHash } from 'crypto';
+import { promises as fs, watch, FSWatcher } from 'fs';
+
+interface IndexedName {
+  entity: SanctionEntity;
+  field: 'name' | 'alias';
+  value: string;
+  prepared: PreparedName;
+}
+
+interface SourceCounts {
+  totalEntities: number;
+  activeEntities: number;
+  addresses: number;
 }
 
-interface OFACCryptoFile {
-  metadata: {
-    source: string;
-    lastUpdated: string;
-    version: string;
-    totalEntities: number;
-    cryptocurrencies: Record<string, number>;
-  };
-  entities: OFACCryptoEntry[];
+/**
+ * Everything served from memory for one load of the sanctions data.
+ * Built off to the side and swapped in as a whole so readers never see a half-loaded state.
+ */
+interface LoadedSanctions {
+  entities: SanctionEntity[]; // Active entities only
+  allEntities: SanctionEntity[]; // Including delisted entities, for entity lookups
+  entityIndex: Map<string, SanctionEntity>;
+  addressIndex: Map<string, SanctionEntity[]>; // Normalized address -> active entities listing it
+  designationIndex: Map<string, AddressDesignation[]>; // Normalized address -> designation periods, for point-in-time lookups
+  nameIndex: IndexedName[]; // Names and aliases of active entities, pre-normalized for fuzzy search
+  sourceCounts: Partial<Record<SanctionSource, SourceCounts>>;
+  version: SanctionsDataVersion | null;
+  loadTime: number;
 }
 
+const EMPTY_SANCTIONS: LoadedSanctions = {
+  entities: [],
+  allEntities: [],
+  entityIndex: new Map(),
+  addressIndex: new Map(),
+  designationIndex: new Map(),
+  nameIndex: [],
+  sourceCounts: {},
+  version: null,
+  loadTime: 0
+};
+
 /**
- * Data access layer for OFAC cryptocurrency sanctions data
+ * Data access layer for cryptocurrency sanctions data (OFAC, EU, UN and UK OFSI)
  */
 export class SanctionsDataService {
-  private sanctionsCache: SanctionEntity[] = [];
-  private lastLoadTime: number = 0;
+  private loaded: LoadedSanctions = EMPTY_SANCTIONS;
+  private loadQueue: Promise<unknown> = Promise.resolve();
+  private publishQueue: Promise<unknown> = Promise.resolve();
+  private watchers: FSWatcher[] = [];
+  private reloadTimer: NodeJS.Timeout | null = null;
+  private readonly reloadListeners: Array<() => void> = [];
   private readonly cacheValidityMs = 1000 * 60 * 60; // 1 hour
+  private readonly reloadDebounceMs = 500;
   private readonly dataFilePath: string;
 
   constructor() {
@@ -48,44 +93,450 @@ export class SanctionsDataService {
   }
 
   /**
-   * Load OFAC cryptocurrency sanctions data
+   * Load sanctions data from all configured sources
    */
   public async loadAllSanctions(): Promise<void> {
+    // Check if cache is still valid
+    if (this.isCacheValid()) {
+      return;
+    }
+
+    if (this.isLoaded()) {
+      // Cache expired: refresh, but keep serving the current data if the new files are invalid
+      await this.reloadSanctions('CACHE_EXPIRED');
+      return;
+    }
+
+    // Nothing loaded yet, so there is no last good data to fall back to
+    await this.runExclusive(async () => {
+      if (!this.isCacheValid()) {
+        this.loaded = await this.buildSanctions();
+      }
+    });
+  }
+
+  /**
+   * Rebuild the sanctions data and swap it in, keeping the current data if the new files are rejected.
+   * Every attempt is written to the audit log with the previous and new data versions.
+   */
+  public reloadSanctions(trigger: string): Promise<boolean> {
+    return this.runExclusive(async () => {
+      const startTime = Date.now();
+      const previousVersion = this.loaded.version;
+
+      try {
+        const next = await this.buildSanctions();
+        this.loaded = next;
+        this.notifyReload();
+
+        logger.info('Sanctions data reloaded', {
+          trigger,
+          previousVersion: previousVersion?.versionId || null,
+          newVersion: next.version?.versionId || null,
+          activeEntities: next.entities.length
+        });
+
+        await auditLogService.logSanctionsReload({
+          trigger,
+          previousVersion,
+          newVersion: next.version,
+          activeEntities: next.entities.length,
+          sources: next.sourceCounts
+        }, Date.now() - startTime);
+
+        return true;
+      } catch (error) {
+        logger.error('Rejected sanctions data reload, keeping last good data:', {
+          trigger,
+          error: (error as Error).message,
+          currentVersion: previousVersion?.versionId || null
+        });
+
+        await auditLogService.logSanctionsReload({
+          trigger,
+          previousVersion,
+          newVersion: null
+        }, Date.now() - startTime, false, (error as Error).message);
+
+        return false;
+      }
+    });
+  }
+
+  /**
+   * Call the listener every time a reload swaps in new data, so results derived from the previous
+   * data (e.g. cached path analyses) can be dropped
+   */
+  public onReload(listener: () => void): void {
+    this.reloadListeners.push(listener);
+  }
+
+  private notifyReload(): void {
+    for (const listener of this.reloadListeners) {
+      try {
+        listener();
+      } catch (error) {
+        logger.error('Sanctions reload listener failed:', error);
+      }
+    }
+  }
+
+  /**
+   * Watch the directories of the OFAC crypto data file and the EU, UN and UK OFSI list files,
+   * and reload as soon as one of them changes
+   */
+  public async startWatching(): Promise<void> {
+    if (this.watchers.length > 0) {
+      return;
+    }
+
+    // Watch each directory once, for every data file in it
+    const watchedFiles = new Map<string, Set<string>>();
+    for (const filePath of [this.dataFilePath, config.sanctionsFiles.eu, config.sanctionsFiles.un, config.sanctionsFiles.ukOfsi]) {
+      const watchDir = path.resolve(path.dirname(filePath));
+      const files = watchedFiles.get(watchDir) || new Set<string>();
+      files.add(path.basename(filePath));
+      watchedFiles.set(watchDir, files);
+    }
+
+    for (const [watchDir, files] of watchedFiles) {
+      try {
+        await ensureDirectoryExists(watchDir);
+
+        const watcher = watch(watchDir, (_eventType, fileName) => {
+          // Some platforms do not report the file name; reload to be safe
+          if (fileName && !files.has(fileName.toString())) {
+            return;
+          }
+          this.scheduleReload();
+        });
+
+        watcher.on('error', error => {
+          logger.error(`Sanctions data watcher for ${watchDir} failed:`, error);
+        });
+
+        this.watchers.push(watcher);
+        logger.info(`Watching ${watchDir} for sanctions data changes`, { files: Array.from(files) });
+      } catch (error) {
+        logger.error(`Failed to watch ${watchDir} for sanctions data changes:`, error);
+      }
+    }
+  }
+
+  /**
+   * Stop watching the sanctions data directories
+   */
+  public stopWatching(): void {
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+      this.reloadTimer = null;
+    }
+    for (const watcher of this.watchers) {
+      watcher.close();
+    }
+    this.watchers = [];
+  }
+
+  /**
+   * Debounce reloads, since writing a file usually emits several change events
+   */
+  private scheduleReload(): void {
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+    }
+
+    this.reloadTimer = setTimeout(() => {
+      this.reloadTimer = null;
+      this.reloadSanctions('FILE_CHANGE');
+    }, this.reloadDebounceMs);
+  }
+
+  /**
+   * Run loads one at a time so a slow load cannot overwrite a newer one
+   */
+  private runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.loadQueue.then(task);
+    this.loadQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Whether the data has been loaded, even if no data files were found; an empty data set is
+   * reused until it expires rather than rebuilt on every request
+   */
+  private isLoaded(): boolean {
+    return this.loaded.loadTime > 0;
+  }
+
+  private isCacheValid(): boolean {
+    return this.isLoaded() && Date.now() - this.loaded.loadTime < this.cacheValidityMs;
+  }
+
+  /**
+   * Read and parse every configured source into a fresh data set without touching the served one
+   */
+  private async buildSanctions(): Promise<LoadedSanctions> {
+    const ofac = await this.loadOFACSanctions();
+
+    const entities = [
+      ...ofac.entities,
+      ...await this.loadListFile('EU', config.sanctionsFiles.eu, euSanctionsParser),
+      ...await this.loadListFile('UN', config.sanctionsFiles.un, unSanctionsParser),
+      ...await this.loadListFile('UK_OFSI', config.sanctionsFiles.ukOfsi, ofsiSanctionsParser)
+    ];
+
+    // Filter active entities only
+    const activeEntities = entities.filter(entity => entity.isActive);
+
+    return {
+      entities: activeEntities,
+      allEntities: entities,
+      entityIndex: new Map(entities.map(entity => [entity.entityId, entity])),
+      addressIndex: this.buildAddressIndex(activeEntities),
+      designationIndex: await this.buildDesignationIndex(entities, ofac.version),
+      nameIndex: this.buildNameIndex(activeEntities),
+      sourceCounts: this.countBySource(entities),
+      version: ofac.version,
+      loadTime: Date.now()
+    };
+  }
+
+  /**
+   * Index entities by normalized address so lookups do not scan every entity
+   */
+  private buildAddressIndex(entities: SanctionEntity[]): Map<string, SanctionEntity[]> {
+    const index = new Map<string, SanctionEntity[]>();
+
+    for (const entity of entities) {
+      for (const address of new Set(entity.addresses.map(addr => this.normalizeAddress(addr)))) {
+        const listed = index.get(address);
+        if (listed) {
+          listed.push(entity);
+        } else {
+          index.set(address, [entity]);
+        }
+      }
+    }
+
+    return index;
+  }
+
+  /**
+   * Update the recorded designation periods and index them by address.
+   * If the history cannot be updated the previous index is kept, so point-in-time lookups keep working.
+   */
+  private async buildDesignationIndex(
+    entities: SanctionEntity[],
+    version: SanctionsDataVersion | null
+  ): Promise<Map<string, AddressDesignation[]>> {
+    let designations: AddressDesignation[];
     try {
-      // Check if cache is still valid
-      if (Date.now() - this.lastLoadTime < this.cacheValidityMs && this.sanctionsCache.length > 0) {
-        return;
+      designations = await sanctionsHistoryService.updateDesignations(entities, {
+        ...(version && { OFAC: version.lastUpdated })
+      });
+    } catch (error) {
+      logger.error('Failed to update sanctions designation history:', error);
+      return this.loaded.designationIndex;
+    }
+
+    const index = new Map<string, AddressDesignation[]>();
+    for (const designation of designations) {
+      const address = this.normalizeAddress(designation.address);
+      const listed = index.get(address);
+      if (listed) {
+        listed.push(designation);
+      } else {
+        index.set(address, [designation]);
       }
+    }
+    return index;
+  }
+
+  /**
+   * Normalize every name and alias once per load for fuzzy name search
+   */
+  private buildNameIndex(entities: SanctionEntity[]): IndexedName[] {
+    return entities.flatMap(entity => [
+      { entity, field: 'name' as const, value: entity.name, prepared: prepareName(entity.name) },
+      ...entity.aliases.map(alias => ({ entity, field: 'alias' as const, value: alias, prepared: prepareName(alias) }))
+    ]);
+  }
+
+  private normalizeAddress(address: string): string {
+    return address.trim().toLowerCase();
+  }
 
+  /**
+   * Load OFAC cryptocurrency sanctions data
+   */
+  private async loadOFACSanctions(): Promise<{ entities: SanctionEntity[]; version: SanctionsDataVersion | null }> {
+    try {
       const fileContent = await fs.readFile(this.dataFilePath, 'utf-8');
-      const ofacCryptoFile: OFACCryptoFile = JSON.parse(fileContent);
+      const ofacCryptoFile = this.parseOFACCryptoFile(fileContent);
+
+      // Keep a versioned copy so list updates can be diffed later
+      await this.recordSnapshot(fileContent);
       
       // Transform OFAC crypto data to standard format
       const entities = this.transformOFACCryptoData(ofacCryptoFile);
-      
-      // Filter active entities only
-      const activeEntities = entities.filter(entity => entity.isActive);
-
-      this.sanctionsCache = activeEntities;
-      this.lastLoadTime = Date.now();
 
-      logger.info(`Loaded ${activeEntities.length} active OFAC crypto sanctions`, {
+      logger.info(`Loaded ${entities.filter(entity => entity.isActive).length} active OFAC crypto sanctions`, {
         source: 'OFAC',
         filename: 'ofac-crypto-addresses.json',
         totalEntities: entities.length,
-        activeEntities: activeEntities.length,
         cryptocurrencies: ofacCryptoFile.metadata.cryptocurrencies
       });
+
+      const contentHash = createHash('sha256').update(fileContent).digest('hex');
+      return {
+        entities,
+        version: {
+          versionId: contentHash.slice(0, 12),
+          contentHash,
+          lastUpdated: ofacCryptoFile.metadata.lastUpdated
+        }
+      };
     } catch (error: any) {
       if (error.code === 'ENOENT') {
         logger.warn(`OFAC crypto sanctions file not found: ${this.dataFilePath}. Creating empty cache`);
-        this.sanctionsCache = [];
-        this.lastLoadTime = Date.now();
+        return { entities: [], version: null };
+      }
+      logger.error(`Failed to load OFAC crypto sanctions:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Parse and validate the OFAC crypto data file before anything is built from it
+   */
+  public parseOFACCryptoFile(fileContent: string): OFACCryptoFile {
+    const data = JSON.parse(fileContent) as Partial<OFACCryptoFile> | null;
+
+    if (!data || typeof data !== 'object' || !data.metadata || !Array.isArray(data.entities)) {
+      throw new Error('Invalid OFAC crypto sanctions file: missing metadata or entities');
+    }
+
+    const invalidIndex = data.entities.findIndex(entry =>
+      !entry ||
+      typeof entry.entityId !== 'string' ||
+      typeof entry.entityName !== 'string' ||
+      typeof entry.address !== 'string' ||
+      entry.address.length === 0 ||
+      typeof entry.isActive !== 'boolean'
+    );
+    if (invalidIndex !== -1) {
+      throw new Error(`Invalid OFAC crypto sanctions file: malformed entry at index ${invalidIndex}`);
+    }
+
+    return data as OFACCryptoFile;
+  }
+
+  /**
+   * Read the OFAC crypto data file currently on disk, or null if none has been published yet
+   */
+  public async readOFACCryptoFile(): Promise<OFACCryptoFile | null> {
+    try {
+      return this.parseOFACCryptoFile(await fs.readFile(this.dataFilePath, 'utf-8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the OFAC crypto data file atomically and reload it.
+   * If the new data is rejected on reload, the previous file is restored and an error is thrown.
+   */
+  public publishOFACCryptoFile(fileContent: string, trigger: string): Promise<SanctionsDataVersion | null> {
+    const run = this.publishQueue.then(async () => {
+      this.parseOFACCryptoFile(fileContent);
+
+      let previousContent: string | null = null;
+      try {
+        previousContent = await fs.readFile(this.dataFilePath, 'utf-8');
+      } catch (error: any) {
+        if (error.code !== 'ENOENT') {
+          throw error;
+        }
+      }
+
+      await writeFileAtomic(this.dataFilePath, fileContent);
+
+      if (await this.reloadSanctions(trigger)) {
+        return this.loaded.version;
+      }
+
+      if (previousContent === null) {
+        await fs.rm(this.dataFilePath, { force: true });
       } else {
-        logger.error(`Failed to load OFAC crypto sanctions:`, error);
-        throw error;
+        await writeFileAtomic(this.dataFilePath, previousContent);
       }
+      throw new Error('Published OFAC crypto sanctions data was rejected on reload; the previous file was restored');
+    });
+    this.publishQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async recordSnapshot(fileContent: string): Promise<SanctionsSnapshotInfo | null> {
+    try {
+      return await sanctionsHistoryService.recordSnapshot(fileContent);
+    } catch (error) {
+      // Snapshot history must never block screening
+      logger.warn('Failed to record sanctions snapshot:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Load a sanctions list from a locally dropped file (EU, UN, UK OFSI). A missing file skips the list;
+   * a file that cannot be read or parsed fails the load, so the last good data stays in use rather
+   * than a whole list silently dropping out of screening.
+   */
+  private async loadListFile(
+    source: SanctionSource,
+    filePath: string,
+    parser: SanctionsListParser
+  ): Promise<SanctionEntity[]> {
+    try {
+      const fileContent = await fs.readFile(filePath, 'utf-8');
+      const entities = parser.parse(fileContent);
+
+      logger.info(`Loaded ${entities.length} ${source} sanctions`, {
+        source,
+        filename: path.basename(filePath),
+        entitiesWithAddresses: entities.filter(entity => entity.addresses.length > 0).length
+      });
+
+      return entities;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        logger.debug(`${source} sanctions file not found: ${filePath}. Skipping ${source} list`);
+        return [];
+      }
+      logger.error(`Failed to load ${source} sanctions list:`, error);
+      throw new Error(`Invalid ${source} sanctions file ${path.basename(filePath)}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Count entities and addresses per sanctions source
+   */
+  private countBySource(entities: SanctionEntity[]): Partial<Record<SanctionSource, SourceCounts>> {
+    const counts: Partial<Record<SanctionSource, SourceCounts>> = {};
+
+    for (const entity of entities) {
+      const sourceCounts = counts[entity.listSource] || { totalEntities: 0, activeEntities: 0, addresses: 0 };
+      sourceCounts.totalEntities++;
+      if (entity.isActive) {
+        sourceCounts.activeEntities++;
+      }
+      sourceCounts.addresses += entity.addresses.length;
+      counts[entity.listSource] = sourceCounts;
     }
+
+    return counts;
   }
 
   /**
@@ -97,8 +548,9 @@ export class SanctionsDataService {
     
     for (const entry of ofacData.entities) {
       if (!entityMap.has(entry.entityId)) {
-        // Extract aliases from remarks
+        // Extract aliases and identifying details from remarks
         const aliases = this.extractAliasesFromRemarks(entry.remarks);
+        const details = parseSdnRemarks(entry.remarks);
         
         entityMap.set(entry.entityId, {
           entityId: entry.entityId,
@@ -107,7 +559,13 @@ export class SanctionsDataService {
           addresses: [entry.address],
           aliases: aliases,
           lastUpdated: ofacData.metadata.lastUpdated,
-          isActive: entry.isActive
+          isActive: entry.isActive,
+          entityType: entry.entityType,
+          programs: entry.programs && entry.programs.length > 0 ? [...entry.programs] : this.splitProgramCodes(entry.program),
+          remarks: entry.remarks,
+          addressesByCurrency: { [entry.cryptocurrency]: [entry.address] },
+          ...(details && { details }),
+          ...(this.isValidDate(entry.publishDate) && { designatedAt: new Date(entry.publishDate!).toISOString() })
         });
       } else {
         // Add address to existing entity
@@ -115,12 +573,46 @@ export class SanctionsDataService {
         if (!existingEntity.addresses.includes(entry.address)) {
           existingEntity.addresses.push(entry.address);
         }
+
+        const byCurrency = existingEntity.addressesByCurrency!;
+        const currencyAddresses = byCurrency[entry.cryptocurrency] || [];
+        if (!currencyAddresses.includes(entry.address)) {
+          byCurrency[entry.cryptocurrency] = [...currencyAddresses, entry.address];
+        }
+
+        for (const program of entry.programs || this.splitProgramCodes(entry.program)) {
+          if (!existingEntity.programs!.includes(program)) {
+            existingEntity.programs!.push(program);
+          }
+        }
+
+        // Keep the earliest publish date as the designation date
+        if (this.isValidDate(entry.publishDate)) {
+          const publishDate = new Date(entry.publishDate!).toISOString();
+          if (!existingEntity.designatedAt || publishDate < existingEntity.designatedAt) {
+            existingEntity.designatedAt = publishDate;
+          }
+        }
       }
     }
     
     return Array.from(entityMap.values());
   }
 
+  /**
+   * Split a combined SDN program field such as "DPRK3] [CYBER2" into its program codes
+   */
+  private splitProgramCodes(program: string): string[] {
+    return program
+      .split(/\]\s*\[/)
+      .map(code => code.replace(/[[\]]/g, '').trim())
+      .filter(code => code.length > 0);
+  }
+
+  private isValidDate(value: string | undefined): boolean {
+    return !!value && !isNaN(Date.parse(value));
+  }
+
   /**
    * Extract aliases from OFAC remarks field
    */
@@ -145,85 +637,213 @@ export class SanctionsDataService {
    */
   public async getAllSanctions(): Promise<SanctionEntity[]> {
     await this.loadAllSanctions();
-    return this.sanctionsCache;
+    return this.loaded.entities;
   }
 
   /**
-   * Find sanctions entities by address
+   * Get a single entity by ID, including delisted entities
    */
-  public async findSanctionsByAddress(address: string): Promise<SanctionEntity[]> {
-    const allSanctions = await this.getAllSanctions();
-    
-    return allSanctions.filter(entity => 
-      entity.addresses.some(addr => addr.toLowerCase() === address.toLowerCase())
-    );
+  public async getEntityById(entityId: string): Promise<SanctionEntity | null> {
+    await this.loadAllSanctions();
+    return this.loaded.entityIndex.get(entityId) || null;
+  }
+
+  /**
+   * List entities page by page, filtered by program, cryptocurrency and active status
+   */
+  public async listEntities(filters: EntityListRequest): Promise<PaginatedResult<SanctionEntity>> {
+    await this.loadAllSanctions();
+    const program = filters.program?.toLowerCase();
+    const currency = filters.currency?.toLowerCase();
+
+    const matching = this.loaded.allEntities.filter(entity => {
+      if (filters.active !== undefined && entity.isActive !== filters.active) {
+        return false;
+      }
+      if (program) {
+        const entityPrograms = [...(entity.programs || []), ...(entity.regime ? entity.regime.split('; ') : [])];
+        if (!entityPrograms.some(entityProgram => entityProgram.toLowerCase() === program)) {
+          return false;
+        }
+      }
+      if (currency) {
+        const currencies = Object.keys(entity.addressesByCurrency || {});
+        if (!currencies.some(code => code.toLowerCase() === currency)) {
+          return false;
+        }
+      }
+      return true;
+    });
+
+    const start = (filters.page - 1) * filters.pageSize;
+    return {
+      items: matching.slice(start, start + filters.pageSize),
+      pagination: {
+        page: filters.page,
+        pageSize: filters.pageSize,
+        total: matching.length,
+        totalPages: Math.ceil(matching.length / filters.pageSize)
+      }
+    };
+  }
+
+  /**
+   * Find sanctions entities by address.
+   * With asOf, returns the entities whose designation of the address was in force at that time.
+   */
+  public async findSanctionsByAddress(address: string, asOf?: string): Promise<SanctionEntity[]> {
+    await this.loadAllSanctions();
+    return this.lookupAddress(this.loaded, address, asOf);
   }
 
   /**
    * Find sanctions entities by multiple addresses
    */
-  public async findSanctionsByAddresses(addresses: string[]): Promise<Map<string, SanctionEntity[]>> {
-    const allSanctions = await this.getAllSanctions();
+  public async findSanctionsByAddresses(addresses: string[], asOf?: string): Promise<Map<string, SanctionEntity[]>> {
+    await this.loadAllSanctions();
+    // Read the index once so every address is matched against the same data version
+    const loaded = this.loaded;
     const results = new Map<string, SanctionEntity[]>();
     
     for (const address of addresses) {
-      const lowerAddress = address.toLowerCase();
-      const matchingEntities = allSanctions.filter(entity =>
-        entity.addresses.some(addr => addr.toLowerCase() === lowerAddress)
-      );
-      results.set(address, matchingEntities);
+      results.set(address, this.lookupAddress(loaded, address, asOf));
     }
     
     return results;
   }
 
   /**
-   * Search sanctions entities by name or alias (fuzzy search)
+   * Get the designation period of an entity's address in force at asOf, or the current one without asOf.
+   * Entities without recorded history (such as internal watchlist entries) fall back to their own designation date.
    */
-  public async searchSanctionsByName(query: string): Promise<SanctionEntity[]> {
-    const allSanctions = await this.getAllSanctions();
-    const lowerQuery = query.toLowerCase();
-    
-    return allSanctions.filter(entity => {
-      const nameMatch = entity.name.toLowerCase().includes(lowerQuery);
-      const aliasMatch = entity.aliases.some(alias => 
-        alias.toLowerCase().includes(lowerQuery)
-      );
-      return nameMatch || aliasMatch;
-    });
+  public getDesignationPeriod(entity: SanctionEntity, address: string, asOf?: string): DesignationPeriod | null {
+    const designation = (this.loaded.designationIndex.get(this.normalizeAddress(address)) || [])
+      .find(candidate => candidate.listSource === entity.listSource && candidate.entityId === entity.entityId);
+    if (!designation) {
+      return entity.designatedAt ? { designatedAt: entity.designatedAt } : null;
+    }
+
+    if (!asOf) {
+      const current = designation.periods[designation.periods.length - 1];
+      return current && !current.delistedAt ? current : null;
+    }
+    return designation.periods.find((_, index) => this.isPeriodInForce(designation.periods, index, asOf)) || null;
+  }
+
+  private lookupAddress(loaded: LoadedSanctions, address: string, asOf: string | undefined): SanctionEntity[] {
+    const normalized = this.normalizeAddress(address);
+    if (!asOf) {
+      return loaded.addressIndex.get(normalized) || [];
+    }
+
+    return (loaded.designationIndex.get(normalized) || [])
+      .filter(designation => designation.periods.some((_, index) => this.isPeriodInForce(designation.periods, index, asOf)))
+      .map(designation => loaded.entityIndex.get(designation.entityId) || {
+        // The entity has since been removed from its list; describe it from the recorded history
+        entityId: designation.entityId,
+        name: designation.entityName,
+        aliases: [],
+        addresses: [designation.address],
+        listSource: designation.listSource,
+        lastUpdated: designation.periods[designation.periods.length - 1]?.delistedAt || '',
+        isActive: false
+      });
+  }
+
+  /**
+   * Whether a designation period covers asOf. An estimated start is only when the address was first
+   * seen, so the period is taken to reach back to the end of the previous one, or to before tracking
+   * began for the first listing: an unknown designation date never rules a match out.
+   */
+  private isPeriodInForce(periods: DesignationPeriod[], index: number, asOf: string): boolean {
+    const period = periods[index] as DesignationPeriod;
+    const time = Date.parse(asOf);
+    const previousEnd = index > 0 ? periods[index - 1]?.delistedAt : undefined;
+    const startsBefore = period.estimated
+      ? !previousEnd || Date.parse(previousEnd) <= time
+      : Date.parse(period.designatedAt) <= time;
+    return startsBefore && (!period.delistedAt || time < Date.parse(period.delistedAt));
+  }
+
+  /**
+   * Search sanctions entities by name or alias (fuzzy search).
+   * Returns the best-scoring name or alias per entity, highest score first.
+   */
+  public async searchSanctionsByName(query: string, limit: number = 20, minScore: number = 70): Promise<SanctionNameMatch[]> {
+    await this.loadAllSanctions();
+    const preparedQuery = prepareName(query);
+    const bestByEntity = new Map<SanctionEntity, SanctionNameMatch>();
+
+    for (const { entity, field, value, prepared } of this.loaded.nameIndex) {
+      const score = scoreNameMatch(preparedQuery, prepared);
+      if (score < minScore) continue;
+
+      const best = bestByEntity.get(entity);
+      // Prefer the primary name when an alias scores the same
+      if (best && best.score >= score) continue;
+
+      bestByEntity.set(entity, {
+        entityId: entity.entityId,
+        name: entity.name,
+        listSource: entity.listSource,
+        jurisdiction: SANCTION_SOURCE_JURISDICTIONS[entity.listSource],
+        ...(entity.regime && { regime: entity.regime }),
+        aliases: entity.aliases,
+        matchedField: field,
+        matchedValue: value,
+        score
+      });
+    }
+
+    return Array.from(bestByEntity.values())
+      .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+      .slice(0, limit);
   }
 
   /**
-   * Get sanctions metadata
+   * Get sanctions metadata, including per-source entity and address counts
    */
   public async getSanctionsMetadata(): Promise<any> {
+    await this.loadAllSanctions();
+
+    let ofacMetadata: OFACCryptoFile['metadata'] | null = null;
     try {
       const fileContent = await fs.readFile(this.dataFilePath, 'utf-8');
       const ofacCryptoFile: OFACCryptoFile = JSON.parse(fileContent);
-      return ofacCryptoFile.metadata;
+      ofacMetadata = ofacCryptoFile.metadata;
     } catch (error) {
-      return null;
+      ofacMetadata = null;
     }
+
+    return {
+      ...ofacMetadata,
+      version: this.loaded.version,
+      sources: this.loaded.sourceCounts
+    };
   }
 
   /**
    * Clear cache
    */
   public clearCache(): void {
-    this.sanctionsCache = [];
-    this.lastLoadTime = 0;
-    logger.info('OFAC crypto sanctions cache cleared');
+    this.loaded = EMPTY_SANCTIONS;
+    logger.info('Sanctions cache cleared');
   }
 
   /**
    * Get cache statistics
    */
   public getCacheStats(): Record<string, any> {
+    const { entities, addressIndex, sourceCounts, version, loadTime } = this.loaded;
     return {
-      entitiesCount: this.sanctionsCache.length,
-      lastLoadTime: this.lastLoadTime ? new Date(this.lastLoadTime).toISOString() : null,
-      cacheAge: this.lastLoadTime ? Date.now() - this.lastLoadTime : null,
-      isValid: this.lastLoadTime ? (Date.now() - this.lastLoadTime) < this.cacheValidityMs : false,
+      entitiesCount: entities.length,
+      indexedAddresses: addressIndex.size,
+      sources: sourceCounts,
+      version,
+      lastLoadTime: loadTime ? new Date(loadTime).toISOString() : null,
+      cacheAge: loadTime ? Date.now() - loadTime : null,
+      isValid: loadTime ? (Date.now() - loadTime) < this.cacheValidityMs : false,
+      hotReload: this.watchers.length > 0,
       dataFile: this.dataFilePath
     };
   }
@@ -0,0 +1,433 @@
+import { createHash } from 'crypto';
+import path from 'path';
+import { promises as fs } from 'fs';
+import {
+  OFACCryptoEntry,
+  OFACCryptoFile,
+  SanctionsDiff,
+  SanctionsDiffAddress,
+  SanctionsSnapshotInfo,
+  SanctionEntity,
+  SanctionSource,
+  AddressDesignation,
+  DesignationPeriod,
+  DataNotFoundError
+} from '../types';
+import { readJsonFile, writeJsonFile, ensureDirectoryExists, getCurrentTimestamp, sanitizeFilename } from '../utils/fileUtils';
+import config from '../config';
+import logger from '../utils/logger';
+
+interface EntitySummary {
+  entityId: string;
+  entityName: string;
+  entityType: string;
+  program: string;
+  remarks: string;
+  isActive: boolean;
+}
+
+// One address as listed by one entity in a single load of the lists
+interface ListedAddress {
+  listSource: SanctionSource;
+  entityId: string;
+  entityName: string;
+  address: string;
+  isActive: boolean;
+  designatedAt?: string;
+}
+
+/**
+ * Service keeping versioned snapshots of the OFAC crypto data file and diffing them.
+ * Also tracks when each listed address was designated and delisted, for point-in-time screening.
+ */
+export class SanctionsHistoryService {
+  private readonly historyDir: string;
+  private readonly indexFilePath: string;
+  private readonly designationsFilePath: string;
+  private recordQueue: Promise<unknown> = Promise.resolve();
+
+  constructor() {
+    this.historyDir = path.join(config.sanctionsDir, 'history');
+    this.indexFilePath = path.join(this.historyDir, 'index.json');
+    this.designationsFilePath = path.join(this.historyDir, 'designations.json');
+  }
+
+  /**
+   * Record a snapshot of the given file content unless the same content is already stored
+   */
+  public recordSnapshot(fileContent: string): Promise<SanctionsSnapshotInfo> {
+    // Serialize writes so concurrent loads cannot clobber the index
+    const recording = this.recordQueue.then(() => this.writeSnapshot(fileContent));
+    this.recordQueue = recording.catch(() => undefined);
+    return recording;
+  }
+
+  private async writeSnapshot(fileContent: string): Promise<SanctionsSnapshotInfo> {
+    const contentHash = createHash('sha256').update(fileContent).digest('hex');
+    const snapshots = await this.listSnapshots();
+
+    const existing = snapshots.find(snapshot => snapshot.contentHash === contentHash);
+    if (existing) {
+      return existing;
+    }
+
+    const ofacCryptoFile: OFACCryptoFile = JSON.parse(fileContent);
+    const lastUpdated = ofacCryptoFile.metadata?.lastUpdated || getCurrentTimestamp();
+    const versionId = contentHash.slice(0, 12);
+    const fileName = sanitizeFilename(`${lastUpdated}_${versionId}.json`);
+
+    const snapshot: SanctionsSnapshotInfo = {
+      versionId,
+      contentHash,
+      lastUpdated,
+      recordedAt: getCurrentTimestamp(),
+      totalEntries: ofacCryptoFile.entities?.length || 0,
+      fileName
+    };
+
+    await ensureDirectoryExists(this.historyDir);
+    await fs.writeFile(path.join(this.historyDir, fileName), fileContent, 'utf-8');
+    await writeJsonFile(this.indexFilePath, [...snapshots, snapshot]);
+
+    logger.info(`Recorded sanctions snapshot ${versionId}`, {
+      versionId,
+      lastUpdated,
+      totalEntries: snapshot.totalEntries
+    });
+
+    return snapshot;
+  }
+
+  /**
+   * List recorded snapshots, oldest first
+   */
+  public async listSnapshots(): Promise<SanctionsSnapshotInfo[]> {
+    try {
+      return await readJsonFile<SanctionsSnapshotInfo[]>(this.indexFilePath);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve a version reference: version ID or hash prefix, metadata.lastUpdated, or "latest".
+   * A lastUpdated shared by several versions (a file republished without a new date) resolves to the newest.
+   */
+  public async resolveSnapshot(versionRef: string): Promise<SanctionsSnapshotInfo> {
+    const snapshots = await this.listSnapshots();
+    const ref = versionRef.trim();
+
+    const snapshot = ref === 'latest'
+      ? snapshots[snapshots.length - 1]
+      : [...snapshots].reverse().find(candidate => candidate.lastUpdated === ref) ||
+        (ref.length >= 7 ? snapshots.find(candidate => candidate.contentHash.startsWith(ref.toLowerCase())) : undefined);
+
+    if (!snapshot) {
+      throw new DataNotFoundError(`Sanctions version not found: ${versionRef}`, { version: versionRef });
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * Load the content of a recorded snapshot
+   */
+  public async loadSnapshot(snapshot: SanctionsSnapshotInfo): Promise<OFACCryptoFile> {
+    return readJsonFile<OFACCryptoFile>(path.join(this.historyDir, snapshot.fileName));
+  }
+
+  /**
+   * Diff two recorded versions of the sanctions data
+   */
+  public async diffVersions(fromRef: string, toRef: string): Promise<SanctionsDiff> {
+    const from = await this.resolveSnapshot(fromRef);
+    const to = await this.resolveSnapshot(toRef);
+
+    const fromData = await this.loadSnapshot(from);
+    const toData = await this.loadSnapshot(to);
+
+    return {
+      from,
+      to,
+      ...this.diffFiles(fromData, toData)
+    };
+  }
+
+  /**
+   * Compare two OFAC crypto files at entity and address level
+   */
+  public diffFiles(fromData: OFACCryptoFile, toData: OFACCryptoFile): Omit<SanctionsDiff, 'from' | 'to'> {
+    const fromEntities = this.summarizeEntities(fromData.entities);
+    const toEntities = this.summarizeEntities(toData.entities);
+
+    const entities: SanctionsDiff['entities'] = { added: [], removed: [], delisted: [], relisted: [], modified: [] };
+
+    for (const [entityId, current] of toEntities) {
+      const previous = fromEntities.get(entityId);
+      if (!previous) {
+        entities.added.push({ entityId, entityName: current.entityName });
+        continue;
+      }
+
+      if (previous.isActive && !current.isActive) {
+        entities.delisted.push({ entityId, entityName: current.entityName });
+      } else if (!previous.isActive && current.isActive) {
+        entities.relisted.push({ entityId, entityName: current.entityName });
+      }
+
+      const changedFields = (['entityName', 'entityType', 'program', 'remarks'] as const)
+        .filter(field => previous[field] !== current[field]);
+      if (changedFields.length > 0) {
+        entities.modified.push({ entityId, entityName: current.entityName, changedFields });
+      }
+    }
+
+    for (const [entityId, previous] of fromEntities) {
+      if (!toEntities.has(entityId)) {
+        entities.removed.push({ entityId, entityName: previous.entityName });
+      }
+    }
+
+    const fromAddresses = this.indexAddresses(fromData.entities);
+    const toAddresses = this.indexAddresses(toData.entities);
+
+    const addresses: SanctionsDiff['addresses'] = { added: [], removed: [], delisted: [], relisted: [] };
+
+    for (const [key, current] of toAddresses) {
+      const previous = fromAddresses.get(key);
+      if (!previous) {
+        addresses.added.push(this.toDiffAddress(current));
+      } else if (previous.isActive && !current.isActive) {
+        addresses.delisted.push(this.toDiffAddress(current));
+      } else if (!previous.isActive && current.isActive) {
+        addresses.relisted.push(this.toDiffAddress(current));
+      }
+    }
+
+    for (const [key, previous] of fromAddresses) {
+      if (!toAddresses.has(key)) {
+        addresses.removed.push(this.toDiffAddress(previous));
+      }
+    }
+
+    const summary: Record<string, number> = {};
+    for (const [category, items] of Object.entries(entities)) {
+      summary[`entities${category.charAt(0).toUpperCase()}${category.slice(1)}`] = items.length;
+    }
+    for (const [category, items] of Object.entries(addresses)) {
+      summary[`addresses${category.charAt(0).toUpperCase()}${category.slice(1)}`] = items.length;
+    }
+
+    return { summary, entities, addresses };
+  }
+
+  /**
+   * Update the designation periods of every listed address from a freshly loaded data set.
+   * listDates gives the date of each list's data, used to date changes a list does not date itself.
+   * On first use the periods are rebuilt from the recorded OFAC snapshots.
+   */
+  public updateDesignations(
+    entities: SanctionEntity[],
+    listDates: Partial<Record<SanctionSource, string>> = {}
+  ): Promise<AddressDesignation[]> {
+    const updating = this.recordQueue.then(() => this.writeDesignations(entities, listDates));
+    this.recordQueue = updating.catch(() => undefined);
+    return updating;
+  }
+
+  private async writeDesignations(
+    entities: SanctionEntity[],
+    listDates: Partial<Record<SanctionSource, string>>
+  ): Promise<AddressDesignation[]> {
+    const stored = await this.loadDesignations();
+    const designations = new Map<string, AddressDesignation>(
+      (stored || []).map(designation => [this.designationKey(designation), designation])
+    );
+
+    let changed = false;
+    if (!stored) {
+      for (const snapshot of await this.listSnapshots()) {
+        const snapshotData = await this.loadSnapshot(snapshot);
+        this.applyListedAddresses(designations, this.listedFromSnapshot(snapshotData), { OFAC: snapshot.lastUpdated });
+      }
+      changed = true;
+    }
+
+    const listed = entities.flatMap(entity => entity.addresses.map(address => ({
+      listSource: entity.listSource,
+      entityId: entity.entityId,
+      entityName: entity.name,
+      address,
+      isActive: entity.isActive,
+      ...(entity.designatedAt && { designatedAt: entity.designatedAt })
+    })));
+    changed = this.applyListedAddresses(designations, listed, listDates) || changed;
+
+    const result = Array.from(designations.values());
+    if (changed) {
+      try {
+        await ensureDirectoryExists(this.historyDir);
+        await writeJsonFile(this.designationsFilePath, result);
+      } catch (error) {
+        // Keep serving the updated periods; they are rebuilt on the next load
+        logger.error('Failed to save sanctions designation history:', error);
+      }
+    }
+
+    return result;
+  }
+
+  private async loadDesignations(): Promise<AddressDesignation[] | null> {
+    try {
+      return await readJsonFile<AddressDesignation[]>(this.designationsFilePath);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Open a period for newly listed addresses and close it for delisted or removed ones.
+   * Addresses missing from a source that contributed nothing to this load are left untouched,
+   * so a list file that failed to load does not delist everything it contains.
+   */
+  private applyListedAddresses(
+    designations: Map<string, AddressDesignation>,
+    listed: ListedAddress[],
+    listDates: Partial<Record<SanctionSource, string>>
+  ): boolean {
+    const now = getCurrentTimestamp();
+    const dateFor = (source: SanctionSource): string => listDates[source] || now;
+
+    // An address counts as listed if any entry of the entity lists it as active
+    const current = new Map<string, ListedAddress>();
+    for (const item of listed) {
+      const key = this.designationKey(item);
+      const existing = current.get(key);
+      current.set(key, existing ? { ...existing, isActive: existing.isActive || item.isActive } : item);
+    }
+
+    let changed = false;
+    for (const [key, item] of current) {
+      const designation = designations.get(key);
+      const openPeriod = designation && this.getOpenPeriod(designation);
+
+      if (item.isActive && !openPeriod) {
+        // A list's own designation date only applies to the first listing, not to a relisting
+        const period: DesignationPeriod = !designation && item.designatedAt
+          ? { designatedAt: item.designatedAt }
+          : { designatedAt: dateFor(item.listSource), estimated: true };
+
+        if (designation) {
+          designation.periods.push(period);
+        } else {
+          designations.set(key, this.toDesignation(item, [period]));
+        }
+        changed = true;
+      } else if (!item.isActive && openPeriod) {
+        openPeriod.delistedAt = dateFor(item.listSource);
+        changed = true;
+      } else if (!item.isActive && !designation) {
+        // First seen already delisted: only the list can tell when it was designated
+        designations.set(key, this.toDesignation(item, [{
+          designatedAt: item.designatedAt || dateFor(item.listSource),
+          delistedAt: dateFor(item.listSource),
+          ...(!item.designatedAt && { estimated: true })
+        }]));
+        changed = true;
+      }
+    }
+
+    const loadedSources = new Set(listed.map(item => item.listSource));
+    for (const [key, designation] of designations) {
+      const openPeriod = this.getOpenPeriod(designation);
+      if (openPeriod && !current.has(key) && loadedSources.has(designation.listSource)) {
+        openPeriod.delistedAt = dateFor(designation.listSource);
+        changed = true;
+      }
+    }
+
+    return changed;
+  }
+
+  private listedFromSnapshot(snapshotData: OFACCryptoFile): ListedAddress[] {
+    return (snapshotData.entities || []).map(entry => ({
+      listSource: 'OFAC' as const,
+      entityId: entry.entityId,
+      entityName: entry.entityName,
+      address: entry.address,
+      isActive: entry.isActive,
+      ...(entry.publishDate && !isNaN(Date.parse(entry.publishDate)) && {
+        designatedAt: new Date(entry.publishDate).toISOString()
+      })
+    }));
+  }
+
+  private toDesignation(item: ListedAddress, periods: DesignationPeriod[]): AddressDesignation {
+    return {
+      listSource: item.listSource,
+      entityId: item.entityId,
+      entityName: item.entityName,
+      address: item.address,
+      periods
+    };
+  }
+
+  private getOpenPeriod(designation: AddressDesignation): DesignationPeriod | undefined {
+    const last = designation.periods[designation.periods.length - 1];
+    return last && !last.delistedAt ? last : undefined;
+  }
+
+  private designationKey(item: { listSource: SanctionSource; entityId: string; address: string }): string {
+    return `${item.listSource}|${item.entityId}|${item.address.trim().toLowerCase()}`;
+  }
+
+  /**
+   * Collapse per-address entries into one summary per entity
+   */
+  private summarizeEntities(entries: OFACCryptoEntry[]): Map<string, EntitySummary> {
+    const summaries = new Map<string, EntitySummary>();
+
+    for (const entry of entries) {
+      const existing = summaries.get(entry.entityId);
+      if (existing) {
+        existing.isActive = existing.isActive || entry.isActive;
+        continue;
+      }
+      summaries.set(entry.entityId, {
+        entityId: entry.entityId,
+        entityName: entry.entityName,
+        entityType: entry.entityType,
+        program: entry.program,
+        remarks: entry.remarks,
+        isActive: entry.isActive
+      });
+    }
+
+    return summaries;
+  }
+
+  /**
+   * Index entries by entity, currency and address
+   */
+  private indexAddresses(entries: OFACCryptoEntry[]): Map<string, OFACCryptoEntry> {
+    return new Map(entries.map(entry => [`${entry.entityId}|${entry.cryptocurrency}|${entry.address}`, entry]));
+  }
+
+  private toDiffAddress(entry: OFACCryptoEntry): SanctionsDiffAddress {
+    return {
+      entityId: entry.entityId,
+      entityName: entry.entityName,
+      cryptocurrency: entry.cryptocurrency,
+      address: entry.address
+    };
+  }
+}
+
+// Export singleton instance
+export const sanctionsHistoryService = new SanctionsHistoryService();
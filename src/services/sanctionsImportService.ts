@@ -0,0 +1,189 @@
+import {
+  OFACCryptoEntry,
+  OFACCryptoFile,
+  SanctionsImportRequest,
+  SanctionsImportResult,
+  SanctionsDataVersion,
+  ValidationError
+} from '../types';
+import { SDNCryptoExtractor } from '../scripts/extractCryptoFromSDN';
+import { SUPPORTED_ASSETS, describeInvalidAddress, isValidAddressForAsset } from '../utils/validation';
+import { sanctionsDataService } from './sanctionsDataService';
+import { sanctionsHistoryService } from './sanctionsHistoryService';
+import { auditLogService } from './auditLogService';
+import logger from '../utils/logger';
+
+/**
+ * Service importing uploaded OFAC data (SDN CSV, sdn_advanced.xml or refined JSON) without shell access.
+ * Every import is validated and diffed against the current data; it is only published when confirmed.
+ */
+export class SanctionsImportService {
+  /**
+   * Extract and validate the uploaded data, diff it against the current data and publish it if confirmed.
+   * The trigger names what started the import in the reload and import audit entries. With maxRemovedShare,
+   * publishing is refused when the data would remove or delist more than that share of the current
+   * addresses, as a truncated file would.
+   */
+  public async importSanctions(
+    content: string,
+    request: SanctionsImportRequest,
+    correlationId?: string,
+    trigger: string = 'ADMIN_IMPORT',
+    maxRemovedShare?: number
+  ): Promise<SanctionsImportResult> {
+    const startTime = Date.now();
+    const dryRun = !request.confirm;
+
+    try {
+      const { data, fileContent } = this.extract(content, request.format);
+      const validation = this.validateAddresses(data.entities);
+      const current = await this.loadCurrentData();
+      const diff = sanctionsHistoryService.diffFiles(current, data);
+
+      let version: SanctionsDataVersion | null = null;
+      if (!dryRun) {
+        if (validation.invalidAddresses.length > 0 && !request.allowInvalidAddresses) {
+          throw new ValidationError(
+            `${validation.invalidAddresses.length} addresses failed validation; fix them or set allowInvalidAddresses to publish anyway`,
+            { invalidAddresses: validation.invalidAddresses }
+          );
+        }
+        const removedAddresses = diff.addresses.removed.length + diff.addresses.delisted.length;
+        if (maxRemovedShare !== undefined && current.entities.length > 0 &&
+            removedAddresses / current.entities.length > maxRemovedShare) {
+          throw new ValidationError(
+            `The data removes or delists ${removedAddresses} of ${current.entities.length} current addresses, ` +
+            `more than the allowed share of ${maxRemovedShare}`,
+            { removedAddresses, currentAddresses: current.entities.length, maxRemovedShare }
+          );
+        }
+        version = await sanctionsDataService.publishOFACCryptoFile(fileContent, trigger);
+      }
+
+      const result: SanctionsImportResult = {
+        format: request.format,
+        dryRun,
+        published: !dryRun,
+        version,
+        metadata: data.metadata,
+        validation,
+        diff
+      };
+
+      logger.info(dryRun ? 'Sanctions import dry run completed' : 'Sanctions data imported and published', {
+        format: request.format,
+        totalAddresses: validation.totalAddresses,
+        invalidAddresses: validation.invalidAddresses.length,
+        versionId: version?.versionId || null,
+        correlationId
+      });
+
+      await auditLogService.logSanctionsImport({
+        trigger,
+        format: request.format,
+        dryRun,
+        published: result.published,
+        version,
+        totalAddresses: validation.totalAddresses,
+        invalidAddresses: validation.invalidAddresses.length,
+        changes: diff.summary
+      }, Date.now() - startTime, correlationId);
+
+      return result;
+    } catch (error) {
+      await auditLogService.logSanctionsImport({
+        trigger,
+        format: request.format,
+        dryRun,
+        published: false
+      }, Date.now() - startTime, correlationId, false, (error as Error).message);
+      throw error;
+    }
+  }
+
+  /**
+   * Run the SDN extractor in-process, or parse refined JSON as is, into the OFAC crypto data file format
+   */
+  private extract(content: string, format: SanctionsImportRequest['format']): { data: OFACCryptoFile; fileContent: string } {
+    let data: OFACCryptoFile;
+    let fileContent: string;
+
+    try {
+      if (format === 'refined-json') {
+        // Published unchanged, so the data version matches the uploaded file
+        data = sanctionsDataService.parseOFACCryptoFile(content);
+        fileContent = content;
+      } else {
+        const extracted = new SDNCryptoExtractor('upload', '', format).processContent(content);
+        fileContent = JSON.stringify(extracted, null, 2);
+        data = sanctionsDataService.parseOFACCryptoFile(fileContent);
+      }
+    } catch (error) {
+      throw new ValidationError(`Invalid ${format} sanctions file: ${(error as Error).message}`, { format });
+    }
+
+    if (data.entities.length === 0) {
+      // Publishing this would silently drop every OFAC address
+      throw new ValidationError(`No cryptocurrency addresses found in the ${format} sanctions file`, { format });
+    }
+
+    return { data, fileContent };
+  }
+
+  /**
+   * Check every address against the format of its cryptocurrency.
+   * Currencies without a known format (e.g. USDT, TRX) are counted but cannot be checked.
+   */
+  private validateAddresses(entries: OFACCryptoEntry[]): SanctionsImportResult['validation'] {
+    const validation: SanctionsImportResult['validation'] = {
+      totalAddresses: entries.length,
+      validAddresses: 0,
+      invalidAddresses: [],
+      unverifiedAddresses: {}
+    };
+
+    for (const entry of entries) {
+      const asset = SUPPORTED_ASSETS.find(candidate => candidate === entry.cryptocurrency.toUpperCase());
+      if (!asset) {
+        validation.unverifiedAddresses[entry.cryptocurrency] = (validation.unverifiedAddresses[entry.cryptocurrency] || 0) + 1;
+        continue;
+      }
+
+      if (isValidAddressForAsset(entry.address.trim(), asset)) {
+        validation.validAddresses++;
+      } else {
+        validation.invalidAddresses.push({
+          entityId: entry.entityId,
+          entityName: entry.entityName,
+          cryptocurrency: entry.cryptocurrency,
+          address: entry.address,
+          reason: describeInvalidAddress(entry.address.trim(), asset)
+        });
+      }
+    }
+
+    return validation;
+  }
+
+  /**
+   * Load the current OFAC crypto data to diff against; a missing or unreadable file diffs as empty
+   */
+  private async loadCurrentData(): Promise<OFACCryptoFile> {
+    try {
+      const current = await sanctionsDataService.readOFACCryptoFile();
+      if (current) {
+        return current;
+      }
+    } catch (error) {
+      logger.warn('Current OFAC crypto sanctions file is invalid, diffing the import against empty data:', error);
+    }
+
+    return {
+      metadata: { source: '', lastUpdated: '', version: '', totalEntities: 0, cryptocurrencies: {} },
+      entities: []
+    };
+  }
+}
+
+// Export singleton instance
+export const sanctionsImportService = new SanctionsImportService();
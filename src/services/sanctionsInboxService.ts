@@ -0,0 +1,198 @@
+import path from 'path';
+import { promises as fs } from 'fs';
+import { SanctionsImportFormat, SanctionsInboxStatus } from '../types';
+import { ensureDirectoryExists, getCurrentTimestamp } from '../utils/fileUtils';
+import { sanctionsImportService } from './sanctionsImportService';
+import config from '../config';
+import logger from '../utils/logger';
+
+// Files still being written are left for the next poll
+const SETTLE_MS = 10 * 1000;
+
+// Recognized drops, richest format first
+const INBOX_FILES: Array<{ name: string; format: SanctionsImportFormat }> = [
+  { name: 'sdn_advanced.xml', format: 'advanced-xml' },
+  { name: 'sdn.csv', format: 'csv' }
+];
+
+interface InboxFile {
+  name: string;
+  format: SanctionsImportFormat;
+  filePath: string;
+}
+
+/**
+ * Service polling config.sanctionsDir/inbox for OFAC files dropped by the download process.
+ * New files are extracted, validated and published like an admin import, then moved to inbox/archive
+ * (or inbox/failed). The outcome of the last run is reported by /api/health.
+ */
+export class SanctionsInboxService {
+  private readonly inboxDir: string;
+  private readonly archiveDir: string;
+  private readonly failedDir: string;
+  private timer: NodeJS.Timeout | null = null;
+  private polling: Promise<void> | null = null;
+  private lastPollAt: string | null = null;
+  private lastImport: SanctionsInboxStatus['lastImport'] = null;
+  private lastFailure: SanctionsInboxStatus['lastFailure'] = null;
+
+  constructor() {
+    this.inboxDir = path.join(config.sanctionsDir, 'inbox');
+    this.archiveDir = path.join(this.inboxDir, 'archive');
+    this.failedDir = path.join(this.inboxDir, 'failed');
+  }
+
+  /**
+   * Check the inbox now and then every config.sanctionsInboxPollSeconds
+   */
+  public start(): void {
+    if (this.timer || config.sanctionsInboxPollSeconds <= 0) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.poll(), config.sanctionsInboxPollSeconds * 1000);
+    this.poll();
+    logger.info(`Polling ${this.inboxDir} for sanctions files every ${config.sanctionsInboxPollSeconds}s`);
+  }
+
+  /**
+   * Stop polling the inbox
+   */
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Process the files currently in the inbox; a poll still running is awaited rather than overlapped
+   */
+  public poll(): Promise<void> {
+    if (!this.polling) {
+      this.polling = this.processInbox().finally(() => {
+        this.polling = null;
+      });
+    }
+    return this.polling;
+  }
+
+  public getStatus(): SanctionsInboxStatus {
+    return {
+      enabled: this.timer !== null,
+      inboxDir: this.inboxDir,
+      pollIntervalSeconds: config.sanctionsInboxPollSeconds,
+      lastPollAt: this.lastPollAt,
+      lastImport: this.lastImport,
+      lastFailure: this.lastFailure
+    };
+  }
+
+  /**
+   * Whether the most recent inbox run failed and no file has been imported since
+   */
+  public hasUnresolvedFailure(): boolean {
+    return this.lastFailure !== null &&
+      (this.lastImport === null || this.lastImport.importedAt < this.lastFailure.failedAt);
+  }
+
+  private async processInbox(): Promise<void> {
+    this.lastPollAt = getCurrentTimestamp();
+
+    let files: InboxFile[];
+    try {
+      files = await this.findReadyFiles();
+    } catch (error) {
+      logger.error(`Failed to read sanctions inbox ${this.inboxDir}:`, error);
+      this.lastFailure = { failedAt: getCurrentTimestamp(), error: (error as Error).message };
+      return;
+    }
+
+    let imported = false;
+    for (const file of files) {
+      if (imported) {
+        // Both formats carry the same list; the richer one has already been published
+        logger.info(`Archiving ${file.name} without importing it, superseded by a richer file in the same drop`);
+        await this.moveFile(file, this.archiveDir);
+        continue;
+      }
+      imported = await this.importFile(file);
+    }
+  }
+
+  /**
+   * List recognized files that have not been modified for a while, richest format first
+   */
+  private async findReadyFiles(): Promise<InboxFile[]> {
+    await ensureDirectoryExists(this.inboxDir);
+    const entries = await fs.readdir(this.inboxDir, { withFileTypes: true });
+
+    const files: InboxFile[] = [];
+    for (const { name, format } of INBOX_FILES) {
+      const entry = entries.find(candidate => candidate.isFile() && candidate.name.toLowerCase() === name);
+      if (!entry) {
+        continue;
+      }
+
+      const filePath = path.join(this.inboxDir, entry.name);
+      const stats = await fs.stat(filePath);
+      if (Date.now() - stats.mtimeMs < SETTLE_MS) {
+        logger.debug(`Sanctions inbox file ${entry.name} is still being written, retrying on next poll`);
+        continue;
+      }
+      files.push({ name: entry.name, format, filePath });
+    }
+    return files;
+  }
+
+  /**
+   * Import and publish one file, then move it to the archive, or to the failed folder if it was rejected
+   */
+  private async importFile(file: InboxFile): Promise<boolean> {
+    logger.info(`Importing sanctions file ${file.name} from the inbox`, { format: file.format });
+
+    try {
+      const content = await fs.readFile(file.filePath, 'utf-8');
+      // Nobody reviews unattended imports, so a drop failing validation or removing a large share of
+      // the addresses (as a truncated file would) is quarantined instead of published
+      const result = await sanctionsImportService.importSanctions(
+        content,
+        { format: file.format, confirm: true, allowInvalidAddresses: false },
+        undefined,
+        'INBOX',
+        config.sanctionsInboxMaxRemovedShare
+      );
+
+      this.lastImport = {
+        file: file.name,
+        importedAt: getCurrentTimestamp(),
+        versionId: result.version?.versionId || null
+      };
+
+      await this.moveFile(file, this.archiveDir);
+      return true;
+    } catch (error) {
+      logger.error(`Failed to import sanctions file ${file.name} from the inbox:`, error);
+      this.lastFailure = { file: file.name, failedAt: getCurrentTimestamp(), error: (error as Error).message };
+      await this.moveFile(file, this.failedDir);
+      return false;
+    }
+  }
+
+  /**
+   * Move a processed file out of the inbox under a timestamped name, so later drops never overwrite it
+   */
+  private async moveFile(file: InboxFile, targetDir: string): Promise<void> {
+    const stamp = getCurrentTimestamp().replace(/[:.]/g, '-');
+    try {
+      await ensureDirectoryExists(targetDir);
+      await fs.rename(file.filePath, path.join(targetDir, `${stamp}-${file.name}`));
+    } catch (error) {
+      // Left in place, the file is retried on the next poll
+      logger.error(`Failed to move sanctions inbox file ${file.name} to ${targetDir}:`, error);
+    }
+  }
+}
+
+// Export singleton instance
+export const sanctionsInboxService = new SanctionsInboxService();
@@ -3,10 +3,21 @@ import {
   TransactionPathNode, 
   BitcoinTransaction,
   SanctionMatch,
-  ExternalApiError 
+  SanctionEntity,
+  BitcoinNetwork,
+  BlockchainCacheStats,
+  BlockchainRequestPriority,
+  SkippedPathLookup,
+  ExternalApiError,
+  SANCTION_SOURCE_JURISDICTIONS
 } from '../types';
 import { blockchainApiService } from './blockchainApiService';
+import { blockchainCacheService } from './blockchainCacheService';
 import { sanctionsDataService } from './sanctionsDataService';
+import { watchlistService } from './watchlistService';
+import { allowlistService } from './allowlistService';
+import { programRiskService } from './programRiskService';
+import config from '../config';
 import logger from '../utils/logger';
 
 /**
@@ -17,18 +28,26 @@ export class TransactionPathAnalysisService {
   private readonly analysisCache = new Map<string, TransactionPathAnalysis>();
   private readonly cacheValidityMs = 1000 * 60 * 30; // 30 minutes
 
-  constructor() {}
+  constructor() {
+    // Cached analyses flag sanctioned nodes against the lists as they stood, so drop them when the lists change
+    sanctionsDataService.onReload(() => this.clearCache());
+  }
 
   /**
-   * Analyze transaction paths from a given address
+   * Analyze transaction paths from a given address.
+   * With asOf, addresses along the path are checked against the lists as they stood at that time.
+   * Bulk analyses wait behind interactive ones for blockchain API capacity.
    */
   async analyzeTransactionPath(
     targetAddress: string,
     maxHops: number = 5,
-    correlationId?: string
+    correlationId?: string,
+    network: BitcoinNetwork = 'mainnet',
+    asOf?: string,
+    priority: BlockchainRequestPriority = 'interactive'
   ): Promise<TransactionPathAnalysis> {
     const startTime = Date.now();
-    const cacheKey = `${targetAddress}-${maxHops}`;
+    const cacheKey = `${network}-${targetAddress}-${maxHops}-${asOf || 'now'}`;
 
     try {
       // Check cache first
@@ -36,63 +55,73 @@ export class TransactionPathAnalysisService {
         const cached = this.analysisCache.get(cacheKey)!;
         if (Date.now() - new Date(cached.pathNodes[0]?.timestamp || 0).getTime() < this.cacheValidityMs) {
           logger.debug(`Using cached transaction path analysis for ${targetAddress}`, { correlationId });
-          return cached;
+          return this.applyAllowlist(cached, correlationId);
         }
         this.analysisCache.delete(cacheKey);
       }
 
       logger.info(`Starting transaction path analysis for ${targetAddress}`, {
         maxHops,
+        network,
         correlationId
       });
 
       const analysis: TransactionPathAnalysis = {
         targetAddress,
+        network,
+        ...(asOf && { asOf }),
         maxHops,
         totalNodesAnalyzed: 0,
         sanctionedNodesFound: 0,
         pathNodes: [],
-        riskPropagation: 0
+        riskPropagation: 0,
+        complete: true
       };
 
       // Get initial address transactions
-      const addressTransactions = await blockchainApiService.getAddressTransactions(targetAddress, 25);
+      const addressTransactionIds = await blockchainApiService.getAddressTransactionIds(targetAddress, 25, network, priority);
       const visitedAddresses = new Set<string>([targetAddress]);
       const visitedTransactions = new Set<string>();
 
       // Analyze transactions hop by hop
       await this.analyzeHop(
         targetAddress,
-        addressTransactions.map(tx => tx.txid),
+        addressTransactionIds,
         0,
         maxHops,
         analysis,
         visitedAddresses,
         visitedTransactions,
+        priority,
         correlationId
       );
 
       // Calculate risk propagation
       analysis.riskPropagation = this.calculateRiskPropagation(analysis);
 
-      // Cache the result
-      this.analysisCache.set(cacheKey, analysis);
+      // Cache the result; an incomplete analysis is retried on the next request
+      if (analysis.complete) {
+        this.analysisCache.set(cacheKey, analysis);
+      }
 
       const processingTime = Date.now() - startTime;
       logger.info(`Completed transaction path analysis for ${targetAddress}`, {
         totalNodesAnalyzed: analysis.totalNodesAnalyzed,
         sanctionedNodesFound: analysis.sanctionedNodesFound,
         riskPropagation: analysis.riskPropagation,
+        complete: analysis.complete,
+        skippedLookups: analysis.skippedLookups?.length || 0,
         processingTimeMs: processingTime,
         correlationId
       });
 
-      return analysis;
+      return this.applyAllowlist(analysis, correlationId);
     } catch (error) {
       logger.error(`Transaction path analysis failed for ${targetAddress}:`, error, { correlationId });
       throw new ExternalApiError(`Transaction path analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`, {
         targetAddress,
         maxHops,
+        network,
         correlationId
       });
     }
@@ -109,6 +138,7 @@ export class TransactionPathAnalysisService {
     analysis: TransactionPathAnalysis,
     visitedAddresses: Set<string>,
     visitedTransactions: Set<string>,
+    priority: BlockchainRequestPriority,
     correlationId?: string
   ): Promise<void> {
     if (currentHop >= maxHops || transactionIds.length === 0) {
@@ -130,10 +160,10 @@ export class TransactionPathAnalysisService {
         .map(async (txid) => {
           try {
             visitedTransactions.add(txid);
-            const transaction = await blockchainApiService.getTransaction(txid);
+            const transaction = await blockchainApiService.getTransaction(txid, analysis.network, priority);
             return { txid, transaction };
           } catch (error) {
-            logger.warn(`Failed to fetch transaction ${txid} in path analysis:`, error, { correlationId });
+            this.recordSkippedLookup(analysis, { hop: currentHop + 1, txid, error: this.describeError(error) }, correlationId);
             return null;
           }
         });
@@ -162,19 +192,24 @@ export class TransactionPathAnalysisService {
           for (const nextAddress of nextHopAddresses) {
             visitedAddresses.add(nextAddress);
             try {
-              const nextTransactions = await blockchainApiService.getAddressTransactions(nextAddress, 5);
+              const nextTransactionIds = await blockchainApiService.getAddressTransactionIds(nextAddress, 5, analysis.network, priority);
               await this.analyzeHop(
                 nextAddress,
-                nextTransactions.map(tx => tx.txid),
+                nextTransactionIds,
                 currentHop + 1,
                 maxHops,
                 analysis,
                 visitedAddresses,
                 visitedTransactions,
+                priority,
                 correlationId
               );
             } catch (error) {
-              logger.warn(`Failed to analyze next hop for address ${nextAddress}:`, error, { correlationId });
+              this.recordSkippedLookup(
+                analysis,
+                { hop: currentHop + 2, address: nextAddress, error: this.describeError(error) },
+                correlationId
+              );
             }
           }
         }
@@ -182,6 +217,21 @@ export class TransactionPathAnalysisService {
     }
   }
 
+  /**
+   * Record a failed lookup so the analysis is reported as incomplete instead of silently missing hops
+   */
+  private recordSkippedLookup(analysis: TransactionPathAnalysis, lookup: SkippedPathLookup, correlationId?: string): void {
+    logger.warn(`Path analysis for ${analysis.targetAddress} skipped ${lookup.txid ? `transaction ${lookup.txid}` : `address ${lookup.address}`} at hop ${lookup.hop}: ${lookup.error}`, {
+      correlationId
+    });
+    analysis.complete = false;
+    analysis.skippedLookups = [...(analysis.skippedLookups || []), lookup];
+  }
+
+  private describeError(error: unknown): string {
+    return error instanceof Error ? error.message : 'Unknown error';
+  }
+
   /**
    * Analyze a single transaction for sanctions exposure
    */
@@ -195,56 +245,106 @@ export class TransactionPathAnalysisService {
     analysis.totalNodesAnalyzed++;
 
     // Extract all addresses from the transaction
-    const addresses = blockchainApiService.extractAddressesFromTransaction(transaction);
+    const addresses = blockchainApiService.extractAddressesFromTransaction(transaction)
+      .filter(address => !visitedAddresses.has(address));
+
+    let sanctionsByAddress: Map<string, SanctionEntity[]>;
+    let watchlistHitsByAddress: Map<string, SanctionEntity[]>;
+    try {
+      // Sanctions lists designate mainnet addresses; test networks only use their own watchlists
+      sanctionsByAddress = analysis.network === 'mainnet'
+        ? await sanctionsDataService.findSanctionsByAddresses(addresses, analysis.asOf)
+        : new Map();
+      watchlistHitsByAddress = await watchlistService.findSanctionsByAddresses(addresses, analysis.network, analysis.asOf);
+    } catch (error) {
+      this.recordSkippedLookup(analysis, { hop: hop + 1, txid: transaction.txid, error: this.describeError(error) }, correlationId);
+      return;
+    }
     
     // Check each address against sanctions lists
     for (const address of addresses) {
-      if (visitedAddresses.has(address)) continue;
-      
-      try {
-        // Check if address is sanctioned
-        const sanctions = await sanctionsDataService.getAllSanctions();
-        const sanctionMatches: SanctionMatch[] = [];
-
-        for (const entity of sanctions) {
-          if (entity.addresses.includes(address)) {
-            sanctionMatches.push({
-              listSource: entity.listSource,
-              entityName: entity.name,
-              entityId: entity.entityId,
-              matchType: 'DIRECT',
-              confidence: 100,
-              matchedAddress: address
-            });
-          }
-        }
+      // Check if address is sanctioned
+      const entities = [...(sanctionsByAddress.get(address) || []), ...(watchlistHitsByAddress.get(address) || [])];
+      const sanctionMatches: SanctionMatch[] = entities.map(entity => ({
+        listSource: entity.listSource,
+        jurisdiction: SANCTION_SOURCE_JURISDICTIONS[entity.listSource],
+        ...(entity.regime && { regime: entity.regime }),
+        entityName: entity.name,
+        entityId: entity.entityId,
+        matchType: 'DIRECT',
+        confidence: 100,
+        matchedAddress: address
+      }));
+
+      if (sanctionMatches.length > 0) {
+        analysis.sanctionedNodesFound++;
+        const { programFactor, severity } = await this.resolveProgramRisk(entities);
+        
+        // Create path node for sanctioned address
+        const pathNode: TransactionPathNode = {
+          address,
+          txid: transaction.txid,
+          hop: hop + 1,
+          value: this.calculateTransactionValue(transaction, address),
+          timestamp: transaction.blockTime * 1000, // Convert to milliseconds
+          riskContribution: this.calculateRiskContribution(hop + 1, sanctionMatches.length, programFactor),
+          entityIds: sanctionMatches.map(match => match.entityId),
+          ...(severity && { severity })
+        };
+
+        analysis.pathNodes.push(pathNode);
+
+        logger.warn(`Sanctioned address found in transaction path`, {
+          address,
+          txid: transaction.txid,
+          hop: hop + 1,
+          sanctionMatches: sanctionMatches.length,
+          correlationId
+        });
+      }
+    }
+  }
 
-        if (sanctionMatches.length > 0) {
-          analysis.sanctionedNodesFound++;
-          
-          // Create path node for sanctioned address
-          const pathNode: TransactionPathNode = {
-            address,
-            txid: transaction.txid,
-            hop: hop + 1,
-            value: this.calculateTransactionValue(transaction, address),
-            timestamp: transaction.blockTime * 1000, // Convert to milliseconds
-            riskContribution: this.calculateRiskContribution(hop + 1, sanctionMatches.length)
-          };
-
-          analysis.pathNodes.push(pathNode);
-
-          logger.warn(`Sanctioned address found in transaction path`, {
-            address,
-            txid: transaction.txid,
-            hop: hop + 1,
-            sanctionMatches: sanctionMatches.length,
-            correlationId
-          });
+  /**
+   * Down-weight path nodes covered by an allowlist entry for the target address.
+   * Works on a copy so cached analyses stay unadjusted when the allowlist changes.
+   */
+  private async applyAllowlist(
+    analysis: TransactionPathAnalysis,
+    correlationId?: string
+  ): Promise<TransactionPathAnalysis> {
+    try {
+      let adjusted = false;
+      const pathNodes = await Promise.all(analysis.pathNodes.map(async node => {
+        const entityIds = node.entityIds || [];
+        const entry = await allowlistService.findApplicableEntry(
+          analysis.targetAddress,
+          'INDIRECT',
+          [node.address, ...entityIds]
+        );
+        if (!entry) {
+          return node;
         }
-      } catch (error) {
-        logger.warn(`Failed to check sanctions for address ${address}:`, error, { correlationId });
+
+        adjusted = true;
+        return {
+          ...node,
+          riskContribution: Math.round(node.riskContribution * config.allowlistIndirectRiskFactor),
+          allowlisted: allowlistService.toSuppression(entry, 'INDIRECT', node.address, entityIds, node.riskContribution)
+        };
+      }));
+
+      if (!adjusted) {
+        return analysis;
       }
+
+      const result: TransactionPathAnalysis = { ...analysis, pathNodes };
+      result.riskPropagation = this.calculateRiskPropagation(result);
+      return result;
+    } catch (error) {
+      // Report the unadjusted exposure rather than failing the analysis
+      logger.error(`Failed to apply allowlist to path analysis for ${analysis.targetAddress}:`, error, { correlationId });
+      return analysis;
     }
   }
 
@@ -274,12 +374,34 @@ export class TransactionPathAnalysisService {
   /**
    * Calculate risk contribution based on hop distance and number of matches
    */
-  private calculateRiskContribution(hop: number, matchCount: number): number {
+  private calculateRiskContribution(hop: number, matchCount: number, programFactor: number = 1): number {
     // Risk decreases with distance (hop) and increases with match count
     const hopPenalty = Math.max(0, 100 - (hop * 20)); // Decreases by 20 points per hop
     const matchBonus = Math.min(50, matchCount * 25); // Up to 50 points for multiple matches
     
-    return Math.min(100, hopPenalty + matchBonus);
+    return Math.min(100, Math.round((hopPenalty + matchBonus) * programFactor));
+  }
+
+  /**
+   * Weigh exposure by the highest-weighted program among the entities listing an address,
+   * relative to the weight of its list, so e.g. DPRK exposure counts more than narcotics exposure
+   */
+  private async resolveProgramRisk(entities: SanctionEntity[]): Promise<{ programFactor: number; severity?: string }> {
+    let programFactor = 1;
+    let strongestWeight = -1;
+    let severity: string | undefined;
+
+    for (const entity of entities) {
+      const risk = await programRiskService.resolveRisk(entity);
+      if (risk.weight > strongestWeight) {
+        const sourceWeight = config.sanctionSourceWeights[entity.listSource] || 0;
+        strongestWeight = risk.weight;
+        programFactor = sourceWeight > 0 ? risk.weight / sourceWeight : 1;
+        severity = risk.severity;
+      }
+    }
+
+    return { programFactor, ...(severity && { severity }) };
   }
 
   /**
@@ -302,8 +424,9 @@ export class TransactionPathAnalysisService {
 
     const averageRisk = totalWeightedRisk / totalWeight;
     
-    // Apply penalty for multiple sanctioned nodes
-    const nodePenalty = Math.min(25, analysis.sanctionedNodesFound * 5);
+    // Apply penalty for multiple sanctioned nodes, not counting allowlisted ones
+    const allowlistedNodes = analysis.pathNodes.filter(node => node.allowlisted).length;
+    const nodePenalty = Math.min(25, (analysis.sanctionedNodesFound - allowlistedNodes) * 5);
     
     return Math.min(100, Math.round(averageRisk + nodePenalty));
   }
@@ -328,12 +451,13 @@ export class TransactionPathAnalysisService {
   }
 
   /**
-   * Get cache statistics
+   * Get cache statistics, with those of the blockchain data the analyses are built from
    */
-  getCacheStats(): { size: number; maxSize: number } {
+  getCacheStats(): { size: number; maxSize: number; blockchain: BlockchainCacheStats } {
     return {
       size: this.analysisCache.size,
-      maxSize: 100 // We can add a max size limit if needed
+      maxSize: 100, // We can add a max size limit if needed
+      blockchain: blockchainCacheService.getStats()
     };
   }
 }
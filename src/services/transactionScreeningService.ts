@@ -4,6 +4,8 @@ import {
   TransactionScreeningRequest,
   SanctionMatch,
   RiskLevel,
+  BitcoinNetwork,
+  BlockchainRequestPriority,
   ValidationError,
   ExternalApiError
 } from '../types';
@@ -16,6 +18,8 @@ import logger from '../utils/logger';
 
 export interface TransactionScreeningResult {
   txHash: string;
+  network: BitcoinNetwork;
+  asOf?: string; // Addresses were screened against the lists as they stood at this time
   direction: 'incoming' | 'outgoing' | 'both';
   inputAddresses: ScreeningResult[];
   outputAddresses: ScreeningResult[];
@@ -34,13 +38,19 @@ export interface TransactionScreeningResult {
 export class TransactionScreeningService {
 
   /**
-   * Screen a Bitcoin transaction by analyzing input and output addresses
+   * Screen a Bitcoin transaction by analyzing input and output addresses.
+   * Addresses are screened against the lists as they stood at asOf, which defaults to the
+   * transaction's block time; unconfirmed transactions are screened against the current lists.
+   * Bulk screens wait behind interactive ones for blockchain API capacity.
    */
   async screenTransaction(
     txHash: string,
     direction: 'incoming' | 'outgoing' | 'both' = 'both',
     includeMetadata: boolean = false,
-    correlationId?: string
+    correlationId?: string,
+    network: BitcoinNetwork = 'mainnet',
+    asOf?: string,
+    priority: BlockchainRequestPriority = 'interactive'
   ): Promise<TransactionScreeningResult> {
     const startTime = Date.now();
 
@@ -54,11 +64,15 @@ export class TransactionScreeningService {
         txHash,
         direction,
         includeMetadata,
+        network,
         correlationId
       });
 
       // Get transaction details from blockchain
-      const transaction = await blockchainApiService.getTransaction(txHash);
+      const transaction = await blockchainApiService.getTransaction(txHash, network, priority);
+      // Defaulting to the block time only drops matches whose designation date the list published;
+      // an estimated designation date counts as listed before tracking began
+      const screenedAsOf = asOf || (transaction.blockTime > 0 ? new Date(transaction.blockTime * 1000).toISOString() : undefined);
       
       // Extract addresses based on direction
       let inputAddresses: string[] = [];
@@ -81,7 +95,10 @@ export class TransactionScreeningService {
               address,
               false, // Don't include transaction analysis for each address to avoid recursion
               3, // Limited hops for transaction screening
-              correlationId
+              correlationId,
+              'XBT',
+              network,
+              screenedAsOf
             );
             inputScreeningResults.push(result);
           } catch (error) {
@@ -99,7 +116,10 @@ export class TransactionScreeningService {
               address,
               false, // Don't include transaction analysis for each address to avoid recursion
               3, // Limited hops for transaction screening
-              correlationId
+              correlationId,
+              'XBT',
+              network,
+              screenedAsOf
             );
             outputScreeningResults.push(result);
           } catch (error) {
@@ -128,6 +148,8 @@ export class TransactionScreeningService {
 
       const result: TransactionScreeningResult = {
         txHash,
+        network,
+        ...(screenedAsOf && { asOf: screenedAsOf }),
         direction,
         inputAddresses: inputScreeningResults,
         outputAddresses: outputScreeningResults,
@@ -149,6 +171,8 @@ export class TransactionScreeningService {
         'TRANSACTION_SCREENING',
         `tx:${txHash}`,
         {
+          network,
+          ...(screenedAsOf && { asOf: screenedAsOf }),
           overallRiskScore: riskAssessment.score,
           overallRiskLevel: riskAssessment.level,
           sanctionMatchCount: allSanctionMatches.length,
@@ -192,6 +216,44 @@ export class TransactionScreeningService {
     }
   }
 
+  /**
+   * Assess a transaction from the direct matches of its input and output addresses, as of its block time.
+   * The transaction itself is looked up (from the transaction cache once seen), but no address is
+   * analyzed further and no audit log entry is written, so it can back read-only risk lookups.
+   */
+  async assessDirectRisk(txHash: string, correlationId?: string): Promise<TransactionScreeningResult> {
+    const startTime = Date.now();
+
+    if (!isValidBitcoinTxHash(txHash)) {
+      throw new ValidationError(`Invalid Bitcoin transaction hash: ${txHash}`);
+    }
+
+    const transaction = await blockchainApiService.getTransaction(txHash);
+    const asOf = transaction.blockTime > 0 ? new Date(transaction.blockTime * 1000).toISOString() : undefined;
+
+    const assess = (addresses: string[]) => Promise.all(
+      addresses.map(address => addressScreeningService.assessDirectRisk(address, 'XBT', 'mainnet', asOf, correlationId))
+    );
+    const inputResults = await assess(this.extractInputAddresses(transaction));
+    const outputResults = await assess(this.extractOutputAddresses(transaction));
+    const riskAssessment = this.calculateOverallRisk(inputResults, outputResults);
+
+    return {
+      txHash,
+      network: 'mainnet',
+      ...(asOf && { asOf }),
+      direction: 'both',
+      inputAddresses: inputResults,
+      outputAddresses: outputResults,
+      overallRiskScore: riskAssessment.score,
+      overallRiskLevel: riskAssessment.level,
+      sanctionMatches: [...inputResults, ...outputResults].flatMap(result => result.sanctionMatches),
+      timestamp: getCurrentTimestamp(),
+      confidence: this.calculateTransactionConfidence(inputResults, outputResults, transaction),
+      processingTimeMs: calculateProcessingTime(startTime)
+    };
+  }
+
   /**
    * Extract input addresses from transaction
    */
@@ -323,7 +385,7 @@ export class TransactionScreeningService {
     // Process transactions sequentially to respect rate limits
     for (const txHash of txHashes) {
       try {
-        const result = await this.screenTransaction(txHash, direction, false, correlationId);
+        const result = await this.screenTransaction(txHash, direction, false, correlationId, 'mainnet', undefined, 'bulk');
         results.push(result);
       } catch (error) {
         logger.warn(`Failed to screen transaction ${txHash} in batch:`, error, { correlationId });
@@ -0,0 +1,387 @@
+import path from 'path';
+import { promises as fs } from 'fs';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Watchlist,
+  WatchlistEntry,
+  WatchlistRequest,
+  WatchlistEntryRequest,
+  SanctionEntity,
+  BitcoinNetwork,
+  DataNotFoundError,
+  ValidationError
+} from '../types';
+import { readJsonFile, writeJsonFile, ensureDirectoryExists, getCurrentTimestamp, isExpired } from '../utils/fileUtils';
+import { describeInvalidAddress, isValidCryptoAddress } from '../utils/validation';
+import { auditLogService } from './auditLogService';
+import config from '../config';
+import logger from '../utils/logger';
+
+// Regime reported for watchlist matches
+const WATCHLIST_REGIME = 'INTERNAL_WATCHLIST';
+
+interface IndexedWatchlistEntry {
+  watchlist: Watchlist;
+  entry: WatchlistEntry;
+}
+
+/**
+ * Service managing internal watchlists of non-public blocklisted addresses.
+ * Watchlist hits are reported like sanctions matches, with the INTERNAL source.
+ * Each watchlist belongs to one Bitcoin network, so testnet and signet watchlists can
+ * trigger deterministic results for integration partners without touching mainnet data.
+ */
+export class WatchlistService {
+  private readonly watchlistsDir: string;
+  private watchlists: Map<string, Watchlist> | null = null;
+  private addressIndex = new Map<string, IndexedWatchlistEntry[]>();
+  private changeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor() {
+    this.watchlistsDir = path.join(config.configDir, 'watchlists');
+  }
+
+  /**
+   * List all watchlists
+   */
+  public async listWatchlists(): Promise<Watchlist[]> {
+    const watchlists = await this.loadWatchlists();
+    return Array.from(watchlists.values());
+  }
+
+  /**
+   * Get a watchlist by ID
+   */
+  public async getWatchlist(watchlistId: string): Promise<Watchlist> {
+    const watchlists = await this.loadWatchlists();
+    const watchlist = watchlists.get(watchlistId);
+    if (!watchlist) {
+      throw new DataNotFoundError(`Watchlist not found: ${watchlistId}`, { watchlistId });
+    }
+    return watchlist;
+  }
+
+  /**
+   * Create a watchlist
+   */
+  public createWatchlist(request: WatchlistRequest, correlationId?: string): Promise<Watchlist> {
+    return this.applyChange(async () => {
+      const now = getCurrentTimestamp();
+      const watchlist: Watchlist = {
+        id: uuidv4(),
+        name: request.name,
+        ...(request.description && { description: request.description }),
+        network: request.network || 'mainnet',
+        createdAt: now,
+        updatedAt: now,
+        entries: []
+      };
+
+      await this.saveWatchlist(watchlist);
+      await auditLogService.logListChange('WATCHLIST_CREATED', `watchlist_${watchlist.id}`, {
+        watchlistId: watchlist.id,
+        name: watchlist.name,
+        network: watchlist.network
+      }, correlationId);
+
+      return watchlist;
+    });
+  }
+
+  /**
+   * Rename a watchlist or change its description
+   */
+  public updateWatchlist(watchlistId: string, request: WatchlistRequest, correlationId?: string): Promise<Watchlist> {
+    return this.applyChange(async () => {
+      const existing = await this.getWatchlist(watchlistId);
+
+      if (request.network && request.network !== existing.network) {
+        throw new ValidationError('The network of a watchlist cannot be changed; create a new watchlist instead', {
+          watchlistId,
+          network: existing.network
+        });
+      }
+
+      const watchlist: Watchlist = {
+        id: existing.id,
+        name: request.name,
+        ...(request.description && { description: request.description }),
+        network: existing.network,
+        createdAt: existing.createdAt,
+        updatedAt: getCurrentTimestamp(),
+        entries: existing.entries
+      };
+
+      await this.saveWatchlist(watchlist);
+      await auditLogService.logListChange('WATCHLIST_UPDATED', `watchlist_${watchlistId}`, {
+        watchlistId,
+        previous: { name: existing.name, description: existing.description || null },
+        current: { name: watchlist.name, description: watchlist.description || null }
+      }, correlationId);
+
+      return watchlist;
+    });
+  }
+
+  /**
+   * Delete a watchlist and all its entries
+   */
+  public deleteWatchlist(watchlistId: string, correlationId?: string): Promise<void> {
+    return this.applyChange(async () => {
+      const watchlist = await this.getWatchlist(watchlistId);
+
+      await fs.unlink(this.getWatchlistFilePath(watchlistId));
+      this.watchlists!.delete(watchlistId);
+      this.rebuildAddressIndex();
+
+      await auditLogService.logListChange('WATCHLIST_DELETED', `watchlist_${watchlistId}`, {
+        watchlistId,
+        name: watchlist.name,
+        removedEntries: watchlist.entries.map(entry => ({ id: entry.id, address: entry.address }))
+      }, correlationId);
+    });
+  }
+
+  /**
+   * Add an address to a watchlist
+   */
+  public addEntry(watchlistId: string, request: WatchlistEntryRequest, correlationId?: string): Promise<WatchlistEntry> {
+    return this.applyChange(async () => {
+      const watchlist = await this.getWatchlist(watchlistId);
+      this.validateEntryAddress(watchlist, request.address);
+
+      if (watchlist.entries.some(entry => this.normalizeAddress(entry.address) === this.normalizeAddress(request.address))) {
+        throw new ValidationError(`Address ${request.address} is already on watchlist ${watchlistId}`, {
+          watchlistId,
+          address: request.address
+        });
+      }
+
+      const now = getCurrentTimestamp();
+      const entry: WatchlistEntry = {
+        id: uuidv4(),
+        address: request.address,
+        reason: request.reason,
+        owner: request.owner,
+        ...(request.expiresAt && { expiresAt: request.expiresAt }),
+        createdAt: now,
+        updatedAt: now
+      };
+
+      await this.saveWatchlist({ ...watchlist, entries: [...watchlist.entries, entry], updatedAt: now });
+      await auditLogService.logListChange('WATCHLIST_ENTRY_ADDED', entry.address, {
+        watchlistId,
+        entry
+      }, correlationId);
+
+      return entry;
+    });
+  }
+
+  /**
+   * Update the reason, owner or expiry of a watchlist entry
+   */
+  public updateEntry(
+    watchlistId: string,
+    entryId: string,
+    request: WatchlistEntryRequest,
+    correlationId?: string
+  ): Promise<WatchlistEntry> {
+    return this.applyChange(async () => {
+      const watchlist = await this.getWatchlist(watchlistId);
+      const existing = this.findEntry(watchlist, entryId);
+
+      if (this.normalizeAddress(existing.address) !== this.normalizeAddress(request.address)) {
+        throw new ValidationError('The address of a watchlist entry cannot be changed; remove the entry and add a new one', {
+          watchlistId,
+          entryId
+        });
+      }
+
+      const now = getCurrentTimestamp();
+      const entry: WatchlistEntry = {
+        id: existing.id,
+        address: existing.address,
+        reason: request.reason,
+        owner: request.owner,
+        ...(request.expiresAt && { expiresAt: request.expiresAt }),
+        createdAt: existing.createdAt,
+        updatedAt: now
+      };
+
+      await this.saveWatchlist({
+        ...watchlist,
+        entries: watchlist.entries.map(candidate => candidate.id === entryId ? entry : candidate),
+        updatedAt: now
+      });
+      await auditLogService.logListChange('WATCHLIST_ENTRY_UPDATED', entry.address, {
+        watchlistId,
+        previous: existing,
+        current: entry
+      }, correlationId);
+
+      return entry;
+    });
+  }
+
+  /**
+   * Remove an address from a watchlist
+   */
+  public removeEntry(watchlistId: string, entryId: string, correlationId?: string): Promise<void> {
+    return this.applyChange(async () => {
+      const watchlist = await this.getWatchlist(watchlistId);
+      const entry = this.findEntry(watchlist, entryId);
+
+      await this.saveWatchlist({
+        ...watchlist,
+        entries: watchlist.entries.filter(candidate => candidate.id !== entryId),
+        updatedAt: getCurrentTimestamp()
+      });
+      await auditLogService.logListChange('WATCHLIST_ENTRY_REMOVED', entry.address, {
+        watchlistId,
+        entry
+      }, correlationId);
+    });
+  }
+
+  /**
+   * Find unexpired watchlist entries for an address on a network, as sanctions entities of the INTERNAL source.
+   * The entry's reason and owner are case information and are left out; the entity ID identifies the entry.
+   * With asOf, returns the entries that had been added and not yet expired at that time;
+   * entries removed since are not known.
+   */
+  public async findSanctionsByAddress(
+    address: string,
+    network: BitcoinNetwork = 'mainnet',
+    asOf?: string
+  ): Promise<SanctionEntity[]> {
+    await this.loadWatchlists();
+
+    return (this.addressIndex.get(this.normalizeAddress(address)) || [])
+      .filter(({ watchlist }) => watchlist.network === network)
+      .filter(({ entry }) => asOf ? this.isEntryInForce(entry, asOf) : !entry.expiresAt || !isExpired(entry.expiresAt))
+      .map(({ watchlist, entry }) => ({
+        entityId: `INTERNAL-${entry.id}`,
+        name: watchlist.name,
+        listSource: 'INTERNAL' as const,
+        addresses: [entry.address],
+        aliases: [],
+        lastUpdated: entry.updatedAt,
+        isActive: true,
+        regime: WATCHLIST_REGIME,
+        designatedAt: entry.createdAt
+      }));
+  }
+
+  private isEntryInForce(entry: WatchlistEntry, asOf: string): boolean {
+    const time = Date.parse(asOf);
+    return Date.parse(entry.createdAt) <= time && (!entry.expiresAt || time < Date.parse(entry.expiresAt));
+  }
+
+  /**
+   * Find unexpired watchlist entries for several addresses at once
+   */
+  public async findSanctionsByAddresses(
+    addresses: string[],
+    network: BitcoinNetwork = 'mainnet',
+    asOf?: string
+  ): Promise<Map<string, SanctionEntity[]>> {
+    const results = new Map<string, SanctionEntity[]>();
+    for (const address of addresses) {
+      results.set(address, await this.findSanctionsByAddress(address, network, asOf));
+    }
+    return results;
+  }
+
+  /**
+   * Load all watchlists from disk on first use
+   */
+  private async loadWatchlists(): Promise<Map<string, Watchlist>> {
+    if (this.watchlists) {
+      return this.watchlists;
+    }
+
+    await ensureDirectoryExists(this.watchlistsDir);
+    const fileNames = (await fs.readdir(this.watchlistsDir)).filter(fileName => fileName.endsWith('.json'));
+
+    const watchlists = new Map<string, Watchlist>();
+    for (const fileName of fileNames) {
+      try {
+        const watchlist = await readJsonFile<Watchlist>(path.join(this.watchlistsDir, fileName));
+        // Watchlists created before networks were introduced are mainnet lists
+        watchlists.set(watchlist.id, { ...watchlist, network: watchlist.network || 'mainnet' });
+      } catch (error) {
+        logger.error(`Failed to load watchlist ${fileName}:`, error);
+      }
+    }
+
+    // Another caller may have finished loading while this one was reading
+    if (!this.watchlists) {
+      this.watchlists = watchlists;
+      this.rebuildAddressIndex();
+      logger.info(`Loaded ${watchlists.size} internal watchlists`);
+    }
+
+    return this.watchlists;
+  }
+
+  /**
+   * Run changes one at a time so concurrent requests cannot overwrite each other's files
+   */
+  private applyChange<T>(change: () => Promise<T>): Promise<T> {
+    const run = this.changeQueue.then(change);
+    this.changeQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async saveWatchlist(watchlist: Watchlist): Promise<void> {
+    await ensureDirectoryExists(this.watchlistsDir);
+    await writeJsonFile(this.getWatchlistFilePath(watchlist.id), watchlist);
+
+    const watchlists = await this.loadWatchlists();
+    watchlists.set(watchlist.id, watchlist);
+    this.rebuildAddressIndex();
+  }
+
+  private rebuildAddressIndex(): void {
+    const index = new Map<string, IndexedWatchlistEntry[]>();
+
+    for (const watchlist of this.watchlists?.values() || []) {
+      for (const entry of watchlist.entries) {
+        const key = this.normalizeAddress(entry.address);
+        index.set(key, [...(index.get(key) || []), { watchlist, entry }]);
+      }
+    }
+
+    this.addressIndex = index;
+  }
+
+  private validateEntryAddress(watchlist: Watchlist, address: string): void {
+    if (!isValidCryptoAddress(address, watchlist.network)) {
+      throw new ValidationError(`Invalid watchlist entry request: ${describeInvalidAddress(address, undefined, watchlist.network)}`, {
+        watchlistId: watchlist.id,
+        network: watchlist.network,
+        address
+      });
+    }
+  }
+
+  private findEntry(watchlist: Watchlist, entryId: string): WatchlistEntry {
+    const entry = watchlist.entries.find(candidate => candidate.id === entryId);
+    if (!entry) {
+      throw new DataNotFoundError(`Watchlist entry not found: ${entryId}`, { watchlistId: watchlist.id, entryId });
+    }
+    return entry;
+  }
+
+  private getWatchlistFilePath(watchlistId: string): string {
+    return path.join(this.watchlistsDir, `${watchlistId}.json`);
+  }
+
+  private normalizeAddress(address: string): string {
+    return address.trim().toLowerCase();
+  }
+}
+
+// Export singleton instance
+export const watchlistService = new WatchlistService();
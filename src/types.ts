@@ -1,8 +1,32 @@
 // Core data types and interfaces for the sanction detection system
 
 export type RiskLevel = 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
-export type SanctionSource = 'OFAC';
+export type SanctionSource = 'OFAC' | 'EU' | 'UN' | 'UK_OFSI' | 'INTERNAL';
+export type Jurisdiction = 'US' | 'EU' | 'UN' | 'UK' | 'INTERNAL';
 export type MatchType = 'DIRECT' | 'INDIRECT' | 'CLUSTER';
+export type AllowlistScope = 'DIRECT' | 'INDIRECT' | 'BOTH';
+// Cryptocurrency codes as used by OFAC ("Digital Currency Address - XBT ...")
+export type CryptoAsset = 'XBT' | 'ETH' | 'LTC' | 'XMR' | 'ZEC' | 'DASH' | 'BTG' | 'ETC' | 'XVG';
+export type BitcoinScriptType = 'P2PKH' | 'P2SH' | 'P2WPKH' | 'P2WSH' | 'P2TR';
+export type BitcoinNetwork = 'mainnet' | 'testnet' | 'signet';
+// CHECKSUM: the address was decoded and its checksum verified; FORMAT_ONLY: it only matched the format of its asset
+export type AddressValidation = 'CHECKSUM' | 'FORMAT_ONLY';
+
+export interface DecodedBitcoinAddress {
+  address: string; // Bech32 addresses are normalized to lowercase
+  scriptType: BitcoinScriptType;
+  encoding: 'base58' | 'bech32' | 'bech32m';
+  witnessVersion?: number;
+}
+
+// Legal jurisdiction behind each sanctions source
+export const SANCTION_SOURCE_JURISDICTIONS: Record<SanctionSource, Jurisdiction> = {
+  OFAC: 'US',
+  EU: 'EU',
+  UN: 'UN',
+  UK_OFSI: 'UK',
+  INTERNAL: 'INTERNAL' // Our own watchlists (fraud cases, law-enforcement requests)
+};
 
 export interface SanctionEntity {
   entityId: string;
@@ -12,6 +36,113 @@ export interface SanctionEntity {
   aliases: string[];
   lastUpdated: string; // ISO date
   isActive: boolean;
+  regime?: string; // Sanctions regime or programme named by the list, when provided
+  entityType?: string;
+  programs?: string[];
+  remarks?: string;
+  addressesByCurrency?: Record<string, string[]>; // Cryptocurrency code -> addresses, when the list provides it
+  designatedAt?: string; // Designation date published by the list, when it provides one
+  details?: EntityDetails; // Identifying details parsed from the remarks (OFAC)
+}
+
+// Identity document or registration number listed for an entity
+export interface EntityIdentifier {
+  type: string; // As written by the list, e.g. 'Passport', 'National ID No.', 'Business Registration Number'
+  number: string;
+  country?: string;
+  issuedAt?: string; // ISO date
+  expiresAt?: string; // ISO date
+}
+
+// Identifying details parsed from the free-text remarks of an SDN entry
+export interface EntityDetails {
+  datesOfBirth?: string[]; // As written by the list, e.g. '25 Mar 1977' or 'circa 1980'
+  placesOfBirth?: string[];
+  nationalities?: string[];
+  citizenships?: string[];
+  gender?: string;
+  websites?: string[];
+  emailAddresses?: string[];
+  phoneNumbers?: string[];
+  linkedTo?: string[]; // Names of other listed parties the entity is linked to
+  secondarySanctionsRisks?: string[];
+  identifiers?: EntityIdentifier[];
+}
+
+// A span of time during which an address was designated
+export interface DesignationPeriod {
+  designatedAt: string;
+  delistedAt?: string; // Unset while the address is still listed
+  estimated?: boolean; // designatedAt is when the address was first seen, as the list gave no designation date
+}
+
+// Designation history of one address of one listed entity
+export interface AddressDesignation {
+  listSource: SanctionSource;
+  entityId: string;
+  entityName: string;
+  address: string;
+  periods: DesignationPeriod[];
+}
+
+// Result of a fuzzy name search against sanctioned entities
+export interface SanctionNameMatch {
+  entityId: string;
+  name: string;
+  listSource: SanctionSource;
+  jurisdiction: Jurisdiction;
+  regime?: string;
+  aliases: string[];
+  matchedField: 'name' | 'alias';
+  matchedValue: string;
+  score: number; // 0-100
+}
+
+// Internal watchlist of non-public blocklisted addresses (stored under config.configDir/watchlists)
+export interface Watchlist {
+  id: string;
+  name: string;
+  description?: string;
+  network: BitcoinNetwork; // Test networks are screened against their own watchlists only
+  createdAt: string;
+  updatedAt: string;
+  entries: WatchlistEntry[];
+}
+
+export interface WatchlistEntry {
+  id: string;
+  address: string;
+  reason: string;
+  owner: string;
+  expiresAt?: string; // ISO date; expired entries are kept but no longer matched
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Reviewed false positive: suppresses direct hits or down-weights indirect exposure for an address
+export interface AllowlistEntry {
+  id: string;
+  address: string;
+  counterparty?: string; // Sanctioned entity ID or address; applies to every counterparty when omitted
+  scope: AllowlistScope;
+  justification: string;
+  reviewer: string;
+  expiresAt: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Hit suppressed or down-weighted by an allowlist entry, reported in results for auditors
+export interface AllowlistSuppression {
+  allowlistEntryId: string;
+  matchType: 'DIRECT' | 'INDIRECT';
+  action: 'SUPPRESSED' | 'DOWN_WEIGHTED';
+  sanctionedAddress: string;
+  entityIds: string[];
+  originalRiskContribution?: number; // Indirect exposure only
+  justification: string;
+  reviewer: string;
+  expiresAt: string;
 }
 
 export interface SanctionsFile {
@@ -24,13 +155,154 @@ export interface SanctionsFile {
   entities: SanctionEntity[];
 }
 
+// OFAC crypto data format (refined_data/ofac-crypto-addresses.json)
+export interface OFACCryptoEntry {
+  entityId: string;
+  entityName: string;
+  entityType: string;
+  program: string;
+  cryptocurrency: string;
+  address: string;
+  remarks: string;
+  isActive: boolean;
+  featureType?: string;
+  programs?: string[];
+  publishDate?: string;
+}
+
+export interface OFACCryptoFile {
+  metadata: {
+    source: string;
+    lastUpdated: string;
+    version: string;
+    totalEntities: number;
+    cryptocurrencies: Record<string, number>;
+  };
+  entities: OFACCryptoEntry[];
+}
+
+// Versioned snapshot of the OFAC crypto data file
+export interface SanctionsSnapshotInfo {
+  versionId: string; // First 12 characters of the content hash
+  contentHash: string; // SHA-256 of the file content
+  lastUpdated: string; // metadata.lastUpdated of the snapshot
+  recordedAt: string;
+  totalEntries: number;
+  fileName: string;
+}
+
+// Version of the sanctions data currently served from memory
+export interface SanctionsDataVersion {
+  versionId: string;
+  contentHash: string;
+  lastUpdated: string;
+}
+
+export interface SanctionsDiffEntity {
+  entityId: string;
+  entityName: string;
+  changedFields?: string[];
+}
+
+export interface SanctionsDiffAddress {
+  entityId: string;
+  entityName: string;
+  cryptocurrency: string;
+  address: string;
+}
+
+export interface SanctionsDiff {
+  from: SanctionsSnapshotInfo;
+  to: SanctionsSnapshotInfo;
+  summary: Record<string, number>;
+  entities: {
+    added: SanctionsDiffEntity[];
+    removed: SanctionsDiffEntity[];
+    delisted: SanctionsDiffEntity[];
+    relisted: SanctionsDiffEntity[];
+    modified: SanctionsDiffEntity[];
+  };
+  addresses: {
+    added: SanctionsDiffAddress[];
+    removed: SanctionsDiffAddress[];
+    delisted: SanctionsDiffAddress[];
+    relisted: SanctionsDiffAddress[];
+  };
+}
+
+export type SanctionsImportFormat = 'csv' | 'advanced-xml' | 'refined-json';
+
+export interface SanctionsImportRequest {
+  format: SanctionsImportFormat;
+  confirm: boolean; // Publish the data; otherwise only report what would change
+  allowInvalidAddresses: boolean; // Publish even if some addresses fail format validation
+}
+
+export interface InvalidImportAddress {
+  entityId: string;
+  entityName: string;
+  cryptocurrency: string;
+  address: string;
+  reason: string;
+}
+
+export interface SanctionsImportResult {
+  format: SanctionsImportFormat;
+  dryRun: boolean;
+  published: boolean;
+  version: SanctionsDataVersion | null; // Version served after publishing
+  metadata: OFACCryptoFile['metadata'];
+  validation: {
+    totalAddresses: number;
+    validAddresses: number;
+    invalidAddresses: InvalidImportAddress[];
+    unverifiedAddresses: Record<string, number>; // Addresses per cryptocurrency without a known address format
+  };
+  diff: Omit<SanctionsDiff, 'from' | 'to'>;
+}
+
+// State of the sanctions inbox, reported by /api/health
+export interface SanctionsInboxStatus {
+  enabled: boolean;
+  inboxDir: string;
+  pollIntervalSeconds: number;
+  lastPollAt: string | null;
+  lastImport: {
+    file: string;
+    importedAt: string;
+    versionId: string | null;
+  } | null;
+  lastFailure: {
+    file?: string; // Unset when the inbox itself could not be read
+    failedAt: string;
+    error: string;
+  } | null;
+}
+
 export interface SanctionMatch {
   listSource: SanctionSource;
+  jurisdiction: Jurisdiction;
+  regime?: string;
   entityName: string;
   entityId: string;
   matchType: MatchType;
   confidence: number; // 0-100
   matchedAddress?: string;
+  asset?: CryptoAsset; // Cryptocurrency the matched address is listed under
+  listedCurrencies?: string[]; // Currency codes the list gives for the address when none is a screened asset (e.g. USDT)
+  designatedAt?: string; // Start of the designation period the match falls in, when tracked
+  delistedAt?: string;
+  estimated?: boolean; // designatedAt is when the address was first seen; it may have been listed earlier
+  entityDetails?: EntityDetails; // Identifying details of the entity, to help confirm or dismiss the match
+  programs?: string[]; // Sanctions program codes the entity is designated under (e.g. DPRK3, CYBER2)
+  severity?: string; // Severity label of the highest-weighted configured program
+}
+
+// Risk weight and severity label configured for a sanctions program or regime
+export interface ProgramRiskProfile {
+  weight: number; // Additional risk points for a direct match, replacing the list source weight
+  severity: string;
+  description?: string;
 }
 
 export interface TransactionInput {
@@ -56,6 +328,77 @@ export interface BitcoinTransaction {
   size: number;
 }
 
+// Amounts in satoshis
+export interface BitcoinAddressInfo {
+  address: string;
+  txCount: number; // Confirmed transactions
+  unconfirmedTxCount: number;
+  totalReceived: number;
+  totalSent: number;
+  balance: number; // Confirmed balance
+  unconfirmedBalance: number; // Net change from unconfirmed transactions
+}
+
+export interface BitcoinUtxo {
+  txid: string;
+  vout: number;
+  value: number; // Satoshis
+  confirmed: boolean;
+  blockHeight: number; // 0 while unconfirmed
+}
+
+export type BlockchainOperation = 'transaction' | 'addressInfo' | 'addressTransactions' | 'addressUtxos' | 'blockHeight';
+
+// Interactive requests (single screens) are served before bulk ones (batch screens)
+export type BlockchainRequestPriority = 'interactive' | 'bulk';
+
+export interface RateLimitQueueStatus {
+  requestsPerMinute: number | null; // Null when unlimited
+  availableTokens: number | null;
+  queueDepth: Record<BlockchainRequestPriority, number>;
+  waits: Record<BlockchainRequestPriority, {
+    served: number;
+    timedOut: number; // Gave up after waiting the maximum time
+    averageWaitMs: number;
+    maxWaitMs: number;
+  }>;
+}
+
+export interface BlockchainProviderStatus {
+  name: string;
+  priority: number; // 1 is tried first
+  networks: BitcoinNetwork[];
+  operations: BlockchainOperation[];
+  rateLimit: RateLimitQueueStatus;
+  available: boolean; // False while cooling down after failures or a rate limit
+  cooldownUntil: string | null;
+  consecutiveFailures: number;
+  requestCount: number;
+  failureCount: number;
+  lastSuccessAt: string | null;
+  lastFailure: {
+    failedAt: string;
+    error: string;
+    rateLimited: boolean;
+  } | null;
+}
+
+export interface BlockchainCacheStats {
+  transactions: {
+    hits: number;
+    misses: number;
+    writes: number;
+  };
+  addressHistories: {
+    entries: number;
+    hits: number;
+    misses: number;
+    invalidations: number; // Histories dropped because a new block was seen
+    ttlSeconds: number;
+  };
+  blockHeights: Partial<Record<BitcoinNetwork, number>>; // Latest block height seen per network
+}
+
 export interface TransactionPathNode {
   address: string;
   txid: string;
@@ -63,25 +406,60 @@ export interface TransactionPathNode {
   value: number;
   timestamp: number;
   riskContribution: number;
+  entityIds?: string[]; // Sanctioned entities listing this address
+  severity?: string; // Severity label of the highest-weighted program among those entities
+  allowlisted?: AllowlistSuppression;
+}
+
+// A lookup that failed during path analysis, leaving part of the path unexplored
+export interface SkippedPathLookup {
+  hop: number; // Hop the transaction or address would have been analyzed at
+  txid?: string;
+  address?: string; // Set when the address's transaction history could not be fetched
+  error: string;
 }
 
 export interface TransactionPathAnalysis {
   targetAddress: string;
+  network: BitcoinNetwork;
+  asOf?: string; // Sanctioned nodes were evaluated against the lists as they stood at this time
   maxHops: number;
   totalNodesAnalyzed: number;
   sanctionedNodesFound: number;
   pathNodes: TransactionPathNode[];
   riskPropagation: number; // 0-100
+  complete: boolean; // False when lookups failed and part of the path is missing
+  skippedLookups?: SkippedPathLookup[];
 }
 
 export interface RiskFactors {
-  directSanctionMatch: number;      // 0-40 points
-  indirectExposure: number;         // 0-25 points
+  directSanctionMatch: number;      // 0-80 points
+  indirectExposure: number;         // 0-60 points
   transactionPatterns: number;      // 0-20 points
   geographicalRisk: number;         // 0-10 points
   temporalFactors: number;          // 0-5 points
 }
 
+// Jurisdiction scored by the geographical risk factor, keyed by ISO 3166-1 alpha-2 code
+export interface HighRiskJurisdiction {
+  name: string;
+  weight: number; // 0-10 points for a directly matched entity; counterparties count for half
+  aliases?: string[]; // Other names the lists use, e.g. 'Korea, North'
+  programs?: string[]; // Country-based programs or regimes, e.g. OFAC DPRK3 or EU PRK
+}
+
+export type JurisdictionLinkBasis = 'PROGRAM' | 'NATIONALITY' | 'CITIZENSHIP' | 'PLACE_OF_BIRTH' | 'IDENTIFIER';
+
+// Link between a sanctioned entity behind the screened address (or a counterparty) and a high-risk jurisdiction
+export interface JurisdictionLink {
+  country: string;
+  name: string;
+  entityId: string;
+  matchType: MatchType; // DIRECT for the screened address, INDIRECT for counterparties
+  basis: JurisdictionLinkBasis[];
+  weight: number; // Points this link scores
+}
+
 export interface RiskAssessment {
   id: string;
   address: string;
@@ -98,6 +476,9 @@ export interface RiskAssessment {
 
 export interface ScreeningRequest {
   address: string;
+  asset?: CryptoAsset; // Auto-detected from the address format when omitted
+  network?: BitcoinNetwork; // Defaults to mainnet; test networks only support Bitcoin
+  asOf?: string; // Screen against the lists as they stood at this time instead of now
   includeTransactionAnalysis?: boolean;
   maxHops?: number;
 }
@@ -105,6 +486,8 @@ export interface ScreeningRequest {
 export interface TransactionScreeningRequest {
   txHash: string;
   direction?: 'incoming' | 'outgoing' | 'both';
+  network?: BitcoinNetwork;
+  asOf?: string; // Defaults to the block time of the transaction
 }
 
 export interface BulkScreeningRequest {
@@ -112,12 +495,67 @@ export interface BulkScreeningRequest {
   transactions?: string[];
 }
 
+export interface NameSearchRequest {
+  q: string;
+  limit: number;
+  minScore: number;
+}
+
+export interface WatchlistRequest {
+  name: string;
+  description?: string;
+  network?: BitcoinNetwork; // Set at creation only; defaults to mainnet
+}
+
+export interface WatchlistEntryRequest {
+  address: string;
+  reason: string;
+  owner: string;
+  expiresAt?: string;
+}
+
+export interface AllowlistRequest {
+  address: string;
+  counterparty?: string;
+  scope: AllowlistScope;
+  justification: string;
+  reviewer: string;
+  expiresAt: string;
+}
+
+export interface EntityListRequest {
+  program?: string;
+  currency?: string;
+  active?: boolean;
+  page: number;
+  pageSize: number;
+}
+
+export interface PaginatedResult<T> {
+  items: T[];
+  pagination: {
+    page: number;
+    pageSize: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
 export interface ScreeningResult {
   address: string;
+  network?: BitcoinNetwork;
+  asOf?: string; // Matches were evaluated against the lists as they stood at this time
+  assets?: CryptoAsset[]; // Requested asset, or every asset the address format is valid for
+  scriptType?: BitcoinScriptType; // Set when the address was screened as a Bitcoin address
+  addressValidation?: AddressValidation;
   riskScore: number;
   riskLevel: RiskLevel;
   sanctionMatches: SanctionMatch[];
+  suppressedMatches?: AllowlistSuppression[];
   transactionAnalysis?: TransactionPathAnalysis;
+  riskFactors?: RiskFactors;
+  highRiskJurisdictions?: JurisdictionLink[]; // Jurisdictions behind the geographical risk factor
+  degradedChecks?: string[]; // Checks that failed (INTERNAL_WATCHLIST, TRANSACTION_PATH), so matches may be missing; rated MEDIUM at least
   timestamp: string;
   confidence: number;
   processingTimeMs: number;
@@ -152,11 +590,43 @@ export interface AppConfig {
     blockCypher: string;
     blockStream: string;
   };
+  mempoolHostnames: Record<Exclude<BitcoinNetwork, 'mainnet'>, string>; // Mainnet uses blockchainApis.mempool
+  blockchainProviders: string[]; // Provider names in priority order
+  blockchainApiTimeoutMs: number;
+  blockCypherToken: string;
+  addressHistoryCacheTtlSeconds: number;
+  blockchainRateLimitPerMinute: number; // Per provider, 0 for no limit
+  blockchainRateLimits: Record<string, number>; // Per provider overrides
+  blockchainQueueMaxWaitMs: number;
+  electrum: {
+    url: string; // tcp://host:port or ssl://host:port; unset unless an Electrum server is used
+    network: BitcoinNetwork;
+    rejectUnauthorized: boolean; // Verify the server's TLS certificate
+  };
+  bitcoinRpc: {
+    url: string; // Unset unless a Bitcoin Core node is used
+    username: string;
+    password: string;
+    network: BitcoinNetwork;
+    indexerUrl: string; // Esplora API of a companion address indexer, e.g. electrs
+  };
   sanctionsUrls: {
     ofac: string;
     eu: string;
     un: string;
   };
+  sanctionsFiles: {
+    eu: string;
+    un: string;
+    ukOfsi: string;
+  };
+  sanctionSourceWeights: Record<SanctionSource, number>;
+  sanctionsHotReload: boolean;
+  allowlistIndirectRiskFactor: number;
+  adminApiKey: string;
+  sanctionsImportMaxSize: string;
+  sanctionsInboxPollSeconds: number;
+  sanctionsInboxMaxRemovedShare: number; // Largest share of current addresses an unattended import may remove
 }
 
 // API Response wrapper
@@ -192,6 +662,13 @@ export class ValidationError extends SanctionDetectorError {
   }
 }
 
+export class AuthorizationError extends SanctionDetectorError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(message, 'UNAUTHORIZED', 401, details);
+    this.name = 'AuthorizationError';
+  }
+}
+
 export class ExternalApiError extends SanctionDetectorError {
   constructor(message: string, details?: Record<string, unknown>) {
     super(message, 'EXTERNAL_API_ERROR', 502, details);
@@ -0,0 +1,25 @@
+import { Request, Response, NextFunction } from 'express';
+import { createHash, timingSafeEqual } from 'crypto';
+import config from '../config';
+import { sendError } from './apiResponse';
+import { AuthorizationError } from '../types';
+
+/**
+ * Require the configured admin key in the X-Admin-Key header; protected endpoints are disabled without one
+ */
+export function requireAdminKey(req: Request, res: Response, next: NextFunction): void {
+  if (!config.adminApiKey) {
+    sendError(req, res, new AuthorizationError('Admin API is disabled; set ADMIN_API_KEY to enable it'), 'Admin request rejected');
+    return;
+  }
+
+  // Compare digests so the comparison takes the same time whatever the key length
+  const provided = createHash('sha256').update(req.get('X-Admin-Key') || '').digest();
+  const expected = createHash('sha256').update(config.adminApiKey).digest();
+  if (!timingSafeEqual(provided, expected)) {
+    sendError(req, res, new AuthorizationError('Missing or invalid X-Admin-Key header'), 'Admin request rejected');
+    return;
+  }
+
+  next();
+}
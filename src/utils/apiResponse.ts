@@ -0,0 +1,53 @@
+import { Request, Response } from 'express';
+import { ApiResponse, ValidationError, DataNotFoundError, AuthorizationError } from '../types';
+import logger from './logger';
+
+/**
+ * Send the error response for a failed request: 400/401/404 for known errors, 500 otherwise
+ */
+export function sendError(req: Request, res: Response, error: unknown, message: string): Response {
+  logger.error(`${message}:`, {
+    error: (error as Error).message,
+    correlationId: req.correlationId,
+    params: req.params
+  });
+
+  if (error instanceof ValidationError || error instanceof DataNotFoundError || error instanceof AuthorizationError) {
+    const response: ApiResponse<never> = {
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message,
+        ...(error.details && { details: error.details })
+      },
+      timestamp: new Date().toISOString(),
+      correlationId: req.correlationId
+    };
+    return res.status(error.statusCode).json(response);
+  }
+
+  const response: ApiResponse<never> = {
+    success: false,
+    error: {
+      code: 'INTERNAL_SERVER_ERROR',
+      message
+    },
+    timestamp: new Date().toISOString(),
+    correlationId: req.correlationId
+  };
+
+  return res.status(500).json(response);
+}
+
+/**
+ * Send a successful response
+ */
+export function sendData<T>(req: Request, res: Response, data: T, statusCode: number = 200): Response {
+  const response: ApiResponse<T> = {
+    success: true,
+    data,
+    timestamp: new Date().toISOString(),
+    correlationId: req.correlationId
+  };
+  return res.status(statusCode).json(response);
+}
@@ -0,0 +1,226 @@
+import { createHash } from 'crypto';
+import { BitcoinNetwork, BitcoinScriptType, DecodedBitcoinAddress, ValidationError } from '../types';
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const BECH32_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const BECH32_GENERATOR = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+
+// Checksum constants from BIP-173 (bech32, witness v0) and BIP-350 (bech32m, witness v1+)
+const BECH32_CONST = 1;
+const BECH32M_CONST = 0x2bc830a3;
+
+interface NetworkParams {
+  segwitHrp: string;
+  base58Prefix: RegExp;
+  base58Versions: Record<number, BitcoinScriptType>;
+}
+
+// Testnet and signet share address formats, so their addresses cannot be told apart
+const TEST_NETWORK_PARAMS: NetworkParams = {
+  segwitHrp: 'tb',
+  base58Prefix: /^[mn2]/,
+  base58Versions: { 0x6f: 'P2PKH', 0xc4: 'P2SH' }
+};
+
+const NETWORK_PARAMS: Record<BitcoinNetwork, NetworkParams> = {
+  mainnet: {
+    segwitHrp: 'bc',
+    base58Prefix: /^[13]/,
+    base58Versions: { 0x00: 'P2PKH', 0x05: 'P2SH' }
+  },
+  testnet: TEST_NETWORK_PARAMS,
+  signet: TEST_NETWORK_PARAMS
+};
+
+/**
+ * Decode a Bitcoin address, verifying its Base58Check or bech32/bech32m checksum.
+ * Throws a ValidationError describing what is wrong with an invalid address.
+ */
+export function decodeBitcoinAddress(address: string, network: BitcoinNetwork = 'mainnet'): DecodedBitcoinAddress {
+  const trimmed = address.trim();
+  const params = NETWORK_PARAMS[network];
+
+  if (trimmed.toLowerCase().startsWith(`${params.segwitHrp}1`)) {
+    return decodeSegwitAddress(trimmed, params);
+  }
+  if (params.base58Prefix.test(trimmed)) {
+    return decodeBase58Address(trimmed, params);
+  }
+
+  throw invalidAddress(address, `unrecognized ${network} address prefix`);
+}
+
+/**
+ * Build the output script (scriptPubKey) paying to an address
+ */
+export function addressToScriptPubKey(address: string, network: BitcoinNetwork = 'mainnet'): Buffer {
+  const decoded = decodeBitcoinAddress(address, network);
+
+  if (decoded.encoding === 'base58') {
+    const hash = base58Decode(decoded.address)!.subarray(1, 21);
+    return decoded.scriptType === 'P2PKH'
+      ? Buffer.concat([Buffer.from([0x76, 0xa9, 0x14]), hash, Buffer.from([0x88, 0xac])]) // OP_DUP OP_HASH160 <hash> OP_EQUALVERIFY OP_CHECKSIG
+      : Buffer.concat([Buffer.from([0xa9, 0x14]), hash, Buffer.from([0x87])]); // OP_HASH160 <hash> OP_EQUAL
+  }
+
+  const data = Array.from(decoded.address.slice(decoded.address.lastIndexOf('1') + 1), char => BECH32_CHARSET.indexOf(char));
+  const program = Buffer.from(convertBits(data.slice(1, -6), 5, 8)!);
+  const witnessVersion = decoded.witnessVersion!;
+  // OP_0 or OP_1..OP_16, then the witness program
+  return Buffer.concat([Buffer.from([witnessVersion === 0 ? 0x00 : 0x50 + witnessVersion, program.length]), program]);
+}
+
+function decodeBase58Address(address: string, params: NetworkParams): DecodedBitcoinAddress {
+  const payload = base58Decode(address);
+  if (!payload) {
+    throw invalidAddress(address, 'contains characters outside the Base58 alphabet');
+  }
+  if (payload.length !== 25) {
+    throw invalidAddress(address, `decodes to ${payload.length} bytes, expected 25`);
+  }
+
+  const body = payload.subarray(0, 21);
+  const checksum = sha256(sha256(body)).subarray(0, 4);
+  if (!checksum.equals(payload.subarray(21))) {
+    throw invalidAddress(address, 'Base58Check checksum mismatch');
+  }
+
+  const scriptType = params.base58Versions[body[0]!];
+  if (!scriptType) {
+    throw invalidAddress(address, `unknown version byte 0x${body[0]!.toString(16).padStart(2, '0')}`);
+  }
+
+  return { address, scriptType, encoding: 'base58' };
+}
+
+function decodeSegwitAddress(address: string, params: NetworkParams): DecodedBitcoinAddress {
+  if (address !== address.toLowerCase() && address !== address.toUpperCase()) {
+    throw invalidAddress(address, 'mixes upper and lower case');
+  }
+  if (address.length > 90) {
+    throw invalidAddress(address, 'exceeds 90 characters');
+  }
+
+  const normalized = address.toLowerCase();
+  const separator = normalized.lastIndexOf('1');
+  const hrp = normalized.slice(0, separator);
+  const data: number[] = [];
+  for (const char of normalized.slice(separator + 1)) {
+    const value = BECH32_CHARSET.indexOf(char);
+    if (value === -1) {
+      throw invalidAddress(address, `invalid bech32 character '${char}'`);
+    }
+    data.push(value);
+  }
+
+  if (hrp !== params.segwitHrp) {
+    throw invalidAddress(address, `unexpected human-readable part '${hrp}'`);
+  }
+  if (data.length < 7) {
+    throw invalidAddress(address, 'data part too short');
+  }
+
+  const checksumConst = bech32Polymod([...hrpExpand(hrp), ...data]);
+  const encoding = checksumConst === BECH32_CONST ? 'bech32' : checksumConst === BECH32M_CONST ? 'bech32m' : null;
+  if (!encoding) {
+    throw invalidAddress(address, 'bech32 checksum mismatch');
+  }
+
+  const witnessVersion = data[0]!;
+  const program = convertBits(data.slice(1, -6), 5, 8);
+  if (witnessVersion > 16 || !program || program.length < 2 || program.length > 40) {
+    throw invalidAddress(address, 'invalid witness program');
+  }
+  if (witnessVersion === 0 && encoding !== 'bech32') {
+    throw invalidAddress(address, 'witness v0 addresses must use bech32, not bech32m');
+  }
+  if (witnessVersion > 0 && encoding !== 'bech32m') {
+    throw invalidAddress(address, `witness v${witnessVersion} addresses must use bech32m, not bech32`);
+  }
+
+  const scriptType = segwitScriptType(witnessVersion, program.length);
+  if (!scriptType) {
+    throw invalidAddress(address, `unsupported witness v${witnessVersion} program of ${program.length} bytes`);
+  }
+
+  return { address: normalized, scriptType, encoding, witnessVersion };
+}
+
+function segwitScriptType(witnessVersion: number, programLength: number): BitcoinScriptType | null {
+  if (witnessVersion === 0 && programLength === 20) return 'P2WPKH';
+  if (witnessVersion === 0 && programLength === 32) return 'P2WSH';
+  if (witnessVersion === 1 && programLength === 32) return 'P2TR';
+  return null;
+}
+
+function base58Decode(value: string): Buffer | null {
+  let number = 0n;
+  for (const char of value) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit === -1) {
+      return null;
+    }
+    number = number * 58n + BigInt(digit);
+  }
+
+  const bytes: number[] = [];
+  while (number > 0n) {
+    bytes.unshift(Number(number % 256n));
+    number /= 256n;
+  }
+
+  // Each leading '1' encodes a leading zero byte
+  const leadingZeros = value.length - value.replace(/^1+/, '').length;
+  return Buffer.from([...new Array<number>(leadingZeros).fill(0), ...bytes]);
+}
+
+function bech32Polymod(values: number[]): number {
+  let checksum = 1;
+  for (const value of values) {
+    const top = checksum >>> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    BECH32_GENERATOR.forEach((generator, bit) => {
+      if ((top >>> bit) & 1) {
+        checksum ^= generator;
+      }
+    });
+  }
+  return checksum >>> 0;
+}
+
+function hrpExpand(hrp: string): number[] {
+  const chars = [...hrp].map(char => char.charCodeAt(0));
+  return [...chars.map(code => code >> 5), 0, ...chars.map(code => code & 31)];
+}
+
+/**
+ * Regroup bits from fromBits-wide to toBits-wide words without padding, as required for witness programs
+ */
+function convertBits(data: number[], fromBits: number, toBits: number): number[] | null {
+  let accumulator = 0;
+  let bits = 0;
+  const result: number[] = [];
+  const maxValue = (1 << toBits) - 1;
+
+  for (const value of data) {
+    accumulator = (accumulator << fromBits) | value;
+    bits += fromBits;
+    while (bits >= toBits) {
+      bits -= toBits;
+      result.push((accumulator >> bits) & maxValue);
+    }
+  }
+
+  if (bits >= fromBits || ((accumulator << (toBits - bits)) & maxValue) !== 0) {
+    return null;
+  }
+  return result;
+}
+
+function sha256(data: Buffer): Buffer {
+  return createHash('sha256').update(data).digest();
+}
+
+function invalidAddress(address: string, reason: string): ValidationError {
+  return new ValidationError(`Invalid Bitcoin address: ${reason}`, { address, reason });
+}
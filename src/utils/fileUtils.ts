@@ -30,6 +30,22 @@ export async function writeJsonFile<T>(filePath: string, data: T): Promise<void>
   await fs.writeFile(filePath, content, 'utf-8');
 }
 
+/**
+ * Write a file atomically: write a temporary file next to it, then rename it into place,
+ * so readers and file watchers never see a partially written file
+ */
+export async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+  await ensureDirectoryExists(path.dirname(filePath));
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  try {
+    await fs.writeFile(tempPath, content, 'utf-8');
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
 /**
  * Check if file exists
  */
@@ -0,0 +1,131 @@
+// Letters that Unicode normalization does not decompose into a base letter plus a diacritic
+const SPECIAL_LETTERS: Record<string, string> = {
+  'ß': 'ss',
+  'æ': 'ae',
+  'œ': 'oe',
+  'ø': 'o',
+  'ł': 'l',
+  'đ': 'd',
+  'ð': 'd',
+  'þ': 'th',
+  'ı': 'i',
+  'ħ': 'h'
+};
+
+// Spelling variants that commonly appear when the same name is romanized differently
+// (e.g. Mohammed / Muhammad, Yusuf / Youssef, Khalil / Halil). Applied in order;
+// vowels are folded together last, as romanizations disagree on them most.
+const TRANSLITERATION_RULES: Array<[RegExp, string]> = [
+  [/sch/g, 'sh'],
+  [/tch/g, 'ch'],
+  [/kh/g, 'h'],
+  [/gh/g, 'g'],
+  [/ph/g, 'f'],
+  [/th/g, 't'],
+  [/dh/g, 'd'],
+  [/ck/g, 'k'],
+  [/q/g, 'k'],
+  [/c(?!h)/g, 'k'],
+  [/z/g, 's'],
+  [/w/g, 'v'],
+  [/[jy]/g, 'i'],
+  [/[aeiou]/g, 'a'],
+  [/(.)\1+/g, '$1']
+];
+
+export interface PreparedName {
+  normalized: string; // Folded, lowercase, punctuation-free form
+  tokens: string[];
+  keys: string[]; // Transliteration-tolerant key per token
+}
+
+/**
+ * Fold diacritics and punctuation: "ŞAHİN, Ömer-Faruk" -> "sahin omer faruk"
+ */
+export function normalizeName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[ßæœøłđðþıħ]/g, letter => SPECIAL_LETTERS[letter] || letter)
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Reduce a normalized token to a key that tolerates transliteration differences
+ */
+export function transliterationKey(token: string): string {
+  let key = token;
+  for (const [pattern, replacement] of TRANSLITERATION_RULES) {
+    key = key.replace(pattern, replacement);
+  }
+  return key;
+}
+
+/**
+ * Normalize a name once so it can be compared against many queries
+ */
+export function prepareName(name: string): PreparedName {
+  const normalized = normalizeName(name);
+  const tokens = normalized.length > 0 ? normalized.split(' ') : [];
+  return {
+    normalized,
+    tokens,
+    keys: tokens.map(token => transliterationKey(token))
+  };
+}
+
+/**
+ * Similarity between two strings from 0 to 1, based on Levenshtein distance
+ */
+export function stringSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length === 0 || b.length === 0) return 0;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j]! + 1, current[j - 1]! + 1, previous[j - 1]! + cost);
+    }
+    previous = current;
+  }
+
+  return 1 - previous[b.length]! / Math.max(a.length, b.length);
+}
+
+/**
+ * Score how well a candidate name matches a query, from 0 to 100.
+ * Token order is ignored, so OFAC's "LAST, First" format matches "First Last".
+ */
+export function scoreNameMatch(query: PreparedName, candidate: PreparedName): number {
+  if (query.tokens.length === 0 || candidate.tokens.length === 0) {
+    return 0;
+  }
+
+  if (query.normalized === candidate.normalized) {
+    return 100;
+  }
+
+  // Whole-name comparison with tokens in a canonical order
+  const sortedScore = stringSimilarity(
+    [...query.keys].sort().join(' '),
+    [...candidate.keys].sort().join(' ')
+  );
+
+  // Best candidate token for each query token, so extra or missing middle names cost less
+  const tokenScores = query.keys.map(key =>
+    Math.max(...candidate.keys.map(candidateKey => stringSimilarity(key, candidateKey)))
+  );
+  const tokenScore = tokenScores.reduce((sum, score) => sum + score, 0) / tokenScores.length;
+  const coverage = Math.min(query.tokens.length, candidate.tokens.length) /
+    Math.max(query.tokens.length, candidate.tokens.length);
+
+  const score = Math.max(sortedScore, tokenScore * (0.8 + 0.2 * coverage));
+
+  // Keep 100 for names that are identical after folding, even if only the token order differs
+  const sameTokens = [...query.tokens].sort().join(' ') === [...candidate.tokens].sort().join(' ');
+  return sameTokens ? 100 : Math.min(99, Math.round(score * 100));
+}
@@ -0,0 +1,172 @@
+import { BlockchainRequestPriority, RateLimitQueueStatus } from '../types';
+
+// In the order they are served
+const PRIORITIES: BlockchainRequestPriority[] = ['interactive', 'bulk'];
+
+interface Waiter {
+  enqueuedAt: number;
+  resolve: (waitedMs: number | null) => void;
+  timer: NodeJS.Timeout;
+}
+
+interface WaitStats {
+  served: number;
+  timedOut: number;
+  totalWaitMs: number;
+  maxWaitMs: number;
+}
+
+/**
+ * Token bucket holding up to one minute's worth of requests and refilled continuously. Requests over
+ * the limit wait in a queue instead of failing: first come, first served within a priority, with
+ * interactive requests served before bulk ones.
+ */
+export class RateLimiter {
+  private tokens: number;
+  private lastRefillAt = Date.now();
+  private drainTimer: NodeJS.Timeout | null = null;
+  private readonly queues: Record<BlockchainRequestPriority, Waiter[]> = { interactive: [], bulk: [] };
+  private readonly stats: Record<BlockchainRequestPriority, WaitStats> = {
+    interactive: { served: 0, timedOut: 0, totalWaitMs: 0, maxWaitMs: 0 },
+    bulk: { served: 0, timedOut: 0, totalWaitMs: 0, maxWaitMs: 0 }
+  };
+
+  /**
+   * @param requestsPerMinute 0 for no limit
+   */
+  constructor(private readonly requestsPerMinute: number) {
+    this.tokens = Math.max(requestsPerMinute, 0);
+  }
+
+  /**
+   * Wait for capacity to make a request. Resolves with the time waited, or null if no capacity
+   * was free within maxWaitMs.
+   */
+  acquire(priority: BlockchainRequestPriority, maxWaitMs: number): Promise<number | null> {
+    if (this.requestsPerMinute <= 0) {
+      this.recordServed(priority, 0);
+      return Promise.resolve(0);
+    }
+
+    // A request never overtakes a waiting request of the same or a higher priority
+    this.refill();
+    const waitingAhead = PRIORITIES.slice(0, PRIORITIES.indexOf(priority) + 1).some(lane => this.queues[lane].length > 0);
+    if (!waitingAhead && this.tokens >= 1) {
+      this.tokens--;
+      this.recordServed(priority, 0);
+      return Promise.resolve(0);
+    }
+    if (maxWaitMs <= 0) {
+      this.stats[priority].timedOut++;
+      return Promise.resolve(null);
+    }
+
+    return new Promise(resolve => {
+      const queue = this.queues[priority];
+      const waiter: Waiter = {
+        enqueuedAt: Date.now(),
+        resolve,
+        timer: setTimeout(() => {
+          queue.splice(queue.indexOf(waiter), 1);
+          this.stats[priority].timedOut++;
+          resolve(null);
+        }, maxWaitMs)
+      };
+      queue.push(waiter);
+      this.scheduleDrain();
+    });
+  }
+
+  /**
+   * Estimated time until a request of the given priority would get capacity, not counting requests
+   * of a higher priority arriving in the meantime
+   */
+  estimateWaitMs(priority: BlockchainRequestPriority): number {
+    if (this.requestsPerMinute <= 0) {
+      return 0;
+    }
+
+    this.refill();
+    const waitingAhead = PRIORITIES.slice(0, PRIORITIES.indexOf(priority) + 1)
+      .reduce((count, lane) => count + this.queues[lane].length, 0);
+    const tokensNeeded = waitingAhead + 1 - this.tokens;
+    return tokensNeeded > 0 ? Math.ceil(tokensNeeded * 60 * 1000 / this.requestsPerMinute) : 0;
+  }
+
+  getStatus(): RateLimitQueueStatus {
+    const unlimited = this.requestsPerMinute <= 0;
+    if (!unlimited) {
+      this.refill();
+    }
+
+    const waits = {} as RateLimitQueueStatus['waits'];
+    for (const priority of PRIORITIES) {
+      const stats = this.stats[priority];
+      waits[priority] = {
+        served: stats.served,
+        timedOut: stats.timedOut,
+        averageWaitMs: stats.served > 0 ? Math.round(stats.totalWaitMs / stats.served) : 0,
+        maxWaitMs: stats.maxWaitMs
+      };
+    }
+
+    return {
+      requestsPerMinute: unlimited ? null : this.requestsPerMinute,
+      availableTokens: unlimited ? null : Math.floor(this.tokens),
+      queueDepth: {
+        interactive: this.queues.interactive.length,
+        bulk: this.queues.bulk.length
+      },
+      waits
+    };
+  }
+
+  /**
+   * Hand the available tokens to waiting requests in priority order
+   */
+  private drain(): void {
+    this.drainTimer = null;
+    this.refill();
+
+    for (const priority of PRIORITIES) {
+      const queue = this.queues[priority];
+      while (queue.length > 0 && this.tokens >= 1) {
+        const waiter = queue.shift() as Waiter;
+        clearTimeout(waiter.timer);
+        this.tokens--;
+        const waitedMs = Date.now() - waiter.enqueuedAt;
+        this.recordServed(priority, waitedMs);
+        waiter.resolve(waitedMs);
+      }
+    }
+
+    this.scheduleDrain();
+  }
+
+  /**
+   * Drain the queue again once the next token is due
+   */
+  private scheduleDrain(): void {
+    if (this.drainTimer || PRIORITIES.every(priority => this.queues[priority].length === 0)) {
+      return;
+    }
+
+    const msPerToken = 60 * 1000 / this.requestsPerMinute;
+    this.drainTimer = setTimeout(() => this.drain(), Math.max(Math.ceil((1 - this.tokens) * msPerToken), 0));
+    // Waiting requests hold their own timers; an emptied queue must not keep the process alive
+    this.drainTimer.unref();
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.tokens + (now - this.lastRefillAt) * this.requestsPerMinute / (60 * 1000), this.requestsPerMinute);
+    this.lastRefillAt = now;
+  }
+
+  private recordServed(priority: BlockchainRequestPriority, waitedMs: number): void {
+    const stats = this.stats[priority];
+    stats.served++;
+    stats.totalWaitMs += waitedMs;
+    stats.maxWaitMs = Math.max(stats.maxWaitMs, waitedMs);
+  }
+}
@@ -3,20 +3,107 @@ import {
   ScreeningRequest, 
   TransactionScreeningRequest, 
   BulkScreeningRequest,
+  NameSearchRequest,
+  EntityListRequest,
+  WatchlistRequest,
+  WatchlistEntryRequest,
+  AllowlistRequest,
+  SanctionsImportRequest,
+  CryptoAsset,
+  AddressValidation,
+  BitcoinNetwork,
   ValidationError 
 } from '../types';
-
-// Bitcoin address validation regex (supports Legacy, SegWit, and Bech32)
-const BITCOIN_ADDRESS_REGEX = /^([13][a-km-zA-HJ-NP-Z1-9]{25,34})|^(bc1[a-z0-9]{39,59})$/;
+import { decodeBitcoinAddress } from './bitcoinAddress';
 
 // Bitcoin transaction hash validation regex
 const BITCOIN_TX_HASH_REGEX = /^[a-fA-F0-9]{64}$/;
 
+export const SUPPORTED_NETWORKS: BitcoinNetwork[] = ['mainnet', 'testnet', 'signet'];
+
 /**
- * Validate Bitcoin address format
+ * Validate Bitcoin address format and checksum (Base58Check, bech32 or bech32m)
  */
-export function isValidBitcoinAddress(address: string): boolean {
-  return BITCOIN_ADDRESS_REGEX.test(address);
+export function isValidBitcoinAddress(address: string, network: BitcoinNetwork = 'mainnet'): boolean {
+  try {
+    decodeBitcoinAddress(address, network);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Address formats per cryptocurrency. Several chains share a format (ETH/ETC, and P2SH
+// addresses starting with 3 are valid for both Bitcoin and Litecoin), so detection can
+// return more than one asset. These only check the format, not the checksum (EIP-55,
+// base58check or bech32), so a mistyped address of these assets passes as valid.
+const ASSET_ADDRESS_PATTERNS: Record<Exclude<CryptoAsset, 'XBT'>, RegExp[]> = {
+  ETH: [/^0x[a-fA-F0-9]{40}$/],
+  ETC: [/^0x[a-fA-F0-9]{40}$/],
+  LTC: [/^[LM3][a-km-zA-HJ-NP-Z1-9]{26,33}$/, /^ltc1[a-z0-9]{39,59}$/],
+  XMR: [/^[48][0-9AB][1-9A-HJ-NP-Za-km-z]{93}$/],
+  ZEC: [/^t[13][1-9A-HJ-NP-Za-km-z]{33}$/, /^zs1[a-z0-9]{75}$/],
+  DASH: [/^[X7][1-9A-HJ-NP-Za-km-z]{33}$/],
+  BTG: [/^[AG][a-km-zA-HJ-NP-Z1-9]{25,34}$/, /^btg1[a-z0-9]{39,59}$/],
+  XVG: [/^D[a-km-zA-HJ-NP-Z1-9]{25,34}$/]
+};
+
+export const SUPPORTED_ASSETS: CryptoAsset[] = ['XBT', 'ETH', 'LTC', 'XMR', 'ZEC', 'DASH', 'BTG', 'ETC', 'XVG'];
+
+/**
+ * Validate an address against the format of a specific cryptocurrency.
+ * Test networks are only supported for Bitcoin.
+ */
+export function isValidAddressForAsset(address: string, asset: CryptoAsset, network: BitcoinNetwork = 'mainnet'): boolean {
+  if (asset === 'XBT') {
+    return isValidBitcoinAddress(address, network);
+  }
+  return network === 'mainnet' && ASSET_ADDRESS_PATTERNS[asset].some(pattern => pattern.test(address));
+}
+
+/**
+ * How thoroughly an address screened for the given assets was validated. Only Bitcoin addresses
+ * are decoded with their checksum; the others are matched against their format.
+ */
+export function getAddressValidation(assets: CryptoAsset[]): AddressValidation {
+  return assets.includes('XBT') ? 'CHECKSUM' : 'FORMAT_ONLY';
+}
+
+/**
+ * Detect which supported cryptocurrencies an address format is valid for
+ */
+export function detectAddressAssets(address: string, network: BitcoinNetwork = 'mainnet'): CryptoAsset[] {
+  return SUPPORTED_ASSETS.filter(asset => isValidAddressForAsset(address, asset, network));
+}
+
+/**
+ * Validate that an address belongs to any supported cryptocurrency
+ */
+export function isValidCryptoAddress(address: string, network: BitcoinNetwork = 'mainnet'): boolean {
+  return detectAddressAssets(address, network).length > 0;
+}
+
+/**
+ * Explain why an address is invalid, naming the checksum or encoding problem for Bitcoin addresses
+ */
+export function describeInvalidAddress(
+  address: string,
+  asset?: CryptoAsset,
+  network: BitcoinNetwork = 'mainnet'
+): string {
+  if (network !== 'mainnet' && asset && asset !== 'XBT') {
+    return `${asset} is not supported on ${network}; only Bitcoin addresses can be screened on test networks`;
+  }
+
+  const looksLikeBitcoin = network !== 'mainnet' || /^(bc1|[13])/i.test(address.trim());
+  if ((!asset || asset === 'XBT') && looksLikeBitcoin) {
+    try {
+      decodeBitcoinAddress(address, network);
+    } catch (error) {
+      return (error as Error).message;
+    }
+  }
+  return asset ? `Invalid ${asset} address format` : 'Invalid or unsupported cryptocurrency address format';
 }
 
 /**
@@ -26,6 +113,25 @@ export function isValidBitcoinTxHash(txHash: string): boolean {
   return BITCOIN_TX_HASH_REGEX.test(txHash);
 }
 
+/**
+ * Validate a point-in-time screening date and normalize it to an ISO timestamp.
+ * Dates in the future are rejected, as the lists cannot be known ahead of time.
+ */
+export function normalizeAsOf(asOf: string | undefined): string | undefined {
+  if (asOf === undefined) {
+    return undefined;
+  }
+
+  const time = typeof asOf === 'string' ? Date.parse(asOf) : NaN;
+  if (isNaN(time)) {
+    throw new ValidationError('asOf must be an ISO 8601 date', { asOf });
+  }
+  if (time > Date.now()) {
+    throw new ValidationError('asOf cannot be in the future', { asOf });
+  }
+  return new Date(time).toISOString();
+}
+
 /**
  * Joi schema for address screening request
  */
@@ -33,14 +139,15 @@ const addressScreeningSchema = Joi.object<ScreeningRequest>({
   address: Joi.string()
     .required()
     .custom((value: string, helpers) => {
-      if (!isValidBitcoinAddress(value)) {
-        return helpers.error('any.invalid');
+      const network: BitcoinNetwork = helpers.state.ancestors[0]?.network || 'mainnet';
+      if (!isValidCryptoAddress(value, network)) {
+        return helpers.message({ custom: describeInvalidAddress(value, undefined, network) });
       }
       return value;
-    })
-    .messages({
-      'any.invalid': 'Invalid Bitcoin address format'
     }),
+  asset: Joi.string().valid(...SUPPORTED_ASSETS),
+  network: Joi.string().valid(...SUPPORTED_NETWORKS).default('mainnet'),
+  asOf: Joi.date().iso().max('now').raw(),
   includeTransactionAnalysis: Joi.boolean().default(false),
   maxHops: Joi.number().integer().min(1).max(10).default(5)
 });
@@ -60,7 +167,9 @@ const transactionScreeningSchema = Joi.object<TransactionScreeningRequest>({
     .messages({
       'any.invalid': 'Invalid Bitcoin transaction hash format'
     }),
-  direction: Joi.string().valid('incoming', 'outgoing', 'both').default('both')
+  direction: Joi.string().valid('incoming', 'outgoing', 'both').default('both'),
+  network: Joi.string().valid(...SUPPORTED_NETWORKS).default('mainnet'),
+  asOf: Joi.date().iso().max('now').raw()
 });
 
 /**
@@ -70,15 +179,14 @@ const bulkScreeningSchema = Joi.object<BulkScreeningRequest>({
   addresses: Joi.array()
     .items(
       Joi.string().custom((value: string, helpers) => {
-        if (!isValidBitcoinAddress(value)) {
-          return helpers.error('any.invalid');
+        if (!isValidCryptoAddress(value)) {
+          return helpers.message({ custom: `${describeInvalidAddress(value)} in addresses array` });
         }
         return value;
       })
     )
     .max(100)
     .messages({
-      'any.invalid': 'Invalid Bitcoin address format in addresses array',
       'array.max': 'Maximum 100 addresses allowed in bulk request'
     }),
   transactions: Joi.array()
@@ -99,6 +207,85 @@ const bulkScreeningSchema = Joi.object<BulkScreeningRequest>({
   'object.missing': 'Either addresses or transactions array must be provided'
 });
 
+/**
+ * Joi schema for sanctions name search query
+ */
+const nameSearchSchema = Joi.object<NameSearchRequest>({
+  q: Joi.string().trim().min(2).max(200).required(),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+  minScore: Joi.number().integer().min(0).max(100).default(70)
+});
+
+/**
+ * Joi schema for sanctions entity listing query
+ */
+const entityListSchema = Joi.object<EntityListRequest>({
+  program: Joi.string().trim().max(100),
+  currency: Joi.string().trim().max(20),
+  active: Joi.boolean(),
+  page: Joi.number().integer().min(1).default(1),
+  pageSize: Joi.number().integer().min(1).max(200).default(50)
+});
+
+/**
+ * Joi schema for creating or updating a watchlist
+ */
+const watchlistSchema = Joi.object<WatchlistRequest>({
+  name: Joi.string().trim().min(1).max(100).required(),
+  description: Joi.string().trim().max(500).allow(''),
+  network: Joi.string().valid(...SUPPORTED_NETWORKS)
+});
+
+/**
+ * Joi schema for adding or updating a watchlist entry.
+ * The address is checked against the watchlist's network by the watchlist service.
+ */
+const watchlistEntrySchema = Joi.object<WatchlistEntryRequest>({
+  address: Joi.string().trim().max(128).required(),
+  reason: Joi.string().trim().min(1).max(500).required(),
+  owner: Joi.string().trim().min(1).max(100).required(),
+  expiresAt: Joi.string().isoDate()
+});
+
+/**
+ * Joi schema for creating or updating an allowlist entry
+ */
+const allowlistSchema = Joi.object<AllowlistRequest>({
+  address: Joi.string()
+    .required()
+    .custom((value: string, helpers) => {
+      if (!isValidCryptoAddress(value)) {
+        return helpers.message({ custom: describeInvalidAddress(value) });
+      }
+      return value;
+    }),
+  counterparty: Joi.string().trim().max(100),
+  scope: Joi.string().valid('DIRECT', 'INDIRECT', 'BOTH').required(),
+  justification: Joi.string().trim().min(1).max(1000).required(),
+  reviewer: Joi.string().trim().min(1).max(100).required(),
+  expiresAt: Joi.string()
+    .isoDate()
+    .required()
+    .custom((value: string, helpers) => {
+      if (new Date(value) <= new Date()) {
+        return helpers.error('date.future');
+      }
+      return value;
+    })
+    .messages({
+      'date.future': 'expiresAt must be in the future'
+    })
+});
+
+/**
+ * Joi schema for the sanctions data import options (query string)
+ */
+const sanctionsImportSchema = Joi.object<SanctionsImportRequest>({
+  format: Joi.string().valid('csv', 'advanced-xml', 'refined-json').required(),
+  confirm: Joi.boolean().default(false),
+  allowInvalidAddresses: Joi.boolean().default(false)
+});
+
 /**
  * Validate address screening request
  */
@@ -138,6 +325,84 @@ export function validateBulkScreeningRequest(data: unknown): BulkScreeningReques
   return value;
 }
 
+/**
+ * Validate sanctions name search query
+ */
+export function validateNameSearchRequest(data: unknown): NameSearchRequest {
+  const { error, value } = nameSearchSchema.validate(data);
+  if (error) {
+    throw new ValidationError(`Invalid name search request: ${error.message}`, {
+      details: error.details
+    });
+  }
+  return value;
+}
+
+/**
+ * Validate sanctions entity listing query
+ */
+export function validateEntityListRequest(data: unknown): EntityListRequest {
+  const { error, value } = entityListSchema.validate(data);
+  if (error) {
+    throw new ValidationError(`Invalid entity list request: ${error.message}`, {
+      details: error.details
+    });
+  }
+  return value;
+}
+
+/**
+ * Validate watchlist create/update request
+ */
+export function validateWatchlistRequest(data: unknown): WatchlistRequest {
+  const { error, value } = watchlistSchema.validate(data);
+  if (error) {
+    throw new ValidationError(`Invalid watchlist request: ${error.message}`, {
+      details: error.details
+    });
+  }
+  return value;
+}
+
+/**
+ * Validate watchlist entry request
+ */
+export function validateWatchlistEntryRequest(data: unknown): WatchlistEntryRequest {
+  const { error, value } = watchlistEntrySchema.validate(data);
+  if (error) {
+    throw new ValidationError(`Invalid watchlist entry request: ${error.message}`, {
+      details: error.details
+    });
+  }
+  return value;
+}
+
+/**
+ * Validate allowlist entry request
+ */
+export function validateAllowlistRequest(data: unknown): AllowlistRequest {
+  const { error, value } = allowlistSchema.validate(data);
+  if (error) {
+    throw new ValidationError(`Invalid allowlist request: ${error.message}`, {
+      details: error.details
+    });
+  }
+  return value;
+}
+
+/**
+ * Validate sanctions data import options
+ */
+export function validateSanctionsImportRequest(data: unknown): SanctionsImportRequest {
+  const { error, value } = sanctionsImportSchema.validate(data);
+  if (error) {
+    throw new ValidationError(`Invalid sanctions import request: ${error.message}`, {
+      details: error.details
+    });
+  }
+  return value;
+}
+
 /**
  * Validate risk assessment identifier (address or transaction hash)
  */